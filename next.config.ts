@@ -4,12 +4,15 @@ const nextConfig: NextConfig = {
   async headers() {
     return [
       {
-        // Enable SharedArrayBuffer for the Gource visualization route
+        // Cross-origin isolation lets the layout worker share node positions
+        // through a SharedArrayBuffer. `credentialless` rather than
+        // `require-corp` so GitHub avatars still load without CORP headers.
+        // Without isolation the worker transfers positions instead.
         source: '/gource',
         headers: [
           {
             key: 'Cross-Origin-Embedder-Policy',
-            value: 'require-corp',
+            value: 'credentialless',
           },
           {
             key: 'Cross-Origin-Opener-Policy',
@@ -0,0 +1,212 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { cookies } from 'next/headers';
+import { fetchCommitDetail, getRateLimit, GitHubApiError } from '@/lib/github-api';
+import type { ApiResponse, CommitFile } from '@/lib/types';
+
+// =============================================================================
+// REQUEST VALIDATION
+// =============================================================================
+
+const filesBodySchema = z.object({
+  owner: z.string().min(1).max(100),
+  repo: z.string().min(1).max(100),
+  /** Commit SHAs to hydrate — kept small so one request stays well under a minute */
+  shas: z.array(z.string().regex(/^[0-9a-f]{7,40}$/i)).min(1).max(30),
+});
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface CommitFilesApiResponseData {
+  repoId: string;
+  /** Real file lists keyed by commit SHA */
+  files: Record<string, CommitFile[]>;
+  /** SHAs that errored (e.g. 404 on a force-pushed commit) */
+  failed: string[];
+  /** SHAs not attempted because the rate limit budget hit the reserve */
+  skipped: string[];
+}
+
+// =============================================================================
+// RATE LIMIT HELPERS
+// =============================================================================
+
+/**
+ * Requests left untouched so that hydration (a nice-to-have) never starves
+ * commit list fetches and incremental refreshes.
+ */
+const RATE_LIMIT_RESERVE = 200;
+
+/**
+ * Detail requests cost one call per commit, so parallelism shrinks faster
+ * than for the repo-level commit list fetches.
+ */
+function getDetailConcurrency(): number {
+  const rateLimit = getRateLimit();
+  if (rateLimit.remaining < RATE_LIMIT_RESERVE + 100) return 1;
+  if (rateLimit.remaining < 1000) return 3;
+  return 6;
+}
+
+// =============================================================================
+// ROUTE HANDLER: POST /api/github/commits/files
+// =============================================================================
+
+/**
+ * Fetch real per-commit file lists for a batch of SHAs in one repository.
+ *
+ * The list endpoint used by fetchAllRepoCommits never includes files, so the
+ * client calls this in the background to replace synthetic Gource paths.
+ *
+ * Body:
+ * {
+ *   "owner": "...",
+ *   "repo": "...",
+ *   "shas": ["<sha>", ...]   // 1–30
+ * }
+ *
+ * SHAs beyond the rate limit reserve are returned in `skipped` rather than
+ * failing the request, so the client can pause until the window resets.
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<CommitFilesApiResponseData>>> {
+  // -------------------------------------------------------------------------
+  // 1. Authenticate
+  // -------------------------------------------------------------------------
+  const cookieStore = await cookies();
+  const token = cookieStore.get('github_token')?.value;
+
+  if (!token) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'GitHub authentication required. Please connect your GitHub account.',
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  // -------------------------------------------------------------------------
+  // 2. Parse and validate request body
+  // -------------------------------------------------------------------------
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INVALID_JSON',
+          message: 'Request body must be valid JSON.',
+        },
+      },
+      { status: 400 }
+    );
+  }
+
+  const parseResult = filesBodySchema.safeParse(body);
+
+  if (!parseResult.success) {
+    const fieldErrors = parseResult.error.flatten().fieldErrors;
+    const errorMessages = Object.entries(fieldErrors)
+      .map(([field, errors]) => `${field}: ${errors?.join(', ')}`)
+      .join('; ');
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `Invalid request body: ${errorMessages}`,
+          details: JSON.stringify(parseResult.error.issues),
+        },
+      },
+      { status: 400 }
+    );
+  }
+
+  const { owner, repo, shas } = parseResult.data;
+  const repoId = `${owner}/${repo}`;
+
+  // -------------------------------------------------------------------------
+  // 3. Fetch commit details in adaptive parallel chunks
+  // -------------------------------------------------------------------------
+  const files: Record<string, CommitFile[]> = {};
+  const failed: string[] = [];
+  const skipped: string[] = [];
+  const remaining = [...new Set(shas)];
+
+  while (remaining.length > 0) {
+    if (getRateLimit().remaining < RATE_LIMIT_RESERVE) {
+      skipped.push(...remaining.splice(0));
+      break;
+    }
+
+    const shaChunk = remaining.splice(0, getDetailConcurrency());
+
+    const chunkResults = await Promise.all(
+      shaChunk.map(async (sha) => {
+        try {
+          const { commit } = await fetchCommitDetail(token, owner, repo, sha);
+          return { sha, files: commit.files, error: null };
+        } catch (error: unknown) {
+          return { sha, files: null, error };
+        }
+      })
+    );
+
+    for (const result of chunkResults) {
+      if (result.files) {
+        files[result.sha] = result.files;
+        continue;
+      }
+
+      // A 403 without rate-limit signs is a permission problem, not a reason to retry later
+      const err = result.error;
+      if (err instanceof GitHubApiError && err.isRateLimit) {
+        skipped.push(result.sha);
+      } else {
+        failed.push(result.sha);
+      }
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // 4. Respond
+  // -------------------------------------------------------------------------
+  const fetchedCount = Object.keys(files).length;
+
+  if (fetchedCount === 0 && skipped.length > 0) {
+    const rateLimit = getRateLimit();
+    const retryAfter = Math.max(1, Math.ceil((rateLimit.resetAt - Date.now()) / 1000));
+
+    return NextResponse.json(
+      {
+        success: false,
+        data: { repoId, files, failed, skipped },
+        error: {
+          code: 'RATE_LIMITED',
+          message: 'GitHub API rate limit reserve reached. File hydration paused.',
+        },
+        rateLimit,
+      },
+      {
+        status: 429,
+        headers: { 'Retry-After': String(retryAfter) },
+      }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: { repoId, files, failed, skipped },
+    rateLimit: getRateLimit(),
+  });
+}
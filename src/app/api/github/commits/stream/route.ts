@@ -2,11 +2,15 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { cookies } from 'next/headers';
 import {
-  fetchAllRepoCommits,
-  getRateLimit,
-} from '@/lib/github-api';
-import { GitHubApiError } from '@/lib/github-api';
-import type { CommitData } from '@/lib/types';
+  createGitProvider,
+  getAdaptiveChunkSize,
+  readProviderCredentials,
+  PROVIDER_LABELS,
+  REMOTE_SOURCES,
+} from '@/lib/git-provider';
+import { ProviderApiError } from '@/lib/provider-http';
+import type { CommitData, GitProvider, RemoteRepositorySource } from '@/lib/types';
+import { RepositorySource } from '@/lib/types';
 
 // =============================================================================
 // REQUEST VALIDATION
@@ -16,7 +20,12 @@ const streamBodySchema = z.object({
   repos: z
     .array(
       z.object({
-        owner: z.string().min(1).max(100),
+        /** Hosting provider — defaults to GitHub for older clients */
+        source: z
+          .enum(REMOTE_SOURCES as [RemoteRepositorySource, ...RemoteRepositorySource[]])
+          .default(RepositorySource.GITHUB),
+        /** GitLab namespaces may contain slashes (nested groups) */
+        owner: z.string().min(1).max(255),
         repo: z.string().min(1).max(100),
       })
     )
@@ -28,17 +37,6 @@ const streamBodySchema = z.object({
   maxCommitsPerRepo: z.number().int().positive().max(50000).default(10000),
 });
 
-// =============================================================================
-// ADAPTIVE CONCURRENCY
-// =============================================================================
-
-function getAdaptiveChunkSize(): number {
-  const rateLimit = getRateLimit();
-  if (rateLimit.remaining < 50) return 1;
-  if (rateLimit.remaining < 200) return 2;
-  return 5;
-}
-
 // =============================================================================
 // ROUTE HANDLER: POST /api/github/commits/stream
 // =============================================================================
@@ -48,28 +46,15 @@ function getAdaptiveChunkSize(): number {
  * Each line is a complete JSON object for one repo's results:
  *   {"repoId":"owner/repo","commits":[...],"totalFetched":N,"error":null}\n
  *
+ * Repos are dispatched to their provider (GitHub, GitLab or Gitea) using the
+ * credentials stored in that provider's cookies; repoId is the provider's
+ * Repository.fullName (host-prefixed for self-hosted instances).
+ *
  * Results are streamed as soon as each repo finishes, so the client
  * can start rendering before all repos complete.
  */
 export async function POST(request: NextRequest): Promise<Response> {
-  // 1. Authenticate
-  const cookieStore = await cookies();
-  const token = cookieStore.get('github_token')?.value;
-
-  if (!token) {
-    return NextResponse.json(
-      {
-        success: false,
-        error: {
-          code: 'UNAUTHORIZED',
-          message: 'GitHub authentication required.',
-        },
-      },
-      { status: 401 }
-    );
-  }
-
-  // 2. Parse body
+  // 1. Parse body
   let body: unknown;
   try {
     body = await request.json();
@@ -99,6 +84,27 @@ export async function POST(request: NextRequest): Promise<Response> {
 
   const { repos, since, until, maxCommitsPerRepo } = parseResult.data;
 
+  // 2. Authenticate every provider the request touches
+  const cookieStore = await cookies();
+  const providers = new Map<RemoteRepositorySource, GitProvider>();
+
+  for (const source of new Set(repos.map((r) => r.source))) {
+    const credentials = readProviderCredentials(cookieStore, source);
+    if (!credentials) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: `${PROVIDER_LABELS[source]} authentication required.`,
+          },
+        },
+        { status: 401 }
+      );
+    }
+    providers.set(source, createGitProvider(credentials));
+  }
+
   // 3. Create streaming response
   const encoder = new TextEncoder();
 
@@ -107,21 +113,16 @@ export async function POST(request: NextRequest): Promise<Response> {
       const remaining = [...repos];
 
       while (remaining.length > 0) {
-        const chunkSize = getAdaptiveChunkSize();
+        const chunkSize = getAdaptiveChunkSize([...providers.values()]);
         const batch = remaining.splice(0, chunkSize);
 
         // Fetch batch in parallel
         const results = await Promise.allSettled(
-          batch.map(async ({ owner, repo }) => {
-            const repoId = `${owner}/${repo}`;
+          batch.map(async ({ source, owner, repo }) => {
+            const provider = providers.get(source)!;
+            const repoId = provider.getRepoId(owner, repo);
             try {
-              const result = await fetchAllRepoCommits(
-                token,
-                owner,
-                repo,
-                since,
-                until
-              );
+              const result = await provider.fetchAllCommits(owner, repo, { since, until });
 
               const cappedCommits: CommitData[] = result.commits.slice(0, maxCommitsPerRepo);
 
@@ -133,8 +134,8 @@ export async function POST(request: NextRequest): Promise<Response> {
               };
             } catch (error: unknown) {
               const errMessage =
-                error instanceof GitHubApiError
-                  ? `GitHub API error (${error.status}): ${error.message}`
+                error instanceof ProviderApiError
+                  ? `${provider.label} API error (${error.status}): ${error.message}`
                   : error instanceof Error
                     ? error.message
                     : 'Unknown error';
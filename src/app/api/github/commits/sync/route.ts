@@ -0,0 +1,201 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { cookies } from 'next/headers';
+import {
+  createGitProvider,
+  getAdaptiveChunkSize,
+  readProviderCredentials,
+  PROVIDER_LABELS,
+  REMOTE_SOURCES,
+} from '@/lib/git-provider';
+import { ProviderApiError } from '@/lib/provider-http';
+import type {
+  ApiResponse,
+  GitProvider,
+  RemoteRepositorySource,
+  RepoSyncResult,
+} from '@/lib/types';
+import { RepositorySource } from '@/lib/types';
+
+// =============================================================================
+// REQUEST VALIDATION
+// =============================================================================
+
+const sha = z.string().regex(/^[0-9a-f]{7,64}$/i);
+
+const syncBodySchema = z.object({
+  repos: z
+    .array(
+      z.object({
+        source: z
+          .enum(REMOTE_SOURCES as [RemoteRepositorySource, ...RemoteRepositorySource[]])
+          .default(RepositorySource.GITHUB),
+        /** GitLab namespaces may contain slashes (nested groups) */
+        owner: z.string().min(1).max(255),
+        repo: z.string().min(1).max(100),
+        defaultBranch: z.string().min(1).max(255),
+        /** High-water marks from the client's commit cache */
+        newestSha: sha.nullable(),
+        newestTimestamp: z.string().datetime({ offset: true }).nullable(),
+        headSha: sha.nullable(),
+      })
+    )
+    .min(1)
+    .max(50),
+  maxCommitsPerRepo: z.number().int().positive().max(50000).default(10000),
+});
+
+type SyncRequestRepo = z.infer<typeof syncBodySchema>['repos'][number];
+
+// =============================================================================
+// SYNC
+// =============================================================================
+
+/**
+ * Compare one repo's cached high-water marks against its default branch.
+ * Only a fast-forward fetches commits, and only those since the newest
+ * cached timestamp.
+ */
+async function syncRepo(
+  provider: GitProvider,
+  item: SyncRequestRepo,
+  maxCommits: number
+): Promise<RepoSyncResult> {
+  const { owner, repo, defaultBranch, newestSha, newestTimestamp } = item;
+  const repoId = provider.getRepoId(owner, repo);
+  const headSha = await provider.fetchBranchHead(owner, repo, defaultBranch);
+
+  // Entries cached before their first sync only know their newest commit
+  const knownSha = item.headSha ?? newestSha;
+  if (!knownSha || !newestTimestamp) {
+    return { repoId, status: 'rewritten', headSha, commits: [], error: null };
+  }
+
+  if (headSha === knownSha) {
+    return { repoId, status: 'unchanged', headSha, commits: [], error: null };
+  }
+
+  if (!(await provider.isAncestor(owner, repo, knownSha, headSha))) {
+    return { repoId, status: 'rewritten', headSha, commits: [], error: null };
+  }
+
+  const { commits } = await provider.fetchAllCommits(owner, repo, { since: newestTimestamp });
+  return {
+    repoId,
+    status: 'fast-forward',
+    headSha,
+    commits: commits.slice(0, maxCommits),
+    error: null,
+  };
+}
+
+// =============================================================================
+// ROUTE HANDLER: POST /api/github/commits/sync
+// =============================================================================
+
+/**
+ * Incremental commit sync for repos the client already has cached.
+ *
+ * Body:
+ * {
+ *   "repos": [{ "source", "owner", "repo", "defaultBranch",
+ *               "newestSha", "newestTimestamp", "headSha" }]
+ * }
+ *
+ * Each result is "unchanged", "fast-forward" (with the new commits) or
+ * "rewritten" — the client discards a rewritten repo's cache and refetches
+ * its full history.
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<{ results: RepoSyncResult[] }>>> {
+  // 1. Parse body
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INVALID_JSON', message: 'Request body must be valid JSON.' },
+      },
+      { status: 400 }
+    );
+  }
+
+  const parseResult = syncBodySchema.safeParse(body);
+  if (!parseResult.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `Invalid request body: ${parseResult.error.message}`,
+        },
+      },
+      { status: 400 }
+    );
+  }
+
+  const { repos, maxCommitsPerRepo } = parseResult.data;
+
+  // 2. Authenticate every provider the request touches
+  const cookieStore = await cookies();
+  const providers = new Map<RemoteRepositorySource, GitProvider>();
+
+  for (const source of new Set(repos.map((r) => r.source))) {
+    const credentials = readProviderCredentials(cookieStore, source);
+    if (!credentials) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: `${PROVIDER_LABELS[source]} authentication required.`,
+          },
+        },
+        { status: 401 }
+      );
+    }
+    providers.set(source, createGitProvider(credentials));
+  }
+
+  // 3. Sync in rate-limit-sized batches
+  const results: RepoSyncResult[] = [];
+  const remaining = [...repos];
+
+  while (remaining.length > 0) {
+    const batch = remaining.splice(0, getAdaptiveChunkSize([...providers.values()]));
+
+    const batchResults = await Promise.all(
+      batch.map(async (item) => {
+        const provider = providers.get(item.source)!;
+        try {
+          return await syncRepo(provider, item, maxCommitsPerRepo);
+        } catch (error: unknown) {
+          const errMessage =
+            error instanceof ProviderApiError
+              ? `${provider.label} API error (${error.status}): ${error.message}`
+              : error instanceof Error
+                ? error.message
+                : 'Unknown error';
+
+          return {
+            repoId: provider.getRepoId(item.owner, item.repo),
+            status: 'unchanged' as const,
+            headSha: null,
+            commits: [],
+            error: errMessage,
+          };
+        }
+      })
+    );
+
+    results.push(...batchResults);
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: { results },
+  });
+}
@@ -1,7 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { cookies } from 'next/headers';
-import { fetchRepoLanguages, GitHubApiError } from '@/lib/github-api';
+import {
+  createGitProvider,
+  parseRemoteSource,
+  readProviderCredentials,
+  PROVIDER_LABELS,
+} from '@/lib/git-provider';
+import { ProviderApiError } from '@/lib/provider-http';
 import type { ApiResponse } from '@/lib/types';
 
 const querySchema = z.object({
@@ -9,61 +15,68 @@ const querySchema = z.object({
     .string()
     .min(1)
     .refine((val) => val.includes('/'), 'Must be in "owner/repo" format'),
+  source: z.string().optional(),
 });
 
 /**
- * GET /api/github/languages?repo=owner/repo
+ * GET /api/github/languages?repo=owner/repo[&source=gitlab|gitea]
  *
  * Fetches language breakdown for a single repository.
- * Returns Record<string, number> mapping language names to bytes.
+ * Returns Record<string, number> mapping language names to bytes
+ * (percentages for GitLab, which doesn't report byte counts).
  */
 export async function GET(
   request: NextRequest
 ): Promise<NextResponse<ApiResponse<{ languages: Record<string, number> }>>> {
-  const cookieStore = await cookies();
-  const token = cookieStore.get('github_token')?.value;
+  const rawParams = {
+    repo: request.nextUrl.searchParams.get('repo') || '',
+    source: request.nextUrl.searchParams.get('source') ?? undefined,
+  };
 
-  if (!token) {
+  const parseResult = querySchema.safeParse(rawParams);
+  const source = parseResult.success ? parseRemoteSource(parseResult.data.source) : null;
+  if (!parseResult.success || !source) {
     return NextResponse.json(
       {
         success: false,
         error: {
-          code: 'UNAUTHORIZED',
-          message: 'GitHub authentication required.',
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid repo parameter. Expected "owner/repo".',
         },
       },
-      { status: 401 }
+      { status: 400 }
     );
   }
 
-  const rawParams = {
-    repo: request.nextUrl.searchParams.get('repo') || '',
-  };
+  const cookieStore = await cookies();
+  const credentials = readProviderCredentials(cookieStore, source);
 
-  const parseResult = querySchema.safeParse(rawParams);
-  if (!parseResult.success) {
+  if (!credentials) {
     return NextResponse.json(
       {
         success: false,
         error: {
-          code: 'VALIDATION_ERROR',
-          message: 'Invalid repo parameter. Expected "owner/repo".',
+          code: 'UNAUTHORIZED',
+          message: `${PROVIDER_LABELS[source]} authentication required.`,
         },
       },
-      { status: 400 }
+      { status: 401 }
     );
   }
 
-  const [owner, repo] = parseResult.data.repo.split('/');
+  // Split on the last slash — GitLab owners can be nested groups
+  const path = parseResult.data.repo;
+  const owner = path.slice(0, path.lastIndexOf('/'));
+  const repo = path.slice(path.lastIndexOf('/') + 1);
 
   try {
-    const result = await fetchRepoLanguages(token, owner, repo);
+    const languages = await createGitProvider(credentials).fetchLanguages(owner, repo);
     return NextResponse.json({
       success: true,
-      data: { languages: result.languages },
+      data: { languages },
     });
   } catch (error: unknown) {
-    if (error instanceof GitHubApiError) {
+    if (error instanceof ProviderApiError) {
       return NextResponse.json(
         {
           success: false,
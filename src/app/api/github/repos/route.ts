@@ -1,14 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { fetchUserRepos, searchUserRepos } from '@/lib/github-api';
-import { GitHubApiError } from '@/lib/github-api';
+import {
+  createGitProvider,
+  parseRemoteSource,
+  readProviderCredentials,
+  PROVIDER_COOKIES,
+  PROVIDER_LABELS,
+} from '@/lib/git-provider';
+import { ProviderApiError } from '@/lib/provider-http';
 import type {
   ApiResponse,
   Repository,
   GitHubPagination,
   GitHubRateLimit,
+  ProviderCredentials,
+  RemoteRepositorySource,
   RepoSortOption,
 } from '@/lib/types';
+import { RepositorySource } from '@/lib/types';
 
 // =============================================================================
 // Request validation schema
@@ -54,6 +63,8 @@ const querySchema = z.object({
     .default('false')
     .transform((val) => val === 'true'),
   language: z.string().optional().default(''),
+  /** Which provider to list from — github (default), gitlab or gitea */
+  provider: z.string().optional(),
 });
 
 type ValidatedQuery = z.infer<typeof querySchema>;
@@ -62,6 +73,22 @@ type ValidatedQuery = z.infer<typeof querySchema>;
 // Helpers
 // =============================================================================
 
+/**
+ * Resolve provider credentials from the request.
+ * Self-hosted providers only use their cookies (set by /api/providers/connect);
+ * GitHub also accepts header tokens via extractGitHubToken.
+ */
+function extractCredentials(
+  request: NextRequest,
+  source: RemoteRepositorySource
+): ProviderCredentials | null {
+  if (source !== RepositorySource.GITHUB) {
+    return readProviderCredentials(request.cookies, source);
+  }
+  const token = extractGitHubToken(request);
+  return token ? { source, token, baseUrl: null } : null;
+}
+
 /**
  * Extract GitHub token from the request.
  * Checks the httpOnly cookie first (set by /api/github/callback per Rule 13),
@@ -194,21 +221,7 @@ function buildErrorResponse(
 // =============================================================================
 
 export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<Repository[]>>> {
-  // 1. Extract token (Rule 13, Rule 21)
-  const token = extractGitHubToken(request);
-
-  if (!token) {
-    return NextResponse.json(
-      buildErrorResponse(
-        'UNAUTHORIZED',
-        'GitHub authentication required. Please connect your GitHub account.',
-        'No valid GitHub token found in cookies or Authorization header.'
-      ),
-      { status: 401 }
-    );
-  }
-
-  // 2. Parse and validate query parameters
+  // 1. Parse and validate query parameters
   const { searchParams } = request.nextUrl;
   const rawQuery: Record<string, string> = {};
   for (const [key, value] of searchParams.entries()) {
@@ -234,12 +247,40 @@ export async function GET(request: NextRequest): Promise<NextResponse<ApiRespons
 
   const query = parseResult.data;
 
+  const source = parseRemoteSource(query.provider);
+  if (!source) {
+    return NextResponse.json(
+      buildErrorResponse(
+        'VALIDATION_ERROR',
+        'Invalid query parameters.',
+        `provider: unsupported provider "${query.provider}"`
+      ),
+      { status: 400 }
+    );
+  }
+  const label = PROVIDER_LABELS[source];
+
+  // 2. Resolve credentials (Rule 13, Rule 21)
+  const credentials = extractCredentials(request, source);
+
+  if (!credentials) {
+    return NextResponse.json(
+      buildErrorResponse(
+        'UNAUTHORIZED',
+        `${label} authentication required. Please connect your ${label} account.`,
+        `No valid ${label} token found in cookies${source === RepositorySource.GITHUB ? ' or Authorization header' : ''}.`
+      ),
+      { status: 401 }
+    );
+  }
+
+  const provider = createGitProvider(credentials);
+
   try {
     // 3. Branch: search query vs. standard list
     if (query.search && query.search.trim().length > 0) {
-      // Use GitHub search API for text-based repo search
-      const searchResult = await searchUserRepos(
-        token,
+      // Use the provider's search API for text-based repo search
+      const searchResult = await provider.searchRepositories(
         query.search.trim(),
         query.page,
         query.per_page
@@ -285,10 +326,10 @@ export async function GET(request: NextRequest): Promise<NextResponse<ApiRespons
       );
     }
 
-    // 4. Standard paginated repo listing via fetchUserRepos
+    // 4. Standard paginated repo listing
     const { sort: ghSort, direction: ghDirection } = mapSortToGitHubParams(query.sort);
 
-    const result = await fetchUserRepos(token, {
+    const result = await provider.listRepositories({
       page: query.page,
       perPage: query.per_page,
       sort: ghSort,
@@ -306,7 +347,7 @@ export async function GET(request: NextRequest): Promise<NextResponse<ApiRespons
     // Re-sort client-side if using app-specific sort options
     const sortedRepos = applySorting(filteredRepos, query.sort);
 
-    // Build pagination from the GitHub API response
+    // Build pagination from the provider response
     const pagination: GitHubPagination = {
       page: result.pagination.page,
       perPage: result.pagination.perPage,
@@ -340,7 +381,7 @@ export async function GET(request: NextRequest): Promise<NextResponse<ApiRespons
     );
   } catch (error: unknown) {
     // 5. Error handling chain (Rule 17)
-    if (error instanceof GitHubApiError) {
+    if (error instanceof ProviderApiError) {
       const status = error.status;
 
       // Rate limit error — include retryAfter for countdown timer (Rule 17)
@@ -352,7 +393,7 @@ export async function GET(request: NextRequest): Promise<NextResponse<ApiRespons
             success: false,
             error: {
               code: 'RATE_LIMITED',
-              message: 'GitHub API rate limit exceeded. Please wait before retrying.',
+              message: `${label} API rate limit exceeded. Please wait before retrying.`,
               details: `Retry after ${retryAfter} seconds.`,
             },
             rateLimit: {
@@ -378,14 +419,14 @@ export async function GET(request: NextRequest): Promise<NextResponse<ApiRespons
         return NextResponse.json(
           buildErrorResponse(
             'TOKEN_EXPIRED',
-            'Your GitHub token has expired or been revoked. Please reconnect your GitHub account.',
+            `Your ${label} token has expired or been revoked. Please reconnect your ${label} account.`,
             error.message
           ),
           {
             status: 401,
             headers: {
               // Clear the invalid cookie so AuthProvider can detect disconnection
-              'Set-Cookie': 'github_token=; Path=/; Max-Age=0; HttpOnly; SameSite=Lax',
+              'Set-Cookie': `${PROVIDER_COOKIES[source].token}=; Path=/; Max-Age=0; HttpOnly; SameSite=Lax`,
             },
           }
         );
@@ -396,30 +437,30 @@ export async function GET(request: NextRequest): Promise<NextResponse<ApiRespons
         return NextResponse.json(
           buildErrorResponse(
             'NOT_FOUND',
-            'The requested resource was not found on GitHub.',
+            `The requested resource was not found on ${label}.`,
             error.message
           ),
           { status: 404 }
         );
       }
 
-      // Server error from GitHub
+      // Server error from the provider
       if (status >= 500) {
         return NextResponse.json(
           buildErrorResponse(
             'GITHUB_SERVER_ERROR',
-            'GitHub is experiencing issues. Please try again later.',
+            `${label} is experiencing issues. Please try again later.`,
             error.message
           ),
           { status: 502 }
         );
       }
 
-      // Other GitHub API errors
+      // Other provider API errors
       return NextResponse.json(
         buildErrorResponse(
           'GITHUB_API_ERROR',
-          error.message || 'An error occurred while fetching repositories from GitHub.',
+          error.message || `An error occurred while fetching repositories from ${label}.`,
           `Status: ${status}`
         ),
         { status: Math.min(status, 599) }
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { cookies } from 'next/headers';
+import {
+  createGitProvider,
+  parseRemoteSource,
+  readProviderCredentials,
+  PROVIDER_LABELS,
+} from '@/lib/git-provider';
+import { ProviderApiError } from '@/lib/provider-http';
+import type { ApiResponse, ProviderTag } from '@/lib/types';
+
+const querySchema = z.object({
+  repo: z
+    .string()
+    .min(1)
+    .refine((val) => val.includes('/'), 'Must be in "owner/repo" format'),
+  source: z.string().optional(),
+});
+
+/**
+ * GET /api/github/tags?repo=owner/repo[&source=gitlab|gitea]
+ *
+ * Fetches the tags of a single repository, for Gource annotations.
+ * Tag dates fall back to the tagged commit's date, or null where the
+ * provider reports neither.
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<{ tags: ProviderTag[] }>>> {
+  const rawParams = {
+    repo: request.nextUrl.searchParams.get('repo') || '',
+    source: request.nextUrl.searchParams.get('source') ?? undefined,
+  };
+
+  const parseResult = querySchema.safeParse(rawParams);
+  const source = parseResult.success ? parseRemoteSource(parseResult.data.source) : null;
+  if (!parseResult.success || !source) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid repo parameter. Expected "owner/repo".',
+        },
+      },
+      { status: 400 }
+    );
+  }
+
+  const cookieStore = await cookies();
+  const credentials = readProviderCredentials(cookieStore, source);
+
+  if (!credentials) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: `${PROVIDER_LABELS[source]} authentication required.`,
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  // Split on the last slash — GitLab owners can be nested groups
+  const path = parseResult.data.repo;
+  const owner = path.slice(0, path.lastIndexOf('/'));
+  const repo = path.slice(path.lastIndexOf('/') + 1);
+
+  try {
+    const tags = await createGitProvider(credentials).fetchTags(owner, repo);
+    return NextResponse.json({
+      success: true,
+      data: { tags },
+    });
+  } catch (error: unknown) {
+    if (error instanceof ProviderApiError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'GITHUB_API_ERROR',
+            message: error.message,
+          },
+        },
+        { status: error.status >= 500 ? 502 : error.status }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to fetch tags.',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,182 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  createGitProvider,
+  readProviderCredentials,
+  PROVIDER_COOKIES,
+  PROVIDER_LABELS,
+} from '@/lib/git-provider';
+import { normalizeProviderBaseUrl, ProviderApiError } from '@/lib/provider-http';
+import type { ApiResponse, ProviderConnection } from '@/lib/types';
+import { RepositorySource } from '@/lib/types';
+
+// =============================================================================
+// REQUEST VALIDATION
+// =============================================================================
+
+/** GitHub connects through OAuth (/api/github/callback), not this route. */
+const selfHostedSource = z.enum([RepositorySource.GITLAB, RepositorySource.GITEA]);
+
+const connectBodySchema = z.object({
+  source: selfHostedSource,
+  baseUrl: z.string().min(1).max(500),
+  token: z.string().min(8).max(500),
+});
+
+const SELF_HOSTED_SOURCES = selfHostedSource.options;
+
+// =============================================================================
+// COOKIE CONFIGURATION
+// =============================================================================
+
+const COOKIE_MAX_AGE_SECONDS = 60 * 60 * 24 * 30; // 30 days
+
+function cookieOptions(httpOnly: boolean) {
+  return {
+    httpOnly,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax' as const,
+    path: '/',
+    maxAge: COOKIE_MAX_AGE_SECONDS,
+  };
+}
+
+// =============================================================================
+// GET /api/providers/connect — list self-hosted connections
+// =============================================================================
+
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<ProviderConnection[]>>> {
+  const connections: ProviderConnection[] = [];
+
+  for (const source of SELF_HOSTED_SOURCES) {
+    const credentials = readProviderCredentials(request.cookies, source);
+    if (credentials?.baseUrl) {
+      connections.push({ source, baseUrl: credentials.baseUrl, user: null });
+    }
+  }
+
+  return NextResponse.json({ success: true, data: connections });
+}
+
+// =============================================================================
+// POST /api/providers/connect — validate and store a GitLab / Gitea token
+// =============================================================================
+
+/**
+ * Body:
+ * {
+ *   "source": "gitlab" | "gitea",
+ *   "baseUrl": "https://gitlab.example.com",
+ *   "token": "<personal access token>"
+ * }
+ *
+ * The token is validated against the instance's /user endpoint before being
+ * stored in an httpOnly cookie. The instance URL cookie is readable so the
+ * client can show where it is connected.
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<ProviderConnection>>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INVALID_JSON', message: 'Request body must be valid JSON.' },
+      },
+      { status: 400 }
+    );
+  }
+
+  const parseResult = connectBodySchema.safeParse(body);
+  if (!parseResult.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request body: expected source, baseUrl and token.',
+          details: JSON.stringify(parseResult.error.issues),
+        },
+      },
+      { status: 400 }
+    );
+  }
+
+  const { source, token } = parseResult.data;
+  const label = PROVIDER_LABELS[source];
+
+  try {
+    const baseUrl = normalizeProviderBaseUrl(parseResult.data.baseUrl);
+    const user = await createGitProvider({ source, token, baseUrl }).validateConnection();
+
+    const response = NextResponse.json({
+      success: true,
+      data: { source, baseUrl, user },
+    });
+    response.cookies.set(PROVIDER_COOKIES[source].token, token, cookieOptions(true));
+    response.cookies.set(PROVIDER_COOKIES[source].url!, baseUrl, cookieOptions(false));
+    return response;
+  } catch (error: unknown) {
+    if (error instanceof ProviderApiError) {
+      const status = error.isUnauthorized || error.status === 403 ? 401 : error.status === 400 ? 400 : 502;
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: status === 401 ? 'UNAUTHORIZED' : status === 400 ? 'VALIDATION_ERROR' : 'PROVIDER_UNREACHABLE',
+            message:
+              status === 401
+                ? `${label} rejected the token. Check that it has the read_api / read:repository scope.`
+                : status === 400
+                  ? error.message
+                  : `Could not reach ${label} at that URL.`,
+            details: error.message,
+          },
+        },
+        { status }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'PROVIDER_UNREACHABLE',
+          message: `Could not reach ${label} at that URL.`,
+          details: error instanceof Error ? error.message : undefined,
+        },
+      },
+      { status: 502 }
+    );
+  }
+}
+
+// =============================================================================
+// DELETE /api/providers/connect?source=gitlab — disconnect
+// =============================================================================
+
+export async function DELETE(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<{ source: string }>>> {
+  const parseResult = selfHostedSource.safeParse(request.nextUrl.searchParams.get('source'));
+  if (!parseResult.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'source must be "gitlab" or "gitea".' },
+      },
+      { status: 400 }
+    );
+  }
+
+  const source = parseResult.data;
+  const response = NextResponse.json({ success: true, data: { source } });
+  response.cookies.delete(PROVIDER_COOKIES[source].token);
+  response.cookies.delete(PROVIDER_COOKIES[source].url!);
+  return response;
+}
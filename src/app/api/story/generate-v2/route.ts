@@ -1,13 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import type { ApiResponse } from '@/lib/types';
-import { callClaudeApi, ClaudeApiError } from '@/lib/claude-api';
-
-// =============================================================================
-// CONSTANTS
-// =============================================================================
-
-const DEFAULT_MODEL = 'claude-sonnet-4-5-20250929';
+import { callClaudeApi, condenseText, ClaudeApiError } from '@/lib/claude-api';
+import { getLlmProvider, inputTokenBudget } from '@/lib/llm-provider';
+import type { LlmProvider } from '@/lib/llm-provider';
+import {
+  ALLOWED_MODELS,
+  DEFAULT_MODEL,
+  PROMPT_TEMPLATE_IDS,
+  renderPrompt,
+  renderPromptToFit,
+} from '@/lib/prompt-registry';
+import { RateLimiter, sessionKeyForRequest } from '@/lib/rate-limiter';
 
 // =============================================================================
 // AUTH HELPERS
@@ -30,14 +34,27 @@ function extractClaudeToken(request: NextRequest): string | null {
 // REQUEST VALIDATION
 // =============================================================================
 
+// Like the streaming route, each pass names a registered template and supplies
+// its inputs; the server renders the prompt.
 const NarrativeRequestSchema = z.object({
-  pass: z.enum(['analysis', 'correlation', 'narrative']),
-  systemPrompt: z.string().min(1),
-  userMessage: z.string().min(1),
-  maxTokens: z.number().min(100).max(16384).default(4096),
+  templateId: z.enum(PROMPT_TEMPLATE_IDS),
+  inputs: z.unknown(),
+  maxTokens: z.number().int().min(100).optional(),
   temperature: z.number().min(0).max(1).default(0.7),
-  model: z.string().optional(),
-  repoId: z.string().optional(),
+  model: z.enum(ALLOWED_MODELS).default(DEFAULT_MODEL),
+  repoId: z.string().max(500).optional(),
+});
+
+// =============================================================================
+// RATE LIMITING
+// =============================================================================
+
+// One multi-pass story is a call per repository, a chapter plan and a call per
+// chapter, with up to eight chapters written at once
+const rateLimiter = new RateLimiter({
+  maxRequests: 60,
+  windowMs: 10 * 60 * 1000,
+  maxConcurrent: 8,
 });
 
 // =============================================================================
@@ -45,17 +62,33 @@ const NarrativeRequestSchema = z.object({
 // =============================================================================
 
 export async function POST(request: NextRequest): Promise<Response> {
-  // Step 1: Validate Claude token
-  const claudeToken = extractClaudeToken(request);
+  let provider: LlmProvider;
+  try {
+    provider = getLlmProvider();
+  } catch (error: unknown) {
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: {
+          code: 'PROVIDER_MISCONFIGURED',
+          message: error instanceof Error ? error.message : 'Story provider is misconfigured.',
+        },
+      },
+      { status: 500 }
+    );
+  }
+
+  // Step 1: Validate Claude token (or a local provider's access key)
+  const claudeToken = extractClaudeToken(request) ?? '';
 
-  if (!claudeToken) {
+  if (!provider.authorize(claudeToken)) {
     return NextResponse.json<ApiResponse>(
       {
         success: false,
         error: {
           code: 'UNAUTHORIZED',
           message:
-            'Missing or invalid Claude API token. Provide a valid Bearer token in the Authorization header.',
+            'Missing or invalid token. Provide your Claude API token, or this server\'s LLM access key, as a Bearer token in the Authorization header.',
         },
       },
       { status: 401 }
@@ -101,12 +134,58 @@ export async function POST(request: NextRequest): Promise<Response> {
 
   const requestData = parseResult.data;
 
+  const rendered = renderPrompt(requestData.templateId, requestData.inputs, requestData.maxTokens);
+  if (!rendered.success) {
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid template inputs.',
+          details: rendered.issues
+            .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+            .join('; '),
+        },
+      },
+      { status: 400 }
+    );
+  }
+
+  const limit = rateLimiter.acquire(
+    sessionKeyForRequest(request, claudeToken, provider.id !== 'anthropic'),
+  );
+  if (!limit.allowed) {
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: {
+          code: 'RATE_LIMITED',
+          message:
+            limit.reason === 'concurrency'
+              ? 'Too many story passes are running for this session. Wait for them to finish.'
+              : 'Too many generation requests. Please try again later.',
+        },
+      },
+      { status: 429, headers: { 'Retry-After': String(limit.retryAfterSeconds) } }
+    );
+  }
+
   try {
+    // The client sizes passes for Claude; a smaller window gets the data condensed in chunks
+    const fitted = await renderPromptToFit(
+      requestData.templateId,
+      requestData.inputs,
+      requestData.maxTokens,
+      inputTokenBudget(provider, rendered.prompt.maxTokens),
+      (text, targetTokens) => condenseText(claudeToken, text, targetTokens, 'this history')
+    );
+    const prompt = fitted.success ? fitted.prompt : rendered.prompt;
+
     const result = await callClaudeApi(claudeToken, {
-      model: requestData.model || DEFAULT_MODEL,
-      maxTokens: requestData.maxTokens,
-      systemPrompt: requestData.systemPrompt,
-      userMessage: requestData.userMessage,
+      model: requestData.model,
+      maxTokens: prompt.maxTokens,
+      systemPrompt: prompt.systemPrompt,
+      userMessage: prompt.userMessage,
       temperature: requestData.temperature,
       stream: false,
     });
@@ -115,7 +194,7 @@ export async function POST(request: NextRequest): Promise<Response> {
       ApiResponse<{
         content: string;
         usage: { inputTokens: number; outputTokens: number };
-        pass: string;
+        templateId: string;
         repoId?: string;
       }>
     >(
@@ -124,7 +203,7 @@ export async function POST(request: NextRequest): Promise<Response> {
         data: {
           content: result.content,
           usage: result.usage,
-          pass: requestData.pass,
+          templateId: requestData.templateId,
           repoId: requestData.repoId,
         },
       },
@@ -158,7 +237,7 @@ export async function POST(request: NextRequest): Promise<Response> {
           : 500;
 
     console.error(
-      `[/api/story/generate-v2] Error (pass: ${requestData.pass}):`,
+      `[/api/story/generate-v2] Error (template: ${requestData.templateId}):`,
       message
     );
 
@@ -178,6 +257,8 @@ export async function POST(request: NextRequest): Promise<Response> {
       },
       { status: statusCode }
     );
+  } finally {
+    limit.release();
   }
 }
 
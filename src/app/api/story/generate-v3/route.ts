@@ -1,6 +1,16 @@
 import { NextRequest } from 'next/server';
 import { z } from 'zod';
-import { callClaudeApiStreaming, ClaudeApiError } from '@/lib/claude-api';
+import { callClaudeApiStreaming, condenseText, ClaudeApiError } from '@/lib/claude-api';
+import { getLlmProvider, inputTokenBudget } from '@/lib/llm-provider';
+import type { LlmProvider } from '@/lib/llm-provider';
+import {
+  ALLOWED_MODELS,
+  DEFAULT_MODEL,
+  PROMPT_TEMPLATE_IDS,
+  renderPrompt,
+  renderPromptToFit,
+} from '@/lib/prompt-registry';
+import { RateLimiter, sessionKeyForRequest } from '@/lib/rate-limiter';
 
 // =============================================================================
 // AUTH
@@ -23,12 +33,25 @@ function extractClaudeToken(request: NextRequest): string | null {
 // VALIDATION
 // =============================================================================
 
+// Prompts are rendered server-side from a registered template; clients only
+// choose the template and supply its inputs.
 const StreamRequestSchema = z.object({
-  systemPrompt: z.string().min(1),
-  userMessage: z.string().min(1),
-  maxTokens: z.number().min(100).max(32000).default(16384),
+  templateId: z.enum(PROMPT_TEMPLATE_IDS),
+  inputs: z.unknown(),
+  maxTokens: z.number().int().min(100).optional(),
   temperature: z.number().min(0).max(1).default(0.7),
-  model: z.string().default('claude-sonnet-4-5-20250929'),
+  model: z.enum(ALLOWED_MODELS).default(DEFAULT_MODEL),
+});
+
+// =============================================================================
+// RATE LIMITING
+// =============================================================================
+
+// A story is one long call, so a handful per window is plenty for real use
+const rateLimiter = new RateLimiter({
+  maxRequests: 10,
+  windowMs: 10 * 60 * 1000,
+  maxConcurrent: 2,
 });
 
 // =============================================================================
@@ -49,11 +72,22 @@ function formatSSE(event: StreamEvent): string {
 // =============================================================================
 
 export async function POST(request: NextRequest): Promise<Response> {
-  const claudeToken = extractClaudeToken(request);
+  let provider: LlmProvider;
+  try {
+    provider = getLlmProvider();
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Story provider is misconfigured.';
+    return new Response(
+      JSON.stringify({ error: message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
 
-  if (!claudeToken) {
+  const claudeToken = extractClaudeToken(request) ?? '';
+
+  if (!provider.authorize(claudeToken)) {
     return new Response(
-      JSON.stringify({ error: 'Missing or invalid Claude API token.' }),
+      JSON.stringify({ error: 'Missing or invalid Claude API token or LLM access key.' }),
       { status: 401, headers: { 'Content-Type': 'application/json' } }
     );
   }
@@ -78,6 +112,33 @@ export async function POST(request: NextRequest): Promise<Response> {
 
   const req = parseResult.data;
 
+  const rendered = renderPrompt(req.templateId, req.inputs, req.maxTokens);
+  if (!rendered.success) {
+    return new Response(
+      JSON.stringify({ error: 'Invalid template inputs', details: rendered.issues }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+  const limit = rateLimiter.acquire(
+    sessionKeyForRequest(request, claudeToken, provider.id !== 'anthropic'),
+  );
+  if (!limit.allowed) {
+    const message =
+      limit.reason === 'concurrency'
+        ? 'A story is already being generated for this session. Wait for it to finish.'
+        : 'Too many generation requests. Please try again later.';
+    return new Response(
+      JSON.stringify({ error: message }),
+      {
+        status: 429,
+        headers: {
+          'Content-Type': 'application/json',
+          'Retry-After': String(limit.retryAfterSeconds),
+        },
+      }
+    );
+  }
+
   const stream = new TransformStream();
   const writer = stream.writable.getWriter();
   const encoder = new TextEncoder();
@@ -86,16 +147,28 @@ export async function POST(request: NextRequest): Promise<Response> {
   (async () => {
     try {
       await writer.write(
-        encoder.encode(formatSSE({ event: 'start', data: {} }))
+        encoder.encode(
+          formatSSE({ event: 'start', data: { model: provider.resolveModel(req.model) } })
+        )
+      );
+
+      // A small local context window gets the story data condensed in chunks first
+      const fitted = await renderPromptToFit(
+        req.templateId,
+        req.inputs,
+        req.maxTokens,
+        inputTokenBudget(provider, rendered.prompt.maxTokens),
+        (text, targetTokens) => condenseText(claudeToken, text, targetTokens, 'these repositories')
       );
+      const prompt = fitted.success ? fitted.prompt : rendered.prompt;
 
       await callClaudeApiStreaming(
         claudeToken,
         {
           model: req.model,
-          maxTokens: req.maxTokens,
-          systemPrompt: req.systemPrompt,
-          userMessage: req.userMessage,
+          maxTokens: prompt.maxTokens,
+          systemPrompt: prompt.systemPrompt,
+          userMessage: prompt.userMessage,
           temperature: req.temperature,
           stream: true,
         },
@@ -137,6 +210,7 @@ export async function POST(request: NextRequest): Promise<Response> {
         // Writer may already be closed
       }
     } finally {
+      limit.release();
       try {
         await writer.close();
       } catch {
@@ -16,6 +16,8 @@ import {
   prepareCommitsForClaude,
   ClaudeApiError,
 } from '@/lib/claude-api';
+import { getLlmProvider } from '@/lib/llm-provider';
+import type { LlmProvider } from '@/lib/llm-provider';
 
 // =============================================================================
 // REQUEST VALIDATION SCHEMAS
@@ -96,6 +98,7 @@ const RawCommitsRequestSchema = z.object({
       files: z.array(z.any()).default([]),
       parents: z.array(z.string()).default([]),
       htmlUrl: z.string().default(''),
+      timezoneOffset: z.number().nullable().default(null),
       hourOfDay: z.number(),
       dayOfWeek: z.number(),
       year: z.number(),
@@ -485,17 +488,34 @@ async function handleUnifiedStreaming(
 // =============================================================================
 
 export async function POST(request: NextRequest): Promise<Response> {
-  // Step 1: Validate Claude token from Authorization header (Rule 7)
-  const claudeToken = extractClaudeToken(request);
+  let provider: LlmProvider;
+  try {
+    provider = getLlmProvider();
+  } catch (error: unknown) {
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: {
+          code: 'PROVIDER_MISCONFIGURED',
+          message: error instanceof Error ? error.message : 'Story provider is misconfigured.',
+        },
+      },
+      { status: 500 }
+    );
+  }
+
+  // Step 1: Validate Claude token from Authorization header (Rule 7);
+  // a local provider takes its access key there instead
+  const claudeToken = extractClaudeToken(request) ?? '';
 
-  if (!claudeToken) {
+  if (!provider.authorize(claudeToken)) {
     return NextResponse.json<ApiResponse>(
       {
         success: false,
         error: {
           code: 'UNAUTHORIZED',
           message:
-            'Missing or invalid Claude API token. Provide a valid Bearer token in the Authorization header.',
+            'Missing or invalid token. Provide your Claude API token, or this server\'s LLM access key, as a Bearer token in the Authorization header.',
         },
       },
       { status: 401 }
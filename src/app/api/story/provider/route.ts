@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { describeLlmProvider, getLlmProvider } from '@/lib/llm-provider';
+import type { ApiResponse, LlmProviderInfo } from '@/lib/types';
+
+// =============================================================================
+// GET HANDLER — which backend generates stories
+// =============================================================================
+
+/** Lets the Story page skip asking for a Claude token when a local model is configured. */
+export async function GET(): Promise<Response> {
+  try {
+    return NextResponse.json<ApiResponse<LlmProviderInfo>>(
+      { success: true, data: describeLlmProvider(getLlmProvider()) },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: {
+          code: 'PROVIDER_MISCONFIGURED',
+          message: error instanceof Error ? error.message : 'Story provider is misconfigured.',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
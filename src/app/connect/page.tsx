@@ -12,8 +12,15 @@ import { ClaudeOAuthInput } from '@/components/connect/claude-oauth-input';
 import { GitHubOAuthConnect } from '@/components/connect/github-oauth-connect';
 import { RepositorySelector } from '@/components/connect/repository-selector';
 import { SelectedReposSummary } from '@/components/connect/selected-repos-summary';
-import type { RepoFilter, SelectableRepository, ProcessingStatus } from '@/lib/types';
-import { ProcessingStatus as ProcessingStatusEnum } from '@/lib/types';
+import { LocalGitImport } from '@/components/connect/local-git-import';
+import { SelfHostedProviderConnect } from '@/components/connect/self-hosted-provider-connect';
+import type {
+  RepoFilter,
+  SelectableRepository,
+  ProcessingStatus,
+  LocalRepositoryImport,
+} from '@/lib/types';
+import { ProcessingStatus as ProcessingStatusEnum, RepositorySource } from '@/lib/types';
 
 export default function ConnectPage() {
   const router = useRouter();
@@ -115,23 +122,67 @@ export default function ConnectPage() {
     [repoFetcher]
   );
 
+  // Repositories imported from local git log dumps
+  const localRepos = useMemo(
+    () => gitData.allRepositories.filter((r) => r.source === RepositorySource.LOCAL),
+    [gitData.allRepositories]
+  );
+
+  // Handle local git log import — imported repos are selected automatically
+  const handleLocalImport = useCallback(
+    (imports: LocalRepositoryImport[]) => {
+      gitData.importLocalRepositories(imports);
+      setSelectedRepoIds((prev) => {
+        const next = new Set(prev);
+        for (const imp of imports) next.add(imp.repository.id);
+        return next;
+      });
+    },
+    [gitData]
+  );
+
+  // Repositories listed from connected GitLab / Gitea instances
+  const selfHostedRepos = useMemo(
+    () =>
+      gitData.allRepositories.filter(
+        (r) => r.source === RepositorySource.GITLAB || r.source === RepositorySource.GITEA
+      ),
+    [gitData.allRepositories]
+  );
+
+  const handleToggleSelfHostedRepo = useCallback((repoId: string) => {
+    setSelectedRepoIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(repoId)) next.delete(repoId);
+      else next.add(repoId);
+      return next;
+    });
+  }, []);
+
   // Compute selected repos with metadata
   const selectedRepos: SelectableRepository[] = useMemo(() => {
-    return repoFetcher.repos.filter((r) => selectedRepoIds.has(r.id));
-  }, [repoFetcher.repos, selectedRepoIds]);
+    const selectedRemote = repoFetcher.repos.filter((r) => selectedRepoIds.has(r.id));
+    const listedIds = new Set(selectedRemote.map((r) => r.id));
+    const selectedLocal: SelectableRepository[] = localRepos
+      .filter((r) => selectedRepoIds.has(r.id) && !listedIds.has(r.id))
+      .map((r) => ({ ...r, isSelected: true, fetchStatus: 'fetched' }));
+    const selectedSelfHosted: SelectableRepository[] = selfHostedRepos
+      .filter((r) => selectedRepoIds.has(r.id) && !listedIds.has(r.id))
+      .map((r) => ({ ...r, isSelected: true, fetchStatus: 'unfetched' }));
+    return [...selectedRemote, ...selectedLocal, ...selectedSelfHosted];
+  }, [repoFetcher.repos, localRepos, selfHostedRepos, selectedRepoIds]);
+
+  const showSummary = isPhase2 || localRepos.length > 0 || selfHostedRepos.length > 0;
 
   // Estimated total commits across selected repos
   const estimatedCommits = useMemo(() => {
     let total = 0;
-    for (const id of selectedRepoIds) {
-      const repo = repoFetcher.repos.find((r) => r.id === id);
-      if (repo) {
-        // Estimate based on size/age if commitCount is null
-        total += repo.commitCount ?? Math.max(Math.floor(repo.size / 10), 50);
-      }
+    for (const repo of selectedRepos) {
+      // Estimate based on size/age if commitCount is null
+      total += repo.commitCount ?? Math.max(Math.floor(repo.size / 10), 50);
     }
     return total;
-  }, [selectedRepoIds, repoFetcher.repos]);
+  }, [selectedRepos]);
 
   // Processing estimate text
   const processingEstimate = useMemo(() => {
@@ -228,7 +279,8 @@ export default function ConnectPage() {
             </span>
           </h1>
           <p className="mx-auto max-w-2xl text-lg text-zinc-400">
-            Link your GitHub account and select the repositories that tell your developer story.
+            Link your GitHub account — or import a local git history — and select the repositories
+            that tell your developer story.
             We&apos;ll analyze your commits to generate beautiful visualizations of your coding journey.
           </p>
         </motion.div>
@@ -441,15 +493,41 @@ export default function ConnectPage() {
                 </motion.div>
               )}
 
-              {/* Bottom spacer for sticky summary bar */}
-              <div className="h-28" />
             </motion.div>
           )}
         </AnimatePresence>
 
+        {/* Local git import — available with or without a GitHub connection */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.4, delay: 0.3 }}
+          className="mt-6"
+        >
+          <LocalGitImport importedRepos={localRepos} onImport={handleLocalImport} />
+        </motion.div>
+
+        {/* GitLab / Gitea — also independent of the GitHub connection */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.4, delay: 0.35 }}
+          className="mt-6"
+        >
+          <SelfHostedProviderConnect
+            repositories={selfHostedRepos}
+            selectedIds={selectedRepoIds}
+            onRepositoriesLoaded={gitData.mergeRepositories}
+            onToggleRepo={handleToggleSelfHostedRepo}
+          />
+        </motion.div>
+
+        {/* Bottom spacer for sticky summary bar */}
+        {showSummary && <div className="h-28" />}
+
         {/* Selected Repos Summary (sticky bottom bar) */}
         <AnimatePresence>
-          {isPhase2 && (
+          {showSummary && (
             <motion.div
               initial={{ opacity: 0, y: 40 }}
               animate={{ opacity: 1, y: 0 }}
@@ -11,6 +11,8 @@ import { CommitTimelineChart } from '@/components/dashboard/commit-timeline-char
 import { LanguageBreakdown } from '@/components/dashboard/language-breakdown';
 import { CodingPatterns } from '@/components/dashboard/coding-patterns';
 import { NavigationCards } from '@/components/dashboard/navigation-cards';
+import { TimeZoneSelect } from '@/components/dashboard/time-zone-select';
+import { AutomationBreakdown } from '@/components/dashboard/automation-breakdown';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
@@ -38,6 +40,10 @@ export default function DashboardPage() {
 
   const selectedRepositories = gitData.selectedRepositories ?? [];
   const allCommitsSorted = gitData.allCommitsSorted ?? [];
+  const missingOffsetCount = useMemo(
+    () => (gitData.allCommitsSorted ?? []).filter((c) => c.timezoneOffset == null).length,
+    [gitData.allCommitsSorted]
+  );
 
   // Heatmap year state — default to year with the most commits
   const [heatmapYear, setHeatmapYear] = useState(() => new Date().getFullYear());
@@ -137,6 +143,7 @@ export default function DashboardPage() {
               >
                 {selectedRepos.length} repo{selectedRepos.length !== 1 ? 's' : ''} selected
               </Badge>
+              <TimeZoneSelect missingOffsetCount={missingOffsetCount} />
               <Button
                 variant="outline"
                 size="sm"
@@ -215,6 +222,11 @@ export default function DashboardPage() {
               )}
             </section>
 
+            {/* Automated commits */}
+            <section>
+              <AutomationBreakdown data={analyticsData?.automation ?? null} />
+            </section>
+
             {/* Ad placement area */}
             <div className="flex items-center justify-center py-2">
               {/* AdUnit placeholder */}
@@ -4,7 +4,13 @@ import { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
 import { useGitData } from '@/context/git-data-provider';
 import { useGourcePlayback } from '@/hooks/use-gource-playback';
-import { createGourceEngine } from '@/lib/gource-engine';
+import { useCommitFileHydration } from '@/hooks/use-commit-file-hydration';
+import { createGourceEngine, createGourceEngineFromLog } from '@/lib/gource-engine';
+import { parseGourceLog } from '@/lib/gource-log';
+import { addCameraKeyframe } from '@/lib/camera-director';
+import { createBotClassifier } from '@/lib/bot-classifier';
+import { getIdentityId } from '@/lib/identity-resolver';
+import { useAppStore } from '@/stores/app-store';
 import type { GourceEngine } from '@/lib/gource-engine';
 import { GourceViewer } from '@/components/gource/gource-viewer';
 import { PlaybackControls } from '@/components/gource/playback-controls';
@@ -12,6 +18,14 @@ import { TimelineScrubber } from '@/components/gource/timeline-scrubber';
 import { ContributorLegend } from '@/components/gource/contributor-legend';
 import { RepoSelectorTabs } from '@/components/gource/repo-selector-tabs';
 import { VisualizationSettings } from '@/components/gource/visualization-settings';
+import { VideoExportDialog } from '@/components/gource/video-export-dialog';
+import { AnnotationPanel } from '@/components/gource/annotation-panel';
+import { InspectorPanel } from '@/components/gource/inspector-panel';
+import { SplitViewPane } from '@/components/gource/split-view-pane';
+import { SplitViewPicker } from '@/components/gource/split-view-picker';
+import { describeSplitPane, rankContributors } from '@/lib/gource-split-view';
+import { buildViewStateUrl, diffSettings, readViewStateFromHash } from '@/lib/gource-view-state';
+import type { GourceVideoExportInput } from '@/lib/gource-video-export';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import {
@@ -22,15 +36,33 @@ import {
   Loader2,
   AlertCircle,
   ArrowLeft,
+  Check,
   Download,
+  FileCode2,
+  FileDown,
+  FileUp,
+  Film,
+  Link2,
+  X,
 } from 'lucide-react';
 import type {
+  CommitData,
+  CommitFile,
+  GourceAnnotation,
   GourceContributor,
   GourceSettings,
   GourceCommitEvent,
+  GourceInspection,
+  GourceLogImport,
+  GourceSelection,
+  GourceSplitPane,
+  GourceViewState,
 } from '@/lib/types';
 import {
+  BotFilterMode,
   PlaybackSpeed,
+  PlaybackState,
+  RepositorySource,
   DEFAULT_GOURCE_SETTINGS,
 } from '@/lib/types';
 
@@ -39,16 +71,27 @@ export default function GourcePage() {
   const router = useRouter();
   const {
     selectedRepositories,
-    allCommitsSorted,
+    allCommitsSorted: allCommits,
     contributors,
+    stories,
+    unifiedStory,
     fetchSelectedRepoData,
   } = useGitData();
+  const botFilter = useAppStore((state) => state.botFilter);
+
+  // Automated commits — and bots left without any — stay off the stage when excluded
+  const allCommitsSorted = useMemo(() => {
+    if (botFilter.mode !== BotFilterMode.EXCLUDE) return allCommits;
+    const classify = createBotClassifier(botFilter.classifier);
+    return allCommits.filter((commit) => !classify(commit));
+  }, [allCommits, botFilter]);
 
   // Derive real contributor list from provider data
-  const realContributors = useMemo(
-    () => Object.values(contributors),
-    [contributors],
-  );
+  const realContributors = useMemo(() => {
+    if (allCommitsSorted === allCommits) return Object.values(contributors);
+    const activeIds = new Set(allCommitsSorted.map((commit) => getIdentityId(commit.author)));
+    return Object.values(contributors).filter((c) => activeIds.has(c.id));
+  }, [contributors, allCommits, allCommitsSorted]);
 
   // Engine & playback
   const engineRef = useRef<GourceEngine | null>(null);
@@ -72,27 +115,94 @@ export default function GourcePage() {
   const [commitEventsForViewer, setCommitEventsForViewer] = useState<GourceCommitEvent[]>([]);
   const [timelineStartDate, setTimelineStartDate] = useState('');
   const [timelineEndDate, setTimelineEndDate] = useState('');
+  const [timeRange, setTimeRange] = useState<{ start: number; end: number } | null>(null);
+  const [annotations, setAnnotations] = useState<GourceAnnotation[]>([]);
+  const [selection, setSelection] = useState<GourceSelection | null>(null);
+  const [inspection, setInspection] = useState<GourceInspection | null>(null);
+  const selectionRef = useRef(selection);
+  // Side-by-side comparison; empty = the single view
+  const [splitPanes, setSplitPanes] = useState<GourceSplitPane[]>([]);
+  const paneEnginesRef = useRef(new Map<string, GourceEngine>());
+  // Progress for the engine that replaces the current one when the layout switches
+  const resumeProgressRef = useRef<number | null>(null);
+  // View from a shared link, applied once the data and then the engine are ready
+  const sharedViewRef = useRef<GourceViewState | null>(null);
+  const [isLinkCopied, setIsLinkCopied] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const recordedChunksRef = useRef<Blob[]>([]);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  // A gource custom log replaces the provider history while it's loaded
+  const [importedLog, setImportedLog] = useState<GourceLogImport | null>(null);
+  const [logError, setLogError] = useState<string | null>(null);
+  const [logExportNote, setLogExportNote] = useState<string | null>(null);
+  const logInputRef = useRef<HTMLInputElement>(null);
+
+  const viewerRepositories = useMemo(
+    () => (importedLog ? [importedLog.repository] : selectedRepositories),
+    [importedLog, selectedRepositories],
+  );
+  const viewerContributors = useMemo(
+    () => (importedLog ? [] : realContributors),
+    [importedLog, realContributors],
+  );
+
+  // The engine the controls drive plus, in the split view, the panes following it
+  const forEachEngine = useCallback((callback: (engine: GourceEngine) => void) => {
+    const engines = new Set(paneEnginesRef.current.values());
+    if (engineRef.current) engines.add(engineRef.current);
+    engines.forEach(callback);
+  }, []);
+
+  // Swap synthetic file paths for real ones as they arrive
+  const handleFilesHydrated = useCallback((batch: Map<string, CommitFile[]>) => {
+    forEachEngine((engine) => engine.hydrateCommitFiles(batch));
+  }, [forEachEngine]);
+
+  // The file-list endpoint is GitHub-only — local imports already carry real
+  // file lists and self-hosted repos keep what their provider returned
+  const githubRepoIds = useMemo(
+    () => new Set(
+      selectedRepositories
+        .filter((r) => (r.source ?? RepositorySource.GITHUB) === RepositorySource.GITHUB)
+        .map((r) => r.fullName),
+    ),
+    [selectedRepositories],
+  );
+  const shouldHydrate = useCallback(
+    (commit: CommitData) => githubRepoIds.has(commit.repoId),
+    [githubRepoIds],
+  );
+
+  const fileHydration = useCommitFileHydration(allCommitsSorted, {
+    enabled: isInitialized && !importedLog,
+    shouldHydrate,
+    onFilesHydrated: handleFilesHydrated,
+  });
+
+  useEffect(() => {
+    sharedViewRef.current = readViewStateFromHash(window.location.hash);
+  }, []);
 
   // Fetch data if we have selected repos but no commits yet
   useEffect(() => {
-    if (selectedRepositories.length > 0 && allCommitsSorted.length === 0) {
+    if (selectedRepositories.length > 0 && allCommits.length === 0) {
       setLoadingPhase('Fetching commit data...');
       setLoadingProgress(10);
       fetchSelectedRepoData();
     }
-  }, [selectedRepositories, allCommitsSorted.length, fetchSelectedRepoData]);
+  }, [selectedRepositories, allCommits.length, fetchSelectedRepoData]);
 
   // Convert commits to GourceCommitEvents and prepare viewer data
   // (no engine needed — just a lightweight data transform)
   useEffect(() => {
-    if (selectedRepositories.length === 0) {
-      setIsLoading(false);
-      return;
+    if (!importedLog) {
+      if (selectedRepositories.length === 0) {
+        setIsLoading(false);
+        return;
+      }
+      if (allCommitsSorted.length === 0) return;
     }
-    if (allCommitsSorted.length === 0) return;
 
     try {
       setLoadingPhase('Processing commit history...');
@@ -100,11 +210,13 @@ export default function GourcePage() {
 
       // Use a temporary engine to convert commits → GourceCommitEvents
       // and extract metadata. This engine has no canvas — just data processing.
-      const tempEngine = createGourceEngine({
-        commits: allCommitsSorted,
-        repositories: selectedRepositories,
-        contributors: realContributors,
-      });
+      const tempEngine = importedLog
+        ? createGourceEngineFromLog(importedLog)
+        : createGourceEngine({
+          commits: allCommitsSorted,
+          repositories: selectedRepositories,
+          contributors: realContributors,
+        });
 
       setLoadingPhase('Building file tree...');
       setLoadingProgress(70);
@@ -117,9 +229,24 @@ export default function GourcePage() {
       setCommitDensity(tempEngine.getCommitDensity(120));
       setGourceContributors(Array.from(tempEngine.getContributors().values()));
       setRepoColors(tempEngine.getRepoColors());
-      setSettings(tempEngine.getSettings());
+
+      // A shared link brings its own settings, focus and layout
+      const shared = sharedViewRef.current;
+      if (shared) {
+        const repoIds = new Set((importedLog ? [importedLog.repository] : selectedRepositories).map((r) => r.fullName));
+        const knownRepo = (repoId: string | null) => (repoId && repoIds.has(repoId) ? repoId : null);
+        setSettings({ ...tempEngine.getSettings(), ...shared.settings });
+        setActiveRepoId(knownRepo(shared.activeRepoId));
+        setHighlightedContributor(shared.highlightedContributorId);
+        setSplitPanes(shared.splitPanes.map((pane) => ({ ...pane, repoId: knownRepo(pane.repoId) })));
+        selectionRef.current = shared.selection;
+        setSelection(shared.selection);
+      } else {
+        setSettings(tempEngine.getSettings());
+      }
       setTimelineStartDate(tempEngine.getStartDate());
       setTimelineEndDate(tempEngine.getEndDate());
+      setTimeRange(tempEngine.getTimeRange());
 
       setLoadingPhase('Initializing renderer...');
       setLoadingProgress(90);
@@ -137,7 +264,7 @@ export default function GourcePage() {
       setIsLoading(false);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [selectedRepositories, allCommitsSorted, realContributors]);
+  }, [selectedRepositories, allCommitsSorted, realContributors, importedLog]);
 
   // Fullscreen handling
   const toggleFullscreen = useCallback(() => {
@@ -162,7 +289,8 @@ export default function GourcePage() {
   const handleSettingsChange = useCallback((partialSettings: Partial<GourceSettings>) => {
     setSettings((prev) => {
       const updated = { ...prev, ...partialSettings };
-      engineRef.current?.setSettings(partialSettings);
+      // Split panes derive their own settings from these (see SplitViewPane)
+      if (paneEnginesRef.current.size === 0) engineRef.current?.setSettings(partialSettings);
       return updated;
     });
   }, []);
@@ -170,9 +298,74 @@ export default function GourcePage() {
   // Settings reset
   const handleSettingsReset = useCallback(() => {
     setSettings({ ...DEFAULT_GOURCE_SETTINGS });
-    engineRef.current?.setSettings({ ...DEFAULT_GOURCE_SETTINGS });
+    if (paneEnginesRef.current.size === 0) engineRef.current?.setSettings({ ...DEFAULT_GOURCE_SETTINGS });
   }, []);
 
+  // Script keyframe from wherever the camera is looking right now
+  const handleCaptureCameraKeyframe = useCallback(() => {
+    const keyframe = engineRef.current?.getCameraKeyframe();
+    if (!keyframe) return;
+    handleSettingsChange({ cameraScript: addCameraKeyframe(settings.cameraScript, keyframe) });
+  }, [handleSettingsChange, settings.cameraScript]);
+
+  // Annotations: captions in the engine, markers on the scrubber
+  const storyMilestones = useMemo(
+    () => [...stories, ...(unifiedStory ? [unifiedStory] : [])].flatMap((story) => story.milestones),
+    [stories, unifiedStory],
+  );
+
+  // Kept in a ref so a newly created engine can pick them up on ready
+  const annotationsRef = useRef(annotations);
+  useEffect(() => {
+    annotationsRef.current = annotations;
+    forEachEngine((engine) => engine.setAnnotations(annotations));
+  }, [annotations, forEachEngine]);
+
+  const annotationMarkers = useMemo(() => {
+    if (!timeRange || timeRange.end <= timeRange.start) return [];
+    const span = timeRange.end - timeRange.start;
+    return annotations
+      .filter((a) => !activeRepoId || !a.repoId || a.repoId === activeRepoId)
+      .filter((a) => a.time >= timeRange.start && a.time <= timeRange.end)
+      .map((a) => ({ position: (a.time - timeRange.start) / span, label: a.title }));
+  }, [annotations, activeRepoId, timeRange]);
+
+  const handleSeekToTime = useCallback((time: number) => {
+    const range = engineRef.current?.getTimeRange();
+    if (!range || range.end <= range.start) return;
+    playback.seek((time - range.start) / (range.end - range.start));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [playback.seek]);
+
+  const getCurrentTime = useCallback(() => engineRef.current?.getCurrentTime() ?? null, []);
+
+  // Inspector: the selection is kept by key, so it outlives seeks and rebuilds
+  const handleSelect = useCallback((next: GourceSelection | null) => {
+    const engine = engineRef.current;
+    selectionRef.current = next;
+    setSelection(next);
+    engine?.setSelection(next);
+    if (!next) engine?.pinCamera(null);
+    setInspection(next && engine ? engine.inspect(next) : null);
+  }, []);
+
+  const handlePinCamera = useCallback((contributorId: string | null) => {
+    const engine = engineRef.current;
+    if (!engine) return;
+    engine.pinCamera(contributorId);
+    if (selectionRef.current) setInspection(engine.inspect(selectionRef.current));
+  }, []);
+
+  // History grows as playback goes on
+  useEffect(() => {
+    if (!selection) return;
+    const interval = setInterval(() => {
+      const engine = engineRef.current;
+      if (engine) setInspection(engine.inspect(selection));
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [selection]);
+
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -242,13 +435,14 @@ export default function GourcePage() {
           }
           engineRef.current?.highlightContributor(null);
           setHighlightedContributor(null);
+          handleSelect(null);
           break;
       }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [playback, settings, toggleFullscreen, handleSettingsChange]);
+  }, [playback, settings, toggleFullscreen, handleSettingsChange, handleSelect]);
 
   // Repo tab change
   const handleRepoChange = useCallback((repoId: string | null) => {
@@ -256,6 +450,16 @@ export default function GourcePage() {
     engineRef.current?.setActiveRepo(repoId);
   }, []);
 
+  // The viewer re-applies its settings whenever they change, so they carry the highlight too
+  const highlightFilter = useMemo(
+    () => (highlightedContributor ? [highlightedContributor] : null),
+    [highlightedContributor],
+  );
+  const viewerSettings = useMemo(
+    () => (highlightFilter ? { ...settings, contributorFilter: highlightFilter } : settings),
+    [settings, highlightFilter],
+  );
+
   // Contributor highlight
   const handleContributorClick = useCallback((contributorId: string) => {
     setHighlightedContributor((prev) => {
@@ -286,16 +490,108 @@ export default function GourcePage() {
     };
   }, []);
 
-  // Engine ready callback (from GourceViewer)
   // The viewer owns the real engine (with canvas). Connect it to our playback controls.
-  const handleEngineReady = useCallback((engine: GourceEngine) => {
+  const attachEngine = useCallback((engine: GourceEngine) => {
     engineRef.current = engine;
+    engine.followClock(null);
     playback.setEngine(engine);
+    engine.setAnnotations(annotationsRef.current);
+    engine.setSelection(selectionRef.current);
+    // Catch up on file lists hydrated before this engine existed
+    engine.hydrateCommitFiles(fileHydration.getHydratedFiles());
+    if (resumeProgressRef.current !== null) {
+      engine.seek(resumeProgressRef.current);
+      resumeProgressRef.current = null;
+    }
+    // A shared link opens on its moment and camera
+    const shared = sharedViewRef.current;
+    if (shared) {
+      sharedViewRef.current = null;
+      const range = engine.getTimeRange();
+      if (range.end > range.start) engine.seek((shared.time - range.start) / (range.end - range.start));
+      engine.setSpeed(shared.speed);
+      if (shared.camera) engine.setCameraView(shared.camera);
+      if (!shared.isPlaying) engine.pause();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [playback.setEngine, fileHydration.getHydratedFiles]);
+
+  // Engine ready callback (from GourceViewer)
+  const handleEngineReady = useCallback((engine: GourceEngine) => {
+    const shouldPlay = sharedViewRef.current?.isPlaying ?? true;
+    attachEngine(engine);
     setTimeout(() => {
-      playback.play();
+      if (shouldPlay) {
+        playback.play();
+      } else {
+        playback.pause();
+      }
     }, 300);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [playback.setEngine, playback.play]);
+  }, [attachEngine, playback.play, playback.pause]);
+
+  // Split view: the first pane's engine drives the controls, the rest follow its clock
+  const splitPanesRef = useRef(splitPanes);
+  const linkSplitPanes = useCallback(() => {
+    const [first] = splitPanesRef.current;
+    const leader = first ? paneEnginesRef.current.get(first.id) : undefined;
+    if (!leader) return;
+    if (leader !== engineRef.current) attachEngine(leader);
+    paneEnginesRef.current.forEach((engine) => engine.followClock(engine === leader ? null : leader));
+  }, [attachEngine]);
+
+  const handlePaneEngineReady = useCallback((paneId: string, engine: GourceEngine) => {
+    paneEnginesRef.current.set(paneId, engine);
+    engine.setAnnotations(annotationsRef.current);
+    engine.hydrateCommitFiles(fileHydration.getHydratedFiles());
+    linkSplitPanes();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [linkSplitPanes, fileHydration.getHydratedFiles]);
+
+  useEffect(() => {
+    splitPanesRef.current = splitPanes;
+    const paneIds = new Set(splitPanes.map((pane) => pane.id));
+    paneEnginesRef.current.forEach((_, paneId) => {
+      if (!paneIds.has(paneId)) paneEnginesRef.current.delete(paneId);
+    });
+    linkSplitPanes();
+  }, [splitPanes, linkSplitPanes]);
+
+  const handleSplitPanesChange = useCallback((panes: GourceSplitPane[]) => {
+    // Entering or leaving the split view replaces the engines; pick up from here
+    if ((panes.length > 0) !== (splitPanesRef.current.length > 0)) {
+      resumeProgressRef.current = engineRef.current?.getProgress() ?? null;
+    }
+    setSplitPanes(panes);
+  }, []);
+
+  const splitContributors = useMemo(() => rankContributors(commitEventsForViewer), [commitEventsForViewer]);
+
+  // Everything needed to reopen this moment, minus the data, as a link
+  const handleCopyViewLink = useCallback(async () => {
+    const engine = engineRef.current;
+    if (!engine) return;
+    const state = engine.getState();
+    const url = buildViewStateUrl(window.location.href, {
+      time: engine.getCurrentTime(),
+      isPlaying: state.playback === PlaybackState.PLAYING,
+      speed: state.speed,
+      activeRepoId,
+      highlightedContributorId: highlightedContributor,
+      camera: engine.getCameraView(),
+      settings: diffSettings(settings),
+      splitPanes,
+      selection: selectionRef.current,
+    });
+    try {
+      await navigator.clipboard.writeText(url);
+      setIsLinkCopied(true);
+      setTimeout(() => setIsLinkCopied(false), 2500);
+    } catch {
+      // No clipboard access: leave the link in the address bar to copy by hand
+      window.history.replaceState(null, '', url);
+    }
+  }, [activeRepoId, highlightedContributor, settings, splitPanes]);
 
   // Video recording toggle
   const handleToggleRecording = useCallback(() => {
@@ -350,8 +646,88 @@ export default function GourcePage() {
     }
   }, [isRecording, playback]);
 
+  // Gource custom log import — the history plays as-is until cleared
+  const handleLogFile = useCallback(async (fileList: FileList | null) => {
+    const file = fileList?.[0];
+    if (!file) return;
+    setLogError(null);
+    try {
+      const log = parseGourceLog(await file.text(), file.name);
+      if (log.events.length === 0) {
+        setLogError(log.warnings[log.warnings.length - 1] ?? 'The log contains no file actions.');
+        return;
+      }
+      setActiveRepoId(null);
+      setHighlightedContributor(null);
+      setSplitPanes([]);
+      setImportedLog(log);
+    } catch {
+      setLogError('Failed to read the gource log.');
+    }
+  }, []);
+
+  const handleClearLog = useCallback(() => {
+    setActiveRepoId(null);
+    setHighlightedContributor(null);
+    setSplitPanes([]);
+    setImportedLog(null);
+  }, []);
+
+  // Export exactly what the engine is playing, for desktop gource
+  const handleExportLog = useCallback(() => {
+    const exported = engineRef.current?.exportGourceLog();
+    setLogExportNote(
+      exported?.skippedCommits
+        ? `${exported.skippedCommits.toLocaleString()} commits whose file lists haven't loaded yet were left out of the log.`
+        : null
+    );
+    const log = exported?.log;
+    if (!log) return;
+    const url = URL.createObjectURL(new Blob([log], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.download = `gource-${new Date().toISOString().split('T')[0]}.log`;
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, []);
+
+  // Offline video export mirrors the live view's data, settings and focus
+  const getExportInput = useCallback((): GourceVideoExportInput => ({
+    data: {
+      commits: importedLog ? [] : allCommitsSorted,
+      repositories: viewerRepositories,
+      contributors: viewerContributors,
+      events: importedLog?.events,
+    },
+    hydratedFiles: fileHydration.getHydratedFiles(),
+    settings,
+    activeRepoId,
+    highlightedContributorId: highlightedContributor,
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }), [importedLog, allCommitsSorted, viewerRepositories, viewerContributors, fileHydration.getHydratedFiles, settings, activeRepoId, highlightedContributor]);
+
+  const exportTitle = activeRepoId
+    ? activeRepoId
+    : viewerRepositories.map((r) => r.name).join(' · ');
+  const exportSubtitle = timelineStartDate
+    ? `${timelineStartDate} – ${timelineEndDate} · ${commitEventsForViewer.length.toLocaleString()} commits`
+    : '';
+
+  const logFileInput = (
+    <input
+      ref={logInputRef}
+      type="file"
+      accept=".log,.txt,text/plain"
+      className="hidden"
+      onChange={(e) => {
+        handleLogFile(e.target.files);
+        e.target.value = '';
+      }}
+    />
+  );
+
   // No repos selected state
-  if (!isLoading && selectedRepositories.length === 0) {
+  if (!isLoading && selectedRepositories.length === 0 && !importedLog) {
     return (
       <div className="flex min-h-screen items-center justify-center bg-[#0a0a0f]">
         <div className="flex max-w-md flex-col items-center gap-6 rounded-2xl border border-white/10 bg-white/5 p-8 text-center">
@@ -362,12 +738,24 @@ export default function GourcePage() {
               Select repositories on the Connect page to visualize their commit history.
             </p>
           </div>
-          <Button
-            onClick={() => router.push('/connect')}
-            className="bg-blue-600 text-white hover:bg-blue-700"
-          >
-            Go to Connect
-          </Button>
+          <div className="flex gap-3">
+            <Button
+              onClick={() => router.push('/connect')}
+              className="bg-blue-600 text-white hover:bg-blue-700"
+            >
+              Go to Connect
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => logInputRef.current?.click()}
+              className="border-white/10 bg-white/5 text-white hover:bg-white/10"
+            >
+              <FileUp className="mr-2 h-4 w-4" />
+              Play a Gource Log
+            </Button>
+          </div>
+          {logError && <p className="text-sm text-red-400">{logError}</p>}
+          {logFileInput}
         </div>
       </div>
     );
@@ -463,23 +851,121 @@ export default function GourcePage() {
             </Button>
           )}
           <div className="hidden h-5 w-px bg-white/10 sm:block" />
-          <RepoSelectorTabs
-            repositories={selectedRepositories}
-            activeRepoId={activeRepoId}
-            onRepoChange={handleRepoChange}
-            repoColors={repoColors}
-          />
+          {splitPanes.length > 0 ? (
+            <span className="text-xs text-white/50">
+              Comparing {splitPanes.length} views
+            </span>
+          ) : (
+            <RepoSelectorTabs
+              repositories={viewerRepositories}
+              activeRepoId={activeRepoId}
+              onRepoChange={handleRepoChange}
+              repoColors={repoColors}
+            />
+          )}
         </div>
 
         <div className="flex items-center gap-2">
+          {importedLog && (
+            <Badge
+              variant="outline"
+              className="gap-1 border-blue-500/30 bg-blue-500/10 text-xs text-blue-300"
+            >
+              <FileUp className="h-3 w-3" />
+              {importedLog.repository.name}
+              <button
+                type="button"
+                onClick={handleClearLog}
+                className="ml-0.5 rounded-sm text-blue-300/70 hover:text-white"
+                aria-label="Close gource log"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          )}
+          {logError && (
+            <span className="hidden max-w-[220px] truncate text-xs text-red-400 md:inline" title={logError}>
+              {logError}
+            </span>
+          )}
+          {importedLog && importedLog.skippedLines > 0 && (
+            <Badge
+              variant="outline"
+              className="gap-1 border-amber-500/30 bg-amber-500/10 text-xs text-amber-300"
+              title={importedLog.warnings.join('\n')}
+            >
+              <AlertCircle className="h-3 w-3" />
+              {importedLog.skippedLines.toLocaleString()} line{importedLog.skippedLines === 1 ? '' : 's'} skipped
+            </Badge>
+          )}
+          {logExportNote && (
+            <span className="hidden max-w-[220px] truncate text-xs text-amber-300 md:inline" title={logExportNote}>
+              {logExportNote}
+            </span>
+          )}
+
           <Badge
             variant="outline"
             className="hidden border-white/10 bg-white/5 text-xs text-white/50 sm:flex"
           >
             <GitBranch className="mr-1 h-3 w-3" />
-            {allCommitsSorted.length} commits
+            {commitEventsForViewer.length} commits
           </Badge>
 
+          {!importedLog && (
+            <Badge
+              variant="outline"
+              className="hidden border-white/10 bg-white/5 text-xs text-white/50 md:flex"
+              title={
+                fileHydration.isPaused
+                  ? 'Waiting for the GitHub rate limit to reset before loading more file lists'
+                  : `${fileHydration.realFileCount.toLocaleString()} of ${fileHydration.totalCount.toLocaleString()} commits use real file paths; the rest are approximated`
+              }
+            >
+              {fileHydration.isHydrating && !fileHydration.isPaused ? (
+                <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+              ) : (
+                <FileCode2 className="mr-1 h-3 w-3" />
+              )}
+              {Math.round(fileHydration.coverage * 100)}% real files
+              {fileHydration.isPaused && ' · paused'}
+            </Badge>
+          )}
+
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => void handleCopyViewLink()}
+            className={`h-8 w-8 hover:bg-white/5 hover:text-white ${isLinkCopied ? 'text-emerald-400' : 'text-white/50'}`}
+            aria-label="Copy link to this moment"
+            title={isLinkCopied ? 'Link copied' : 'Copy link to this moment'}
+          >
+            {isLinkCopied ? <Check className="h-4 w-4" /> : <Link2 className="h-4 w-4" />}
+          </Button>
+
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => logInputRef.current?.click()}
+            className="h-8 w-8 text-white/50 hover:bg-white/5 hover:text-white"
+            aria-label="Import gource log"
+            title="Import gource log"
+          >
+            <FileUp className="h-4 w-4" />
+          </Button>
+          {logFileInput}
+
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={handleExportLog}
+            className="h-8 w-8 text-white/50 hover:bg-white/5 hover:text-white"
+            aria-label="Export gource log"
+            title="Export gource log"
+          >
+            <FileDown className="h-4 w-4" />
+          </Button>
+
           <Button
             variant="ghost"
             size="icon"
@@ -494,6 +980,16 @@ export default function GourcePage() {
             )}
           </Button>
 
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setIsExportOpen(true)}
+            className="h-8 w-8 text-white/50 hover:bg-white/5 hover:text-white"
+            aria-label="Export video"
+          >
+            <Film className="h-4 w-4" />
+          </Button>
+
           <Button
             variant="ghost"
             size="icon"
@@ -504,10 +1000,20 @@ export default function GourcePage() {
             <Users className="h-4 w-4" />
           </Button>
 
+          <SplitViewPicker
+            panes={splitPanes}
+            onPanesChange={handleSplitPanesChange}
+            repositories={viewerRepositories}
+            contributors={splitContributors}
+          />
+
           <VisualizationSettings
             settings={settings}
             onSettingsChange={handleSettingsChange}
             onReset={handleSettingsReset}
+            activeRenderer={playback.renderStats?.renderer}
+            onCaptureCameraKeyframe={handleCaptureCameraKeyframe}
+            repositories={viewerRepositories}
           />
 
           <Button
@@ -530,19 +1036,53 @@ export default function GourcePage() {
       <div className="relative flex flex-1 overflow-hidden">
         {/* Gource Canvas Viewer */}
         <div className="relative flex-1">
-          {isInitialized && commitEventsForViewer.length > 0 && (
+          {isInitialized && commitEventsForViewer.length > 0 && splitPanes.length > 0 && (
+            <div
+              className={`grid h-full w-full gap-px bg-white/10 ${
+                splitPanes.length === 3 ? 'grid-cols-3' : 'grid-cols-2'
+              } ${splitPanes.length === 4 ? 'grid-rows-2' : 'grid-rows-1'}`}
+            >
+              {splitPanes.map((pane, index) => (
+                <SplitViewPane
+                  key={pane.id}
+                  pane={pane}
+                  label={describeSplitPane(pane, viewerRepositories, splitContributors)}
+                  events={commitEventsForViewer}
+                  repositories={viewerRepositories}
+                  contributors={viewerContributors}
+                  settings={viewerSettings}
+                  onEngineReady={handlePaneEngineReady}
+                  onSelect={index === 0 ? handleSelect : undefined}
+                />
+              ))}
+            </div>
+          )}
+
+          {isInitialized && commitEventsForViewer.length > 0 && splitPanes.length === 0 && (
             <GourceViewer
               events={commitEventsForViewer}
-              repositories={selectedRepositories}
-              contributors={realContributors}
-              settings={settings}
+              repositories={viewerRepositories}
+              contributors={viewerContributors}
+              settings={viewerSettings}
               combinedView={activeRepoId === null}
               activeRepoId={activeRepoId}
               onEngineReady={handleEngineReady}
+              onSelect={handleSelect}
               className="h-full w-full"
             />
           )}
 
+          {inspection && (
+            <InspectorPanel
+              inspection={inspection}
+              highlightedContributorId={highlightedContributor}
+              onSelect={handleSelect}
+              onClose={() => handleSelect(null)}
+              onPinCamera={handlePinCamera}
+              onHighlightContributor={handleContributorClick}
+            />
+          )}
+
           {/* Keyboard Shortcuts Help — bottom left */}
           <div className="absolute bottom-24 left-3 z-20 hidden select-none lg:block">
             <div className="rounded-lg border border-white/5 bg-black/40 px-3 py-2 backdrop-blur-sm">
@@ -577,14 +1117,27 @@ export default function GourcePage() {
       {/* Bottom Controls Area */}
       <div className="relative z-30 border-t border-white/5 bg-[#0a0a0f]/90 backdrop-blur-xl">
         {/* Timeline Scrubber */}
-        <div className="px-3 pt-2 sm:px-4">
-          <TimelineScrubber
-            progress={playback.progress}
-            onSeek={playback.seek}
-            onSeekStart={() => playback.pause()}
-            startDate={timelineStartDate}
-            endDate={timelineEndDate}
-            commitDensity={commitDensity}
+        <div className="flex items-start gap-2 px-3 pt-2 sm:px-4">
+          <div className="min-w-0 flex-1">
+            <TimelineScrubber
+              progress={playback.progress}
+              onSeek={playback.seek}
+              onSeekStart={() => playback.pause()}
+              startDate={timelineStartDate}
+              endDate={timelineEndDate}
+              commitDensity={commitDensity}
+              milestones={annotationMarkers}
+            />
+          </div>
+          <AnnotationPanel
+            annotations={annotations}
+            onAnnotationsChange={setAnnotations}
+            repositories={importedLog ? [] : selectedRepositories}
+            commits={allCommitsSorted}
+            milestones={storyMilestones}
+            activeRepoId={activeRepoId}
+            getCurrentTime={getCurrentTime}
+            onSeekToTime={handleSeekToTime}
           />
         </div>
 
@@ -602,6 +1155,14 @@ export default function GourcePage() {
           />
         </div>
       </div>
+
+      <VideoExportDialog
+        isOpen={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+        getExportInput={getExportInput}
+        defaultTitle={exportTitle}
+        defaultSubtitle={exportSubtitle}
+      />
     </div>
   );
 }
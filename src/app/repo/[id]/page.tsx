@@ -15,6 +15,7 @@ import {
   type Contributor,
   type DateRange,
 } from '@/lib/types'
+import { getIdentityId } from '@/lib/identity-resolver'
 import { ArrowLeft, GitCommitHorizontal, FileCode2, Users, CalendarDays, TrendingUp, AlertCircle, RefreshCw } from 'lucide-react'
 
 const RepoHeader = dynamic(() => import('@/components/repo-detail/repo-header').then(mod => ({ default: mod.RepoHeader })), { ssr: false })
@@ -30,7 +31,7 @@ function computeContributorsFromCommits(commits: CommitData[]): Contributor[] {
   const contributorMap = new Map<string, Contributor>()
 
   for (const commit of commits) {
-    const key = commit.author.login || commit.author.email || commit.author.name
+    const key = getIdentityId(commit.author)
     const existing = contributorMap.get(key)
 
     if (existing) {
@@ -5,12 +5,15 @@ import { useRouter } from 'next/navigation';
 import { useAppStore } from '@/stores/app-store';
 import { useGitData } from '@/context/git-data-provider';
 import { useNarrativeGenerator } from '@/hooks/use-narrative-generator';
+import { useStoryLibrary } from '@/hooks/use-story-library';
 import { StoryHeader } from '@/components/story/story-header';
 import { UnifiedDeveloperJourney } from '@/components/story/unified-developer-journey';
 import { PerRepoStoryCards } from '@/components/story/per-repo-story-cards';
 import { MilestoneTimeline } from '@/components/story/milestone-timeline';
 import { ChapterNavigation } from '@/components/story/chapter-navigation';
 import { ShareStory } from '@/components/story/share-story';
+import { StoryLibrary } from '@/components/story/story-library';
+import { StoryDiffView } from '@/components/story/story-diff-view';
 import { Progress } from '@/components/ui/progress';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
@@ -26,8 +29,11 @@ import {
   GitCommit,
   Clock,
   Share2,
+  BarChart3,
+  Library,
 } from 'lucide-react';
 import type { StoryMilestone } from '@/lib/types';
+import type { SavedStory } from '@/lib/narrative-types';
 
 const PHASE_LABELS: Record<string, string> = {
   idle: 'Ready to generate',
@@ -61,16 +67,32 @@ export default function StoryPage() {
     unifiedStory,
     partialStory,
     isGenerating,
+    isRestoring,
+    savedStoryId,
     progress,
     narrativeProgress,
+    isDataStory,
+    canUseAi,
     generateStory,
     regenerate,
+    openSavedStory,
+    rewritingChapterIndex,
+    chapterError,
+    regenerateChapter,
+    editChapter,
+    moveChapter,
+    mergeChapterWithNext,
+    splitChapter,
+    toggleChapterLock,
     error,
   } = useNarrativeGenerator();
+  const library = useStoryLibrary(savedStoryId);
 
   const [activeSection, setActiveSection] = useState<string>('unified-journey');
   const [shareOpen, setShareOpen] = useState(false);
   const [hasAutoGenerated, setHasAutoGenerated] = useState(false);
+  const [libraryOpen, setLibraryOpen] = useState(false);
+  const [comparePair, setComparePair] = useState<{ left: SavedStory; right: SavedStory } | null>(null);
 
   const contentRef = useRef<HTMLDivElement>(null);
   const storyCaptureRef = useRef<HTMLElement>(null);
@@ -83,11 +105,12 @@ export default function StoryPage() {
     }
   }, [selectedRepos, router]);
 
-  // Auto-generate on first mount if no stories exist
+  // Auto-generate on first mount if no stories exist, once the library had its chance to restore one
   useEffect(() => {
     if (
       !hasAutoGenerated &&
       !isGenerating &&
+      !isRestoring &&
       selectedRepos.length > 0 &&
       stories.length === 0 &&
       !unifiedStory &&
@@ -96,7 +119,7 @@ export default function StoryPage() {
       setHasAutoGenerated(true);
       generateStory();
     }
-  }, [hasAutoGenerated, isGenerating, selectedRepos, stories, unifiedStory, error, generateStory]);
+  }, [hasAutoGenerated, isGenerating, isRestoring, selectedRepos, stories, unifiedStory, error, generateStory]);
 
   // Scroll-spy for chapter navigation
   useEffect(() => {
@@ -263,16 +286,32 @@ export default function StoryPage() {
 
         {/* Main Content */}
         <div className={`mx-auto max-w-4xl px-4 py-8 sm:px-6 lg:px-8 ${hasContent ? 'lg:ml-64 lg:max-w-4xl xl:ml-72' : ''}`}>
-          {/* Back Button */}
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={() => router.push('/dashboard')}
-            className="mb-6 -ml-2 text-muted-foreground hover:text-foreground"
-          >
-            <ArrowLeft className="mr-2 h-4 w-4" />
-            Back to Dashboard
-          </Button>
+          {/* Back Button + Library */}
+          <div className="mb-6 flex items-center justify-between">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => router.push('/dashboard')}
+              className="-ml-2 text-muted-foreground hover:text-foreground"
+            >
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Dashboard
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setLibraryOpen(true)}
+              className="border-zinc-700 bg-zinc-800/50 text-zinc-200"
+            >
+              <Library className="mr-2 h-4 w-4" />
+              Library
+              {library.entries.length > 0 && (
+                <Badge variant="secondary" className="ml-2 text-xs">
+                  {library.entries.length}
+                </Badge>
+              )}
+            </Button>
+          </div>
 
           {/* Story Header */}
           <div ref={(el) => { registerSection('story-header', el); }}>
@@ -361,6 +400,33 @@ export default function StoryPage() {
             </Card>
           )}
 
+          {/* Data story: the AI pass is an optional upgrade */}
+          {isDataStory && !isGenerating && (
+            <Card className="mb-8 border-purple-500/20 bg-purple-500/5">
+              <CardContent className="flex flex-col gap-3 p-5 sm:flex-row sm:items-center">
+                <BarChart3 className="h-5 w-5 shrink-0 text-purple-400" />
+                <div className="flex-1">
+                  <h3 className="text-sm font-semibold">Written from your commit data</h3>
+                  <p className="mt-0.5 text-sm text-muted-foreground">
+                    {canUseAi
+                      ? 'Every fact here comes straight from your history. Let AI turn it into a richer narrative.'
+                      : 'Every fact here comes straight from your history. Connect a Claude token to have AI write a richer narrative.'}
+                  </p>
+                </div>
+                {canUseAi ? (
+                  <Button size="sm" variant="outline" onClick={regenerate} className="shrink-0">
+                    <Sparkles className="mr-2 h-4 w-4" />
+                    Write with AI
+                  </Button>
+                ) : (
+                  <Button size="sm" variant="outline" onClick={() => router.push('/connect')} className="shrink-0">
+                    Connect Claude
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Content Area */}
           <div ref={contentRef} className="space-y-12">
             {/* Unified Developer Journey (or streaming preview) */}
@@ -376,6 +442,21 @@ export default function StoryPage() {
                 <UnifiedDeveloperJourney
                   story={effectiveStory}
                   onChapterVisible={(chapterId) => setActiveSection(chapterId)}
+                  chapterActions={
+                    unifiedStory && !isGenerating
+                      ? {
+                          canRewrite: canUseAi,
+                          rewritingChapterIndex,
+                          chapterError,
+                          onRewrite: regenerateChapter,
+                          onEdit: editChapter,
+                          onMove: moveChapter,
+                          onMergeWithNext: mergeChapterWithNext,
+                          onSplit: splitChapter,
+                          onToggleLock: toggleChapterLock,
+                        }
+                      : undefined
+                  }
                 />
                 {/* Show streaming indicator when chapters are still arriving */}
                 {isGenerating && streamingDisplayStory && (
@@ -472,7 +553,7 @@ export default function StoryPage() {
                   </div>
                   <h3 className="text-xl font-semibold">Your Story Awaits</h3>
                   <p className="mt-2 max-w-md text-sm text-muted-foreground">
-                    Let Claude analyze your {selectedRepos.length} selected {selectedRepos.length === 1 ? 'repository' : 'repositories'} and craft a compelling narrative
+                    {canUseAi ? 'Let Claude analyze' : 'Turn'} your {selectedRepos.length} selected {selectedRepos.length === 1 ? 'repository' : 'repositories'} {canUseAi ? 'and craft' : 'into'} a compelling narrative
                     about your developer journey — complete with chapters, milestones, and breakthroughs.
                   </p>
                   <Button
@@ -501,6 +582,26 @@ export default function StoryPage() {
         repoCount={selectedRepos.length}
         commitCount={progress.totalCommits}
       />
+
+      {/* Saved generations */}
+      <StoryLibrary
+        isOpen={libraryOpen}
+        onClose={() => setLibraryOpen(false)}
+        entries={library.entries}
+        currentId={savedStoryId}
+        isGenerating={isGenerating}
+        onOpen={(saved) => {
+          openSavedStory(saved);
+          setLibraryOpen(false);
+        }}
+        onTogglePin={library.togglePin}
+        onDelete={library.remove}
+        onCompare={(left, right) => {
+          setLibraryOpen(false);
+          setComparePair({ left, right });
+        }}
+      />
+      <StoryDiffView pair={comparePair} onClose={() => setComparePair(null)} />
     </div>
   );
 }
@@ -66,16 +66,25 @@ const ShareWrapped = dynamic(
 import { useGitData } from '@/context/git-data-provider';
 import { useGitHubAuth } from '@/hooks/use-github-auth';
 import { useAnalytics } from '@/hooks/use-analytics';
-import { GITHUB_LANGUAGE_COLORS } from '@/lib/types';
+import { BotFilterMode, GITHUB_LANGUAGE_COLORS } from '@/lib/types';
+import { createBotClassifier } from '@/lib/bot-classifier';
 
 function buildWrappedDataFromAnalytics(
   user: GitHubUser,
   analytics: import('@/lib/types').AnalyticsResult,
   repos: import('@/lib/types').Repository[],
-  commits: import('@/lib/types').CommitData[],
+  allCommits: import('@/lib/types').CommitData[],
 ): WrappedData {
   const totalCommits = analytics.totals.totalCommits;
 
+  // Slides count the same commits the analytics did
+  const excludesAutomation = analytics.botFilter?.mode === BotFilterMode.EXCLUDE;
+  let commits = allCommits;
+  if (excludesAutomation) {
+    const classify = createBotClassifier(analytics.botFilter.classifier);
+    commits = allCommits.filter((c) => !classify(c));
+  }
+
   // Build topRepos from commitsByRepo counts
   const repoCommitCounts: Record<string, number> = {};
   for (const commit of commits) {
@@ -139,6 +148,10 @@ function buildWrappedDataFromAnalytics(
     superlatives: analytics.superlatives,
     dateRange: analytics.dateRange,
     wrappedYear: new Date().getFullYear(),
+    excludedAutomation:
+      excludesAutomation && analytics.automation.automatedCommits > 0
+        ? analytics.automation
+        : undefined,
   };
 }
 
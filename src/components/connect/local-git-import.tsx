@@ -0,0 +1,205 @@
+'use client';
+
+import { useCallback, useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Check, Copy, FolderGit2, HardDriveUpload, Loader2, TriangleAlert } from 'lucide-react';
+import { GIT_LOG_COMMAND, GIT_LOG_BUNDLE_COMMAND, parseGitLogBundle } from '@/lib/git-log-parser';
+import type { LocalGitImportProps, LocalRepositoryImport } from '@/lib/types';
+
+/** Uploads above this size are parsed but flagged — the whole history stays in memory. */
+const LARGE_FILE_BYTES = 50 * 1024 * 1024;
+
+function CommandSnippet({ label, command }: { label: string; command: string }) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(command);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard unavailable (insecure context) — the command is still selectable
+    }
+  }, [command]);
+
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium text-muted-foreground">{label}</p>
+      <div className="flex items-start gap-2 rounded-md border border-border/40 bg-muted/30 p-2">
+        <code className="flex-1 break-all font-mono text-[11px] leading-relaxed text-foreground/80">
+          {command}
+        </code>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={handleCopy}
+          className="h-6 w-6 shrink-0"
+          aria-label={`Copy ${label.toLowerCase()}`}
+        >
+          {copied ? <Check className="h-3 w-3 text-emerald-400" /> : <Copy className="h-3 w-3" />}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/** Connect-page card for importing repositories from `git log --numstat` dumps. */
+export function LocalGitImport({ importedRepos, onImport }: LocalGitImportProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isParsing, setIsParsing] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFiles = useCallback(
+    async (fileList: FileList | null) => {
+      if (!fileList || fileList.length === 0) return;
+
+      setIsParsing(true);
+      setError(null);
+      setWarnings([]);
+
+      try {
+        const imports: LocalRepositoryImport[] = [];
+        const collectedWarnings: string[] = [];
+
+        for (const file of Array.from(fileList)) {
+          if (file.size > LARGE_FILE_BYTES) {
+            collectedWarnings.push(`${file.name} is very large; parsing may take a while.`);
+          }
+          const text = await file.text();
+          for (const imp of parseGitLogBundle(text, file.name)) {
+            collectedWarnings.push(...imp.warnings.map((w) => `${imp.repository.name}: ${w}`));
+            if (imp.commits.length > 0) {
+              imports.push(imp);
+            }
+          }
+        }
+
+        if (imports.length === 0) {
+          setError('No commits were found. Make sure the file was produced with one of the commands below.');
+        } else {
+          onImport(imports);
+        }
+        setWarnings(collectedWarnings);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to read the uploaded file.');
+      } finally {
+        setIsParsing(false);
+        if (inputRef.current) inputRef.current.value = '';
+      }
+    },
+    [onImport]
+  );
+
+  return (
+    <Card className="relative overflow-hidden border-border/50 bg-card/80 backdrop-blur-sm">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-orange-500/15 text-orange-400">
+            <FolderGit2 className="h-5 w-5" />
+          </div>
+          <div className="flex-1">
+            <CardTitle className="text-lg">Import a Local Repository</CardTitle>
+            <CardDescription className="text-sm text-muted-foreground">
+              Self-hosted or offline? Upload a <code className="font-mono">git log</code> dump — no
+              GitHub account needed
+            </CardDescription>
+          </div>
+          {importedRepos.length > 0 && (
+            <Badge variant="outline" className="border-orange-500/30 bg-orange-500/10 text-orange-400">
+              {importedRepos.length} imported
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <CommandSnippet label="Single repository" command={GIT_LOG_COMMAND} />
+        <CommandSnippet label="Every repository in a folder (bundle)" command={GIT_LOG_BUNDLE_COMMAND} />
+
+        <div
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setIsDragging(false);
+            handleFiles(e.dataTransfer.files);
+          }}
+          className={`flex flex-col items-center gap-3 rounded-lg border border-dashed p-6 text-center transition-colors ${
+            isDragging ? 'border-orange-400 bg-orange-500/10' : 'border-border/60 bg-muted/10'
+          }`}
+        >
+          <HardDriveUpload className="h-6 w-6 text-muted-foreground" />
+          <p className="text-sm text-muted-foreground">
+            Drop one or more <code className="font-mono">.log</code> files here. Plain{' '}
+            <code className="font-mono">git log --numstat</code> output works too.
+          </p>
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".log,.txt,text/plain"
+            multiple
+            className="hidden"
+            onChange={(e) => handleFiles(e.target.files)}
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={isParsing}
+            onClick={() => inputRef.current?.click()}
+          >
+            {isParsing ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Parsing history...
+              </>
+            ) : (
+              'Choose files'
+            )}
+          </Button>
+        </div>
+
+        {error && (
+          <p className="rounded-md border border-red-500/20 bg-red-500/10 p-3 text-xs text-red-400">{error}</p>
+        )}
+
+        {importedRepos.length > 0 && (
+          <ul className="space-y-1.5">
+            {importedRepos.map((repo) => (
+              <li
+                key={repo.id}
+                className="flex items-center justify-between rounded-md border border-border/40 bg-muted/20 px-3 py-2 text-sm"
+              >
+                <span className="truncate font-medium text-foreground">{repo.name}</span>
+                <span className="shrink-0 text-xs text-muted-foreground">
+                  {(repo.commitCount ?? 0).toLocaleString()} commits
+                  {repo.language && ` · ${repo.language}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {warnings.length > 0 && (
+          <details className="rounded-md border border-amber-500/20 bg-amber-500/5 p-3 text-xs text-amber-400/90">
+            <summary className="flex cursor-pointer items-center gap-1.5">
+              <TriangleAlert className="h-3 w-3" />
+              {warnings.length} {warnings.length === 1 ? 'record' : 'records'} could not be imported
+            </summary>
+            <ul className="mt-2 max-h-32 space-y-0.5 overflow-y-auto">
+              {warnings.map((w, i) => (
+                <li key={i}>{w}</li>
+              ))}
+            </ul>
+          </details>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,285 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Loader2, Server, Unplug } from 'lucide-react';
+import type {
+  ApiResponse,
+  ProviderConnection,
+  Repository,
+  SelfHostedProviderConnectProps,
+} from '@/lib/types';
+import { RepositorySource } from '@/lib/types';
+
+type SelfHostedSource = RepositorySource.GITLAB | RepositorySource.GITEA;
+
+const PROVIDERS: Record<SelfHostedSource, { label: string; defaultUrl: string; tokenHint: string }> = {
+  [RepositorySource.GITLAB]: {
+    label: 'GitLab',
+    defaultUrl: 'https://gitlab.com',
+    tokenHint: 'Personal access token with the read_api scope',
+  },
+  [RepositorySource.GITEA]: {
+    label: 'Gitea',
+    defaultUrl: '',
+    tokenHint: 'Access token with read:repository and read:user scopes',
+  },
+};
+
+/** Same page cap as the GitHub repo fetcher. */
+const MAX_REPO_PAGES = 10;
+
+async function fetchProviderRepos(source: SelfHostedSource): Promise<Repository[]> {
+  const repos: Repository[] = [];
+  for (let page = 1; page <= MAX_REPO_PAGES; page++) {
+    const response = await fetch(`/api/github/repos?provider=${source}&per_page=100&page=${page}`, {
+      credentials: 'include',
+    });
+    const result = (await response.json().catch(() => null)) as ApiResponse<Repository[]> | null;
+    if (!response.ok || !result?.data) {
+      throw new Error(result?.error?.message ?? `Failed to list ${PROVIDERS[source].label} repositories`);
+    }
+    repos.push(...result.data);
+    if (!result.pagination?.hasMore) break;
+  }
+  return repos;
+}
+
+/** Connect-page card for GitLab and Gitea instances (personal access tokens). */
+export function SelfHostedProviderConnect({
+  repositories,
+  selectedIds,
+  onRepositoriesLoaded,
+  onToggleRepo,
+}: SelfHostedProviderConnectProps) {
+  const [source, setSource] = useState<SelfHostedSource>(RepositorySource.GITLAB);
+  const [baseUrl, setBaseUrl] = useState(PROVIDERS[RepositorySource.GITLAB].defaultUrl);
+  const [token, setToken] = useState('');
+  const [connections, setConnections] = useState<ProviderConnection[]>([]);
+  const [isConnecting, setIsConnecting] = useState(false);
+  const [loadingSource, setLoadingSource] = useState<SelfHostedSource | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRepos = useCallback(
+    async (target: SelfHostedSource) => {
+      setLoadingSource(target);
+      try {
+        onRepositoriesLoaded(await fetchProviderRepos(target));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to list repositories');
+      } finally {
+        setLoadingSource(null);
+      }
+    },
+    [onRepositoriesLoaded]
+  );
+
+  // Restore connections made in a previous session
+  useEffect(() => {
+    let cancelled = false;
+    const restore = async () => {
+      const response = await fetch('/api/providers/connect', { credentials: 'include' });
+      const result = (await response.json().catch(() => null)) as ApiResponse<ProviderConnection[]> | null;
+      if (cancelled || !result?.data?.length) return;
+      setConnections(result.data);
+      for (const connection of result.data) {
+        await loadRepos(connection.source as SelfHostedSource);
+      }
+    };
+    restore().catch(() => {
+      // Not connected anywhere — nothing to restore
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [loadRepos]);
+
+  const handleSourceChange = useCallback((next: SelfHostedSource) => {
+    setSource(next);
+    setBaseUrl(PROVIDERS[next].defaultUrl);
+    setError(null);
+  }, []);
+
+  const handleConnect = useCallback(async () => {
+    setIsConnecting(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/providers/connect', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ source, baseUrl, token: token.trim() }),
+      });
+      const result = (await response.json().catch(() => null)) as ApiResponse<ProviderConnection> | null;
+      if (!response.ok || !result?.data) {
+        throw new Error(result?.error?.message ?? 'Connection failed');
+      }
+      const connection = result.data;
+      setConnections((prev) => [...prev.filter((c) => c.source !== connection.source), connection]);
+      setToken('');
+      await loadRepos(source);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Connection failed');
+    } finally {
+      setIsConnecting(false);
+    }
+  }, [source, baseUrl, token, loadRepos]);
+
+  const handleDisconnect = useCallback(async (target: SelfHostedSource) => {
+    await fetch(`/api/providers/connect?source=${target}`, {
+      method: 'DELETE',
+      credentials: 'include',
+    }).catch(() => null);
+    setConnections((prev) => prev.filter((c) => c.source !== target));
+  }, []);
+
+  const connectedSources = new Set(connections.map((c) => c.source));
+
+  return (
+    <Card className="relative overflow-hidden border-border/50 bg-card/80 backdrop-blur-sm">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-sky-500/15 text-sky-400">
+            <Server className="h-5 w-5" />
+          </div>
+          <div className="flex-1">
+            <CardTitle className="text-lg">GitLab &amp; Gitea</CardTitle>
+            <CardDescription className="text-sm text-muted-foreground">
+              Connect GitLab.com or a self-hosted GitLab / Gitea instance with an access token
+            </CardDescription>
+          </div>
+          {connections.length > 0 && (
+            <Badge variant="outline" className="border-sky-500/30 bg-sky-500/10 text-sky-400">
+              {connections.length} connected
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {connections.map((connection) => {
+          const connSource = connection.source as SelfHostedSource;
+          const repos = repositories.filter((r) => r.source === connSource);
+          return (
+            <div key={connSource} className="space-y-2 rounded-lg border border-border/40 bg-muted/10 p-3">
+              <div className="flex items-center justify-between gap-2 text-sm">
+                <span className="truncate">
+                  <span className="font-medium text-foreground">{PROVIDERS[connSource].label}</span>{' '}
+                  <span className="text-muted-foreground">
+                    {connection.user ? `@${connection.user.login} · ` : ''}
+                    {new URL(connection.baseUrl).host}
+                  </span>
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs text-muted-foreground"
+                  onClick={() => handleDisconnect(connSource)}
+                >
+                  <Unplug className="mr-1 h-3 w-3" />
+                  Disconnect
+                </Button>
+              </div>
+
+              {loadingSource === connSource ? (
+                <p className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                  Loading repositories...
+                </p>
+              ) : repos.length === 0 ? (
+                <p className="text-xs text-muted-foreground">No repositories found.</p>
+              ) : (
+                <ul className="max-h-56 space-y-1 overflow-y-auto pr-1">
+                  {repos.map((repo) => (
+                    <li key={repo.id}>
+                      <label className="flex cursor-pointer items-center gap-2 rounded-md px-2 py-1.5 text-sm hover:bg-muted/30">
+                        <Checkbox
+                          checked={selectedIds.has(repo.id)}
+                          onCheckedChange={() => onToggleRepo(repo.id)}
+                          className="border-zinc-600 data-[state=checked]:border-sky-500 data-[state=checked]:bg-sky-500"
+                        />
+                        <span className="truncate text-foreground">{repo.owner.login}/{repo.name}</span>
+                        {repo.isPrivate && (
+                          <span className="ml-auto shrink-0 text-[10px] uppercase text-muted-foreground">private</span>
+                        )}
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+
+        {connectedSources.size < Object.keys(PROVIDERS).length && (
+          <div className="space-y-3">
+            <div className="flex gap-2">
+              {(Object.keys(PROVIDERS) as SelfHostedSource[])
+                .filter((s) => !connectedSources.has(s))
+                .map((s) => (
+                  <Button
+                    key={s}
+                    variant={source === s ? 'secondary' : 'ghost'}
+                    size="sm"
+                    onClick={() => handleSourceChange(s)}
+                  >
+                    {PROVIDERS[s].label}
+                  </Button>
+                ))}
+            </div>
+
+            <div className="space-y-1.5">
+              <Label htmlFor="provider-url" className="text-xs text-muted-foreground">
+                Instance URL
+              </Label>
+              <Input
+                id="provider-url"
+                value={baseUrl}
+                onChange={(e) => setBaseUrl(e.target.value)}
+                placeholder="https://git.example.com"
+                autoComplete="off"
+              />
+            </div>
+
+            <div className="space-y-1.5">
+              <Label htmlFor="provider-token" className="text-xs text-muted-foreground">
+                {PROVIDERS[source].tokenHint}
+              </Label>
+              <Input
+                id="provider-token"
+                type="password"
+                value={token}
+                onChange={(e) => setToken(e.target.value)}
+                autoComplete="off"
+              />
+            </div>
+
+            <Button
+              onClick={handleConnect}
+              disabled={isConnecting || !baseUrl.trim() || token.trim().length < 8 || connectedSources.has(source)}
+              className="w-full"
+            >
+              {isConnecting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Verifying token...
+                </>
+              ) : (
+                `Connect ${PROVIDERS[source].label}`
+              )}
+            </Button>
+          </div>
+        )}
+
+        {error && (
+          <p className="rounded-md border border-red-500/20 bg-red-500/10 p-3 text-xs text-red-400">{error}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,243 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Bot, ChevronDown, RotateCcw } from 'lucide-react';
+import { DEFAULT_BOT_CLASSIFIER, isValidPattern } from '@/lib/bot-classifier';
+import { useAppStore } from '@/stores/app-store';
+import type { AutomationBreakdown as AutomationBreakdownData, AutomationReason } from '@/lib/types';
+import { BotFilterMode } from '@/lib/types';
+
+interface AutomationBreakdownProps {
+  data: AutomationBreakdownData | null;
+}
+
+const REASON_LABELS: Record<AutomationReason, string> = {
+  'bot-login': '[bot] accounts',
+  'author-pattern': 'Known bot authors',
+  'message-pattern': 'Automated messages',
+};
+
+function toLines(patterns: string[]): string {
+  return patterns.join('\n');
+}
+
+function fromLines(text: string): string[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+function PatternEditor({
+  id,
+  label,
+  value,
+  onChange,
+}: {
+  id: string;
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  const invalid = fromLines(value).filter((line) => !isValidPattern(line));
+  return (
+    <div className="space-y-1.5">
+      <Label htmlFor={id} className="text-xs text-muted-foreground">
+        {label}
+      </Label>
+      <textarea
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        rows={5}
+        spellCheck={false}
+        className="w-full resize-y rounded-md border border-border/60 bg-muted/10 px-3 py-2 font-mono text-xs focus:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+      />
+      {invalid.length > 0 && (
+        <p className="text-[11px] text-red-400">
+          Ignored (not a valid regex): {invalid.join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
+
+/** Share of automated commits, the exclude toggle and the classifier rules. */
+export function AutomationBreakdown({ data }: AutomationBreakdownProps) {
+  const botFilter = useAppStore((state) => state.botFilter);
+  const setBotFilter = useAppStore((state) => state.setBotFilter);
+
+  const [authorDraft, setAuthorDraft] = useState(() => toLines(botFilter.classifier.authorPatterns));
+  const [messageDraft, setMessageDraft] = useState(() => toLines(botFilter.classifier.messagePatterns));
+
+  const excluded = botFilter.mode === BotFilterMode.EXCLUDE;
+  const isDirty =
+    authorDraft !== toLines(botFilter.classifier.authorPatterns) ||
+    messageDraft !== toLines(botFilter.classifier.messagePatterns);
+
+  const applyRules = () => {
+    setBotFilter({
+      ...botFilter,
+      classifier: {
+        ...botFilter.classifier,
+        authorPatterns: fromLines(authorDraft),
+        messagePatterns: fromLines(messageDraft),
+      },
+    });
+  };
+
+  const resetRules = () => {
+    setAuthorDraft(toLines(DEFAULT_BOT_CLASSIFIER.authorPatterns));
+    setMessageDraft(toLines(DEFAULT_BOT_CLASSIFIER.messagePatterns));
+    setBotFilter({ ...botFilter, classifier: DEFAULT_BOT_CLASSIFIER });
+  };
+
+  const automated = data?.automatedCommits ?? 0;
+  const total = data?.totalCommits ?? 0;
+
+  return (
+    <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Bot className="w-5 h-5 text-sky-400" />
+            Automated Commits
+            {data && (
+              <Badge variant="secondary" className="text-xs font-mono">
+                {data.automatedPercentage}%
+              </Badge>
+            )}
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="exclude-automation" className="text-xs text-muted-foreground">
+              Exclude from stats
+            </Label>
+            <Switch
+              id="exclude-automation"
+              checked={excluded}
+              onCheckedChange={(checked) =>
+                setBotFilter({
+                  ...botFilter,
+                  mode: checked ? BotFilterMode.EXCLUDE : BotFilterMode.INCLUDE,
+                })
+              }
+            />
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {!data || total === 0 ? (
+          <p className="text-sm text-muted-foreground">No commits analyzed yet.</p>
+        ) : (
+          <>
+            <div className="space-y-1.5">
+              <div className="flex h-2.5 overflow-hidden rounded-full bg-muted/50">
+                <div
+                  className="h-full rounded-full bg-sky-400/80 transition-all duration-700"
+                  style={{ width: `${Math.max(data.automatedPercentage, automated > 0 ? 1 : 0)}%` }}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {automated.toLocaleString()} of {total.toLocaleString()} commits look automated
+                {excluded
+                  ? ' — left out of every chart, streak and superlative.'
+                  : ' — counted in the stats above.'}
+              </p>
+            </div>
+
+            {automated > 0 && (
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                <div>
+                  <h4 className="mb-1.5 text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                    Detected by
+                  </h4>
+                  <ul className="space-y-1 text-sm">
+                    {(Object.keys(REASON_LABELS) as AutomationReason[]).map((reason) => (
+                      <li key={reason} className="flex justify-between">
+                        <span>{REASON_LABELS[reason]}</span>
+                        <span className="font-mono text-muted-foreground">
+                          {data.byReason[reason].toLocaleString()}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+                <div>
+                  <h4 className="mb-1.5 text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                    Busiest bots
+                  </h4>
+                  <ul className="space-y-1 text-sm">
+                    {data.topAuthors.map((author) => (
+                      <li key={author.name} className="flex justify-between gap-2">
+                        <span className="truncate">{author.name}</span>
+                        <span className="font-mono text-muted-foreground">
+                          {author.commits.toLocaleString()}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+
+        <Collapsible>
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-7 gap-1 px-2 text-xs text-muted-foreground">
+              <ChevronDown className="w-3.5 h-3.5" />
+              Classifier rules
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent className="space-y-3 pt-3">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="match-bot-logins"
+                checked={botFilter.classifier.matchBotLogins}
+                onCheckedChange={(checked) =>
+                  setBotFilter({
+                    ...botFilter,
+                    classifier: { ...botFilter.classifier, matchBotLogins: checked },
+                  })
+                }
+              />
+              <Label htmlFor="match-bot-logins" className="text-xs">
+                Treat <code className="font-mono">name[bot]</code> accounts as automated
+              </Label>
+            </div>
+            <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+              <PatternEditor
+                id="bot-author-patterns"
+                label="Author patterns (login, name or email — one regex per line)"
+                value={authorDraft}
+                onChange={setAuthorDraft}
+              />
+              <PatternEditor
+                id="bot-message-patterns"
+                label="Message patterns (commit headline — one regex per line)"
+                value={messageDraft}
+                onChange={setMessageDraft}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" onClick={applyRules} disabled={!isDirty}>
+                Apply rules
+              </Button>
+              <Button variant="ghost" size="sm" onClick={resetRules} className="gap-1">
+                <RotateCcw className="w-3.5 h-3.5" />
+                Defaults
+              </Button>
+            </div>
+          </CollapsibleContent>
+        </Collapsible>
+      </CardContent>
+    </Card>
+  );
+}
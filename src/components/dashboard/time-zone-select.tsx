@@ -0,0 +1,92 @@
+'use client';
+
+import { useState } from 'react';
+import { Globe } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { isValidTimeZone } from '@/lib/analytics-engine';
+import { TimeZoneMode } from '@/lib/types';
+import { useAppStore } from '@/stores/app-store';
+
+const MODE_LABELS: Record<TimeZoneMode, string> = {
+  [TimeZoneMode.AUTHOR]: "Author's local time",
+  [TimeZoneMode.VIEWER]: 'My time zone',
+  [TimeZoneMode.FIXED]: 'Fixed time zone',
+};
+
+/**
+ * Picks the zone that hour-of-day and weekday analytics are bucketed in.
+ * `missingOffsetCount` commits have no recorded author offset; in author mode
+ * they are read in the viewer's zone instead, and the picker says how many.
+ */
+export function TimeZoneSelect({ missingOffsetCount = 0 }: { missingOffsetCount?: number }) {
+  const timeZone = useAppStore((state) => state.timeZone);
+  const setTimeZone = useAppStore((state) => state.setTimeZone);
+  const [draftZone, setDraftZone] = useState(timeZone.zone ?? 'UTC');
+
+  const draftValid = isValidTimeZone(draftZone.trim());
+
+  const handleModeChange = (value: string) => {
+    const mode = value as TimeZoneMode;
+    if (mode === TimeZoneMode.FIXED) {
+      if (draftValid) setTimeZone({ mode, zone: draftZone.trim() });
+      else setTimeZone({ mode, zone: 'UTC' });
+    } else {
+      setTimeZone({ mode, zone: null });
+    }
+  };
+
+  const commitDraft = () => {
+    const zone = draftZone.trim();
+    if (isValidTimeZone(zone) && zone !== timeZone.zone) {
+      setTimeZone({ mode: TimeZoneMode.FIXED, zone });
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select value={timeZone.mode} onValueChange={handleModeChange}>
+        <SelectTrigger className="h-8 w-[170px] gap-1.5 text-xs">
+          <Globe className="h-3 w-3 shrink-0" />
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.values(TimeZoneMode).map((mode) => (
+            <SelectItem key={mode} value={mode} className="text-xs">
+              {MODE_LABELS[mode]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {timeZone.mode === TimeZoneMode.AUTHOR && missingOffsetCount > 0 && (
+        <span
+          className="text-xs text-muted-foreground"
+          title="The provider didn't report the author's UTC offset for these commits, so they are shown in your time zone"
+        >
+          {missingOffsetCount.toLocaleString()} without author offset
+        </span>
+      )}
+
+      {timeZone.mode === TimeZoneMode.FIXED && (
+        <Input
+          value={draftZone}
+          onChange={(e) => setDraftZone(e.target.value)}
+          onBlur={commitDraft}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitDraft();
+          }}
+          placeholder="Europe/Berlin"
+          aria-invalid={!draftValid}
+          className="h-8 w-[150px] text-xs aria-[invalid=true]:border-red-500/60"
+        />
+      )}
+    </div>
+  );
+}
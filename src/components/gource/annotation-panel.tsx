@@ -0,0 +1,323 @@
+'use client';
+
+import { useCallback, useRef, useState } from 'react';
+import {
+  Download,
+  Loader2,
+  MessageSquareText,
+  Pencil,
+  Plus,
+  Sparkles,
+  Tag,
+  Trash2,
+  Upload,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+import { getProviderRepoRef } from '@/lib/commit-normalizer';
+import {
+  annotationsFromMilestones,
+  annotationsFromTags,
+  createNoteAnnotation,
+  mergeAnnotations,
+  parseAnnotations,
+  serializeAnnotations,
+} from '@/lib/gource-annotations';
+import type {
+  ApiResponse,
+  CommitData,
+  GourceAnnotation,
+  GourceAnnotationSource,
+  ProviderTag,
+  Repository,
+  StoryMilestone,
+} from '@/lib/types';
+
+interface AnnotationPanelProps {
+  annotations: GourceAnnotation[];
+  onAnnotationsChange: (annotations: GourceAnnotation[]) => void;
+  /** Remote repositories are queried for tags */
+  repositories: Repository[];
+  /** Used to date tags whose provider doesn't report a date */
+  commits: CommitData[];
+  /** Milestones of the generated stories, if any */
+  milestones: StoryMilestone[];
+  /** Repository in focus; new notes are attached to it */
+  activeRepoId: string | null;
+  getCurrentTime: () => number | null;
+  onSeekToTime: (time: number) => void;
+}
+
+const SOURCE_DOT: Record<GourceAnnotationSource, string> = {
+  tag: 'bg-blue-400',
+  milestone: 'bg-amber-400',
+  note: 'bg-emerald-400',
+};
+
+function formatDate(time: number): string {
+  return new Date(time).toISOString().split('T')[0];
+}
+
+/** Popover for the timed captions: import from tags, stories or JSON, and edit notes. */
+export function AnnotationPanel({
+  annotations,
+  onAnnotationsChange,
+  repositories,
+  commits,
+  milestones,
+  activeRepoId,
+  getCurrentTime,
+  onSeekToTime,
+}: AnnotationPanelProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isImportingTags, setIsImportingTags] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const remoteRepositories = repositories.filter((repo) => getProviderRepoRef(repo) !== null);
+
+  const updateAnnotation = useCallback(
+    (id: string, updates: Partial<Pick<GourceAnnotation, 'title' | 'detail'>>) => {
+      onAnnotationsChange(annotations.map((a) => (a.id === id ? { ...a, ...updates } : a)));
+    },
+    [annotations, onAnnotationsChange],
+  );
+
+  const handleAddNote = useCallback(() => {
+    const time = getCurrentTime();
+    if (time === null) return;
+    const note = createNoteAnnotation(time, 'New note', activeRepoId);
+    onAnnotationsChange(mergeAnnotations(annotations, [note]));
+    setEditingId(note.id);
+  }, [annotations, activeRepoId, getCurrentTime, onAnnotationsChange]);
+
+  const handleImportTags = useCallback(async () => {
+    setIsImportingTags(true);
+    setMessage(null);
+
+    const imported: GourceAnnotation[] = [];
+    const failed: string[] = [];
+    for (const repository of remoteRepositories) {
+      const ref = getProviderRepoRef(repository);
+      if (!ref) continue;
+      try {
+        const res = await fetch(
+          `/api/github/tags?repo=${encodeURIComponent(`${ref.owner}/${ref.repo}`)}&source=${ref.source}`,
+          { credentials: 'include' },
+        );
+        const json = (await res.json()) as ApiResponse<{ tags: ProviderTag[] }>;
+        if (!json.success || !json.data) throw new Error(json.error?.message);
+        imported.push(...annotationsFromTags(json.data.tags, repository.fullName, commits));
+      } catch {
+        failed.push(repository.name);
+      }
+    }
+
+    onAnnotationsChange(mergeAnnotations(annotations, imported));
+    setIsImportingTags(false);
+    setMessage(
+      failed.length > 0
+        ? { text: `Couldn't load tags for ${failed.join(', ')}.`, isError: true }
+        : { text: `Imported ${imported.length} dated tag${imported.length === 1 ? '' : 's'}.`, isError: false },
+    );
+  }, [annotations, commits, onAnnotationsChange, remoteRepositories]);
+
+  const handleImportMilestones = useCallback(() => {
+    const imported = annotationsFromMilestones(milestones);
+    onAnnotationsChange(mergeAnnotations(annotations, imported));
+    setMessage({ text: `Imported ${imported.length} story milestones.`, isError: false });
+  }, [annotations, milestones, onAnnotationsChange]);
+
+  const handleImportFile = useCallback(
+    async (file: File) => {
+      const result = parseAnnotations(await file.text());
+      if (result.success) {
+        onAnnotationsChange(mergeAnnotations(annotations, result.annotations));
+        setMessage({ text: `Imported ${result.annotations.length} annotations.`, isError: false });
+      } else {
+        setMessage({ text: result.error, isError: true });
+      }
+    },
+    [annotations, onAnnotationsChange],
+  );
+
+  const handleExport = useCallback(() => {
+    const url = URL.createObjectURL(
+      new Blob([serializeAnnotations(annotations)], { type: 'application/json' }),
+    );
+    const link = document.createElement('a');
+    link.download = 'gource-annotations.json';
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [annotations]);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 shrink-0 gap-1.5 px-2 text-xs text-white/50 hover:bg-white/5 hover:text-white"
+          aria-label="Edit annotations"
+        >
+          <MessageSquareText className="h-3.5 w-3.5" />
+          {annotations.length > 0 && <span className="tabular-nums">{annotations.length}</span>}
+        </Button>
+      </PopoverTrigger>
+
+      <PopoverContent
+        side="top"
+        align="end"
+        className="w-[340px] border-white/10 bg-zinc-950/95 p-3 text-white backdrop-blur-xl"
+      >
+        <div className="mb-2 flex items-center justify-between">
+          <p className="text-sm font-medium text-zinc-200">Annotations</p>
+          <Badge variant="outline" className="border-white/10 bg-zinc-800 font-mono text-xs text-zinc-400">
+            {annotations.length}
+          </Badge>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="col-span-2 gap-1.5 border-white/10 bg-transparent text-xs text-zinc-300 hover:bg-white/5 hover:text-white"
+            onClick={handleAddNote}
+          >
+            <Plus className="h-3.5 w-3.5" />
+            Add note at current time
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-1.5 border-white/10 bg-transparent text-xs text-zinc-300 hover:bg-white/5 hover:text-white"
+            disabled={remoteRepositories.length === 0 || isImportingTags}
+            onClick={() => void handleImportTags()}
+          >
+            {isImportingTags ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Tag className="h-3.5 w-3.5" />}
+            Git tags
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-1.5 border-white/10 bg-transparent text-xs text-zinc-300 hover:bg-white/5 hover:text-white"
+            disabled={milestones.length === 0}
+            onClick={handleImportMilestones}
+          >
+            <Sparkles className="h-3.5 w-3.5" />
+            Story milestones
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-1.5 border-white/10 bg-transparent text-xs text-zinc-300 hover:bg-white/5 hover:text-white"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Upload className="h-3.5 w-3.5" />
+            Import JSON
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-1.5 border-white/10 bg-transparent text-xs text-zinc-300 hover:bg-white/5 hover:text-white"
+            disabled={annotations.length === 0}
+            onClick={handleExport}
+          >
+            <Download className="h-3.5 w-3.5" />
+            Export JSON
+          </Button>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) void handleImportFile(file);
+            e.target.value = '';
+          }}
+        />
+
+        {message && (
+          <p className={cn('mt-2 text-[11px]', message.isError ? 'text-red-400' : 'text-zinc-500')}>
+            {message.text}
+          </p>
+        )}
+
+        {annotations.length > 0 ? (
+          <div className="mt-3 max-h-64 space-y-1 overflow-y-auto pr-1">
+            {annotations.map((annotation) => (
+              <div key={annotation.id} className="group rounded-md px-2 py-1.5 hover:bg-white/5">
+                {editingId === annotation.id ? (
+                  <div className="space-y-1.5">
+                    <Input
+                      autoFocus
+                      value={annotation.title}
+                      onChange={(e) => updateAnnotation(annotation.id, { title: e.target.value })}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') setEditingId(null);
+                      }}
+                      className="h-7 border-white/10 bg-zinc-900 text-xs text-white"
+                      placeholder="Caption"
+                    />
+                    <Input
+                      value={annotation.detail ?? ''}
+                      onChange={(e) => updateAnnotation(annotation.id, { detail: e.target.value || null })}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') setEditingId(null);
+                      }}
+                      className="h-7 border-white/10 bg-zinc-900 text-xs text-white"
+                      placeholder="Detail (optional)"
+                    />
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-2">
+                    <span className={cn('h-1.5 w-1.5 shrink-0 rounded-full', SOURCE_DOT[annotation.source])} />
+                    <button
+                      className="min-w-0 flex-1 text-left"
+                      onClick={() => onSeekToTime(annotation.time)}
+                      title="Jump to this annotation"
+                    >
+                      <span className="block truncate text-xs text-zinc-200">{annotation.title}</span>
+                      <span className="block text-[10px] tabular-nums text-zinc-500">
+                        {formatDate(annotation.time)}
+                        {annotation.repoId && ` · ${annotation.repoId}`}
+                      </span>
+                    </button>
+                    <button
+                      className="rounded p-1 text-zinc-500 opacity-0 hover:text-zinc-200 group-hover:opacity-100"
+                      onClick={() => setEditingId(annotation.id)}
+                      aria-label={`Edit ${annotation.title}`}
+                    >
+                      <Pencil className="h-3 w-3" />
+                    </button>
+                    <button
+                      className="rounded p-1 text-zinc-500 opacity-0 hover:text-red-400 group-hover:opacity-100"
+                      onClick={() => onAnnotationsChange(annotations.filter((a) => a.id !== annotation.id))}
+                      aria-label={`Delete ${annotation.title}`}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="mt-3 text-[11px] text-zinc-500">
+            Captions appear over the visualization when playback reaches them.
+          </p>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -5,9 +5,9 @@ import type {
   GourceViewerProps,
   GourceNode,
   GourceContributor,
+  GourceSelection,
   Point,
 } from '@/lib/types';
-import { FileCategory } from '@/lib/types';
 import { GourceEngine, createGourceEngine, screenToWorld, hitTestNode, hitTestContributor } from '@/lib/gource-engine';
 import type { GourceEngineData } from '@/lib/gource-engine';
 import { cn } from '@/lib/utils';
@@ -17,6 +17,8 @@ interface GourceViewerInternalProps extends GourceViewerProps {
   onEngineReady?: (engine: GourceEngine) => void;
   onNodeHover?: (node: GourceNode | null) => void;
   onContributorHover?: (contributor: GourceContributor | null) => void;
+  /** A node or contributor was clicked, or empty space (null) */
+  onSelect?: (selection: GourceSelection | null) => void;
 }
 
 /** Canvas-based Gource visualization viewer with pan, zoom, and touch support. */
@@ -32,6 +34,7 @@ export function GourceViewer({
   onEngineReady,
   onNodeHover,
   onContributorHover,
+  onSelect,
   className,
 }: GourceViewerInternalProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -88,63 +91,12 @@ export function GourceViewer({
 
     isInitializedRef.current = true;
 
-    // Build commit data from events — the engine expects CommitData[]
-    // but we receive GourceCommitEvent[]. We need to adapt.
-    // The GourceEngine constructor accepts GourceEngineData which takes CommitData[].
-    // Since we already have processed events, we'll create a minimal CommitData mapping.
-    const commitDataForEngine = events.map((event) => ({
-      sha: event.sha,
-      shortSha: event.sha.substring(0, 7),
-      message: `Commit ${event.sha.substring(0, 7)}`,
-      messageHeadline: `Commit ${event.sha.substring(0, 7)}`,
-      author: {
-        name: event.contributorName,
-        email: '',
-        login: event.contributorId,
-        avatarUrl: event.contributorAvatarUrl,
-      },
-      committer: {
-        name: event.contributorName,
-        email: '',
-        login: event.contributorId,
-        avatarUrl: event.contributorAvatarUrl,
-      },
-      timestamp: new Date(event.timestamp).toISOString(),
-      timestampMs: event.timestamp,
-      repoId: event.repoId,
-      repoName: event.repoId,
-      filesChanged: event.affectedFiles.length,
-      additions: event.affectedFiles.reduce((sum, f) => sum + f.additions, 0),
-      deletions: event.affectedFiles.reduce((sum, f) => sum + f.deletions, 0),
-      totalChanges: event.affectedFiles.reduce((sum, f) => sum + f.additions + f.deletions, 0),
-      isMerge: false,
-      parents: [],
-      files: event.affectedFiles.map((f) => ({
-        path: f.path,
-        filename: f.path.split('/').pop() || f.path,
-        directory: f.path.split('/').slice(0, -1).join('/') || '/',
-        extension: (f.path.split('.').pop() || '').toLowerCase(),
-        status: f.type === 'add' ? 'added' as const : f.type === 'delete' ? 'removed' as const : f.type === 'rename' ? 'renamed' as const : 'modified' as const,
-        additions: f.additions,
-        deletions: f.deletions,
-        changes: f.additions + f.deletions,
-        previousPath: null,
-        category: FileCategory.CODE,
-      })),
-      htmlUrl: '',
-      hourOfDay: new Date(event.timestamp).getHours(),
-      dayOfWeek: new Date(event.timestamp).getDay() as 0 | 1 | 2 | 3 | 4 | 5 | 6,
-      year: new Date(event.timestamp).getFullYear(),
-      month: new Date(event.timestamp).getMonth() + 1,
-      dayOfMonth: new Date(event.timestamp).getDate(),
-      weekOfYear: 1,
-      dateKey: new Date(event.timestamp).toISOString().split('T')[0],
-    }));
-
+    // Events are already prepared (by the page, or read from a gource log)
     const engineData: GourceEngineData = {
-      commits: commitDataForEngine,
+      commits: [],
       repositories,
       contributors,
+      events,
     };
 
     const engine = createGourceEngine(engineData);
@@ -331,31 +283,38 @@ export function GourceViewer({
     }
   }, [getCanvasCoords, canvasSize, hoveredNode, hoveredContributor, onNodeHover, onContributorHover]);
 
+  // Select whatever is under a click or tap; contributors sit on top of files
+  const selectAt = useCallback((coords: Point) => {
+    const engine = engineRef.current;
+    if (!engine) return;
+    const state = engine.getState();
+    const worldPos = screenToWorld(
+      coords.x,
+      coords.y,
+      state.camera,
+      canvasSize.width,
+      canvasSize.height
+    );
+
+    const contributor = hitTestContributor(worldPos.x, worldPos.y, engine.getContributors());
+    if (contributor) {
+      onSelect?.({ kind: 'contributor', id: contributor.id });
+      return;
+    }
+    const node = hitTestNode(worldPos.x, worldPos.y, engine.getNodes(), state.settings.nodeSize);
+    onSelect?.(node ? { kind: 'node', path: node.path } : null);
+  }, [canvasSize, onSelect]);
+
   const handleMouseUp = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
     const ms = mouseStateRef.current;
 
-    if (!ms.isDragging && engineRef.current) {
-      // Click — could toggle contributor highlight etc.
-      const coords = getCanvasCoords(e.clientX, e.clientY);
-      const engine = engineRef.current;
-      const state = engine.getState();
-      const worldPos = screenToWorld(
-        coords.x,
-        coords.y,
-        state.camera,
-        canvasSize.width,
-        canvasSize.height
-      );
-
-      const contributor = hitTestContributor(worldPos.x, worldPos.y, engine.getContributors());
-      if (contributor) {
-        engine.highlightContributor(contributor.id);
-      }
+    if (ms.isDown && !ms.isDragging) {
+      selectAt(getCanvasCoords(e.clientX, e.clientY));
     }
 
     ms.isDown = false;
     ms.isDragging = false;
-  }, [getCanvasCoords, canvasSize]);
+  }, [getCanvasCoords, selectAt]);
 
   const handleMouseLeave = useCallback(() => {
     const ms = mouseStateRef.current;
@@ -481,10 +440,11 @@ export function GourceViewer({
     }
 
     if (ts.touches.length === 0) {
+      if (ms.isDown && !ms.isDragging) selectAt({ x: ms.lastX, y: ms.lastY });
       ms.isDown = false;
       ms.isDragging = false;
     }
-  }, [getCanvasCoords]);
+  }, [getCanvasCoords, selectAt]);
 
   // =========================================================================
   // CURSOR STYLE
@@ -558,6 +518,7 @@ export function GourceViewer({
                     <span>{hoveredNode.modificationCount} edits</span>
                   </>
                 )}
+                <span>Click for history</span>
               </div>
             </div>
           )}
@@ -585,7 +546,7 @@ export function GourceViewer({
                 </span>
               </div>
               <p className="text-[10px] text-white/40">
-                Click to highlight commits
+                Click for details
               </p>
             </div>
           )}
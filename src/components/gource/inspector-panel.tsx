@@ -0,0 +1,268 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import type {
+  GourceInspectedCommit,
+  GourceInspection,
+  GourceSelection,
+} from '@/lib/types';
+import {
+  ExternalLink,
+  FileCode2,
+  Filter,
+  Folder,
+  LocateFixed,
+  User,
+  X,
+} from 'lucide-react';
+
+interface InspectorPanelProps {
+  inspection: GourceInspection;
+  /** Contributor whose commits alone are being played, if any */
+  highlightedContributorId: string | null;
+  onSelect: (selection: GourceSelection) => void;
+  onClose: () => void;
+  onPinCamera: (contributorId: string | null) => void;
+  onHighlightContributor: (contributorId: string) => void;
+}
+
+const CHANGE_LABELS: Record<NonNullable<GourceInspectedCommit['changeType']>, { label: string; className: string }> = {
+  add: { label: 'A', className: 'text-emerald-400' },
+  modify: { label: 'M', className: 'text-amber-300' },
+  delete: { label: 'D', className: 'text-red-400' },
+  rename: { label: 'R', className: 'text-blue-300' },
+};
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().split('T')[0];
+}
+
+function Stat({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="rounded-lg bg-white/5 px-2 py-1.5">
+      <p className="text-sm font-semibold tabular-nums text-white/90">{value}</p>
+      <p className="text-[10px] text-white/40">{label}</p>
+    </div>
+  );
+}
+
+function CommitRow({
+  commit,
+  showAuthor,
+  onSelectContributor,
+}: {
+  commit: GourceInspectedCommit;
+  showAuthor: boolean;
+  onSelectContributor: (id: string) => void;
+}) {
+  const change = commit.changeType ? CHANGE_LABELS[commit.changeType] : null;
+  const shortSha = commit.sha.slice(0, 7);
+
+  return (
+    <div className="flex items-center gap-2 rounded-md px-2 py-1 text-[11px] hover:bg-white/5">
+      <span className={`w-3 shrink-0 font-mono ${change?.className ?? 'text-white/30'}`}>
+        {change?.label ?? commit.fileCount}
+      </span>
+      <span className="shrink-0 tabular-nums text-white/40">{formatDate(commit.timestamp)}</span>
+      {showAuthor ? (
+        <button
+          className="min-w-0 flex-1 truncate text-left text-white/70 hover:text-white"
+          onClick={() => onSelectContributor(commit.contributorId)}
+        >
+          {commit.contributorName}
+        </button>
+      ) : (
+        <span className="min-w-0 flex-1 truncate text-white/50">
+          {commit.fileCount} file{commit.fileCount === 1 ? '' : 's'}
+        </span>
+      )}
+      <span className="shrink-0 tabular-nums">
+        <span className="text-emerald-400/70">+{commit.additions}</span>{' '}
+        <span className="text-red-400/70">−{commit.deletions}</span>
+      </span>
+      {commit.htmlUrl ? (
+        <a
+          href={commit.htmlUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex shrink-0 items-center gap-0.5 font-mono text-blue-400/80 hover:text-blue-300"
+          title="Open commit"
+        >
+          {shortSha}
+          <ExternalLink className="h-2.5 w-2.5" />
+        </a>
+      ) : (
+        <span className="shrink-0 font-mono text-white/30">{shortSha}</span>
+      )}
+    </div>
+  );
+}
+
+/** Side panel describing the clicked file, directory or contributor. */
+export function InspectorPanel({
+  inspection,
+  highlightedContributorId,
+  onSelect,
+  onClose,
+  onPinCamera,
+  onHighlightContributor,
+}: InspectorPanelProps) {
+  const selectContributor = (id: string) => onSelect({ kind: 'contributor', id });
+
+  let icon: React.ReactNode;
+  let title: string;
+  let subtitle: string;
+  if (inspection.kind === 'node') {
+    const isDirectory = inspection.node?.isDirectory ?? false;
+    icon = isDirectory ? <Folder className="h-4 w-4 text-blue-400" /> : <FileCode2 className="h-4 w-4 text-blue-400" />;
+    title = inspection.path.split('/').pop() || inspection.path;
+    subtitle = inspection.path;
+  } else {
+    icon = <User className="h-4 w-4 text-blue-400" />;
+    title = inspection.contributor?.name ?? inspection.id;
+    subtitle = inspection.id;
+  }
+
+  return (
+    <div className="absolute left-4 top-4 z-30 flex max-h-[calc(100%-2rem)] w-80 flex-col overflow-hidden rounded-2xl border border-white/10 bg-black/75 shadow-2xl backdrop-blur-xl">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-2 border-b border-white/5 px-4 py-3">
+        <div className="min-w-0 space-y-0.5">
+          <div className="flex items-center gap-2">
+            {icon}
+            <h3 className="truncate text-sm font-semibold text-white/90">{title}</h3>
+          </div>
+          <p className="truncate font-mono text-[10px] text-white/40" title={subtitle}>{subtitle}</p>
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 shrink-0 rounded-md text-white/40 hover:bg-white/10 hover:text-white/80"
+          onClick={onClose}
+          aria-label="Close inspector"
+        >
+          <X className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+
+      <ScrollArea className="min-h-0 flex-1">
+        <div className="space-y-4 px-4 py-3">
+          {inspection.kind === 'node' ? (
+            <>
+              {!inspection.node && (
+                <p className="text-[11px] text-amber-300/70">
+                  Not in the tree at this point in time.
+                </p>
+              )}
+              <div className="grid grid-cols-2 gap-2">
+                <Stat label="commits so far" value={inspection.totalCommits} />
+                <Stat label="contributors" value={inspection.contributors.length} />
+              </div>
+
+              {inspection.contributors.length > 0 && (
+                <div className="space-y-1.5">
+                  <p className="text-[10px] font-medium uppercase tracking-wider text-white/30">Touched by</p>
+                  <div className="flex flex-wrap gap-1.5">
+                    {inspection.contributors.slice(0, 12).map((c) => (
+                      <button
+                        key={c.id}
+                        className="flex items-center gap-1.5 rounded-full bg-white/5 px-2 py-0.5 text-[11px] text-white/70 hover:bg-white/10 hover:text-white"
+                        onClick={() => selectContributor(c.id)}
+                      >
+                        <span className="h-2 w-2 rounded-full" style={{ backgroundColor: c.color }} />
+                        {c.name}
+                        <span className="tabular-nums text-white/30">{c.commitCount}</span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-2">
+                <Stat label="commits so far" value={inspection.totalCommits} />
+                <Stat label="files touched" value={inspection.filesTouched} />
+                <Stat label="lines added" value={`+${inspection.additions}`} />
+                <Stat label="lines removed" value={`−${inspection.deletions}`} />
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className={`gap-1.5 border-white/10 bg-transparent text-xs hover:bg-white/5 hover:text-white ${
+                    inspection.isPinned ? 'border-blue-500 bg-blue-500/10 text-white' : 'text-zinc-300'
+                  }`}
+                  disabled={!inspection.contributor}
+                  onClick={() => onPinCamera(inspection.isPinned ? null : inspection.id)}
+                >
+                  <LocateFixed className="h-3.5 w-3.5" />
+                  {inspection.isPinned ? 'Unpin camera' : 'Pin camera'}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className={`gap-1.5 border-white/10 bg-transparent text-xs hover:bg-white/5 hover:text-white ${
+                    highlightedContributorId === inspection.id ? 'border-blue-500 bg-blue-500/10 text-white' : 'text-zinc-300'
+                  }`}
+                  onClick={() => onHighlightContributor(inspection.id)}
+                >
+                  <Filter className="h-3.5 w-3.5" />
+                  {highlightedContributorId === inspection.id ? 'Show everyone' : 'Only theirs'}
+                </Button>
+              </div>
+
+              {inspection.topDirectories.length > 0 && (
+                <div className="space-y-1.5">
+                  <p className="text-[10px] font-medium uppercase tracking-wider text-white/30">Most active in</p>
+                  <div className="space-y-0.5">
+                    {inspection.topDirectories.map((dir) => (
+                      <button
+                        key={dir.path}
+                        className="flex w-full items-center justify-between gap-2 rounded-md px-2 py-1 text-left text-[11px] hover:bg-white/5"
+                        onClick={() => onSelect({ kind: 'node', path: dir.path })}
+                      >
+                        <span className="truncate font-mono text-white/70">{dir.path}</span>
+                        <Badge
+                          variant="secondary"
+                          className="h-4 shrink-0 rounded border-0 bg-white/10 px-1 text-[10px] text-white/60"
+                        >
+                          {dir.commitCount}
+                        </Badge>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+
+          <div className="space-y-1.5">
+            <p className="text-[10px] font-medium uppercase tracking-wider text-white/30">
+              {inspection.totalCommits > inspection.commits.length
+                ? `Latest ${inspection.commits.length} of ${inspection.totalCommits} commits`
+                : 'Commits'}
+            </p>
+            {inspection.commits.length > 0 ? (
+              <div className="-mx-2 space-y-0.5">
+                {inspection.commits.map((commit) => (
+                  <CommitRow
+                    key={commit.sha}
+                    commit={commit}
+                    showAuthor={inspection.kind === 'node'}
+                    onSelectContributor={selectContributor}
+                  />
+                ))}
+              </div>
+            ) : (
+              <p className="text-[11px] text-white/30">No commits played yet.</p>
+            )}
+          </div>
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+'use client';
+
+import { useState } from 'react';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { PATH_PRESETS, globError } from '@/lib/path-filter';
+import type {
+  GourcePathPreset,
+  GourcePathRules,
+  GourceSettings,
+  Repository,
+} from '@/lib/types';
+
+interface PathRulesEditorProps {
+  settings: GourceSettings;
+  onSettingsChange: (settings: Partial<GourceSettings>) => void;
+  repositories: Pick<Repository, 'fullName' | 'name'>[];
+}
+
+const ALL_REPOSITORIES = '__all__';
+const DEFAULT_MAX_DEPTH = 4;
+
+function parseGlobList(text: string): string[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith('#'));
+}
+
+/**
+ * Glob list edited as text, applied on blur so typing doesn't rebuild the
+ * tree. Keyed by its globs, so it restarts from them when they change.
+ * A list with a glob that doesn't compile is held back until it's fixed.
+ */
+function GlobListInput({
+  label,
+  hint,
+  globs,
+  placeholder,
+  onCommit,
+}: {
+  label: string;
+  hint: string;
+  globs: string[];
+  placeholder: string;
+  onCommit: (globs: string[]) => void;
+}) {
+  const [text, setText] = useState(globs.join('\n'));
+  const [errors, setErrors] = useState<string[]>([]);
+
+  return (
+    <div className="space-y-1.5">
+      <Label className="text-xs text-zinc-400">{label}</Label>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={() => {
+          const next = parseGlobList(text);
+          const invalid = next.map(globError).filter((error): error is string => error !== null);
+          setErrors(Array.from(new Set(invalid)));
+          if (invalid.length === 0 && next.join('\n') !== globs.join('\n')) onCommit(next);
+        }}
+        rows={3}
+        spellCheck={false}
+        placeholder={placeholder}
+        className="w-full resize-y rounded-md border border-white/10 bg-zinc-800 px-2 py-1.5 font-mono text-xs text-zinc-300 placeholder:text-zinc-600 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+      />
+      {errors.map((error) => (
+        <p key={error} className="text-[11px] text-red-400">{error}</p>
+      ))}
+      <p className="text-[11px] text-zinc-500">{hint}</p>
+    </div>
+  );
+}
+
+/** Include/exclude globs, presets and depth collapsing, for all repositories or one of them. */
+export function PathRulesEditor({ settings, onSettingsChange, repositories }: PathRulesEditorProps) {
+  const [scope, setScope] = useState(ALL_REPOSITORIES);
+
+  // Forget a repository that is no longer selected
+  const scopeRepo = repositories.some((r) => r.fullName === scope) ? scope : ALL_REPOSITORIES;
+  const ownRules = scopeRepo === ALL_REPOSITORIES ? null : settings.repoPathRules[scopeRepo] ?? null;
+  const rules = ownRules ?? settings.pathRules;
+  const isEditable = scopeRepo === ALL_REPOSITORIES || ownRules !== null;
+
+  const updateRules = (updates: Partial<GourcePathRules>) => {
+    const next = { ...rules, ...updates };
+    if (scopeRepo === ALL_REPOSITORIES) {
+      onSettingsChange({ pathRules: next });
+    } else {
+      onSettingsChange({ repoPathRules: { ...settings.repoPathRules, [scopeRepo]: next } });
+    }
+  };
+
+  const setOwnRules = (enabled: boolean) => {
+    const repoPathRules = { ...settings.repoPathRules };
+    if (enabled) {
+      repoPathRules[scopeRepo] = { ...settings.pathRules };
+    } else {
+      delete repoPathRules[scopeRepo];
+    }
+    onSettingsChange({ repoPathRules });
+  };
+
+  const togglePreset = (preset: GourcePathPreset) => {
+    const presets = rules.presets.includes(preset)
+      ? rules.presets.filter((p) => p !== preset)
+      : [...rules.presets, preset];
+    updateRules({ presets });
+  };
+
+  return (
+    <div className="space-y-3">
+      {repositories.length > 1 && (
+        <div className="space-y-1.5">
+          <Label className="text-xs text-zinc-400">Applies to</Label>
+          <Select value={scopeRepo} onValueChange={setScope}>
+            <SelectTrigger className="h-8 w-full border-white/10 bg-zinc-800 text-xs text-zinc-300">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_REPOSITORIES}>All repositories</SelectItem>
+              {repositories.map((repo) => (
+                <SelectItem key={repo.fullName} value={repo.fullName}>
+                  {repo.name}
+                  {settings.repoPathRules[repo.fullName] ? ' (custom)' : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {scopeRepo !== ALL_REPOSITORIES && (
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label className="text-sm text-zinc-300">Custom Rules</Label>
+            <p className="text-[11px] text-zinc-500">
+              Otherwise this repository uses the rules for all repositories
+            </p>
+          </div>
+          <Switch checked={ownRules !== null} onCheckedChange={setOwnRules} />
+        </div>
+      )}
+
+      <fieldset disabled={!isEditable} className="space-y-3 disabled:opacity-50">
+        <div className="space-y-1.5">
+          <Label className="text-xs text-zinc-400">Hide</Label>
+          <div className="grid grid-cols-2 gap-2">
+            {(Object.keys(PATH_PRESETS) as GourcePathPreset[]).map((preset) => (
+              <button
+                key={preset}
+                title={PATH_PRESETS[preset].description}
+                className={`h-8 rounded-md border text-xs transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500/50 ${
+                  rules.presets.includes(preset)
+                    ? 'border-blue-500 bg-blue-500/10 text-white'
+                    : 'border-white/10 text-zinc-400 hover:border-white/25 hover:text-zinc-200'
+                }`}
+                onClick={() => togglePreset(preset)}
+              >
+                {PATH_PRESETS[preset].label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <GlobListInput
+          key={`${scopeRepo}:exclude:${rules.exclude.join('\n')}`}
+          label="Exclude"
+          hint="One glob per line, e.g. docs/ or *.generated.ts"
+          globs={rules.exclude}
+          placeholder={'fixtures/\n*.svg'}
+          onCommit={(exclude) => updateRules({ exclude })}
+        />
+        <GlobListInput
+          key={`${scopeRepo}:include:${rules.include.join('\n')}`}
+          label="Include only"
+          hint="Leave empty to show every file that isn't excluded"
+          globs={rules.include}
+          placeholder={'src/\npackages/*/src/'}
+          onCommit={(include) => updateRules({ include })}
+        />
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label className="text-sm text-zinc-300">Collapse Deep Directories</Label>
+              <p className="text-[11px] text-zinc-500">
+                Fold anything nested deeper into its ancestor
+              </p>
+            </div>
+            <Switch
+              checked={rules.maxDepth !== null}
+              onCheckedChange={(checked) => updateRules({ maxDepth: checked ? DEFAULT_MAX_DEPTH : null })}
+            />
+          </div>
+          {rules.maxDepth !== null && (
+            <div className="space-y-1.5">
+              <div className="flex items-center justify-between">
+                <Label className="text-xs text-zinc-400">Max depth</Label>
+                <span className="font-mono text-xs text-zinc-400">{rules.maxDepth}</span>
+              </div>
+              <Slider
+                key={scopeRepo}
+                defaultValue={[rules.maxDepth]}
+                onValueCommit={(value) => updateRules({ maxDepth: value[0] })}
+                min={1}
+                max={10}
+                step={1}
+              />
+            </div>
+          )}
+        </div>
+      </fieldset>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+'use client';
+
+import { useCallback, useMemo } from 'react';
+import { GourceViewer } from '@/components/gource/gource-viewer';
+import { panePathRules, paneRepoPathRules } from '@/lib/gource-split-view';
+import type { GourceEngine } from '@/lib/gource-engine';
+import type {
+  Contributor,
+  GourceCommitEvent,
+  GourceSelection,
+  GourceSettings,
+  GourceSplitPane,
+  Repository,
+} from '@/lib/types';
+
+interface SplitViewPaneProps {
+  pane: GourceSplitPane;
+  label: string;
+  events: GourceCommitEvent[];
+  repositories: Repository[];
+  contributors: Contributor[];
+  settings: GourceSettings;
+  onEngineReady: (paneId: string, engine: GourceEngine) => void;
+  onSelect?: (selection: GourceSelection | null) => void;
+}
+
+/** One viewer of the split view, narrowed to the pane's repository, contributor and path. */
+export function SplitViewPane({
+  pane,
+  label,
+  events,
+  repositories,
+  contributors,
+  settings,
+  onEngineReady,
+  onSelect,
+}: SplitViewPaneProps) {
+  // Memoized piecewise so unrelated setting changes don't rebuild the pane's tree
+  const pathRules = useMemo(
+    () => panePathRules(settings.pathRules, pane.pathInclude),
+    [settings.pathRules, pane.pathInclude],
+  );
+  const repoPathRules = useMemo(
+    () => paneRepoPathRules(settings.repoPathRules, pane.pathInclude),
+    [settings.repoPathRules, pane.pathInclude],
+  );
+  const contributorFilter = useMemo(
+    () => (pane.contributorId ? [pane.contributorId] : settings.contributorFilter),
+    [pane.contributorId, settings.contributorFilter],
+  );
+  const paneSettings = useMemo(
+    () => ({ ...settings, pathRules, repoPathRules, contributorFilter }),
+    [settings, pathRules, repoPathRules, contributorFilter],
+  );
+
+  const handleEngineReady = useCallback(
+    (engine: GourceEngine) => onEngineReady(pane.id, engine),
+    [onEngineReady, pane.id],
+  );
+
+  return (
+    <div className="relative min-h-0 min-w-0 overflow-hidden bg-[#0a0a0f]">
+      <GourceViewer
+        events={events}
+        repositories={repositories}
+        contributors={contributors}
+        settings={paneSettings}
+        combinedView={pane.repoId === null}
+        activeRepoId={pane.repoId}
+        onEngineReady={handleEngineReady}
+        onSelect={onSelect}
+        className="h-full w-full"
+      />
+      <div className="pointer-events-none absolute right-3 top-3 z-20 max-w-[70%] truncate rounded-md border border-white/10 bg-black/60 px-2 py-1 text-[11px] font-medium text-white/80 backdrop-blur-sm">
+        {label}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+'use client';
+
+import { useState } from 'react';
+import { Columns2, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { MAX_SPLIT_PANES, createSplitPane, defaultSplitPanes } from '@/lib/gource-split-view';
+import type { GourceSplitPane, Repository } from '@/lib/types';
+
+interface SplitViewPickerProps {
+  /** Empty when the single view is showing */
+  panes: GourceSplitPane[];
+  onPanesChange: (panes: GourceSplitPane[]) => void;
+  repositories: Pick<Repository, 'fullName' | 'name'>[];
+  /** Most active first */
+  contributors: { id: string; name: string; commitCount: number }[];
+}
+
+const EVERYTHING = '__all__';
+/** Longer lists make the select unusable; the legend covers the long tail */
+const CONTRIBUTOR_CHOICES = 50;
+
+/** Path glob edited as text and applied on blur, so typing doesn't rebuild the pane. */
+function PathIncludeInput({
+  value,
+  onCommit,
+}: {
+  value: string | null;
+  onCommit: (value: string | null) => void;
+}) {
+  const [text, setText] = useState(value ?? '');
+
+  return (
+    <input
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={() => {
+        const next = text.trim() || null;
+        if (next !== value) onCommit(next);
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+      }}
+      spellCheck={false}
+      placeholder="Whole tree (or e.g. frontend/)"
+      className="h-7 w-full rounded-md border border-white/10 bg-zinc-800 px-2 font-mono text-xs text-zinc-300 placeholder:text-zinc-600 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+    />
+  );
+}
+
+/** Popover turning the side-by-side comparison on and choosing what each pane plays. */
+export function SplitViewPicker({
+  panes,
+  onPanesChange,
+  repositories,
+  contributors,
+}: SplitViewPickerProps) {
+  const isSplit = panes.length > 0;
+
+  const updatePane = (id: string, updates: Partial<Omit<GourceSplitPane, 'id'>>) => {
+    onPanesChange(panes.map((pane) => (pane.id === id ? { ...pane, ...updates } : pane)));
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={cn(
+            'h-8 w-8 text-white/50 hover:bg-white/5 hover:text-white',
+            isSplit && 'bg-white/10 text-white',
+          )}
+          aria-label="Split-screen comparison"
+          title="Split-screen comparison"
+        >
+          <Columns2 className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+
+      <PopoverContent
+        align="end"
+        className="w-[360px] border-white/10 bg-zinc-950/95 p-3 text-white backdrop-blur-xl"
+      >
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label className="text-sm text-zinc-200">Compare Side by Side</Label>
+            <p className="text-[11px] text-zinc-500">
+              Every pane plays on the same clock
+            </p>
+          </div>
+          <Switch
+            checked={isSplit}
+            onCheckedChange={(checked) =>
+              onPanesChange(checked ? defaultSplitPanes(repositories, contributors) : [])
+            }
+          />
+        </div>
+
+        {isSplit && (
+          <div className="mt-3 space-y-2">
+            {panes.map((pane, index) => (
+              <div key={pane.id} className="space-y-1.5 rounded-lg border border-white/5 bg-white/[0.02] p-2">
+                <div className="flex items-center justify-between">
+                  <p className="text-[10px] font-medium uppercase tracking-wider text-white/30">
+                    Pane {index + 1}
+                  </p>
+                  <button
+                    className="rounded p-1 text-zinc-500 hover:text-red-400 disabled:pointer-events-none disabled:opacity-30"
+                    disabled={panes.length <= 2}
+                    onClick={() => onPanesChange(panes.filter((p) => p.id !== pane.id))}
+                    aria-label={`Remove pane ${index + 1}`}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </button>
+                </div>
+                <div className="grid grid-cols-2 gap-1.5">
+                  <Select
+                    value={pane.repoId ?? EVERYTHING}
+                    onValueChange={(value) => updatePane(pane.id, { repoId: value === EVERYTHING ? null : value })}
+                  >
+                    <SelectTrigger className="h-7 w-full border-white/10 bg-zinc-800 text-xs text-zinc-300">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={EVERYTHING}>All repositories</SelectItem>
+                      {repositories.map((repo) => (
+                        <SelectItem key={repo.fullName} value={repo.fullName}>
+                          {repo.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={pane.contributorId ?? EVERYTHING}
+                    onValueChange={(value) =>
+                      updatePane(pane.id, { contributorId: value === EVERYTHING ? null : value })
+                    }
+                  >
+                    <SelectTrigger className="h-7 w-full border-white/10 bg-zinc-800 text-xs text-zinc-300">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={EVERYTHING}>Everyone</SelectItem>
+                      {contributors.slice(0, CONTRIBUTOR_CHOICES).map((contributor) => (
+                        <SelectItem key={contributor.id} value={contributor.id}>
+                          {contributor.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <PathIncludeInput
+                  key={pane.pathInclude ?? ''}
+                  value={pane.pathInclude}
+                  onCommit={(pathInclude) => updatePane(pane.id, { pathInclude })}
+                />
+              </div>
+            ))}
+
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full gap-1.5 border-white/10 bg-transparent text-xs text-zinc-300 hover:bg-white/5 hover:text-white"
+              disabled={panes.length >= MAX_SPLIT_PANES}
+              onClick={() => onPanesChange([...panes, createSplitPane()])}
+            >
+              <Plus className="h-3.5 w-3.5" />
+              Add pane
+            </Button>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
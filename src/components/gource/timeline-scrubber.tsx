@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useCallback, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { cn } from '@/lib/utils';
 import type { TimelineScrubberProps } from '@/lib/types';
 
@@ -22,6 +22,7 @@ export function TimelineScrubber({
 }: TimelineScrubberProps) {
   const trackRef = useRef<HTMLDivElement>(null);
   const [isDragging, setIsDragging] = useState(false);
+  const [dragProgress, setDragProgress] = useState<number | null>(null);
   const [hoverProgress, setHoverProgress] = useState<number | null>(null);
   const [hoverDate, setHoverDate] = useState<string | null>(null);
   const [tooltipX, setTooltipX] = useState(0);
@@ -29,6 +30,41 @@ export function TimelineScrubber({
 
   const maxDensity = Math.max(1, ...commitDensity);
 
+  // The playhead follows the pointer straight away; the engine catches up
+  const shownProgress = dragProgress ?? progress;
+
+  // Pointer events can outpace the display, so drags seek at most once a frame
+  const pendingSeekRef = useRef<number | null>(null);
+  const seekFrameRef = useRef<number | null>(null);
+
+  const flushSeek = useCallback(() => {
+    if (seekFrameRef.current !== null) {
+      cancelAnimationFrame(seekFrameRef.current);
+      seekFrameRef.current = null;
+    }
+    const pending = pendingSeekRef.current;
+    pendingSeekRef.current = null;
+    if (pending !== null) onSeek(pending);
+  }, [onSeek]);
+
+  const scheduleSeek = useCallback(
+    (p: number) => {
+      pendingSeekRef.current = p;
+      if (seekFrameRef.current !== null) return;
+      seekFrameRef.current = requestAnimationFrame(() => {
+        seekFrameRef.current = null;
+        flushSeek();
+      });
+    },
+    [flushSeek],
+  );
+
+  useEffect(() => {
+    return () => {
+      if (seekFrameRef.current !== null) cancelAnimationFrame(seekFrameRef.current);
+    };
+  }, []);
+
   // Convert progress (0-1) to a date string between start and end
   const progressToDate = useCallback(
     (p: number): string => {
@@ -63,6 +99,7 @@ export function TimelineScrubber({
       setIsDragging(true);
       onSeekStart?.();
       const p = getProgressFromEvent(e.clientX);
+      setDragProgress(p);
       onSeek(p);
       (e.target as HTMLElement).setPointerCapture(e.pointerId);
     },
@@ -74,7 +111,8 @@ export function TimelineScrubber({
       const p = getProgressFromEvent(e.clientX);
 
       if (isDragging) {
-        onSeek(p);
+        setDragProgress(p);
+        scheduleSeek(p);
       }
 
       setHoverProgress(p);
@@ -91,18 +129,20 @@ export function TimelineScrubber({
       );
       setActiveMilestone(closestMilestone || null);
     },
-    [isDragging, getProgressFromEvent, onSeek, progressToDate, milestones],
+    [isDragging, getProgressFromEvent, scheduleSeek, progressToDate, milestones],
   );
 
   const handlePointerUp = useCallback(
     (e: React.PointerEvent) => {
       if (isDragging) {
+        flushSeek();
         setIsDragging(false);
+        setDragProgress(null);
         (e.target as HTMLElement).releasePointerCapture(e.pointerId);
         onSeekEnd?.();
       }
     },
-    [isDragging, onSeekEnd],
+    [isDragging, flushSeek, onSeekEnd],
   );
 
   const handlePointerLeave = useCallback(() => {
@@ -149,7 +189,7 @@ export function TimelineScrubber({
     }
   };
 
-  const currentDateDisplay = progressToDate(progress);
+  const currentDateDisplay = progressToDate(shownProgress);
 
   return (
     <div className="w-full select-none px-2 sm:px-4">
@@ -180,7 +220,7 @@ export function TimelineScrubber({
         aria-label="Timeline scrubber"
         aria-valuemin={0}
         aria-valuemax={100}
-        aria-valuenow={Math.round(progress * 100)}
+        aria-valuenow={Math.round(shownProgress * 100)}
         aria-valuetext={currentDateDisplay}
         tabIndex={0}
         className={cn(
@@ -201,7 +241,7 @@ export function TimelineScrubber({
             {commitDensity.map((count, i) => {
               const height = maxDensity > 0 ? (count / maxDensity) * 100 : 0;
               const bucketProgress = i / commitDensity.length;
-              const isPast = bucketProgress <= progress;
+              const isPast = bucketProgress <= shownProgress;
               const isHovered =
                 hoverProgress !== null &&
                 Math.abs(bucketProgress - hoverProgress) < 1 / commitDensity.length;
@@ -234,7 +274,7 @@ export function TimelineScrubber({
           {/* Progress fill overlay */}
           <div
             className="pointer-events-none absolute inset-y-0 left-0 rounded-l-lg bg-gradient-to-r from-blue-500/10 to-blue-400/5"
-            style={{ width: `${progress * 100}%` }}
+            style={{ width: `${shownProgress * 100}%` }}
           />
 
           {/* Thin progress bar line at bottom */}
@@ -246,7 +286,7 @@ export function TimelineScrubber({
                   ? 'bg-blue-400 shadow-[0_0_8px_rgba(96,165,250,0.5)]'
                   : 'bg-blue-500/70',
               )}
-              style={{ width: `${progress * 100}%` }}
+              style={{ width: `${shownProgress * 100}%` }}
             />
           </div>
         </div>
@@ -288,7 +328,7 @@ export function TimelineScrubber({
         {/* Playhead handle */}
         <div
           className="absolute top-0 bottom-0 z-20"
-          style={{ left: `${progress * 100}%` }}
+          style={{ left: `${shownProgress * 100}%` }}
         >
           {/* Vertical line */}
           <div
@@ -363,7 +403,7 @@ export function TimelineScrubber({
             </div>
           )}
           <span className="text-[9px] tabular-nums text-white/25">
-            {Math.round(progress * 100)}%
+            {Math.round(shownProgress * 100)}%
           </span>
         </div>
       </div>
@@ -0,0 +1,299 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Film, Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  TITLE_CARD_SECONDS,
+  exportGourceVideo,
+  isVideoExportSupported,
+} from '@/lib/gource-video-export';
+import type { GourceVideoExportInput } from '@/lib/gource-video-export';
+import type { GourceVideoExportProgress } from '@/lib/types';
+
+interface VideoExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Snapshot of what the live view shows; read when the export starts */
+  getExportInput: () => GourceVideoExportInput;
+  defaultTitle: string;
+  defaultSubtitle: string;
+}
+
+const RESOLUTIONS = {
+  '720p': { label: '720p (1280×720)', width: 1280, height: 720 },
+  '1080p': { label: '1080p (1920×1080)', width: 1920, height: 1080 },
+  square: { label: 'Square (1080×1080)', width: 1080, height: 1080 },
+  vertical: { label: 'Vertical (1080×1920)', width: 1080, height: 1920 },
+} as const;
+
+type ResolutionKey = keyof typeof RESOLUTIONS;
+
+const DURATIONS = [15, 30, 60, 120, 300];
+const FRAME_RATES = [30, 60];
+
+const PHASE_LABELS: Record<GourceVideoExportProgress['phase'], string> = {
+  preparing: 'Preparing scene and avatars…',
+  rendering: 'Rendering frames…',
+  finalizing: 'Finalizing video…',
+};
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  const rest = seconds % 60;
+  return rest ? `${Math.floor(seconds / 60)}m ${rest}s` : `${seconds / 60} min`;
+}
+
+/** Settings, progress and cancel for rendering the animation to a .webm file. */
+export function VideoExportDialog({
+  isOpen,
+  onClose,
+  getExportInput,
+  defaultTitle,
+  defaultSubtitle,
+}: VideoExportDialogProps) {
+  const [resolution, setResolution] = useState<ResolutionKey>('1080p');
+  const [durationSeconds, setDurationSeconds] = useState(60);
+  const [fps, setFps] = useState(30);
+  const [showTitleCard, setShowTitleCard] = useState(true);
+  const [title, setTitle] = useState(defaultTitle);
+  const [subtitle, setSubtitle] = useState(defaultSubtitle);
+  const [progress, setProgress] = useState<GourceVideoExportProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSupported, setIsSupported] = useState(true);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const isExporting = progress !== null;
+
+  // SSR-safe capability check (avoids hydration mismatch)
+  useEffect(() => {
+    setIsSupported(isVideoExportSupported());
+  }, []);
+
+  // Pick up fresh defaults each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setTitle(defaultTitle);
+      setSubtitle(defaultSubtitle);
+      setError(null);
+    }
+  }, [isOpen, defaultTitle, defaultSubtitle]);
+
+  // Abort a running export if the page goes away
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const handleExport = useCallback(async () => {
+    const { width, height } = RESOLUTIONS[resolution];
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setProgress({ phase: 'preparing', frame: 0, totalFrames: 0, encoder: 'webcodecs' });
+
+    try {
+      const blob = await exportGourceVideo(
+        getExportInput(),
+        {
+          width,
+          height,
+          fps,
+          durationSeconds,
+          titleCard: showTitleCard ? { title: title.trim() || defaultTitle, subtitle: subtitle.trim() } : null,
+        },
+        { onProgress: setProgress, signal: controller.signal }
+      );
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.download = `gource-${new Date().toISOString().split('T')[0]}-${width}x${height}.webm`;
+      link.href = url;
+      document.body.appendChild(link);
+      link.click();
+      setTimeout(() => {
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+      }, 100);
+      onClose();
+    } catch (err) {
+      if ((err as Error).name !== 'AbortError') {
+        console.error('Video export failed:', err);
+        setError('Video export failed. Try a lower resolution or frame rate.');
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  }, [resolution, fps, durationSeconds, showTitleCard, title, subtitle, defaultTitle, getExportInput, onClose]);
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) return;
+    abortRef.current?.abort();
+    onClose();
+  };
+
+  const percent = progress && progress.totalFrames > 0
+    ? Math.round((progress.frame / progress.totalFrames) * 100)
+    : 0;
+  const totalSeconds = durationSeconds + (showTitleCard ? TITLE_CARD_SECONDS : 0);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md border-zinc-800 bg-zinc-950/95 backdrop-blur-xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-white">
+            <Film className="h-5 w-5 text-blue-400" />
+            Export Video
+          </DialogTitle>
+          <DialogDescription className="text-zinc-400">
+            Renders the full history frame by frame with the current view and settings,
+            then downloads it as a WebM file.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!isSupported ? (
+          <p className="text-sm text-red-400">
+            This browser can&apos;t encode video. Try a recent version of Chrome, Edge or Firefox.
+          </p>
+        ) : isExporting ? (
+          <div className="space-y-3 py-2">
+            <div className="flex items-center gap-2 text-sm text-white/80">
+              <Loader2 className="h-4 w-4 animate-spin text-blue-400" />
+              {PHASE_LABELS[progress.phase]}
+            </div>
+            <Progress value={percent} />
+            <p className="text-xs text-white/40">
+              {progress.totalFrames > 0
+                ? `Frame ${progress.frame.toLocaleString()} of ${progress.totalFrames.toLocaleString()} · ${percent}%`
+                : 'Starting…'}
+              {progress.encoder === 'mediarecorder' &&
+                ' · this browser records in real time, so keep the tab in the foreground'}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="col-span-2 space-y-1.5">
+                <Label className="text-xs text-zinc-400">Resolution</Label>
+                <Select value={resolution} onValueChange={(v) => setResolution(v as ResolutionKey)}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(RESOLUTIONS) as ResolutionKey[]).map((key) => (
+                      <SelectItem key={key} value={key}>
+                        {RESOLUTIONS[key].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-1.5">
+                <Label className="text-xs text-zinc-400">Duration</Label>
+                <Select
+                  value={String(durationSeconds)}
+                  onValueChange={(v) => setDurationSeconds(Number(v))}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DURATIONS.map((seconds) => (
+                      <SelectItem key={seconds} value={String(seconds)}>
+                        {formatDuration(seconds)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-1.5">
+                <Label className="text-xs text-zinc-400">Frame rate</Label>
+                <Select value={String(fps)} onValueChange={(v) => setFps(Number(v))}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FRAME_RATES.map((rate) => (
+                      <SelectItem key={rate} value={String(rate)}>
+                        {rate} fps
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Switch id="video-title-card" checked={showTitleCard} onCheckedChange={setShowTitleCard} />
+                <Label htmlFor="video-title-card" className="text-sm text-white/80">
+                  Title card ({TITLE_CARD_SECONDS}s intro)
+                </Label>
+              </div>
+              {showTitleCard && (
+                <div className="space-y-2">
+                  <Input
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                    placeholder={defaultTitle}
+                    aria-label="Title"
+                  />
+                  <Input
+                    value={subtitle}
+                    onChange={(e) => setSubtitle(e.target.value)}
+                    placeholder="Subtitle (optional)"
+                    aria-label="Subtitle"
+                  />
+                </div>
+              )}
+            </div>
+
+            <p className="text-xs text-white/40">
+              {formatDuration(totalSeconds)} · {(totalSeconds * fps).toLocaleString()} frames
+            </p>
+
+            {error && <p className="text-sm text-red-400">{error}</p>}
+          </div>
+        )}
+
+        <DialogFooter>
+          {isExporting ? (
+            <Button variant="outline" onClick={() => abortRef.current?.abort()}>
+              Cancel
+            </Button>
+          ) : (
+            <>
+              <Button variant="ghost" onClick={onClose}>
+                Close
+              </Button>
+              <Button onClick={handleExport} disabled={!isSupported}>
+                Export
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import {
   Sheet,
   SheetContent,
@@ -27,12 +27,21 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from '@/components/ui/tooltip';
-import type { GourceSettings } from '@/lib/types';
+import type {
+  GourceCameraMode,
+  GourceColorMode,
+  GourceRenderBackend,
+  GourceSettings,
+  Repository,
+} from '@/lib/types';
 import {
   DEFAULT_GOURCE_SETTINGS,
   FILE_CATEGORY_COLORS,
   FileCategory,
 } from '@/lib/types';
+import { parseCameraScript, serializeCameraScript } from '@/lib/camera-director';
+import { COLOR_MODES } from '@/lib/gource-color-modes';
+import { PathRulesEditor } from '@/components/gource/path-rules-editor';
 
 // ─── Icons ──────────────────────────────────────────────────────────────────
 
@@ -99,6 +108,12 @@ interface VisualizationSettingsProps {
   settings: GourceSettings;
   onSettingsChange: (settings: Partial<GourceSettings>) => void;
   onReset?: () => void;
+  /** Backend the engine is actually drawing with, when known */
+  activeRenderer?: GourceRenderBackend | null;
+  /** Append the current view to the camera script */
+  onCaptureCameraKeyframe?: () => void;
+  /** Repositories on stage, offered as scopes for file rules */
+  repositories?: Pick<Repository, 'fullName' | 'name'>[];
 }
 
 // ─── File Category Metadata ─────────────────────────────────────────────────
@@ -153,6 +168,25 @@ const BACKGROUND_PRESETS = [
   { label: 'Dark Blue', value: '#0c1425' },
 ];
 
+const RENDERER_OPTIONS: { label: string; value: GourceSettings['renderer'] }[] = [
+  { label: 'Auto', value: 'auto' },
+  { label: 'WebGL2', value: 'webgl2' },
+  { label: 'Canvas 2D', value: 'canvas2d' },
+];
+
+const RENDERER_LABELS: Record<GourceRenderBackend, string> = {
+  webgl2: 'WebGL2',
+  canvas2d: 'Canvas 2D',
+};
+
+const CAMERA_MODE_OPTIONS: { label: string; value: GourceCameraMode; hint: string }[] = [
+  { label: 'Auto', value: 'auto', hint: 'Follows files changed in the last few moments.' },
+  { label: 'Contributor', value: 'follow-contributor', hint: 'Follows whoever is committing the most right now.' },
+  { label: 'Directory', value: 'active-directory', hint: 'Zooms into the directory getting the most commits.' },
+  { label: 'Overview', value: 'overview', hint: 'Keeps the whole tree in frame.' },
+  { label: 'Script', value: 'script', hint: 'Eases between saved keyframes as time passes.' },
+];
+
 // ─── Section Component ──────────────────────────────────────────────────────
 
 function SettingsSection({
@@ -179,8 +213,13 @@ export function VisualizationSettings({
   settings,
   onSettingsChange,
   onReset,
+  activeRenderer,
+  onCaptureCameraKeyframe,
+  repositories = [],
 }: VisualizationSettingsProps) {
   const [isOpen, setIsOpen] = useState(false);
+  const [cameraScriptError, setCameraScriptError] = useState<string | null>(null);
+  const cameraScriptInputRef = useRef<HTMLInputElement>(null);
   const [dateFilterEnabled, setDateFilterEnabled] = useState(
     settings.dateFilter !== null,
   );
@@ -312,6 +351,31 @@ export function VisualizationSettings({
     [onSettingsChange, dateFilterEnabled, dateStart],
   );
 
+  const handleCameraScriptImport = useCallback(
+    async (file: File) => {
+      const result = parseCameraScript(await file.text());
+      if (result.success) {
+        setCameraScriptError(null);
+        onSettingsChange({ cameraScript: result.script, cameraMode: 'script' });
+      } else {
+        setCameraScriptError(result.error);
+      }
+    },
+    [onSettingsChange],
+  );
+
+  const handleCameraScriptExport = useCallback(() => {
+    if (!settings.cameraScript) return;
+    const url = URL.createObjectURL(
+      new Blob([serializeCameraScript(settings.cameraScript)], { type: 'application/json' }),
+    );
+    const link = document.createElement('a');
+    link.download = 'gource-camera.json';
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [settings.cameraScript]);
+
   const handleReset = useCallback(() => {
     setDateFilterEnabled(false);
     setDateStart('');
@@ -362,6 +426,40 @@ export function VisualizationSettings({
         <div className="mt-6 space-y-6">
           {/* ── Rendering ─────────────────────────────────────────────── */}
           <SettingsSection title="Rendering">
+            {/* Renderer Backend */}
+            <div className="space-y-1.5">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm text-zinc-300">Renderer</Label>
+                {activeRenderer && (
+                  <Badge
+                    variant="outline"
+                    className="border-white/10 bg-zinc-800 font-mono text-xs text-zinc-400"
+                  >
+                    {RENDERER_LABELS[activeRenderer]}
+                  </Badge>
+                )}
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                {RENDERER_OPTIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    className={`h-8 rounded-md border text-xs transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500/50 ${
+                      settings.renderer === option.value
+                        ? 'border-blue-500 bg-blue-500/10 text-white'
+                        : 'border-white/10 text-zinc-400 hover:border-white/25 hover:text-zinc-200'
+                    }`}
+                    onClick={() => onSettingsChange({ renderer: option.value })}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              <p className="text-[11px] text-zinc-500">
+                WebGL2 draws large trees on the GPU. Auto uses it when the
+                browser supports it.
+              </p>
+            </div>
+
             {/* Node Size */}
             <div className="space-y-1.5">
               <div className="flex items-center justify-between">
@@ -552,6 +650,100 @@ export function VisualizationSettings({
 
           <Separator className="bg-white/5" />
 
+          {/* ── Camera ────────────────────────────────────────────────── */}
+          <SettingsSection title="Camera">
+            <div className="space-y-1.5">
+              <Label className="text-sm text-zinc-300">Director</Label>
+              <div className="grid grid-cols-3 gap-2">
+                {CAMERA_MODE_OPTIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    className={`h-8 rounded-md border text-xs transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500/50 ${
+                      settings.cameraMode === option.value
+                        ? 'border-blue-500 bg-blue-500/10 text-white'
+                        : 'border-white/10 text-zinc-400 hover:border-white/25 hover:text-zinc-200'
+                    }`}
+                    onClick={() => onSettingsChange({ cameraMode: option.value })}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              <p className="text-[11px] text-zinc-500">
+                {CAMERA_MODE_OPTIONS.find((o) => o.value === settings.cameraMode)?.hint}{' '}
+                Panning or zooming takes over until you reset the camera (R).
+              </p>
+            </div>
+
+            {settings.cameraMode === 'script' && (
+              <div className="space-y-2 rounded-md border border-white/10 bg-white/[0.02] p-3">
+                <div className="flex items-center justify-between">
+                  <Label className="text-sm text-zinc-300">Script</Label>
+                  <Badge
+                    variant="outline"
+                    className="border-white/10 bg-zinc-800 font-mono text-xs text-zinc-400"
+                  >
+                    {settings.cameraScript?.keyframes.length ?? 0} keyframes
+                  </Badge>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  {onCaptureCameraKeyframe && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="col-span-2 border-white/10 bg-transparent text-xs text-zinc-300 hover:bg-white/5 hover:text-white"
+                      onClick={onCaptureCameraKeyframe}
+                    >
+                      Add keyframe at current view
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="border-white/10 bg-transparent text-xs text-zinc-300 hover:bg-white/5 hover:text-white"
+                    onClick={() => cameraScriptInputRef.current?.click()}
+                  >
+                    Import JSON
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="border-white/10 bg-transparent text-xs text-zinc-300 hover:bg-white/5 hover:text-white"
+                    disabled={!settings.cameraScript?.keyframes.length}
+                    onClick={handleCameraScriptExport}
+                  >
+                    Export JSON
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="col-span-2 text-xs text-zinc-500 hover:bg-white/5 hover:text-zinc-300"
+                    disabled={!settings.cameraScript}
+                    onClick={() => onSettingsChange({ cameraScript: null })}
+                  >
+                    Clear script
+                  </Button>
+                </div>
+                <input
+                  ref={cameraScriptInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) void handleCameraScriptImport(file);
+                    e.target.value = '';
+                  }}
+                />
+                {cameraScriptError && (
+                  <p className="text-[11px] text-red-400">{cameraScriptError}</p>
+                )}
+              </div>
+            )}
+          </SettingsSection>
+
+          <Separator className="bg-white/5" />
+
           {/* ── Physics ───────────────────────────────────────────────── */}
           <SettingsSection title="Physics">
             {/* Spring Stiffness */}
@@ -688,6 +880,31 @@ export function VisualizationSettings({
 
           <Separator className="bg-white/5" />
 
+          {/* ── Node Colors ───────────────────────────────────────────── */}
+          <SettingsSection title="Node Colors">
+            <div className="space-y-1.5">
+              <Label className="text-sm text-zinc-300">Color By</Label>
+              <div className="grid grid-cols-3 gap-2">
+                {(Object.keys(COLOR_MODES) as GourceColorMode[]).map((mode) => (
+                  <button
+                    key={mode}
+                    className={`h-8 rounded-md border text-xs transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500/50 ${
+                      settings.colorMode === mode
+                        ? 'border-blue-500 bg-blue-500/10 text-white'
+                        : 'border-white/10 text-zinc-400 hover:border-white/25 hover:text-zinc-200'
+                    }`}
+                    onClick={() => onSettingsChange({ colorMode: mode })}
+                  >
+                    {COLOR_MODES[mode].label}
+                  </button>
+                ))}
+              </div>
+              <p className="text-[11px] text-zinc-500">{COLOR_MODES[settings.colorMode].hint}</p>
+            </div>
+          </SettingsSection>
+
+          <Separator className="bg-white/5" />
+
           {/* ── File Extension Colors ─────────────────────────────────── */}
           <SettingsSection title="File Extension Colors">
             <div className="flex items-center gap-2 pb-1">
@@ -775,6 +992,17 @@ export function VisualizationSettings({
 
           <Separator className="bg-white/5" />
 
+          {/* ── Files ─────────────────────────────────────────────────── */}
+          <SettingsSection title="Files">
+            <PathRulesEditor
+              settings={settings}
+              onSettingsChange={onSettingsChange}
+              repositories={repositories}
+            />
+          </SettingsSection>
+
+          <Separator className="bg-white/5" />
+
           {/* ── Date Filter ───────────────────────────────────────────── */}
           <SettingsSection title="Date Filter">
             <div className="space-y-3">
@@ -1,18 +1,36 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   ChevronDown,
   ChevronUp,
+  FileUp,
   GitCommit,
   Plus,
   Minus,
+  Split,
   Users,
+  X,
 } from 'lucide-react';
-import type { Contributor, CommitData } from '@/lib/types';
+import { useGitData } from '@/context/git-data-provider';
+import { useAppStore } from '@/stores/app-store';
+import type {
+  Contributor,
+  CommitData,
+  IdentityAliasReason,
+  ResolvedIdentity,
+} from '@/lib/types';
+import { getIdentityId } from '@/lib/identity-resolver';
 
 interface ContributorWithTimeline extends Contributor {
   /** Monthly commit counts for timeline: { "2024-01": 15, "2024-02": 22, ... } */
@@ -35,7 +53,7 @@ function buildContributorTimelines(
   const commitsByContributor: Record<string, Record<string, number>> = {};
 
   for (const commit of commits) {
-    const key = commit.author.login || commit.author.email || commit.author.name;
+    const key = getIdentityId(commit.author);
     if (!commitsByContributor[key]) {
       commitsByContributor[key] = {};
     }
@@ -46,7 +64,7 @@ function buildContributorTimelines(
 
   return contributors
     .map((c) => {
-      const key = c.login || c.email || c.name;
+      const key = getIdentityId(c);
       return {
         ...c,
         monthlyCommits: commitsByContributor[key] || {},
@@ -59,6 +77,37 @@ function buildContributorTimelines(
     .sort((a, b) => b.totalCommits - a.totalCommits);
 }
 
+const ALIAS_REASON_LABELS: Record<IdentityAliasReason, string> = {
+  primary: 'primary',
+  mailmap: '.mailmap',
+  noreply: 'noreply email',
+  'shared-email': 'same email',
+  manual: 'merged by you',
+};
+
+interface MergeOption {
+  key: string;
+  label: string;
+}
+
+/** Other contributors this one can be merged into, keyed by their primary alias. */
+function buildMergeOptions(
+  contributors: Contributor[],
+  identityById: Map<string, ResolvedIdentity>,
+  selfId: string
+): MergeOption[] {
+  const options: MergeOption[] = [];
+  for (const c of contributors) {
+    const identity = identityById.get(c.id);
+    if (c.id === selfId || !identity) continue;
+    options.push({
+      key: identity.aliases[0].key,
+      label: c.login ? `${c.name} (@${c.login})` : `${c.name} <${c.email}>`,
+    });
+  }
+  return options;
+}
+
 function formatNumber(n: number): string {
   if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
   if (n >= 1_000) return `${(n / 1_000).toFixed(1)}K`;
@@ -123,12 +172,20 @@ function ContributorRow({
   maxCommits,
   isExpanded,
   onToggle,
+  identity,
+  mergeOptions,
+  onMerge,
+  onSplit,
 }: {
   contributor: ContributorWithTimeline;
   rank: number;
   maxCommits: number;
   isExpanded: boolean;
   onToggle: () => void;
+  identity: ResolvedIdentity | null;
+  mergeOptions: MergeOption[];
+  onMerge: (targetKey: string) => void;
+  onSplit: (aliasKey: string) => void;
 }) {
   const barWidth =
     maxCommits > 0
@@ -363,6 +420,59 @@ function ContributorRow({
               </div>
             </div>
           )}
+
+          {/* Identities folded into this contributor */}
+          {identity && (
+            <div className="mt-3">
+              <h4 className="text-xs font-medium text-muted-foreground mb-1.5 uppercase tracking-wider">
+                Identities
+              </h4>
+              <ul className="space-y-1">
+                {identity.aliases.map((alias) => (
+                  <li
+                    key={alias.key}
+                    className="flex items-center gap-2 rounded-md bg-muted/20 px-2 py-1 text-xs"
+                  >
+                    <span className="truncate font-mono">
+                      {alias.login ? `@${alias.login}` : alias.email || alias.name}
+                    </span>
+                    <span className="truncate text-muted-foreground">{alias.name}</span>
+                    <Badge variant="outline" className="text-[10px] px-1.5 py-0 h-4 shrink-0">
+                      {ALIAS_REASON_LABELS[alias.reason]}
+                    </Badge>
+                    <span className="ml-auto shrink-0 text-muted-foreground">
+                      {formatNumber(alias.commitCount)} commits
+                    </span>
+                    {alias.reason !== 'primary' && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2 text-[11px]"
+                        onClick={() => onSplit(alias.key)}
+                      >
+                        <Split className="w-3 h-3 mr-1" />
+                        Split
+                      </Button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+              {mergeOptions.length > 0 && (
+                <Select value="" onValueChange={onMerge}>
+                  <SelectTrigger className="mt-2 h-8 w-[240px] text-xs">
+                    <SelectValue placeholder="Same person as…" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {mergeOptions.map((option) => (
+                      <SelectItem key={option.key} value={option.key} className="text-xs">
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -376,6 +486,27 @@ export function ContributorBreakdown({
 }: ContributorBreakdownProps) {
   const [expandedId, setExpandedId] = useState<string | null>(null);
   const [showAll, setShowAll] = useState(false);
+  const [mailmapError, setMailmapError] = useState<string | null>(null);
+  const mailmapInputRef = useRef<HTMLInputElement>(null);
+
+  const { identities, mergeIdentities, splitIdentityAlias, setMailmap } = useGitData();
+  const mailmapRuleCount = useAppStore((state) => state.identityRules.mailmap.length);
+
+  const identityById = React.useMemo(
+    () => new Map(identities.map((identity) => [identity.id, identity])),
+    [identities]
+  );
+
+  const handleMailmapFile = async (fileList: FileList | null) => {
+    const file = fileList?.[0];
+    if (!file) return;
+    setMailmapError(null);
+    try {
+      setMailmap(await file.text());
+    } catch {
+      setMailmapError('Failed to read the .mailmap file.');
+    }
+  };
 
   const enrichedContributors = React.useMemo(
     () => buildContributorTimelines(contributors, commits, totalCommits),
@@ -408,10 +539,46 @@ export function ContributorBreakdown({
               </p>
             </div>
           </div>
-          <Badge variant="outline" className="text-xs">
-            {formatNumber(totalCommits)} total commits
-          </Badge>
+          <div className="flex items-center gap-2">
+            {mailmapRuleCount > 0 ? (
+              <Badge variant="secondary" className="gap-1 text-xs">
+                .mailmap · {mailmapRuleCount} rule{mailmapRuleCount !== 1 ? 's' : ''}
+                <button
+                  onClick={() => setMailmap(null)}
+                  className="ml-0.5 text-muted-foreground hover:text-foreground"
+                  aria-label="Remove .mailmap"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </Badge>
+            ) : (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => mailmapInputRef.current?.click()}
+                className="h-7 text-xs text-muted-foreground"
+              >
+                <FileUp className="w-3.5 h-3.5 mr-1" />
+                .mailmap
+              </Button>
+            )}
+            <input
+              ref={mailmapInputRef}
+              type="file"
+              className="hidden"
+              onChange={(e) => {
+                handleMailmapFile(e.target.files);
+                e.target.value = '';
+              }}
+            />
+            <Badge variant="outline" className="text-xs">
+              {formatNumber(totalCommits)} total commits
+            </Badge>
+          </div>
         </div>
+        {mailmapError && (
+          <p className="mt-2 text-xs text-red-400">{mailmapError}</p>
+        )}
       </CardHeader>
 
       <CardContent className="space-y-2">
@@ -422,20 +589,33 @@ export function ContributorBreakdown({
           </div>
         ) : (
           <>
-            {displayedContributors.map((contributor, index) => (
-              <ContributorRow
-                key={contributor.id}
-                contributor={contributor}
-                rank={index + 1}
-                maxCommits={maxCommits}
-                isExpanded={expandedId === contributor.id}
-                onToggle={() =>
-                  setExpandedId(
-                    expandedId === contributor.id ? null : contributor.id
-                  )
-                }
-              />
-            ))}
+            {displayedContributors.map((contributor, index) => {
+              const identity = identityById.get(contributor.id) ?? null;
+              return (
+                <ContributorRow
+                  key={contributor.id}
+                  contributor={contributor}
+                  rank={index + 1}
+                  maxCommits={maxCommits}
+                  isExpanded={expandedId === contributor.id}
+                  onToggle={() =>
+                    setExpandedId(
+                      expandedId === contributor.id ? null : contributor.id
+                    )
+                  }
+                  identity={identity}
+                  mergeOptions={
+                    identity && expandedId === contributor.id
+                      ? buildMergeOptions(enrichedContributors, identityById, contributor.id)
+                      : []
+                  }
+                  onMerge={(targetKey) => {
+                    if (identity) mergeIdentities(identity.aliases[0].key, targetKey);
+                  }}
+                  onSplit={splitIdentityAlias}
+                />
+              );
+            })}
 
             {hasMore && (
               <div className="pt-2 flex justify-center">
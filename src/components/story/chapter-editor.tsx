@@ -0,0 +1,234 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import {
+  AlertCircle,
+  ArrowDown,
+  ArrowUp,
+  Combine,
+  Loader2,
+  Lock,
+  LockOpen,
+  Pencil,
+  Scissors,
+  Sparkles,
+} from 'lucide-react';
+import type { StoryChapter } from '@/lib/types';
+
+/** Per-chapter actions on a finished story; chapters are addressed by index. */
+export interface ChapterActions {
+  /** Rewriting needs a model; the hand edits don't */
+  canRewrite: boolean;
+  rewritingChapterIndex: number | null;
+  chapterError: { index: number; message: string } | null;
+  onRewrite: (index: number, feedback: string) => void;
+  onEdit: (index: number, changes: { title: string; content: string }) => void;
+  onMove: (index: number, offset: -1 | 1) => void;
+  onMergeWithNext: (index: number) => void;
+  onSplit: (index: number) => void;
+  onToggleLock: (index: number) => void;
+}
+
+// Rewrite with feedback
+function RewriteButton({
+  disabled,
+  onRewrite,
+}: {
+  disabled: boolean;
+  onRewrite: (feedback: string) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [feedback, setFeedback] = useState('');
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button size="sm" variant="ghost" disabled={disabled} className="h-7 px-2 text-xs">
+          <Sparkles className="mr-1 h-3.5 w-3.5" />
+          Rewrite
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 border-zinc-800 bg-zinc-950">
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            onRewrite(feedback);
+            setOpen(false);
+            setFeedback('');
+          }}
+          className="space-y-3"
+        >
+          <p className="text-xs text-muted-foreground">
+            What should change? Only this chapter is rewritten, from its own slice of your commits.
+          </p>
+          <textarea
+            value={feedback}
+            onChange={(e) => setFeedback(e.target.value)}
+            rows={3}
+            maxLength={2000}
+            placeholder="Focus more on the migration"
+            className="w-full resize-y rounded-md border border-white/10 bg-zinc-900 px-2 py-1.5 text-xs text-zinc-200 placeholder:text-zinc-600 focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+          />
+          <Button type="submit" size="sm" className="w-full">
+            Rewrite chapter
+          </Button>
+        </form>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+export function ChapterToolbar({
+  chapter,
+  isLast,
+  actions,
+  onStartEdit,
+}: {
+  chapter: StoryChapter;
+  isLast: boolean;
+  actions: ChapterActions;
+  onStartEdit: () => void;
+}) {
+  const { index } = chapter;
+  const isBusy = actions.rewritingChapterIndex !== null;
+  const isRewriting = actions.rewritingChapterIndex === index;
+  const error = actions.chapterError?.index === index ? actions.chapterError.message : null;
+
+  if (isRewriting) {
+    return (
+      <div className="mt-3 flex items-center gap-2 text-xs text-purple-300">
+        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+        Rewriting this chapter...
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-3">
+      <div className="flex flex-wrap items-center gap-1">
+        <RewriteButton
+          disabled={isBusy || !actions.canRewrite || !!chapter.locked}
+          onRewrite={(feedback) => actions.onRewrite(index, feedback)}
+        />
+        <Button
+          size="sm"
+          variant="ghost"
+          disabled={isBusy || !!chapter.locked}
+          onClick={onStartEdit}
+          className="h-7 px-2 text-xs"
+        >
+          <Pencil className="mr-1 h-3.5 w-3.5" />
+          Edit
+        </Button>
+        <Button
+          size="icon"
+          variant="ghost"
+          disabled={isBusy || index === 0}
+          onClick={() => actions.onMove(index, -1)}
+          className="h-7 w-7"
+          aria-label="Move chapter up"
+        >
+          <ArrowUp className="h-3.5 w-3.5" />
+        </Button>
+        <Button
+          size="icon"
+          variant="ghost"
+          disabled={isBusy || isLast}
+          onClick={() => actions.onMove(index, 1)}
+          className="h-7 w-7"
+          aria-label="Move chapter down"
+        >
+          <ArrowDown className="h-3.5 w-3.5" />
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          disabled={isBusy || isLast || !!chapter.locked}
+          onClick={() => actions.onMergeWithNext(index)}
+          className="h-7 px-2 text-xs"
+        >
+          <Combine className="mr-1 h-3.5 w-3.5" />
+          Merge with next
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          disabled={isBusy || !!chapter.locked}
+          onClick={() => actions.onSplit(index)}
+          className="h-7 px-2 text-xs"
+        >
+          <Scissors className="mr-1 h-3.5 w-3.5" />
+          Split
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          disabled={isBusy}
+          onClick={() => actions.onToggleLock(index)}
+          className={`h-7 px-2 text-xs ${chapter.locked ? 'text-amber-400' : ''}`}
+        >
+          {chapter.locked ? (
+            <Lock className="mr-1 h-3.5 w-3.5" />
+          ) : (
+            <LockOpen className="mr-1 h-3.5 w-3.5" />
+          )}
+          {chapter.locked ? 'Locked' : 'Lock'}
+        </Button>
+      </div>
+      {error && (
+        <p className="mt-2 flex items-center gap-1.5 text-xs text-destructive">
+          <AlertCircle className="h-3.5 w-3.5 shrink-0" />
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export function ChapterEditForm({
+  chapter,
+  onSave,
+  onCancel,
+}: {
+  chapter: StoryChapter;
+  onSave: (changes: { title: string; content: string }) => void;
+  onCancel: () => void;
+}) {
+  const [title, setTitle] = useState(chapter.title);
+  const [content, setContent] = useState(chapter.content);
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSave({ title: title.trim() || chapter.title, content });
+      }}
+      className="space-y-3"
+    >
+      <Input value={title} onChange={(e) => setTitle(e.target.value)} aria-label="Chapter title" />
+      <textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        rows={16}
+        spellCheck
+        aria-label="Chapter markdown"
+        className="w-full resize-y rounded-md border border-white/10 bg-zinc-900 px-3 py-2 font-mono text-sm text-zinc-200 focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+      />
+      <div className="flex justify-end gap-2">
+        <Button type="button" size="sm" variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm">
+          Save chapter
+        </Button>
+      </div>
+    </form>
+  );
+}
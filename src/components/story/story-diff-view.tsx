@@ -0,0 +1,135 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { diffStories } from '@/lib/story-diff';
+import type { SavedStory, StoryDiffRow, StoryInputs } from '@/lib/narrative-types';
+
+interface StoryDiffViewProps {
+  /** The two generations to compare, older on the left; null when closed */
+  pair: { left: SavedStory; right: SavedStory } | null;
+  onClose: () => void;
+}
+
+const ROW_STYLES: Record<StoryDiffRow['kind'], { left: string; right: string }> = {
+  same: { left: 'text-zinc-400', right: 'text-zinc-400' },
+  removed: { left: 'bg-red-500/10 text-red-200', right: '' },
+  added: { left: '', right: 'bg-emerald-500/10 text-emerald-200' },
+  changed: { left: 'bg-amber-500/10 text-amber-100', right: 'bg-amber-500/10 text-amber-100' },
+};
+
+/** Which recorded inputs differ between the two generations. */
+function describeInputChanges(left: StoryInputs, right: StoryInputs): string[] {
+  const changes: string[] = [];
+  if (left.model !== right.model) changes.push(`model ${left.model} → ${right.model}`);
+  if (left.promptVersion !== right.promptVersion) {
+    changes.push(`prompt ${left.promptVersion} → ${right.promptVersion}`);
+  }
+  if (left.dateRange.start !== right.dateRange.start || left.dateRange.end !== right.dateRange.end) {
+    changes.push('date range');
+  }
+  if (left.repoIds.join('|') !== right.repoIds.join('|')) changes.push('repositories');
+  return changes;
+}
+
+function formatSavedAt(timestamp: number): string {
+  return new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+export function StoryDiffView({ pair, onClose }: StoryDiffViewProps) {
+  const [hideUnchanged, setHideUnchanged] = useState(true);
+
+  const chapters = useMemo(
+    () => (pair ? diffStories(pair.left.story, pair.right.story) : []),
+    [pair]
+  );
+
+  const inputChanges = pair ? describeInputChanges(pair.left.inputs, pair.right.inputs) : [];
+  const totalChanges = chapters.reduce((sum, chapter) => sum + chapter.changes, 0);
+
+  return (
+    <Dialog open={pair !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="flex max-h-[90vh] flex-col border-zinc-800 bg-zinc-950/95 sm:max-w-6xl">
+        <DialogHeader>
+          <DialogTitle>Compare Stories</DialogTitle>
+          <DialogDescription>
+            {inputChanges.length === 0
+              ? 'Same inputs — these are two takes of the same story.'
+              : `Inputs differ: ${inputChanges.join(', ')}.`}{' '}
+            {totalChanges} {totalChanges === 1 ? 'paragraph differs' : 'paragraphs differ'}.
+          </DialogDescription>
+        </DialogHeader>
+
+        {pair && (
+          <>
+            <div className="grid grid-cols-2 gap-4 text-sm">
+              {[pair.left, pair.right].map((saved) => (
+                <div key={saved.id} className="min-w-0">
+                  <p className="truncate font-semibold">{saved.story.title}</p>
+                  <p className="truncate text-xs text-muted-foreground">
+                    {formatSavedAt(saved.savedAt)} · {saved.inputs.model}
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch id="diff-hide-unchanged" checked={hideUnchanged} onCheckedChange={setHideUnchanged} />
+              <Label htmlFor="diff-hide-unchanged" className="text-xs text-muted-foreground">
+                Hide unchanged paragraphs
+              </Label>
+            </div>
+
+            <ScrollArea className="min-h-0 flex-1 pr-3">
+              <div className="space-y-6">
+                {chapters.map((chapter) => {
+                  const rows = hideUnchanged ? chapter.rows.filter((row) => row.kind !== 'same') : chapter.rows;
+                  return (
+                    <section key={chapter.index}>
+                      <div className="mb-2 grid grid-cols-2 gap-4 border-b border-zinc-800 pb-2">
+                        <h3 className="text-sm font-semibold">{chapter.leftTitle ?? '—'}</h3>
+                        <div className="flex items-center justify-between gap-2">
+                          <h3 className="text-sm font-semibold">{chapter.rightTitle ?? '—'}</h3>
+                          <Badge variant={chapter.changes > 0 ? 'secondary' : 'outline'} className="shrink-0 text-[10px]">
+                            {chapter.changes > 0 ? `${chapter.changes} changed` : 'Identical'}
+                          </Badge>
+                        </div>
+                      </div>
+                      <div className="space-y-2">
+                        {rows.map((row, i) => (
+                          <div key={i} className="grid grid-cols-2 gap-4 text-xs leading-relaxed">
+                            <p className={`whitespace-pre-wrap rounded px-2 py-1 ${ROW_STYLES[row.kind].left}`}>
+                              {row.left}
+                            </p>
+                            <p className={`whitespace-pre-wrap rounded px-2 py-1 ${ROW_STYLES[row.kind].right}`}>
+                              {row.right}
+                            </p>
+                          </div>
+                        ))}
+                      </div>
+                    </section>
+                  );
+                })}
+              </div>
+            </ScrollArea>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,183 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+} from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { DATA_STORY_MODEL } from '@/lib/narrative-data-story';
+import type { SavedStory } from '@/lib/narrative-types';
+import { BookOpen, GitCompare, Pin, PinOff, Trash2, Library } from 'lucide-react';
+
+interface StoryLibraryProps {
+  isOpen: boolean;
+  onClose: () => void;
+  entries: SavedStory[];
+  /** Library id of the story on screen */
+  currentId: string | null;
+  /** Opening is disabled while a story is being generated */
+  isGenerating: boolean;
+  onOpen: (saved: SavedStory) => void;
+  onTogglePin: (saved: SavedStory) => void;
+  onDelete: (saved: SavedStory) => void;
+  /** Compare two stories; `left` is the older one */
+  onCompare: (left: SavedStory, right: SavedStory) => void;
+}
+
+function formatSavedAt(timestamp: number): string {
+  return new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function formatRepos(repoIds: string[]): string {
+  const names = repoIds.map((id) => id.split('/').pop() || id);
+  return names.length <= 2 ? names.join(', ') : `${names.slice(0, 2).join(', ')} +${names.length - 2}`;
+}
+
+export function StoryLibrary({
+  isOpen,
+  onClose,
+  entries,
+  currentId,
+  isGenerating,
+  onOpen,
+  onTogglePin,
+  onDelete,
+  onCompare,
+}: StoryLibraryProps) {
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  const toggleCompare = (id: string) => {
+    setCompareIds((prev) =>
+      prev.includes(id)
+        ? prev.filter((selected) => selected !== id)
+        : [...prev, id].slice(-2)
+    );
+  };
+
+  const handleCompare = () => {
+    const [left, right] = entries
+      .filter((saved) => compareIds.includes(saved.id))
+      .sort((a, b) => a.savedAt - b.savedAt);
+    if (left && right) onCompare(left, right);
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent side="right" className="w-full border-zinc-800 bg-zinc-950/95 sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <Library className="h-4 w-4 text-purple-400" />
+            Story Library
+          </SheetTitle>
+          <SheetDescription>
+            Every story you generate is kept here. Pin the best one and it opens instead of a fresh generation.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex items-center justify-between gap-2 px-4">
+          <span className="text-xs text-muted-foreground">
+            {compareIds.length === 2 ? '2 selected' : 'Select two stories to compare'}
+          </span>
+          <Button size="sm" variant="outline" disabled={compareIds.length !== 2} onClick={handleCompare}>
+            <GitCompare className="mr-2 h-4 w-4" />
+            Compare
+          </Button>
+        </div>
+
+        <ScrollArea className="min-h-0 flex-1 px-4 pb-4">
+          {entries.length === 0 ? (
+            <p className="py-12 text-center text-sm text-muted-foreground">No saved stories yet.</p>
+          ) : (
+            <ul className="space-y-2">
+              {entries.map((saved) => {
+                const isCurrent = saved.id === currentId;
+                return (
+                  <li
+                    key={saved.id}
+                    className={`rounded-lg border p-3 ${isCurrent ? 'border-purple-500/50 bg-purple-500/5' : 'border-zinc-800'}`}
+                  >
+                    <div className="flex items-start gap-3">
+                      <Checkbox
+                        checked={compareIds.includes(saved.id)}
+                        onCheckedChange={() => toggleCompare(saved.id)}
+                        aria-label={`Compare "${saved.story.title}"`}
+                        className="mt-0.5"
+                      />
+                      <div className="min-w-0 flex-1">
+                        <div className="flex items-center gap-2">
+                          <p className="truncate text-sm font-medium">{saved.story.title}</p>
+                          {saved.pinned && <Pin className="h-3 w-3 shrink-0 text-amber-400" />}
+                        </div>
+                        <p className="mt-0.5 text-xs text-muted-foreground">
+                          {formatSavedAt(saved.savedAt)} · {formatRepos(saved.inputs.repoIds)}
+                        </p>
+                        <div className="mt-2 flex flex-wrap gap-1">
+                          <Badge variant="outline" className="text-[10px]">
+                            {saved.inputs.model === DATA_STORY_MODEL ? 'From commit data' : saved.inputs.model}
+                          </Badge>
+                          <Badge variant="outline" className="text-[10px]">
+                            {saved.story.chapters.length} chapters
+                          </Badge>
+                          {isCurrent && (
+                            <Badge variant="secondary" className="text-[10px]">
+                              Showing
+                            </Badge>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+
+                    <div className="mt-3 flex justify-end gap-1">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={isCurrent || isGenerating}
+                        onClick={() => onOpen(saved)}
+                      >
+                        <BookOpen className="mr-1.5 h-3.5 w-3.5" />
+                        Open
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => onTogglePin(saved)}>
+                        {saved.pinned ? (
+                          <PinOff className="mr-1.5 h-3.5 w-3.5" />
+                        ) : (
+                          <Pin className="mr-1.5 h-3.5 w-3.5" />
+                        )}
+                        {saved.pinned ? 'Unpin' : 'Pin'}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => {
+                          setCompareIds((prev) => prev.filter((selected) => selected !== saved.id));
+                          onDelete(saved);
+                        }}
+                        className="text-muted-foreground hover:text-destructive"
+                        aria-label={`Delete "${saved.story.title}"`}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -16,10 +16,22 @@ import {
   Zap,
   Target,
   ArrowRight,
+  Lock,
+  ShieldCheck,
 } from 'lucide-react';
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from '@/components/ui/tooltip';
+import { ChapterEditForm, ChapterToolbar } from '@/components/story/chapter-editor';
+import type { ChapterActions } from '@/components/story/chapter-editor';
+import { DATA_STORY_MODEL } from '@/lib/narrative-data-story';
 import type {
   GeneratedStory,
   StoryChapter,
+  StoryCitation,
   StoryMilestone,
   Repository,
 } from '@/lib/types';
@@ -28,6 +40,8 @@ interface UnifiedDeveloperJourneyProps {
   story: GeneratedStory;
   repositories?: Repository[];
   onChapterVisible?: (chapterId: string) => void;
+  /** Per-chapter editing; omitted while the story is still streaming */
+  chapterActions?: ChapterActions;
 }
 
 // Milestone callout component
@@ -128,13 +142,88 @@ function CommitRef({ sha, repoId }: { sha: string; repoId?: string | null }) {
   );
 }
 
+// Inline citation [commit:sha] with a hover card for the cited commit
+function CitationRef({
+  sha,
+  citations,
+}: {
+  sha: string;
+  citations?: Record<string, StoryCitation>;
+}) {
+  const shortSha = sha.slice(0, 7).toLowerCase();
+  const citation = citations?.[shortSha];
+
+  // No index yet (still streaming) — nothing to check against
+  if (!citations) {
+    return (
+      <span className="rounded bg-muted/50 px-1 py-0.5 align-middle font-mono text-[0.7em] text-muted-foreground">
+        {shortSha}
+      </span>
+    );
+  }
+
+  if (!citation) {
+    return (
+      <span
+        title="This commit isn't in the analyzed history"
+        className="rounded border border-dashed border-amber-500/40 px-1 py-0.5 align-middle font-mono text-[0.7em] text-amber-400/80 line-through"
+      >
+        {shortSha}
+      </span>
+    );
+  }
+
+  const chipClassName =
+    'inline-flex items-center gap-0.5 rounded bg-blue-500/10 px-1 py-0.5 align-middle font-mono text-[0.7em] text-blue-400';
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        {citation.htmlUrl ? (
+          <a
+            href={citation.htmlUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className={`${chipClassName} transition-colors hover:bg-blue-500/20 hover:text-blue-300`}
+          >
+            <GitCommit className="h-2.5 w-2.5" />
+            {shortSha}
+          </a>
+        ) : (
+          <span className={chipClassName}>
+            <GitCommit className="h-2.5 w-2.5" />
+            {shortSha}
+          </span>
+        )}
+      </TooltipTrigger>
+      <TooltipContent side="top" className="max-w-xs border-zinc-700 bg-zinc-900 p-3 text-zinc-200">
+        <p className="text-sm font-medium leading-snug">{citation.messageHeadline}</p>
+        <p className="mt-1.5 text-xs text-zinc-400">
+          {citation.authorName} ·{' '}
+          {new Date(citation.timestamp).toLocaleDateString('en-US', {
+            year: 'numeric',
+            month: 'short',
+            day: 'numeric',
+          })}
+        </p>
+        <p className="mt-1 flex items-center gap-1 font-mono text-[10px] text-zinc-500">
+          {citation.repoId.split('/').pop()}@{shortSha}
+          {citation.htmlUrl && <ExternalLink className="h-2.5 w-2.5" />}
+        </p>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
+
 // Custom markdown-like renderer
 function RenderedMarkdown({
   content,
   repoId,
+  citations,
 }: {
   content: string;
   repoId?: string | null;
+  citations?: Record<string, StoryCitation>;
 }) {
   // Parse content into blocks
   const blocks = content.split('\n\n').filter(b => b.trim());
@@ -151,7 +240,7 @@ function RenderedMarkdown({
               key={i}
               className="mt-6 mb-2 text-lg font-semibold tracking-tight text-white md:text-xl"
             >
-              {renderInlineMarkdown(trimmed.slice(4))}
+              {renderInlineMarkdown(trimmed.slice(4), citations)}
             </h3>
           );
         }
@@ -163,7 +252,7 @@ function RenderedMarkdown({
               key={i}
               className="mt-8 mb-3 text-xl font-bold tracking-tight text-white md:text-2xl"
             >
-              {renderInlineMarkdown(trimmed.slice(3))}
+              {renderInlineMarkdown(trimmed.slice(3), citations)}
             </h2>
           );
         }
@@ -179,7 +268,7 @@ function RenderedMarkdown({
                   className="flex items-start gap-2 text-sm text-muted-foreground md:text-base"
                 >
                   <ArrowRight className="mt-1 h-3 w-3 shrink-0 text-primary" />
-                  <span>{renderInlineMarkdown(item.replace(/^[-*]\s+/, ''))}</span>
+                  <span>{renderInlineMarkdown(item.replace(/^[-*]\s+/, ''), citations)}</span>
                 </li>
               ))}
             </ul>
@@ -197,7 +286,7 @@ function RenderedMarkdown({
               key={i}
               className="my-4 border-l-2 border-primary/40 pl-4 italic text-muted-foreground"
             >
-              {renderInlineMarkdown(quoteContent)}
+              {renderInlineMarkdown(quoteContent, citations)}
             </blockquote>
           );
         }
@@ -219,7 +308,7 @@ function RenderedMarkdown({
             key={i}
             className="text-sm leading-relaxed text-muted-foreground md:text-base md:leading-7"
           >
-            {renderInlineMarkdown(trimmed)}
+            {renderInlineMarkdown(trimmed, citations)}
           </p>
         );
       })}
@@ -227,8 +316,11 @@ function RenderedMarkdown({
   );
 }
 
-// Render inline markdown (bold, italic, code, links)
-function renderInlineMarkdown(text: string): React.ReactNode {
+// Render inline markdown (bold, italic, code, links, citations)
+function renderInlineMarkdown(
+  text: string,
+  citations?: Record<string, StoryCitation>
+): React.ReactNode {
   const parts: React.ReactNode[] = [];
   let remaining = text;
   let key = 0;
@@ -285,6 +377,14 @@ function renderInlineMarkdown(text: string): React.ReactNode {
       continue;
     }
 
+    // Citation [commit:sha]
+    match = remaining.match(/^\[commit:\s*([0-9a-f]{7,40})\]/i);
+    if (match) {
+      parts.push(<CitationRef key={key++} sha={match[1]} citations={citations} />);
+      remaining = remaining.slice(match[0].length);
+      continue;
+    }
+
     // Links [text](url)
     match = remaining.match(/^\[(.+?)\]\((.+?)\)/);
     if (match) {
@@ -332,15 +432,25 @@ function ChapterSection({
   isLast,
   milestones,
   onVisible,
+  actions,
+  editingIndex,
+  onEditingChange,
+  citations,
 }: {
   chapter: StoryChapter;
   isFirst: boolean;
   isLast: boolean;
   milestones: StoryMilestone[];
   onVisible?: (anchorId: string) => void;
+  actions?: ChapterActions;
+  /** The chapter open in the editor; other chapters can't be changed meanwhile */
+  editingIndex?: number | null;
+  onEditingChange?: (index: number | null) => void;
+  citations?: Record<string, StoryCitation>;
 }) {
   const ref = useRef<HTMLDivElement>(null);
   const [isExpanded, setIsExpanded] = useState(true);
+  const isEditing = editingIndex === chapter.index;
 
   useEffect(() => {
     if (!ref.current || !onVisible) return;
@@ -434,6 +544,15 @@ function ChapterSection({
                   {chapter.repoIds.length} repos
                 </Badge>
               )}
+              {chapter.locked && (
+                <Badge
+                  variant="outline"
+                  className="border-amber-500/30 bg-amber-500/5 text-xs text-amber-400"
+                >
+                  <Lock className="mr-1 h-3 w-3" />
+                  Locked
+                </Badge>
+              )}
             </div>
           </div>
           <div className="ml-4 mt-1 shrink-0 rounded-md p-1 text-muted-foreground transition-colors hover:bg-muted/50 hover:text-white">
@@ -444,17 +563,37 @@ function ChapterSection({
             )}
           </div>
         </button>
+        {actions && editingIndex == null && (
+          <ChapterToolbar
+            chapter={chapter}
+            isLast={isLast}
+            actions={actions}
+            onStartEdit={() => {
+              setIsExpanded(true);
+              onEditingChange?.(chapter.index);
+            }}
+          />
+        )}
       </div>
 
       {/* Chapter content */}
-      {isExpanded && (
+      {isEditing && actions ? (
+        <ChapterEditForm
+          chapter={chapter}
+          onSave={(changes) => {
+            actions.onEdit(chapter.index, changes);
+            onEditingChange?.(null);
+          }}
+          onCancel={() => onEditingChange?.(null)}
+        />
+      ) : isExpanded && (
         <div className="animate-in fade-in slide-in-from-top-2 duration-300">
           {/* Render milestones before content if they exist at the start */}
           {chapterMilestones.slice(0, 1).map((milestone, idx) => (
             <MilestoneCallout key={`pre-${idx}`} milestone={milestone} />
           ))}
 
-          <RenderedMarkdown content={chapter.content} />
+          <RenderedMarkdown content={chapter.content} citations={citations} />
 
           {/* Render remaining milestones after content */}
           {chapterMilestones.slice(1).map((milestone, idx) => (
@@ -529,8 +668,10 @@ export function UnifiedDeveloperJourney({
   story,
   repositories,
   onChapterVisible,
+  chapterActions,
 }: UnifiedDeveloperJourneyProps) {
   const containerRef = useRef<HTMLDivElement>(null);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
 
   const formattedStart = new Date(story.dateRange.start).toLocaleDateString('en-US', {
     year: 'numeric',
@@ -565,7 +706,17 @@ export function UnifiedDeveloperJourney({
           <span>{formattedStart} — {formattedEnd}</span>
           <span className="text-muted-foreground/40">·</span>
           <span>{story.dateRange.totalDays} days</span>
-          {story.model !== 'fallback' && (
+          {story.model === DATA_STORY_MODEL ? (
+            <>
+              <span className="text-muted-foreground/40">·</span>
+              <Badge
+                variant="outline"
+                className="border-white/10 text-[10px] text-muted-foreground"
+              >
+                From commit data
+              </Badge>
+            </>
+          ) : story.model !== 'fallback' && (
             <>
               <span className="text-muted-foreground/40">·</span>
               <Badge
@@ -584,61 +735,67 @@ export function UnifiedDeveloperJourney({
       <JourneyStatsBar story={story} />
 
       {/* Story content card */}
-      <Card className="border-border/40 bg-card/30 backdrop-blur-sm">
-        <CardContent className="p-6 md:p-8 lg:p-10">
-          {/* Prologue / intro if story has content before chapters */}
-          {story.content && story.chapters.length > 0 && (
-            <div className="mb-8">
-              {/* Find content that appears before the first chapter heading */}
-              {(() => {
-                const firstChapterTitle = story.chapters[0]?.title;
-                if (firstChapterTitle) {
-                  const idx = story.content.indexOf(`## ${firstChapterTitle}`);
-                  if (idx > 0) {
-                    const prologueContent = story.content.slice(0, idx).trim();
-                    if (prologueContent) {
-                      return (
-                        <div className="mb-8 rounded-lg border border-primary/10 bg-primary/5 p-5 md:p-6">
-                          <div className="mb-3 flex items-center gap-2">
-                            <Sparkles className="h-4 w-4 text-primary" />
-                            <span className="text-xs font-medium uppercase tracking-wider text-primary">
-                              Prologue
-                            </span>
+      <TooltipProvider delayDuration={150}>
+        <Card className="border-border/40 bg-card/30 backdrop-blur-sm">
+          <CardContent className="p-6 md:p-8 lg:p-10">
+            {/* Prologue / intro if story has content before chapters */}
+            {story.content && story.chapters.length > 0 && (
+              <div className="mb-8">
+                {/* Find content that appears before the first chapter heading */}
+                {(() => {
+                  const firstChapterTitle = story.chapters[0]?.title;
+                  if (firstChapterTitle) {
+                    const idx = story.content.indexOf(`## ${firstChapterTitle}`);
+                    if (idx > 0) {
+                      const prologueContent = story.content.slice(0, idx).trim();
+                      if (prologueContent) {
+                        return (
+                          <div className="mb-8 rounded-lg border border-primary/10 bg-primary/5 p-5 md:p-6">
+                            <div className="mb-3 flex items-center gap-2">
+                              <Sparkles className="h-4 w-4 text-primary" />
+                              <span className="text-xs font-medium uppercase tracking-wider text-primary">
+                                Prologue
+                              </span>
+                            </div>
+                            <RenderedMarkdown
+                              content={prologueContent}
+                              repoId={story.repoId}
+                            />
                           </div>
-                          <RenderedMarkdown
-                            content={prologueContent}
-                            repoId={story.repoId}
-                          />
-                        </div>
-                      );
+                        );
+                      }
                     }
                   }
-                }
-                return null;
-              })()}
-            </div>
-          )}
+                  return null;
+                })()}
+              </div>
+            )}
 
-          {/* Chapters */}
-          {story.chapters.length > 0 ? (
-            <div className="space-y-0">
-              {story.chapters.map((chapter, index) => (
-                <ChapterSection
-                  key={chapter.anchorId}
-                  chapter={chapter}
-                  isFirst={index === 0}
-                  isLast={index === story.chapters.length - 1}
-                  milestones={story.milestones}
-                  onVisible={onChapterVisible}
-                />
-              ))}
-            </div>
-          ) : (
-            // Fallback: render the full content directly
-            <RenderedMarkdown content={story.content} repoId={story.repoId} />
-          )}
-        </CardContent>
-      </Card>
+            {/* Chapters */}
+            {story.chapters.length > 0 ? (
+              <div className="space-y-0">
+                {story.chapters.map((chapter, index) => (
+                  <ChapterSection
+                    key={chapter.anchorId}
+                    chapter={chapter}
+                    isFirst={index === 0}
+                    isLast={index === story.chapters.length - 1}
+                    milestones={story.milestones}
+                    onVisible={onChapterVisible}
+                    actions={chapterActions}
+                    editingIndex={editingIndex}
+                    onEditingChange={setEditingIndex}
+                    citations={story.citations}
+                  />
+                ))}
+              </div>
+            ) : (
+              // Fallback: render the full content directly
+              <RenderedMarkdown content={story.content} repoId={story.repoId} citations={story.citations} />
+            )}
+          </CardContent>
+        </Card>
+      </TooltipProvider>
 
       {/* Generation metadata */}
       <div className="mt-4 flex items-center justify-between text-xs text-muted-foreground/60">
@@ -652,7 +809,15 @@ export function UnifiedDeveloperJourney({
             minute: '2-digit',
           })}
         </span>
-        {story.model && story.model !== 'fallback' && (
+        {(Object.keys(story.citations ?? {}).length > 0 || !!story.unverifiedCitations?.length) && (
+          <span className="flex items-center gap-1">
+            <ShieldCheck className="h-3 w-3" />
+            {Object.keys(story.citations ?? {}).length} cited commits verified
+            {!!story.unverifiedCitations?.length &&
+              ` · ${story.unverifiedCitations.length} unverifiable ${story.unverifiedCitations.length === 1 ? 'citation' : 'citations'} removed`}
+          </span>
+        )}
+        {story.model && story.model !== 'fallback' && story.model !== DATA_STORY_MODEL && (
           <span className="font-mono text-[10px]">
             model: {story.model}
           </span>
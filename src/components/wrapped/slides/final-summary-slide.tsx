@@ -459,6 +459,13 @@ export function FinalSummarySlide({ data, isActive, animationState, onAnimationC
                   ))}
                 </div>
 
+                {data.excludedAutomation && (
+                  <p className="mt-3 text-center text-[10px] text-white/40 sm:text-xs">
+                    Not counting {data.excludedAutomation.automatedCommits.toLocaleString()} automated
+                    commits ({data.excludedAutomation.automatedPercentage}% of the history)
+                  </p>
+                )}
+
                 {/* Gitted branding */}
                 <motion.div
                   initial={{ opacity: 0 }}
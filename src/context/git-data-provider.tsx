@@ -4,6 +4,7 @@ import React, {
   createContext,
   useContext,
   useCallback,
+  useMemo,
   useReducer,
   useRef,
   type ReactNode,
@@ -19,7 +20,23 @@ import type {
   GourceCommitEvent,
   RepoFetchStatus,
   Contributor,
+  IdentityRules,
+  LocalRepositoryImport,
+  RepoSyncResult,
+  RepoSyncState,
 } from "@/lib/types";
+import { RepositorySource } from "@/lib/types";
+import { getProviderRepoRef } from "@/lib/commit-normalizer";
+import { mergeCommitsIntoAnalytics } from "@/lib/analytics-engine";
+import {
+  addIdentityMerge,
+  addIdentitySplit,
+  getIdentityId,
+  parseMailmap,
+  resolveCommits,
+  resolveIdentities,
+} from "@/lib/identity-resolver";
+import { useAppStore } from "@/stores/app-store";
 
 // =============================================================================
 // CACHE ENTRY SHAPE (enriched for incremental fetching)
@@ -29,6 +46,50 @@ interface CachedCommitData {
   commits: CommitData[];
   latestCommitTimestamp: string | null;
   totalCount: number;
+  /** Absent on entries written before incremental sync */
+  sync?: RepoSyncState;
+}
+
+/** High-water marks for a commit list; headSha is null until a sync confirms it. */
+function buildSyncState(
+  commits: CommitData[],
+  defaultBranch: string,
+  headSha: string | null
+): RepoSyncState {
+  let newest: CommitData | null = null;
+  for (const commit of commits) {
+    if (!newest || commit.timestampMs > newest.timestampMs) newest = commit;
+  }
+  return {
+    newestSha: newest?.sha ?? null,
+    newestTimestamp: newest?.timestamp ?? null,
+    defaultBranch,
+    headSha,
+    syncedAt: Date.now(),
+  };
+}
+
+function buildCommitCacheEntry(
+  commits: CommitData[],
+  defaultBranch: string,
+  headSha: string | null
+): CachedCommitData {
+  const sync = buildSyncState(commits, defaultBranch, headSha);
+  return {
+    commits,
+    latestCommitTimestamp: sync.newestTimestamp,
+    totalCount: commits.length,
+    sync,
+  };
+}
+
+async function writeCommitCache(repoId: string, entry: CachedCommitData): Promise<void> {
+  try {
+    const { set, CACHE_TTL } = await import("@/lib/cache-manager");
+    await set(`commits:${repoId}`, entry, CACHE_TTL.COMMITS);
+  } catch {
+    // Cache write failure is non-critical
+  }
 }
 
 // =============================================================================
@@ -61,6 +122,9 @@ function createConcurrencyLimiter(maxConcurrent: number) {
 
 type GitDataContextValue = GitDataState & GitDataActions;
 
+/** Reducer state holds raw commits; identities are derived from them on render. */
+type RawGitDataState = Omit<GitDataState, "identities">;
+
 const initialFetchStatus: RepoFetchStatus = {
   metadata: false,
   commits: false,
@@ -72,7 +136,7 @@ const initialFetchStatus: RepoFetchStatus = {
   error: null,
 };
 
-const initialState: GitDataState = {
+const initialState: RawGitDataState = {
   allRepositories: [],
   selectedRepositories: [],
   commitsByRepo: {},
@@ -96,9 +160,12 @@ const initialState: GitDataState = {
 
 type GitDataAction =
   | { type: "SET_ALL_REPOSITORIES"; payload: Repository[] }
+  | { type: "MERGE_REPOSITORIES"; payload: Repository[] }
   | { type: "SET_SELECTED_REPOSITORIES"; payload: Repository[] }
   | { type: "ADD_COMMITS"; payload: { repoId: string; commits: CommitData[] } }
+  | { type: "IMPORT_LOCAL_REPOSITORIES"; payload: LocalRepositoryImport[] }
   | { type: "SET_ANALYTICS"; payload: AnalyticsResult }
+  | { type: "INVALIDATE_ANALYTICS" }
   | { type: "ADD_STORY"; payload: GeneratedStory }
   | { type: "SET_UNIFIED_STORY"; payload: GeneratedStory }
   | { type: "SET_WRAPPED_DATA"; payload: WrappedData }
@@ -132,7 +199,7 @@ function computeContributors(
 
   for (const repoId in commitsByRepo) {
     for (const commit of commitsByRepo[repoId]) {
-      const id = commit.author.login || commit.author.email;
+      const id = getIdentityId(commit.author);
       if (!contributorMap[id]) {
         contributorMap[id] = {
           id,
@@ -182,15 +249,35 @@ function generateContributorColor(id: string): string {
 }
 
 function gitDataReducer(
-  state: GitDataState,
+  state: RawGitDataState,
   action: GitDataAction
-): GitDataState {
+): RawGitDataState {
   switch (action.type) {
-    case "SET_ALL_REPOSITORIES":
+    case "SET_ALL_REPOSITORIES": {
+      // The GitHub listing never includes local imports or self-hosted repos — keep those alongside
+      const listedIds = new Set(action.payload.map((r) => r.fullName));
+      const otherSources = state.allRepositories.filter(
+        (r) =>
+          r.source !== undefined &&
+          r.source !== RepositorySource.GITHUB &&
+          !listedIds.has(r.fullName)
+      );
+      return {
+        ...state,
+        allRepositories: [...action.payload, ...otherSources],
+      };
+    }
+
+    case "MERGE_REPOSITORIES": {
+      const mergedIds = new Set(action.payload.map((r) => r.fullName));
       return {
         ...state,
-        allRepositories: action.payload,
+        allRepositories: [
+          ...state.allRepositories.filter((r) => !mergedIds.has(r.fullName)),
+          ...action.payload,
+        ],
       };
+    }
 
     case "SET_SELECTED_REPOSITORIES":
       return {
@@ -215,6 +302,48 @@ function gitDataReducer(
       };
     }
 
+    case "IMPORT_LOCAL_REPOSITORIES": {
+      const importedIds = new Set(
+        action.payload.map((imp) => imp.repository.fullName)
+      );
+      const newCommitsByRepo = { ...state.commitsByRepo };
+      const newFetchStatus = { ...state.fetchStatus };
+
+      for (const { repository, commits } of action.payload) {
+        newCommitsByRepo[repository.fullName] = commits;
+        newFetchStatus[repository.fullName] = {
+          ...initialFetchStatus,
+          metadata: true,
+          commits: true,
+          languages: true,
+          totalCommits: commits.length,
+          commitsFetched: commits.length,
+        };
+      }
+
+      // Re-importing a repo replaces the previous import rather than duplicating it
+      const replaceImported = (repos: Repository[]) => [
+        ...repos.filter((r) => !importedIds.has(r.fullName)),
+        ...action.payload.map((imp) => imp.repository),
+      ];
+
+      return {
+        ...state,
+        allRepositories: replaceImported(state.allRepositories),
+        selectedRepositories: state.selectedRepositories.some((r) =>
+          importedIds.has(r.fullName)
+        )
+          ? replaceImported(state.selectedRepositories)
+          : state.selectedRepositories,
+        commitsByRepo: newCommitsByRepo,
+        allCommitsSorted: computeSortedCommits(newCommitsByRepo),
+        contributors: computeContributors(newCommitsByRepo),
+        fetchStatus: newFetchStatus,
+        analytics: null,
+        isDataReady: true,
+      };
+    }
+
     case "SET_ANALYTICS":
       return {
         ...state,
@@ -222,6 +351,12 @@ function gitDataReducer(
         isDataReady: true,
       };
 
+    case "INVALIDATE_ANALYTICS":
+      return {
+        ...state,
+        analytics: null,
+      };
+
     case "ADD_STORY":
       return {
         ...state,
@@ -327,14 +462,47 @@ interface GitDataProviderProps {
   children: ReactNode;
 }
 
-// 24-hour TTL for commit caches (incremental fetching corrects stale data)
-const COMMITS_CACHE_TTL = 86400000;
+/** Sync route limit on repos per request. */
+const SYNC_BATCH_SIZE = 50;
 
 export function GitDataProvider({ children }: GitDataProviderProps) {
   const [state, dispatch] = useReducer(gitDataReducer, initialState);
   const abortControllerRef = useRef<AbortController | null>(null);
   const selectedReposRef = useRef<Repository[]>(state.selectedRepositories);
   selectedReposRef.current = state.selectedRepositories;
+  const analyticsRef = useRef<AnalyticsResult | null>(state.analytics);
+  analyticsRef.current = state.analytics;
+  const commitsByRepoRef = useRef(state.commitsByRepo);
+  commitsByRepoRef.current = state.commitsByRepo;
+
+  // ---- Identity resolution (raw commits → canonical authors) ----
+
+  const identityRules = useAppStore((s) => s.identityRules);
+  const setIdentityRules = useAppStore((s) => s.setIdentityRules);
+  const identityRulesRef = useRef(identityRules);
+  identityRulesRef.current = identityRules;
+
+  const resolution = useMemo(
+    () => resolveIdentities(state.commitsByRepo, identityRules),
+    [state.commitsByRepo, identityRules]
+  );
+  const identitiesRef = useRef(resolution.identities);
+  identitiesRef.current = resolution.identities;
+
+  const resolvedCommitsSorted = useMemo(
+    () =>
+      resolution.commitsByRepo === state.commitsByRepo
+        ? state.allCommitsSorted
+        : computeSortedCommits(resolution.commitsByRepo),
+    [resolution.commitsByRepo, state.commitsByRepo, state.allCommitsSorted]
+  );
+  const resolvedContributors = useMemo(
+    () =>
+      resolution.commitsByRepo === state.commitsByRepo
+        ? state.contributors
+        : computeContributors(resolution.commitsByRepo),
+    [resolution.commitsByRepo, state.commitsByRepo, state.contributors]
+  );
 
   // ---- Actions ----
 
@@ -351,6 +519,17 @@ export function GitDataProvider({ children }: GitDataProviderProps) {
     dispatch({ type: "ADD_COMMITS", payload: { repoId, commits } });
   }, []);
 
+  const importLocalRepositories = useCallback(
+    (imports: LocalRepositoryImport[]) => {
+      dispatch({ type: "IMPORT_LOCAL_REPOSITORIES", payload: imports });
+    },
+    []
+  );
+
+  const mergeRepositories = useCallback((repos: Repository[]) => {
+    dispatch({ type: "MERGE_REPOSITORIES", payload: repos });
+  }, []);
+
   const setAnalytics = useCallback((analytics: AnalyticsResult) => {
     dispatch({ type: "SET_ANALYTICS", payload: analytics });
   }, []);
@@ -381,6 +560,39 @@ export function GitDataProvider({ children }: GitDataProviderProps) {
     []
   );
 
+  const updateIdentityRules = useCallback(
+    (rules: IdentityRules) => {
+      setIdentityRules(rules);
+      // Contributor counts and superlatives depend on who is who
+      dispatch({ type: "INVALIDATE_ANALYTICS" });
+    },
+    [setIdentityRules]
+  );
+
+  const setMailmap = useCallback(
+    (text: string | null) => {
+      updateIdentityRules({
+        ...identityRulesRef.current,
+        mailmap: text ? parseMailmap(text) : [],
+      });
+    },
+    [updateIdentityRules]
+  );
+
+  const mergeIdentities = useCallback(
+    (aliasKey: string, targetKey: string) => {
+      updateIdentityRules(addIdentityMerge(identityRulesRef.current, aliasKey, targetKey));
+    },
+    [updateIdentityRules]
+  );
+
+  const splitIdentityAlias = useCallback(
+    (aliasKey: string) => {
+      updateIdentityRules(addIdentitySplit(identityRulesRef.current, aliasKey));
+    },
+    [updateIdentityRules]
+  );
+
   const clearData = useCallback(() => {
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
@@ -389,18 +601,183 @@ export function GitDataProvider({ children }: GitDataProviderProps) {
     dispatch({ type: "CLEAR_DATA" });
   }, []);
 
+  /**
+   * Sync cached repos from their high-water marks (background on initial
+   * load, awaited by refreshData).
+   *
+   * Fast-forwarded repos get only their new commits, which are merged into
+   * state, the cache and — when analytics were already computed — into the
+   * existing AnalyticsResult. Rewritten histories (force-push / rebase) drop
+   * their cache and refetch in full, and analytics are recomputed.
+   */
+  const syncCachedRepos = useCallback(
+    async (
+      entries: Array<{ repo: Repository; cached: CachedCommitData }>,
+      signal: AbortSignal
+    ) => {
+      if (entries.length === 0 || signal.aborted) return;
+
+      const results = new Map<string, RepoSyncResult>();
+      for (let i = 0; i < entries.length; i += SYNC_BATCH_SIZE) {
+        const batch = entries.slice(i, i + SYNC_BATCH_SIZE);
+        const payload = batch.flatMap(({ repo, cached }) => {
+          const ref = getProviderRepoRef(repo);
+          if (!ref) return [];
+          const sync = cached.sync ?? buildSyncState(cached.commits, repo.defaultBranch, null);
+          return [
+            {
+              ...ref,
+              defaultBranch: sync.defaultBranch,
+              newestSha: sync.newestSha,
+              newestTimestamp: sync.newestTimestamp,
+              headSha: sync.headSha,
+            },
+          ];
+        });
+        if (payload.length === 0) continue;
+
+        try {
+          const response = await fetch("/api/github/commits/sync", {
+            method: "POST",
+            signal,
+            credentials: "include",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ repos: payload, maxCommitsPerRepo: 30000 }),
+          });
+          if (!response.ok) continue;
+          const result = await response.json();
+          for (const r of (result.data?.results ?? []) as RepoSyncResult[]) {
+            results.set(r.repoId, r);
+          }
+        } catch {
+          // Sync failure is non-critical — cached data stays on screen
+        }
+      }
+
+      if (signal.aborted) return;
+
+      const newCommitsByRepo = new Map<string, CommitData[]>();
+      const mergedByRepo = new Map<string, CommitData[]>();
+      const rewritten: Repository[] = [];
+
+      for (const { repo, cached } of entries) {
+        const repoId = repo.fullName;
+        const result = results.get(repoId);
+        if (!result || result.error) continue;
+
+        if (result.status === "unchanged") {
+          if (cached.sync?.headSha === result.headSha) continue;
+          // Record the confirmed head so the next sync can skip the ancestry check
+          await writeCommitCache(
+            repoId,
+            buildCommitCacheEntry(cached.commits, repo.defaultBranch, result.headSha)
+          );
+          continue;
+        }
+
+        if (result.status === "fast-forward") {
+          const knownShas = new Set(cached.commits.map((c) => c.sha));
+          const uniqueNew = result.commits.filter((c) => !knownShas.has(c.sha));
+          const merged = [...cached.commits, ...uniqueNew];
+
+          // Every new commit's parents must already be known — a gap means
+          // `since` missed commits (e.g. a merged branch with older dates)
+          const mergedShas = new Set(merged.map((c) => c.sha));
+          const hasGap = uniqueNew.some((c) => c.parents.some((p) => !mergedShas.has(p)));
+
+          if (!hasGap) {
+            merged.sort((a, b) => b.timestampMs - a.timestampMs);
+            await writeCommitCache(
+              repoId,
+              buildCommitCacheEntry(merged, repo.defaultBranch, result.headSha)
+            );
+            if (uniqueNew.length > 0) {
+              newCommitsByRepo.set(repoId, uniqueNew);
+              mergedByRepo.set(repoId, merged);
+              dispatch({ type: "ADD_COMMITS", payload: { repoId, commits: merged } });
+            }
+            continue;
+          }
+        }
+
+        rewritten.push(repo);
+      }
+
+      if (rewritten.length > 0) {
+        // Removed commits can't be subtracted from analytics — recompute them
+        dispatch({ type: "INVALIDATE_ANALYTICS" });
+
+        for (const repo of rewritten) {
+          try {
+            const { remove } = await import("@/lib/cache-manager");
+            await remove(`commits:${repo.fullName}`);
+          } catch {
+            // Non-critical
+          }
+          dispatch({
+            type: "UPDATE_FETCH_STATUS",
+            payload: { repoId: repo.fullName, status: { isFetching: true, error: null } },
+          });
+        }
+
+        try {
+          await streamRepoCommits(rewritten, signal, dispatch, () => {});
+        } catch {
+          if (signal.aborted) return;
+          const limiter = createConcurrencyLimiter(5);
+          await Promise.allSettled(
+            rewritten
+              .filter((repo) => repo.source === undefined || repo.source === RepositorySource.GITHUB)
+              .map((repo) => limiter.run(() => fetchSingleRepoFallback(repo, signal, dispatch, () => {})))
+          );
+        }
+        return;
+      }
+
+      // Fast-forward only: fold the new commits into existing analytics
+      const analytics = analyticsRef.current;
+      if (analytics && newCommitsByRepo.size > 0) {
+        const selected = selectedReposRef.current;
+        const allCommits: CommitData[] = [];
+        for (const repo of selected) {
+          allCommits.push(
+            ...(mergedByRepo.get(repo.fullName) ?? commitsByRepoRef.current[repo.fullName] ?? [])
+          );
+        }
+        const identities = identitiesRef.current;
+        const newCommits = resolveCommits([...newCommitsByRepo.values()].flat(), identities);
+        dispatch({
+          type: "SET_ANALYTICS",
+          payload: mergeCommitsIntoAnalytics(
+            analytics,
+            newCommits,
+            resolveCommits(allCommits, identities),
+            selected
+          ),
+        });
+      }
+    },
+    []
+  );
+
   /**
    * Fetches commit data for all selected repos with optimized parallel fetching.
    *
    * Strategy:
    * 1. Check all caches in parallel — dispatch cached data immediately
-   * 2. For cached repos, do incremental fetch (since=latestTimestamp) in background
+   * 2. For cached repos, sync from their high-water marks (see syncCachedRepos)
    * 3. For cache-miss repos, use streaming NDJSON endpoint for progressive loading
    * 4. Language/stats fetched in parallel per repo with concurrency limiter
+   *
+   * The sync runs in the background unless `awaitSync` is set.
    */
-  const fetchSelectedRepoData = useCallback(async () => {
-    const repos = selectedReposRef.current;
-    if (repos.length === 0) return;
+  const fetchRepoData = useCallback(async ({ awaitSync }: { awaitSync: boolean }) => {
+    const selected = selectedReposRef.current;
+    if (selected.length === 0) return;
+
+    // Local imports already hold their full history in state — nothing to fetch
+    const repos = selected.filter((r) => r.source !== RepositorySource.LOCAL);
+    const localCount = selected.length - repos.length;
 
     // Cancel any in-flight requests
     if (abortControllerRef.current) {
@@ -411,9 +788,14 @@ export function GitDataProvider({ children }: GitDataProviderProps) {
 
     dispatch({
       type: "SET_FETCH_PROGRESS",
-      payload: { total: repos.length, completed: 0 },
+      payload: { total: selected.length, completed: localCount },
     });
 
+    if (repos.length === 0) {
+      dispatch({ type: "SET_LAST_REFRESHED", payload: Date.now() });
+      return;
+    }
+
     // Mark all repos as fetching
     for (const repo of repos) {
       dispatch({
@@ -425,13 +807,13 @@ export function GitDataProvider({ children }: GitDataProviderProps) {
       });
     }
 
-    let completedCount = 0;
+    let completedCount = localCount;
 
     const incrementCompleted = () => {
       completedCount++;
       dispatch({
         type: "SET_FETCH_PROGRESS",
-        payload: { total: repos.length, completed: completedCount },
+        payload: { total: selected.length, completed: completedCount },
       });
     };
 
@@ -450,17 +832,9 @@ export function GitDataProvider({ children }: GitDataProviderProps) {
           // Check legacy format (plain CommitData[])
           const legacyCached = await get<CommitData[]>(`commits:${repoId}`);
           if (Array.isArray(legacyCached) && legacyCached.length > 0) {
-            const latestTs = legacyCached.reduce(
-              (max, c) => (c.timestamp > max ? c.timestamp : max),
-              ""
-            );
             return {
               repo,
-              cached: {
-                commits: legacyCached,
-                latestCommitTimestamp: latestTs || null,
-                totalCount: legacyCached.length,
-              },
+              cached: buildCommitCacheEntry(legacyCached, repo.defaultBranch, null),
               isCacheHit: true as const,
             };
           }
@@ -474,10 +848,10 @@ export function GitDataProvider({ children }: GitDataProviderProps) {
     if (signal.aborted) return;
 
     // =========================================================================
-    // Phase 2: Dispatch cached data immediately + queue incremental updates
+    // Phase 2: Dispatch cached data immediately + queue incremental sync
     // =========================================================================
     const cacheMissRepos: Repository[] = [];
-    const incrementalUpdates: Array<{
+    const syncEntries: Array<{
       repo: Repository;
       cached: CachedCommitData;
     }> = [];
@@ -506,11 +880,7 @@ export function GitDataProvider({ children }: GitDataProviderProps) {
           },
         });
         incrementCompleted();
-
-        // Queue incremental update if we have a timestamp
-        if (cached.latestCommitTimestamp) {
-          incrementalUpdates.push({ repo, cached });
-        }
+        syncEntries.push({ repo, cached });
       } else {
         cacheMissRepos.push(result.repo);
       }
@@ -521,374 +891,136 @@ export function GitDataProvider({ children }: GitDataProviderProps) {
     // =========================================================================
     if (cacheMissRepos.length > 0 && !signal.aborted) {
       try {
-        const streamPayload = {
-          repos: cacheMissRepos.map((r) => {
-            const [owner, repo] = r.fullName.split("/");
-            return { owner, repo };
-          }),
-          fetchAll: true,
-          maxCommitsPerRepo: 30000,
-        };
-
-        const response = await fetch("/api/github/commits/stream", {
-          method: "POST",
-          signal,
-          credentials: "include",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(streamPayload),
-        });
-
-        if (!response.ok) {
-          // Fallback: if streaming fails, fall back to individual fetches
-          if (response.status === 401) {
-            throw new Error(
-              "GitHub session expired. Please reconnect your GitHub account."
-            );
-          }
-          throw new Error(`Stream endpoint returned ${response.status}`);
-        }
-
-        // Read NDJSON stream line by line
-        const reader = response.body?.getReader();
-        if (reader) {
-          const decoder = new TextDecoder();
-          let buffer = "";
-
-          while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
-            if (signal.aborted) {
-              reader.cancel();
-              return;
-            }
-
-            buffer += decoder.decode(value, { stream: true });
-            const lines = buffer.split("\n");
-            // Keep the last (potentially incomplete) line in the buffer
-            buffer = lines.pop() || "";
-
-            for (const line of lines) {
-              if (!line.trim()) continue;
-
-              try {
-                const result = JSON.parse(line) as {
-                  repoId: string;
-                  commits: CommitData[];
-                  totalFetched: number;
-                  error: string | null;
-                };
-
-                if (result.error) {
-                  dispatch({
-                    type: "UPDATE_FETCH_STATUS",
-                    payload: {
-                      repoId: result.repoId,
-                      status: {
-                        isFetching: false,
-                        error: result.error,
-                      },
-                    },
-                  });
-                  incrementCompleted();
-                  continue;
-                }
-
-                // Dispatch commits — triggers progressive rendering
-                dispatch({
-                  type: "ADD_COMMITS",
-                  payload: {
-                    repoId: result.repoId,
-                    commits: result.commits,
-                  },
-                });
-
-                dispatch({
-                  type: "UPDATE_FETCH_STATUS",
-                  payload: {
-                    repoId: result.repoId,
-                    status: {
-                      isFetching: false,
-                      commits: true,
-                      metadata: true,
-                      totalCommits: result.totalFetched,
-                      commitsFetched: result.totalFetched,
-                    },
-                  },
-                });
-
-                incrementCompleted();
-
-                // Cache the result with enriched format
-                try {
-                  const { set } = await import("@/lib/cache-manager");
-                  const latestTs = result.commits.reduce(
-                    (max, c) => (c.timestamp > max ? c.timestamp : max),
-                    ""
-                  );
-                  const cacheEntry: CachedCommitData = {
-                    commits: result.commits,
-                    latestCommitTimestamp: latestTs || null,
-                    totalCount: result.commits.length,
-                  };
-                  await set(
-                    `commits:${result.repoId}`,
-                    cacheEntry,
-                    COMMITS_CACHE_TTL
-                  );
-                } catch {
-                  // Cache write failure is non-critical
-                }
-              } catch {
-                // Skip malformed NDJSON lines
-              }
-            }
-          }
-
-          // Process any remaining buffer content
-          if (buffer.trim()) {
-            try {
-              const result = JSON.parse(buffer) as {
-                repoId: string;
-                commits: CommitData[];
-                totalFetched: number;
-                error: string | null;
-              };
-
-              if (!result.error) {
-                dispatch({
-                  type: "ADD_COMMITS",
-                  payload: {
-                    repoId: result.repoId,
-                    commits: result.commits,
-                  },
-                });
-                dispatch({
-                  type: "UPDATE_FETCH_STATUS",
-                  payload: {
-                    repoId: result.repoId,
-                    status: {
-                      isFetching: false,
-                      commits: true,
-                      metadata: true,
-                      totalCommits: result.totalFetched,
-                      commitsFetched: result.totalFetched,
-                    },
-                  },
-                });
-                incrementCompleted();
-
-                try {
-                  const { set } = await import("@/lib/cache-manager");
-                  const latestTs = result.commits.reduce(
-                    (max, c) => (c.timestamp > max ? c.timestamp : max),
-                    ""
-                  );
-                  await set(
-                    `commits:${result.repoId}`,
-                    {
-                      commits: result.commits,
-                      latestCommitTimestamp: latestTs || null,
-                      totalCount: result.commits.length,
-                    } satisfies CachedCommitData,
-                    COMMITS_CACHE_TTL
-                  );
-                } catch {
-                  // Non-critical
-                }
-              } else {
-                dispatch({
-                  type: "UPDATE_FETCH_STATUS",
-                  payload: {
-                    repoId: result.repoId,
-                    status: { isFetching: false, error: result.error },
-                  },
-                });
-                incrementCompleted();
-              }
-            } catch {
-              // Skip
-            }
-          }
-        }
+        await streamRepoCommits(cacheMissRepos, signal, dispatch, incrementCompleted);
       } catch (error) {
         if (signal.aborted) return;
 
         // Fallback: fetch cache-miss repos individually with concurrency limiter
+        // (the per-repo endpoint is GitHub-only; other sources report the stream error)
+        for (const repo of cacheMissRepos) {
+          if (repo.source === undefined || repo.source === RepositorySource.GITHUB) continue;
+          dispatch({
+            type: "UPDATE_FETCH_STATUS",
+            payload: {
+              repoId: repo.fullName,
+              status: {
+                isFetching: false,
+                error: error instanceof Error ? error.message : "Failed to fetch commits",
+              },
+            },
+          });
+          incrementCompleted();
+        }
+
         const limiter = createConcurrencyLimiter(5);
         await Promise.allSettled(
-          cacheMissRepos.map((repo) =>
-            limiter.run(() => fetchSingleRepoFallback(repo, signal, dispatch, incrementCompleted))
-          )
+          cacheMissRepos
+            .filter((repo) => repo.source === undefined || repo.source === RepositorySource.GITHUB)
+            .map((repo) =>
+              limiter.run(() => fetchSingleRepoFallback(repo, signal, dispatch, incrementCompleted))
+            )
         );
       }
     }
 
+    if (signal.aborted) return;
+
+    // =========================================================================
+    // Phase 4: Incremental sync for cached repos
+    // =========================================================================
+    const syncPromise = syncCachedRepos(syncEntries, signal);
+
     // =========================================================================
-    // Phase 4: Incremental updates for cached repos (background, non-blocking)
+    // Phase 5: Fetch languages/stats for all repos (parallel, non-blocking)
     // =========================================================================
-    if (incrementalUpdates.length > 0 && !signal.aborted) {
-      // Fire and forget — these update cache and state in the background
-      const limiter = createConcurrencyLimiter(5);
-      Promise.allSettled(
-        incrementalUpdates.map(({ repo, cached }) =>
-          limiter.run(async () => {
-            if (signal.aborted) return;
-            try {
-              const repoId = repo.fullName;
-              const sinceParam = cached.latestCommitTimestamp
-                ? `&since=${encodeURIComponent(cached.latestCommitTimestamp)}`
-                : "";
-
-              const response = await fetch(
-                `/api/github/commits?repos=${encodeURIComponent(repoId)}&fetchAll=true${sinceParam}`,
+    const limiter = createConcurrencyLimiter(5);
+    Promise.allSettled(
+      repos.map((repo) =>
+        limiter.run(async () => {
+          if (signal.aborted) return;
+          const repoId = repo.fullName;
+          const ref = getProviderRepoRef(repo);
+          if (!ref) return;
+          const repoPath = `${ref.owner}/${ref.repo}`;
+          try {
+            const [langRes, statsRes] = await Promise.allSettled([
+              fetch(
+                `/api/github/languages?repo=${encodeURIComponent(repoPath)}&source=${ref.source}`,
                 {
                   signal,
                   credentials: "include",
                   headers: { "Content-Type": "application/json" },
                 }
-              );
-
-              if (!response.ok) return;
-
-              const result = await response.json();
-              const repoResults = result.data?.results || [];
-              const newCommits: CommitData[] =
-                repoResults.length > 0 ? repoResults[0].commits || [] : [];
-
-              if (newCommits.length === 0) return;
-
-              // Deduplicate by SHA and merge
-              const existingShas = new Set(cached.commits.map((c) => c.sha));
-              const uniqueNew = newCommits.filter(
-                (c) => !existingShas.has(c.sha)
-              );
-
-              if (uniqueNew.length === 0) return;
-
-              const merged = [...cached.commits, ...uniqueNew];
-              merged.sort((a, b) => b.timestampMs - a.timestampMs);
-
-              dispatch({
-                type: "ADD_COMMITS",
-                payload: { repoId, commits: merged },
-              });
-
-              // Update cache
-              try {
-                const { set } = await import("@/lib/cache-manager");
-                const latestTs = merged.reduce(
-                  (max, c) => (c.timestamp > max ? c.timestamp : max),
-                  ""
-                );
-                await set(
-                  `commits:${repoId}`,
-                  {
-                    commits: merged,
-                    latestCommitTimestamp: latestTs || null,
-                    totalCount: merged.length,
-                  } satisfies CachedCommitData,
-                  COMMITS_CACHE_TTL
-                );
-              } catch {
-                // Non-critical
+              ),
+              // Stats endpoints only exist on GitHub
+              ref.source === RepositorySource.GITHUB
+                ? fetch(
+                    `/api/github/stats?repo=${encodeURIComponent(repoId)}`,
+                    {
+                      signal,
+                      credentials: "include",
+                      headers: { "Content-Type": "application/json" },
+                    }
+                  )
+                : Promise.reject(new Error("Stats unavailable")),
+            ]);
+
+            if (langRes.status === "fulfilled" && langRes.value.ok) {
+              const langData = await langRes.value.json();
+              if (langData.success && langData.data?.languages) {
+                dispatch({
+                  type: "UPDATE_REPO_LANGUAGES",
+                  payload: { repoId, languages: langData.data.languages },
+                });
               }
-            } catch {
-              // Incremental update failure is non-critical
             }
-          })
-        )
-      );
-    }
 
-    // =========================================================================
-    // Phase 5: Fetch languages/stats for all repos (parallel, non-blocking)
-    // =========================================================================
-    if (!signal.aborted) {
-      const limiter = createConcurrencyLimiter(5);
-      Promise.allSettled(
-        repos.map((repo) =>
-          limiter.run(async () => {
-            if (signal.aborted) return;
-            const repoId = repo.fullName;
-            try {
-              const [langRes, statsRes] = await Promise.allSettled([
-                fetch(
-                  `/api/github/languages?repo=${encodeURIComponent(repoId)}`,
-                  {
-                    signal,
-                    credentials: "include",
-                    headers: { "Content-Type": "application/json" },
-                  }
-                ),
-                fetch(
-                  `/api/github/stats?repo=${encodeURIComponent(repoId)}`,
-                  {
-                    signal,
-                    credentials: "include",
-                    headers: { "Content-Type": "application/json" },
-                  }
-                ),
-              ]);
-
-              if (langRes.status === "fulfilled" && langRes.value.ok) {
-                const langData = await langRes.value.json();
-                if (langData.success && langData.data?.languages) {
-                  dispatch({
-                    type: "UPDATE_REPO_LANGUAGES",
-                    payload: { repoId, languages: langData.data.languages },
-                  });
-                }
-              }
-
-              if (statsRes.status === "fulfilled" && statsRes.value.ok) {
-                const statsData = await statsRes.value.json();
-                if (statsData.success && statsData.data) {
-                  const { totalAdditions, totalDeletions } = statsData.data;
-                  // We need the current commits from state — read via a ref-like pattern
-                  // Since we can't read state directly in this callback, we skip stat
-                  // distribution for now and let it happen on next analytics computation
-                  if (totalAdditions > 0 || totalDeletions > 0) {
-                    // Stats are available — will be picked up by analytics
-                  }
+            if (statsRes.status === "fulfilled" && statsRes.value.ok) {
+              const statsData = await statsRes.value.json();
+              if (statsData.success && statsData.data) {
+                const { totalAdditions, totalDeletions } = statsData.data;
+                // We need the current commits from state — read via a ref-like pattern
+                // Since we can't read state directly in this callback, we skip stat
+                // distribution for now and let it happen on next analytics computation
+                if (totalAdditions > 0 || totalDeletions > 0) {
+                  // Stats are available — will be picked up by analytics
                 }
               }
-            } catch {
-              // Non-critical
             }
-          })
-        )
-      );
+          } catch {
+            // Non-critical
+          }
+        })
+      )
+    );
+
+    if (awaitSync) {
+      await syncPromise;
     }
 
     dispatch({ type: "SET_LAST_REFRESHED", payload: Date.now() });
-  }, []);
+  }, [syncCachedRepos]);
+
+  const fetchSelectedRepoData = useCallback(
+    () => fetchRepoData({ awaitSync: false }),
+    [fetchRepoData]
+  );
 
   /**
-   * Invalidates cache and re-fetches all data.
+   * Re-fetches all data. Commit caches are kept: each repo syncs from its
+   * high-water marks, and only a rewritten history is fetched in full.
    */
   const refreshData = useCallback(async () => {
     try {
       const { clearByPrefix } = await import("@/lib/cache-manager");
-
-      // Clear all commit caches for selected repos
-      for (const repo of selectedReposRef.current) {
-        await clearByPrefix(`commits:${repo.fullName}`);
-      }
-
-      // Clear analytics and story caches
       await clearByPrefix("analytics:");
       await clearByPrefix("story:");
     } catch {
       // Cache clear failure is non-critical — proceed with refetch
     }
 
-    // Reset analytics and stories since we're refreshing
-    dispatch({ type: "SET_ANALYTICS", payload: null as unknown as AnalyticsResult });
-    dispatch({ type: "SET_DATA_READY", payload: false });
-
-    // Re-fetch all data
-    await fetchSelectedRepoData();
-  }, [fetchSelectedRepoData]);
+    await fetchRepoData({ awaitSync: true });
+  }, [fetchRepoData]);
 
   // ---- Context Value ----
 
@@ -896,9 +1028,9 @@ export function GitDataProvider({ children }: GitDataProviderProps) {
     // State
     allRepositories: state.allRepositories,
     selectedRepositories: state.selectedRepositories,
-    commitsByRepo: state.commitsByRepo,
-    allCommitsSorted: state.allCommitsSorted,
-    contributors: state.contributors,
+    commitsByRepo: resolution.commitsByRepo,
+    allCommitsSorted: resolvedCommitsSorted,
+    contributors: resolvedContributors,
     analytics: state.analytics,
     stories: state.stories,
     unifiedStory: state.unifiedStory,
@@ -909,6 +1041,7 @@ export function GitDataProvider({ children }: GitDataProviderProps) {
     lastRefreshed: state.lastRefreshed,
     totalReposToFetch: state.totalReposToFetch,
     reposCompletedCount: state.reposCompletedCount,
+    identities: resolution.identities,
 
     // Actions
     setAllRepositories,
@@ -921,6 +1054,11 @@ export function GitDataProvider({ children }: GitDataProviderProps) {
     setGourceEvents,
     updateFetchStatus,
     fetchSelectedRepoData,
+    importLocalRepositories,
+    mergeRepositories,
+    setMailmap,
+    mergeIdentities,
+    splitIdentityAlias,
     clearData,
     refreshData,
   };
@@ -932,6 +1070,133 @@ export function GitDataProvider({ children }: GitDataProviderProps) {
   );
 }
 
+// =============================================================================
+// STREAMING FETCH: full histories via the NDJSON endpoint
+// =============================================================================
+
+interface StreamRepoResult {
+  repoId: string;
+  commits: CommitData[];
+  totalFetched: number;
+  error: string | null;
+}
+
+/**
+ * Stream full commit histories, dispatching and caching each repo as its
+ * NDJSON line arrives. Throws when the stream can't be opened so callers
+ * can fall back to per-repo fetches.
+ */
+async function streamRepoCommits(
+  repos: Repository[],
+  signal: AbortSignal,
+  dispatch: React.Dispatch<GitDataAction>,
+  onComplete: () => void
+): Promise<void> {
+  const defaultBranches = new Map(repos.map((r) => [r.fullName, r.defaultBranch]));
+
+  const response = await fetch("/api/github/commits/stream", {
+    method: "POST",
+    signal,
+    credentials: "include",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      repos: repos.map((r) => getProviderRepoRef(r)),
+      fetchAll: true,
+      maxCommitsPerRepo: 30000,
+    }),
+  });
+
+  if (!response.ok) {
+    if (response.status === 401) {
+      throw new Error(
+        "GitHub session expired. Please reconnect your GitHub account."
+      );
+    }
+    throw new Error(`Stream endpoint returned ${response.status}`);
+  }
+
+  const handleLine = async (line: string) => {
+    let result: StreamRepoResult;
+    try {
+      result = JSON.parse(line) as StreamRepoResult;
+    } catch {
+      // Skip malformed NDJSON lines
+      return;
+    }
+
+    if (result.error) {
+      dispatch({
+        type: "UPDATE_FETCH_STATUS",
+        payload: {
+          repoId: result.repoId,
+          status: { isFetching: false, error: result.error },
+        },
+      });
+      onComplete();
+      return;
+    }
+
+    // Dispatch commits — triggers progressive rendering
+    dispatch({
+      type: "ADD_COMMITS",
+      payload: { repoId: result.repoId, commits: result.commits },
+    });
+    dispatch({
+      type: "UPDATE_FETCH_STATUS",
+      payload: {
+        repoId: result.repoId,
+        status: {
+          isFetching: false,
+          commits: true,
+          metadata: true,
+          totalCommits: result.totalFetched,
+          commitsFetched: result.totalFetched,
+        },
+      },
+    });
+    onComplete();
+
+    await writeCommitCache(
+      result.repoId,
+      buildCommitCacheEntry(
+        result.commits,
+        defaultBranches.get(result.repoId) ?? "main",
+        null
+      )
+    );
+  };
+
+  // Read NDJSON stream line by line
+  const reader = response.body?.getReader();
+  if (!reader) return;
+
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (signal.aborted) {
+      reader.cancel();
+      return;
+    }
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    // Keep the last (potentially incomplete) line in the buffer
+    buffer = lines.pop() || "";
+
+    for (const line of lines) {
+      if (line.trim()) await handleLine(line);
+    }
+  }
+
+  // Process any remaining buffer content
+  if (buffer.trim()) {
+    await handleLine(buffer);
+  }
+}
+
 // =============================================================================
 // FALLBACK: Individual repo fetch (used when streaming fails)
 // =============================================================================
@@ -976,22 +1241,7 @@ async function fetchSingleRepoFallback(
       payload: { repoId, commits },
     });
 
-    // Cache with enriched format
-    try {
-      const { set } = await import("@/lib/cache-manager");
-      const latestTs = commits.reduce(
-        (max, c) => (c.timestamp > max ? c.timestamp : max),
-        ""
-      );
-      const cacheEntry: CachedCommitData = {
-        commits,
-        latestCommitTimestamp: latestTs || null,
-        totalCount: commits.length,
-      };
-      await set(`commits:${repoId}`, cacheEntry, 86400000);
-    } catch {
-      // Non-critical
-    }
+    await writeCommitCache(repoId, buildCommitCacheEntry(commits, repo.defaultBranch, null));
 
     dispatch({
       type: "UPDATE_FETCH_STATUS",
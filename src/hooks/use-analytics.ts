@@ -10,7 +10,12 @@ import {
   computeProductivityMetrics,
   computeYearOverYear,
   computeSuperlatives,
+  isSameTimeZone,
+  localizeCommits,
+  applyBotFilter,
 } from '@/lib/analytics-engine';
+import { isSameBotFilter } from '@/lib/bot-classifier';
+import { getIdentityId } from '@/lib/identity-resolver';
 import type {
   UseAnalyticsReturn,
   AnalyticsResult,
@@ -25,12 +30,15 @@ import type {
   CommitData,
   Repository,
   TimeGranularity,
+  TimeZoneSetting,
+  BotFilterSetting,
 } from '@/lib/types';
 
 /**
  * useAnalytics — thin hook that delegates all computation to analytics-engine.ts
  * 
- * Reads commits from GitDataProvider and selectedRepos from the app store.
+ * Reads commits from GitDataProvider and selectedRepos / timeZone / botFilter
+ * from the app store.
  * Recomputes ONLY when those inputs change.
  * 
  * For large datasets (5000+ commits), attempts to offload computation
@@ -39,6 +47,8 @@ import type {
 export function useAnalytics(): UseAnalyticsReturn {
   const gitData = useGitData();
   const selectedRepos = useAppStore((state) => state.selectedRepos);
+  const timeZone = useAppStore((state) => state.timeZone);
+  const botFilter = useAppStore((state) => state.botFilter);
 
   const [isComputing, setIsComputing] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -89,10 +99,21 @@ export function useAnalytics(): UseAnalyticsReturn {
 
   // Compute analytics — main synchronous computation
   const computeAnalytics = useCallback(
-    (commits: CommitData[], repos: Repository[]): AnalyticsResult | null => {
-      if (commits.length === 0) return null;
+    (
+      sourceCommits: CommitData[],
+      repos: Repository[],
+      zone: TimeZoneSetting,
+      filter: BotFilterSetting
+    ): AnalyticsResult | null => {
+      if (sourceCommits.length === 0) return null;
 
       try {
+        const { commits: countedCommits, automation } = applyBotFilter(sourceCommits, filter);
+        if (countedCommits.length === 0) return null;
+
+        // Re-bucket calendar fields once so every section agrees on the zone
+        const commits = localizeCommits(countedCommits, zone);
+
         const heatmap = computeContributionHeatmap(commits);
         const commitFrequency = computeCommitFrequency(commits);
         const languageBreakdown = computeLanguageBreakdown(repos);
@@ -105,7 +126,7 @@ export function useAnalytics(): UseAnalyticsReturn {
         // Compute totals
         const uniqueDates = new Set(commits.map((c) => c.dateKey));
         const uniqueContributors = new Set(
-          commits.map((c) => c.author.login || c.author.email)
+          commits.map((c) => getIdentityId(c.author))
         );
 
         const totalAdditions = commits.reduce((sum, c) => sum + c.additions, 0);
@@ -152,6 +173,9 @@ export function useAnalytics(): UseAnalyticsReturn {
             avgCommitsPerWeek:
               totalDays > 0 ? (commits.length / totalDays) * 7 : 0,
           },
+          timeZone: zone,
+          botFilter: filter,
+          automation,
           computedAt: Date.now(),
         };
 
@@ -173,8 +197,17 @@ export function useAnalytics(): UseAnalyticsReturn {
       return;
     }
 
-    // If GitDataProvider already has analytics, use those
-    if (gitData.analytics) {
+    // If GitDataProvider already has analytics for these settings, use those
+    // (analytics cached before a setting existed lack it and are recomputed)
+    const cachedZone = gitData.analytics?.timeZone;
+    const cachedBotFilter = gitData.analytics?.botFilter;
+    if (
+      gitData.analytics &&
+      cachedZone &&
+      cachedBotFilter &&
+      isSameTimeZone(cachedZone, timeZone) &&
+      isSameBotFilter(cachedBotFilter, botFilter)
+    ) {
       setComputedAnalytics(gitData.analytics);
       setIsComputing(false);
       setError(null);
@@ -193,7 +226,7 @@ export function useAnalytics(): UseAnalyticsReturn {
       if (computationId !== computationIdRef.current) return;
 
       try {
-        const result = computeAnalytics(filteredCommits, selectedRepositories);
+        const result = computeAnalytics(filteredCommits, selectedRepositories, timeZone, botFilter);
         
         // Check again that this is still the latest computation
         if (computationId !== computationIdRef.current) return;
@@ -229,6 +262,8 @@ export function useAnalytics(): UseAnalyticsReturn {
     filteredCommits,
     selectedRepositories,
     selectedReposKey,
+    timeZone,
+    botFilter,
     gitData.analytics,
     computeAnalytics,
     gitData.setAnalytics,
@@ -0,0 +1,259 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type {
+  ApiResponse,
+  CommitData,
+  CommitFile,
+  UseCommitFileHydrationReturn,
+} from '@/lib/types';
+
+/** SHAs per request to /api/github/commits/files (route maximum is 30). */
+const HYDRATION_BATCH_SIZE = 20;
+
+/** Upper bound on a single rate-limit pause so a stale reset time can't stall us forever. */
+const MAX_PAUSE_MS = 15 * 60 * 1000;
+
+/** Delay between batches to keep hydration in the background. */
+const BATCH_DELAY_MS = 250;
+
+/** Minimum time between rewrites of a repository's file-list cache entry. */
+const CACHE_FLUSH_INTERVAL_MS = 30_000;
+
+type CommitFilesMap = Record<string, CommitFile[]>;
+
+interface CommitFilesResponseData {
+  repoId: string;
+  files: CommitFilesMap;
+  failed: string[];
+  skipped: string[];
+}
+
+interface UseCommitFileHydrationOptions {
+  enabled?: boolean;
+  /** Commits that can be hydrated from GitHub; others count as already real */
+  shouldHydrate?: (commit: CommitData) => boolean;
+  /** Called with each newly hydrated batch (cached or fetched), keyed by SHA */
+  onFilesHydrated?: (batch: Map<string, CommitFile[]>) => void;
+}
+
+/**
+ * Sleep that resolves early (with false) once the hydration run is cancelled.
+ */
+function cancellableSleep(ms: number, isCancelled: () => boolean): Promise<boolean> {
+  return new Promise((resolve) => {
+    const start = Date.now();
+    const tick = () => {
+      if (isCancelled()) {
+        resolve(false);
+      } else if (Date.now() - start >= ms) {
+        resolve(true);
+      } else {
+        setTimeout(tick, Math.min(1000, ms));
+      }
+    };
+    setTimeout(tick, Math.min(1000, ms));
+  });
+}
+
+/**
+ * Background hydration of real per-commit file lists.
+ *
+ * Commits fetched through the list endpoint arrive with `files: []`. This hook
+ * serves cached file lists from IndexedDB first, then walks the remaining SHAs
+ * in chronological (playback) order through /api/github/commits/files, pausing
+ * whenever the server reports the rate-limit reserve has been reached.
+ *
+ * File lists are cached per SHA inside one IndexedDB entry per repository
+ * (`commit-files:owner/repo`), so thousands of SHAs don't push the commit and
+ * analytics caches out of the 500-entry limit. Each write rewrites the whole
+ * entry, so fetched batches are written at most every 30 seconds, before a
+ * rate-limit pause, and when the run ends or is cancelled.
+ */
+export function useCommitFileHydration(
+  commits: CommitData[],
+  { enabled = true, shouldHydrate, onFilesHydrated }: UseCommitFileHydrationOptions = {}
+): UseCommitFileHydrationReturn {
+  const hydratedFilesRef = useRef<Map<string, CommitFile[]>>(new Map());
+  const onFilesHydratedRef = useRef(onFilesHydrated);
+  const [hydratedShas, setHydratedShas] = useState<ReadonlySet<string>>(new Set());
+  const [isHydrating, setIsHydrating] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    onFilesHydratedRef.current = onFilesHydrated;
+  }, [onFilesHydrated]);
+
+  const totalCount = commits.length;
+  const realFileCount = useMemo(
+    () =>
+      commits.reduce(
+        (n, c) =>
+          n + (c.files.length > 0 || hydratedShas.has(c.sha) || (shouldHydrate && !shouldHydrate(c)) ? 1 : 0),
+        0
+      ),
+    [commits, hydratedShas, shouldHydrate]
+  );
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const pending = commits
+      .filter((c) => c.files.length === 0 && !hydratedFilesRef.current.has(c.sha))
+      .filter((c) => !shouldHydrate || shouldHydrate(c))
+      .sort((a, b) => a.timestampMs - b.timestampMs);
+    if (pending.length === 0) return;
+
+    let cancelled = false;
+    const isCancelled = () => cancelled;
+    let flushCache: (() => Promise<void>) | null = null;
+
+    const publish = (batch: Map<string, CommitFile[]>) => {
+      if (batch.size === 0) return;
+      batch.forEach((files, sha) => hydratedFilesRef.current.set(sha, files));
+      setHydratedShas(new Set(hydratedFilesRef.current.keys()));
+      onFilesHydratedRef.current?.(batch);
+    };
+
+    const run = async () => {
+      setIsHydrating(true);
+      setError(null);
+
+      const { get, set, cacheKey, CACHE_TTL } = await import('@/lib/cache-manager');
+
+      // ---------------------------------------------------------------------
+      // Phase 1: Serve cached file lists
+      // ---------------------------------------------------------------------
+      const repoIds = [...new Set(pending.map((c) => c.repoId))];
+      const repoCaches = new Map<string, CommitFilesMap>();
+      const dirtyRepoIds = new Set<string>();
+      let lastFlushAt = Date.now();
+
+      flushCache = async () => {
+        const ids = [...dirtyRepoIds];
+        dirtyRepoIds.clear();
+        lastFlushAt = Date.now();
+        await Promise.all(
+          ids.map((id) => set(cacheKey('commit-files', id), repoCaches.get(id) ?? {}, CACHE_TTL.COMMIT_FILES))
+        );
+      };
+
+      for (const repoId of repoIds) {
+        const cached = await get<CommitFilesMap>(cacheKey('commit-files', repoId));
+        repoCaches.set(repoId, cached ?? {});
+      }
+      if (cancelled) return;
+
+      const cachedBatch = new Map<string, CommitFile[]>();
+      let remaining = pending.filter((c) => {
+        const files = repoCaches.get(c.repoId)?.[c.sha];
+        if (files) {
+          cachedBatch.set(c.sha, files);
+          return false;
+        }
+        return true;
+      });
+      publish(cachedBatch);
+
+      // ---------------------------------------------------------------------
+      // Phase 2: Fetch the rest in chronological batches, one repo per batch
+      // ---------------------------------------------------------------------
+      while (remaining.length > 0 && !cancelled) {
+        const repoId = remaining[0].repoId;
+        const [owner, repo] = repoId.split('/');
+        const batch = remaining.filter((c) => c.repoId === repoId).slice(0, HYDRATION_BATCH_SIZE);
+        const batchShas = new Set(batch.map((c) => c.sha));
+
+        let response: Response;
+        try {
+          response = await fetch('/api/github/commits/files', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            credentials: 'include',
+            body: JSON.stringify({ owner, repo, shas: [...batchShas] }),
+          });
+        } catch {
+          setError('Network error while loading commit file lists.');
+          break;
+        }
+
+        const payload = (await response.json().catch(() => null)) as ApiResponse<CommitFilesResponseData> | null;
+        if (cancelled) return;
+
+        if (response.status === 401) {
+          setError('GitHub session expired — showing approximate file trees.');
+          break;
+        }
+
+        const data = payload?.data;
+        if (!data) {
+          // Unexpected failure — drop this batch so one bad repo doesn't block the rest
+          remaining = remaining.filter((c) => !batchShas.has(c.sha));
+          continue;
+        }
+
+        const fetchedBatch = new Map(Object.entries(data.files));
+        if (fetchedBatch.size > 0) {
+          const repoCache = { ...repoCaches.get(repoId), ...data.files };
+          repoCaches.set(repoId, repoCache);
+          dirtyRepoIds.add(repoId);
+          publish(fetchedBatch);
+          if (Date.now() - lastFlushAt >= CACHE_FLUSH_INTERVAL_MS) await flushCache();
+        }
+
+        // Fetched and permanently failed SHAs are done; skipped ones are retried
+        const skipped = new Set(data.skipped);
+        remaining = remaining.filter((c) => !batchShas.has(c.sha) || skipped.has(c.sha));
+
+        if (skipped.size > 0) {
+          const resetAt = payload?.rateLimit?.resetAt ?? Date.now() + 60_000;
+          const waitMs = Math.min(MAX_PAUSE_MS, Math.max(5000, resetAt - Date.now()));
+          setIsPaused(true);
+          await flushCache();
+          const resumed = await cancellableSleep(waitMs, isCancelled);
+          if (!resumed) return;
+          setIsPaused(false);
+        } else if (remaining.length > 0) {
+          const resumed = await cancellableSleep(BATCH_DELAY_MS, isCancelled);
+          if (!resumed) return;
+        }
+      }
+
+      if (!cancelled) {
+        await flushCache();
+        setIsHydrating(false);
+      }
+    };
+
+    run().catch((err) => {
+      console.error('[useCommitFileHydration] Hydration failed:', err);
+      void flushCache?.();
+      if (!cancelled) {
+        setError(err instanceof Error ? err.message : 'Failed to load commit file lists.');
+        setIsHydrating(false);
+        setIsPaused(false);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      // Keep what this run fetched; nothing awaits the write
+      void flushCache?.();
+      setIsHydrating(false);
+      setIsPaused(false);
+    };
+  }, [commits, enabled, shouldHydrate]);
+
+  const getHydratedFiles = useCallback(() => hydratedFilesRef.current, []);
+
+  return {
+    realFileCount,
+    totalCount,
+    coverage: totalCount > 0 ? realFileCount / totalCount : 0,
+    isHydrating,
+    isPaused,
+    error,
+    getHydratedFiles,
+  };
+}
@@ -2,13 +2,15 @@
 
 import { useCallback, useEffect, useRef, useState } from 'react';
 import type { GourceEngine } from '@/lib/gource-engine';
-import type { UseGourcePlaybackReturn } from '@/lib/types';
+import type { GourceRenderStats, UseGourcePlaybackReturn } from '@/lib/types';
 import { PlaybackState, PlaybackSpeed } from '@/lib/types';
 
 /** Hook managing Gource animation playback state, delegating to the GourceEngine. */
 export function useGourcePlayback(): UseGourcePlaybackReturn & {
   engineRef: React.MutableRefObject<GourceEngine | null>;
   setEngine: (engine: GourceEngine) => void;
+  /** Latest fps / backend report from the engine, null until the first one */
+  renderStats: GourceRenderStats | null;
 } {
   const engineRef = useRef<GourceEngine | null>(null);
   const animationRef = useRef<number | null>(null);
@@ -24,6 +26,7 @@ export function useGourcePlayback(): UseGourcePlaybackReturn & {
   const [currentDate, setCurrentDate] = useState('');
   const [speed, setSpeedState] = useState<PlaybackSpeed>(PlaybackSpeed.NORMAL);
   const [isPlaying, setIsPlaying] = useState(false);
+  const [renderStats, setRenderStats] = useState<GourceRenderStats | null>(null);
 
   // Sync local state from engine at ~30fps for UI updates
   const syncFromEngine = useCallback(() => {
@@ -79,6 +82,7 @@ export function useGourcePlayback(): UseGourcePlaybackReturn & {
         onDateChange: (date) => {
           setCurrentDate(date);
         },
+        onStatsUpdate: setRenderStats,
       });
 
       // Initialize local state from engine
@@ -180,5 +184,6 @@ export function useGourcePlayback(): UseGourcePlaybackReturn & {
     state: gourcePlaybackState,
     engineRef,
     setEngine,
+    renderStats,
   };
 }
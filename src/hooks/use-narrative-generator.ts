@@ -3,6 +3,7 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { useGitData } from '@/context/git-data-provider';
 import { useAuth } from '@/context/auth-provider';
+import { useAppStore } from '@/stores/app-store';
 import type {
   GeneratedStory,
   StoryChapter,
@@ -14,7 +15,18 @@ import type {
 import type {
   EnrichedGeneratedStory,
   NarrativePipelineProgress,
+  SavedStory,
 } from '@/lib/narrative-types';
+import { DATA_STORY_MODEL, generateDataStory as writeDataStory } from '@/lib/narrative-data-story';
+import { findStoryToRestore, saveStory } from '@/lib/story-library';
+import { verifyCitations } from '@/lib/story-citations';
+import {
+  keepLockedChapters,
+  mergeWithNextChapter,
+  moveChapter,
+  splitChapter,
+  updateChapter,
+} from '@/lib/story-editing';
 
 // =============================================================================
 // TYPES
@@ -31,14 +43,39 @@ export interface UseNarrativeGeneratorReturn {
   stories: GeneratedStory[];
   /** Whether generation is in progress */
   isGenerating: boolean;
+  /** True until the library has been checked for a story to restore */
+  isRestoring: boolean;
+  /** Library id of the story on screen, once it has been saved */
+  savedStoryId: string | null;
   /** Progress mapped to StoryGenerationProgress for existing components */
   progress: StoryGenerationProgress;
   /** Rich pipeline progress with chapter/pass details */
   narrativeProgress: NarrativePipelineProgress;
-  /** Start generating the narrative story */
+  /** True when the story was written from templates rather than by a model */
+  isDataStory: boolean;
+  /** Whether an AI pass is possible: a Claude token, or a local model's access key */
+  canUseAi: boolean;
+  /** Start generating the narrative story; a data story when no AI is available */
   generateStory: () => Promise<void>;
+  /** Write the templated data story; needs no token or network */
+  generateDataStory: () => Promise<void>;
   /** Abort + reset + regenerate */
   regenerate: () => Promise<void>;
+  /** Show a story from the library in place of the current one */
+  openSavedStory: (saved: SavedStory) => void;
+  /** Index of the chapter being rewritten, if any */
+  rewritingChapterIndex: number | null;
+  /** Why the last chapter rewrite failed */
+  chapterError: { index: number; message: string } | null;
+  /** Re-run Pass 3 for one chapter, steered by free-text feedback */
+  regenerateChapter: (index: number, feedback: string) => Promise<void>;
+  /** Replace a chapter's title and markdown by hand */
+  editChapter: (index: number, changes: { title: string; content: string }) => void;
+  moveChapter: (index: number, offset: -1 | 1) => void;
+  mergeChapterWithNext: (index: number) => void;
+  splitChapter: (index: number) => void;
+  /** Locked chapters are kept as-is when the story is regenerated */
+  toggleChapterLock: (index: number) => void;
   /** Error message if generation failed */
   error: string | null;
 }
@@ -47,6 +84,17 @@ export interface UseNarrativeGeneratorReturn {
 // HELPERS
 // =============================================================================
 
+function createCompletedProgress(story: EnrichedGeneratedStory): NarrativePipelineProgress {
+  return {
+    ...createInitialProgress(),
+    currentPass: 'complete',
+    overallProgress: 100,
+    currentStep: 'Your story is ready!',
+    chaptersCompleted: story.chapters.length,
+    totalChapters: story.chapters.length,
+  };
+}
+
 function createInitialProgress(): NarrativePipelineProgress {
   return {
     currentPass: 'preprocessing',
@@ -91,6 +139,7 @@ function toGeneratedStory(enriched: EnrichedGeneratedStory): GeneratedStory {
     dateRange: ch.dateRange as DateRange,
     repoIds: ch.repoIds,
     anchorId: ch.anchorId,
+    locked: ch.locked,
   }));
 
   const VALID_TYPES = new Set([
@@ -127,6 +176,8 @@ function toGeneratedStory(enriched: EnrichedGeneratedStory): GeneratedStory {
     generatedAt: enriched.generatedAt,
     dateRange: enriched.dateRange as DateRange,
     model: enriched.model,
+    citations: enriched.citations,
+    unverifiedCitations: enriched.unverifiedCitations,
   };
 }
 
@@ -141,6 +192,7 @@ export function useNarrativeGenerator(): UseNarrativeGeneratorReturn {
     setUnifiedStory,
   } = useGitData();
   const { claudeToken } = useAuth();
+  const selectedRepos = useAppStore((state) => state.selectedRepos);
 
   const [story, setStory] = useState<EnrichedGeneratedStory | null>(null);
   const [partialStory, setPartialStory] = useState<Partial<EnrichedGeneratedStory> | null>(null);
@@ -150,6 +202,11 @@ export function useNarrativeGenerator(): UseNarrativeGeneratorReturn {
   );
   const [error, setError] = useState<string | null>(null);
 
+  const [isRestoring, setIsRestoring] = useState(true);
+  const [savedStoryId, setSavedStoryId] = useState<string | null>(null);
+  const [rewritingChapterIndex, setRewritingChapterIndex] = useState<number | null>(null);
+  const [chapterError, setChapterError] = useState<UseNarrativeGeneratorReturn['chapterError']>(null);
+
   const abortControllerRef = useRef<AbortController | null>(null);
   const isMountedRef = useRef(true);
 
@@ -163,28 +220,97 @@ export function useNarrativeGenerator(): UseNarrativeGeneratorReturn {
     };
   }, []);
 
-  const generateStory = useCallback(async () => {
-    if (isGenerating) return;
-
-    if (!claudeToken) {
-      setError('Please connect your Claude API token to generate stories.');
+  // Reopen the pinned (or latest) story for these repos instead of paying to regenerate
+  const hasRestoredRef = useRef(false);
+  useEffect(() => {
+    if (hasRestoredRef.current) return;
+    hasRestoredRef.current = true;
+    if (selectedRepos.length === 0) {
+      setIsRestoring(false);
       return;
     }
 
-    const repoIds = Object.keys(commitsByRepo).filter(
-      (id) => (commitsByRepo[id]?.length || 0) > 0
-    );
+    findStoryToRestore(selectedRepos).then((saved) => {
+      if (!isMountedRef.current) return;
+      if (saved) {
+        setStory(saved.story);
+        setUnifiedStory(toGeneratedStory(saved.story));
+        setProgress(createCompletedProgress(saved.story));
+        setSavedStoryId(saved.id);
+      }
+      setIsRestoring(false);
+    });
+  }, [selectedRepos, setUnifiedStory]);
+
+  /** Add a finished story to the library so a refresh or regeneration can't lose it. */
+  const keepStory = useCallback(
+    (finished: EnrichedGeneratedStory) => {
+      if (isMountedRef.current) setSavedStoryId(null);
+      saveStory(finished, selectedRepos).then((saved) => {
+        if (saved && isMountedRef.current) setSavedStoryId(saved.id);
+      });
+    },
+    [selectedRepos]
+  );
 
-    if (repoIds.length === 0) {
+  const openSavedStory = useCallback(
+    (saved: SavedStory) => {
+      if (isGenerating || rewritingChapterIndex !== null) return;
+      setError(null);
+      setChapterError(null);
+      setPartialStory(null);
+      setStory(saved.story);
+      setUnifiedStory(toGeneratedStory(saved.story));
+      setProgress(createCompletedProgress(saved.story));
+      setSavedStoryId(saved.id);
+    },
+    [isGenerating, rewritingChapterIndex, setUnifiedStory]
+  );
+
+  const hasCommitData = useCallback(() => {
+    const hasCommits = Object.values(commitsByRepo).some((commits) => (commits?.length || 0) > 0);
+    if (!hasCommits) {
       setError(
         'No commit data available. Please select repositories and fetch commits first.'
       );
+    }
+    return hasCommits;
+  }, [commitsByRepo]);
+
+  const generateDataStory = useCallback(async () => {
+    if (isGenerating || !hasCommitData()) return;
+
+    setError(null);
+    setPartialStory(null);
+
+    // Local only: the same analysis the AI pipeline starts from, written up from templates
+    const { analyzeCommitIntelligence } = await import('@/lib/narrative-preprocessor');
+    const written = writeDataStory(analyzeCommitIntelligence(commitsByRepo, selectedRepositories));
+    const dataStory = story ? keepLockedChapters(story, written) : written;
+    if (!isMountedRef.current) return;
+
+    setStory(dataStory);
+    setUnifiedStory(toGeneratedStory(dataStory));
+    setProgress(createCompletedProgress(dataStory));
+    keepStory(dataStory);
+  }, [isGenerating, hasCommitData, story, commitsByRepo, selectedRepositories, setUnifiedStory, keepStory]);
+
+  const generateStory = useCallback(async () => {
+    if (isGenerating || !hasCommitData()) return;
+
+    // Without a Claude token (or a local model's access key), the data story is the story
+    if (!claudeToken) {
+      await generateDataStory();
       return;
     }
 
+    // Its locked chapters are carried into the new story
+    const previousStory = story;
+
     setIsGenerating(true);
     setError(null);
     setStory(null);
+    setSavedStoryId(null);
     setPartialStory(null);
     setProgress(createInitialProgress());
 
@@ -195,10 +321,10 @@ export function useNarrativeGenerator(): UseNarrativeGeneratorReturn {
       // Dynamically import the streaming pipeline
       const { generateNarrativeStreaming } = await import('@/lib/narrative-pipeline-v2');
 
-      const enrichedStory = await generateNarrativeStreaming(
+      const generated = await generateNarrativeStreaming(
         commitsByRepo,
         selectedRepositories,
-        claudeToken,
+        claudeToken ?? '',
         (p: NarrativePipelineProgress) => {
           if (isMountedRef.current) {
             setProgress({ ...p });
@@ -211,6 +337,10 @@ export function useNarrativeGenerator(): UseNarrativeGeneratorReturn {
         },
         abortController.signal
       );
+      const enrichedStory = previousStory ? keepLockedChapters(previousStory, generated) : generated;
+
+      // Saved even if the user has navigated away; the tokens are already spent
+      if (enrichedStory) keepStory(enrichedStory);
 
       if (isMountedRef.current && enrichedStory) {
         setStory(enrichedStory);
@@ -246,12 +376,102 @@ export function useNarrativeGenerator(): UseNarrativeGeneratorReturn {
     }
   }, [
     isGenerating,
+    hasCommitData,
+    generateDataStory,
+    story,
     claudeToken,
     commitsByRepo,
     selectedRepositories,
     setUnifiedStory,
+    keepStory,
   ]);
 
+  // ===========================================================================
+  // CHAPTER EDITING
+  // ===========================================================================
+
+  /** Apply a hand edit to the finished story and save it back to the library. */
+  const editStory = useCallback(
+    (edit: (current: EnrichedGeneratedStory) => EnrichedGeneratedStory) => {
+      if (!story || isGenerating || rewritingChapterIndex !== null) return;
+      const edited = edit(story);
+      if (edited === story) return;
+
+      setChapterError(null);
+      setStory(edited);
+      setUnifiedStory(toGeneratedStory(edited));
+      keepStory(edited);
+    },
+    [story, isGenerating, rewritingChapterIndex, setUnifiedStory, keepStory]
+  );
+
+  const regenerateChapter = useCallback(
+    async (index: number, feedback: string) => {
+      if (!story?.chapters[index] || isGenerating || rewritingChapterIndex !== null || !hasCommitData()) {
+        return;
+      }
+
+      setRewritingChapterIndex(index);
+      setChapterError(null);
+
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+
+      try {
+        const { rewriteChapter } = await import('@/lib/narrative-pipeline');
+        const rewritten = await rewriteChapter(
+          story,
+          index,
+          feedback,
+          commitsByRepo,
+          selectedRepositories,
+          claudeToken ?? '',
+          abortController.signal
+        );
+
+        // The rewritten chapter is checked against what it was written from; the
+        // others were verified when generated
+        const edited = verifyCitations(
+          updateChapter(story, index, { content: rewritten.chapter.content }),
+          commitsByRepo,
+          (_chapter, i) => (i === index ? rewritten.sourceData : null)
+        );
+        keepStory(edited);
+        if (isMountedRef.current) {
+          setStory(edited);
+          setUnifiedStory(toGeneratedStory(edited));
+        }
+      } catch (err) {
+        if ((err as Error).name === 'AbortError' || (err as Error).message === 'Aborted') {
+          return;
+        }
+        console.error('Chapter rewrite error:', err);
+        if (isMountedRef.current) {
+          setChapterError({
+            index,
+            message: err instanceof Error ? err.message : 'The chapter could not be rewritten.',
+          });
+        }
+      } finally {
+        if (isMountedRef.current) {
+          setRewritingChapterIndex(null);
+        }
+        abortControllerRef.current = null;
+      }
+    },
+    [
+      story,
+      isGenerating,
+      rewritingChapterIndex,
+      hasCommitData,
+      commitsByRepo,
+      selectedRepositories,
+      claudeToken,
+      keepStory,
+      setUnifiedStory,
+    ]
+  );
+
   const regenerate = useCallback(async () => {
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
@@ -292,10 +512,27 @@ export function useNarrativeGenerator(): UseNarrativeGeneratorReturn {
     unifiedStory,
     stories: emptyStories,
     isGenerating,
+    isRestoring,
+    savedStoryId,
     progress: mappedProgress,
     narrativeProgress: progress,
+    isDataStory: story?.model === DATA_STORY_MODEL,
+    canUseAi: !!claudeToken,
     generateStory,
+    generateDataStory,
     regenerate,
+    openSavedStory,
+    rewritingChapterIndex,
+    chapterError,
+    regenerateChapter,
+    editChapter: (index, changes) => editStory((current) => updateChapter(current, index, changes)),
+    moveChapter: (index, offset) => editStory((current) => moveChapter(current, index, offset)),
+    mergeChapterWithNext: (index) => editStory((current) => mergeWithNextChapter(current, index)),
+    splitChapter: (index) => editStory((current) => splitChapter(current, index)),
+    toggleChapterLock: (index) =>
+      editStory((current) =>
+        updateChapter(current, index, { locked: !current.chapters[index]?.locked })
+      ),
     error,
   };
 }
@@ -10,7 +10,7 @@ import type {
   Repository,
   UseRepoFetcherReturn,
 } from '@/lib/types';
-import { RepoSortOption as RepoSort } from '@/lib/types';
+import { RepoSortOption as RepoSort, RepositorySource } from '@/lib/types';
 
 const REPOS_PER_PAGE = 30;
 
@@ -93,12 +93,20 @@ export function useRepoFetcher(): UseRepoFetcherReturn {
   const [error, setError] = useState<string | null>(null);
   const hasFetchedRef = useRef(false);
 
+  // Local imports and self-hosted repos don't count — GitHub repos still need listing alongside them
+  const githubRepoCount = useMemo(
+    () =>
+      gitData.allRepositories.filter((r) => (r.source ?? RepositorySource.GITHUB) === RepositorySource.GITHUB)
+        .length,
+    [gitData.allRepositories]
+  );
+
   // Fetch repos on mount if we have a token but no repos loaded
   useEffect(() => {
     if (
       auth.isGitHubConnected &&
       auth.githubToken &&
-      gitData.allRepositories.length === 0 &&
+      githubRepoCount === 0 &&
       !hasFetchedRef.current &&
       !isLoading
     ) {
@@ -163,7 +171,7 @@ export function useRepoFetcher(): UseRepoFetcherReturn {
 
       fetchRepos();
     }
-  }, [auth.isGitHubConnected, auth.githubToken, gitData.allRepositories.length, gitData.setAllRepositories, isLoading]);
+  }, [auth.isGitHubConnected, auth.githubToken, githubRepoCount, gitData.setAllRepositories, isLoading]);
 
   // Convert Repository[] to SelectableRepository[] with selection state
   const allSelectableRepos: SelectableRepository[] = useMemo(() => {
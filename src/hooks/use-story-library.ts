@@ -0,0 +1,69 @@
+'use client';
+
+import { useState, useCallback, useEffect } from 'react';
+import type { SavedStory } from '@/lib/narrative-types';
+import { deleteSavedStory, listSavedStories, setStoryPinned } from '@/lib/story-library';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface UseStoryLibraryReturn {
+  /** Saved stories, newest first */
+  entries: SavedStory[];
+  isLoading: boolean;
+  /** Re-read the library from IndexedDB */
+  refresh: () => Promise<void>;
+  /** Pin a story as canonical for its repos, or unpin it */
+  togglePin: (saved: SavedStory) => Promise<void>;
+  remove: (saved: SavedStory) => Promise<void>;
+}
+
+// =============================================================================
+// HOOK
+// =============================================================================
+
+/**
+ * The story library, re-read whenever `savedStoryId` changes so a story
+ * shows up as soon as the generator has saved it.
+ */
+export function useStoryLibrary(savedStoryId: string | null): UseStoryLibraryReturn {
+  const [entries, setEntries] = useState<SavedStory[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    const stories = await listSavedStories();
+    setEntries(stories);
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    listSavedStories().then((stories) => {
+      if (cancelled) return;
+      setEntries(stories);
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [savedStoryId]);
+
+  const togglePin = useCallback(
+    async (saved: SavedStory) => {
+      await setStoryPinned(saved.id, !saved.pinned);
+      await refresh();
+    },
+    [refresh]
+  );
+
+  const remove = useCallback(
+    async (saved: SavedStory) => {
+      await deleteSavedStory(saved.id);
+      await refresh();
+    },
+    [refresh]
+  );
+
+  return { entries, isLoading, refresh, togglePin, remove };
+}
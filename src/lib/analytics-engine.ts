@@ -26,13 +26,23 @@ import type {
   TotalStats,
   DateRange,
   Contributor,
+  TimeZoneSetting,
+  TimezoneShift,
+  AutomationBreakdown,
+  AutomationReason,
+  BotFilterSetting,
 } from '@/lib/types';
 
 import {
   TimeGranularity,
   DayOfWeek,
+  TimeZoneMode,
+  BotFilterMode,
   GITHUB_LANGUAGE_COLORS,
 } from '@/lib/types';
+import { getCommitDateFields } from '@/lib/commit-normalizer';
+import { getIdentityId } from '@/lib/identity-resolver';
+import { createBotClassifier, DEFAULT_BOT_FILTER, type BotClassifier } from '@/lib/bot-classifier';
 
 // =============================================================================
 // UTILITY HELPERS
@@ -126,6 +136,214 @@ const NEGATIVE_WORDS = new Set([
   'fail', 'failed', 'error', 'issue', 'problem', 'crash', 'crashed',
 ]);
 
+// =============================================================================
+// TIME ZONES
+// =============================================================================
+
+/** Author-local time; commits without a known offset fall back to the viewer's zone. */
+export const DEFAULT_TIME_ZONE: TimeZoneSetting = { mode: TimeZoneMode.AUTHOR, zone: null };
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat | null>();
+
+/** Offset in minutes of an IANA zone at an instant; null for unknown zones. */
+function getZoneOffset(zone: string, timestampMs: number): number | null {
+  let formatter = zoneFormatters.get(zone);
+  if (formatter === undefined) {
+    try {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone: zone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+      });
+    } catch {
+      formatter = null;
+    }
+    zoneFormatters.set(zone, formatter);
+  }
+  if (!formatter) return null;
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(timestampMs)) {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value, 10);
+  }
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  return Math.round((wallClock - Math.floor(timestampMs / 60000) * 60000) / 60000);
+}
+
+/** Check an IANA zone name before storing it as a setting. */
+export function isValidTimeZone(zone: string): boolean {
+  return getZoneOffset(zone, Date.now()) !== null;
+}
+
+/** UTC offset (minutes) a commit is read at under a time zone setting. */
+export function resolveCommitOffset(commit: CommitData, setting: TimeZoneSetting): number {
+  if (setting.mode === TimeZoneMode.FIXED && setting.zone) {
+    const offset = getZoneOffset(setting.zone, commit.timestampMs);
+    if (offset !== null) return offset;
+  }
+  // Entries cached before offsets were recorded have no timezoneOffset at all
+  if (setting.mode === TimeZoneMode.AUTHOR && commit.timezoneOffset != null) {
+    return commit.timezoneOffset;
+  }
+  return -new Date(commit.timestampMs).getTimezoneOffset();
+}
+
+/**
+ * Re-derive each commit's calendar fields (hour, weekday, dateKey, ...) for a
+ * time zone setting. Without a setting the stored fields are used as-is.
+ */
+export function localizeCommits(commits: CommitData[], setting?: TimeZoneSetting): CommitData[] {
+  if (!setting) return commits;
+  return commits.map((commit) => ({
+    ...commit,
+    ...getCommitDateFields(new Date(commit.timestampMs), resolveCommitOffset(commit, setting)),
+  }));
+}
+
+/** Whether two settings read commits in the same zone. */
+export function isSameTimeZone(a: TimeZoneSetting, b: TimeZoneSetting): boolean {
+  return a.mode === b.mode && (a.mode !== TimeZoneMode.FIXED || a.zone === b.zone);
+}
+
+/** A zone must hold this many commits over this many days to count as a move. */
+const MIN_COMMITS_PER_ZONE = 10;
+const MIN_DAYS_PER_ZONE = 14;
+/** Offset changes up to an hour are daylight saving, not travel. */
+const DST_TOLERANCE_MINUTES = 60;
+
+/**
+ * Detect lasting changes in contributors' commit time zones (relocations,
+ * long stays abroad). Short trips and daylight-saving flips are ignored.
+ * Only commits with a known author offset take part.
+ */
+export function detectTimezoneChanges(commits: CommitData[]): TimezoneShift[] {
+  const byContributor = new Map<string, CommitData[]>();
+  for (const commit of commits) {
+    if (commit.timezoneOffset == null) continue;
+    const id = getIdentityId(commit.author);
+    let list = byContributor.get(id);
+    if (!list) {
+      list = [];
+      byContributor.set(id, list);
+    }
+    list.push(commit);
+  }
+
+  const shifts: TimezoneShift[] = [];
+
+  for (const [contributorId, list] of byContributor) {
+    if (list.length < MIN_COMMITS_PER_ZONE * 2) continue;
+    list.sort((a, b) => a.timestampMs - b.timestampMs);
+
+    // Group consecutive commits into runs that stay within DST tolerance
+    const runs: Array<{ offset: number; first: CommitData; last: CommitData; count: number }> = [];
+    for (const commit of list) {
+      const offset = commit.timezoneOffset!;
+      const run = runs[runs.length - 1];
+      if (run && Math.abs(offset - run.offset) <= DST_TOLERANCE_MINUTES) {
+        run.last = commit;
+        run.count++;
+      } else {
+        runs.push({ offset, first: commit, last: commit, count: 1 });
+      }
+    }
+
+    // Drop short stays, then report each change between lasting zones
+    const lasting = runs.filter(
+      (r) =>
+        r.count >= MIN_COMMITS_PER_ZONE &&
+        r.last.timestampMs - r.first.timestampMs >= MIN_DAYS_PER_ZONE * 86400000
+    );
+
+    for (let i = 1; i < lasting.length; i++) {
+      const before = lasting[i - 1];
+      const after = lasting[i];
+      if (Math.abs(after.offset - before.offset) <= DST_TOLERANCE_MINUTES) continue;
+
+      shifts.push({
+        contributorId,
+        contributorName: after.first.author.name,
+        fromOffset: before.offset,
+        toOffset: after.offset,
+        sha: after.first.sha,
+        repoId: after.first.repoId,
+        timestampMs: after.first.timestampMs,
+        commitsBefore: before.count,
+        commitsAfter: after.count,
+      });
+    }
+  }
+
+  return shifts.sort((a, b) => a.timestampMs - b.timestampMs);
+}
+
+// =============================================================================
+// AUTOMATED COMMITS
+// =============================================================================
+
+/** Summarize how much of a history the classifier flags as automated. */
+export function computeAutomationBreakdown(
+  commits: CommitData[],
+  classify: BotClassifier
+): AutomationBreakdown {
+  const byReason: Record<AutomationReason, number> = {
+    'bot-login': 0,
+    'author-pattern': 0,
+    'message-pattern': 0,
+  };
+  const byAuthor = new Map<string, number>();
+  const byRepo: Record<string, number> = {};
+  let automatedCommits = 0;
+
+  for (const commit of commits) {
+    const reason = classify(commit);
+    if (!reason) continue;
+    automatedCommits++;
+    byReason[reason]++;
+    byRepo[commit.repoId] = (byRepo[commit.repoId] || 0) + 1;
+    const name = commit.author.login || commit.author.name;
+    byAuthor.set(name, (byAuthor.get(name) || 0) + 1);
+  }
+
+  return {
+    totalCommits: commits.length,
+    automatedCommits,
+    automatedPercentage:
+      commits.length > 0 ? Math.round((automatedCommits / commits.length) * 1000) / 10 : 0,
+    byReason,
+    topAuthors: Array.from(byAuthor, ([name, count]) => ({ name, commits: count }))
+      .sort((a, b) => b.commits - a.commits)
+      .slice(0, 5),
+    byRepo,
+  };
+}
+
+/**
+ * Classify commits once: the breakdown always covers the full history, and
+ * in EXCLUDE mode the returned commits are the human ones only.
+ */
+export function applyBotFilter(
+  commits: CommitData[],
+  setting: BotFilterSetting
+): { commits: CommitData[]; automation: AutomationBreakdown } {
+  const classify = createBotClassifier(setting.classifier);
+  const flagged = new Set<CommitData>();
+  const automation = computeAutomationBreakdown(commits, (commit) => {
+    const reason = classify(commit);
+    if (reason) flagged.add(commit);
+    return reason;
+  });
+
+  if (setting.mode !== BotFilterMode.EXCLUDE || flagged.size === 0) {
+    return { commits, automation };
+  }
+  return { commits: commits.filter((c) => !flagged.has(c)), automation };
+}
+
 // =============================================================================
 // CORE COMPUTATION FUNCTIONS
 // =============================================================================
@@ -134,7 +352,11 @@ const NEGATIVE_WORDS = new Set([
  * Compute contribution heatmap from commits.
  * Efficiently groups commits by date key using a Map.
  */
-export function computeContributionHeatmap(commits: CommitData[]): HeatmapData {
+export function computeContributionHeatmap(
+  commits: CommitData[],
+  timeZone?: TimeZoneSetting
+): HeatmapData {
+  commits = localizeCommits(commits, timeZone);
   const cellMap = new Map<string, { count: number; repos: Set<string> }>();
   const yearsSet = new Set<number>();
   let maxCount = 0;
@@ -304,7 +526,11 @@ export function computeLanguageBreakdown(repos: Repository[]): LanguageBreakdown
 /**
  * Compute coding patterns: peak hours, days, hour×day matrix.
  */
-export function computeCodingPatterns(commits: CommitData[]): CodingPatternsData {
+export function computeCodingPatterns(
+  commits: CommitData[],
+  timeZone?: TimeZoneSetting
+): CodingPatternsData {
+  commits = localizeCommits(commits, timeZone);
   const byHour = new Array(24).fill(0);
   const byDayOfWeek = new Array(7).fill(0);
   // hourDayMatrix[day][hour]
@@ -316,6 +542,18 @@ export function computeCodingPatterns(commits: CommitData[]): CodingPatternsData
     hourDayMatrix[commit.dayOfWeek][commit.hourOfDay]++;
   }
 
+  return summarizeCodingPatterns(byHour, byDayOfWeek, hourDayMatrix, commits.length);
+}
+
+/**
+ * Derive peaks and habit flags from hour/day distributions.
+ */
+function summarizeCodingPatterns(
+  byHour: number[],
+  byDayOfWeek: number[],
+  hourDayMatrix: number[][],
+  commitCount: number
+): CodingPatternsData {
   // Find peak hour and day
   let peakHour = 0;
   let peakHourCount = 0;
@@ -339,7 +577,7 @@ export function computeCodingPatterns(commits: CommitData[]): CodingPatternsData
   const nightCommits = byHour.slice(20).reduce((s, v) => s + v, 0) +
     byHour.slice(0, 5).reduce((s, v) => s + v, 0);
   const morningCommits = byHour.slice(5, 9).reduce((s, v) => s + v, 0);
-  const total = commits.length || 1;
+  const total = commitCount || 1;
   const isNightOwl = nightCommits / total > 0.3;
   const isEarlyBird = morningCommits / total > 0.2;
 
@@ -363,7 +601,8 @@ export function computeCodingPatterns(commits: CommitData[]): CodingPatternsData
  * Compute streaks from commits.
  * Uses a sorted date set for efficient consecutive-day detection.
  */
-export function computeStreaks(commits: CommitData[]): StreakData {
+export function computeStreaks(commits: CommitData[], timeZone?: TimeZoneSetting): StreakData {
+  commits = localizeCommits(commits, timeZone);
   if (commits.length === 0) {
     const emptyStreak: StreakInfo = { length: 0, startDate: '', endDate: '', totalCommits: 0 };
     return {
@@ -747,7 +986,12 @@ export function computeMonthlyBreakdown(commits: CommitData[]): MonthlyBreakdown
 /**
  * Compute fun superlatives from commits and repos.
  */
-export function computeSuperlatives(commits: CommitData[], repos: Repository[]): SuperlativesData {
+export function computeSuperlatives(
+  commits: CommitData[],
+  repos: Repository[],
+  timeZone?: TimeZoneSetting
+): SuperlativesData {
+  commits = localizeCommits(commits, timeZone);
   // Default empty result
   const empty: SuperlativesData = {
     chronotype: 'balanced',
@@ -1033,7 +1277,7 @@ export function computeTotalStats(commits: CommitData[], repos: Repository[]): T
 
   for (const commit of commits) {
     activeDaysSet.add(commit.dateKey);
-    contributorSet.add(commit.author.login || commit.author.email);
+    contributorSet.add(getIdentityId(commit.author));
     totalAdditions += commit.additions;
     totalDeletions += commit.deletions;
     totalFilesChanged += commit.filesChanged;
@@ -1101,7 +1345,7 @@ export function computeTopContributors(commits: CommitData[], limit: number = 20
   }>();
 
   for (const commit of commits) {
-    const id = commit.author.login || commit.author.email;
+    const id = getIdentityId(commit.author);
     let entry = contribMap.get(id);
     if (!entry) {
       entry = {
@@ -1167,8 +1411,15 @@ export function computeTopContributors(commits: CommitData[], limit: number = 20
 export function computeFullAnalytics(
   commits: CommitData[],
   repos: Repository[],
-  granularity: TimeGranularity = TimeGranularity.WEEKLY
+  granularity: TimeGranularity = TimeGranularity.WEEKLY,
+  timeZone: TimeZoneSetting = DEFAULT_TIME_ZONE,
+  botFilter: BotFilterSetting = DEFAULT_BOT_FILTER
 ): AnalyticsResult {
+  const filtered = applyBotFilter(commits, botFilter);
+
+  // Localize once so every section reads the same calendar fields
+  commits = localizeCommits(filtered.commits, timeZone);
+
   const heatmap = computeContributionHeatmap(commits);
   const commitFrequency = computeCommitFrequency(commits, granularity);
   const languageBreakdown = computeLanguageBreakdown(repos);
@@ -1195,6 +1446,9 @@ export function computeFullAnalytics(
     topContributors,
     dateRange,
     totals,
+    timeZone,
+    botFilter,
+    automation: filtered.automation,
     computedAt: Date.now(),
   };
 }
@@ -1577,7 +1831,7 @@ export function processCommitChunk(
     totalAdditions += commit.additions;
     totalDeletions += commit.deletions;
     activeDates.add(commit.dateKey);
-    contributors.add(commit.author.login || commit.author.email);
+    contributors.add(getIdentityId(commit.author));
   }
 
   return {
@@ -1644,3 +1898,136 @@ export function mergeChunkResults(
     contributors,
   };
 }
+
+/**
+ * Rebuild chunk-shaped aggregates from an existing AnalyticsResult so new
+ * commits can be folded in with mergeChunkResults. AnalyticsResult doesn't
+ * keep contributor identities, so `contributors` starts empty.
+ */
+function analyticsToChunk(analytics: AnalyticsResult): ReturnType<typeof processCommitChunk> {
+  const heatmapPartial = new Map<string, { count: number; repos: Set<string> }>();
+  for (const cell of Object.values(analytics.heatmap.cells)) {
+    heatmapPartial.set(cell.date, { count: cell.count, repos: new Set(cell.repos) });
+  }
+
+  return {
+    heatmapPartial,
+    byHour: [...analytics.codingPatterns.byHour],
+    byDayOfWeek: [...analytics.codingPatterns.byDayOfWeek],
+    totalAdditions: analytics.totals.totalAdditions,
+    totalDeletions: analytics.totals.totalDeletions,
+    activeDates: new Set(heatmapPartial.keys()),
+    contributors: new Set(),
+  };
+}
+
+/**
+ * Fold newly synced commits into an existing AnalyticsResult.
+ *
+ * Additive sections (heatmap, hour/day patterns, totals) are merged from a
+ * processCommitChunk pass over `newCommits` only. Sections that depend on
+ * the whole history — frequency, streaks, productivity, year-over-year,
+ * monthly breakdown, superlatives, top contributors — are recomputed from
+ * `allCommits`, and the language breakdown from `repos`.
+ *
+ * Only valid when the previous history is unchanged (fast-forward); commits
+ * removed by a force-push can't be subtracted.
+ */
+export function mergeCommitsIntoAnalytics(
+  analytics: AnalyticsResult,
+  newCommits: CommitData[],
+  allCommits: CommitData[],
+  repos: Repository[]
+): AnalyticsResult {
+  if (newCommits.length === 0) return analytics;
+
+  // Count and exclude automated commits the way the existing sections did
+  const botFilter = analytics.botFilter ?? DEFAULT_BOT_FILTER;
+  const filteredAll = applyBotFilter(allCommits, botFilter);
+  newCommits = applyBotFilter(newCommits, botFilter).commits;
+  if (newCommits.length === 0) return { ...analytics, automation: filteredAll.automation };
+
+  // Read the new commits in the zone the existing sections were computed in
+  newCommits = localizeCommits(newCommits, analytics.timeZone);
+  allCommits = localizeCommits(filteredAll.commits, analytics.timeZone);
+
+  const merged = mergeChunkResults([
+    analyticsToChunk(analytics),
+    processCommitChunk(newCommits, 1, 2),
+  ]);
+
+  // Heatmap — levels are relative to the (possibly new) busiest day
+  let maxCount = 0;
+  for (const cell of merged.heatmapMerged.values()) {
+    if (cell.count > maxCount) maxCount = cell.count;
+  }
+  const cells: Record<string, HeatmapCell> = {};
+  for (const [dateKey, cell] of merged.heatmapMerged) {
+    cells[dateKey] = {
+      date: dateKey,
+      count: cell.count,
+      level: computeLevel(cell.count, maxCount),
+      repos: Array.from(cell.repos),
+    };
+  }
+  const years = Array.from(
+    new Set([...analytics.heatmap.years, ...newCommits.map((c) => c.year)])
+  ).sort((a, b) => a - b);
+
+  // Coding patterns
+  const hourDayMatrix = analytics.codingPatterns.hourDayMatrix.map((row) => [...row]);
+  for (const commit of newCommits) {
+    hourDayMatrix[commit.dayOfWeek][commit.hourOfDay]++;
+  }
+  const totalCommits = analytics.totals.totalCommits + newCommits.length;
+
+  // Date range
+  let minTime = new Date(analytics.dateRange.start).getTime();
+  let maxTime = new Date(analytics.dateRange.end).getTime();
+  for (const commit of newCommits) {
+    if (commit.timestampMs < minTime) minTime = commit.timestampMs;
+    if (commit.timestampMs > maxTime) maxTime = commit.timestampMs;
+  }
+  const totalDays = Math.max(1, Math.ceil((maxTime - minTime) / (1000 * 60 * 60 * 24)));
+  const activeDays = merged.activeDates.size;
+
+  const uniqueContributors = new Set(allCommits.map((c) => getIdentityId(c.author)));
+
+  return {
+    ...analytics,
+    heatmap: { cells, maxCount, years },
+    commitFrequency: computeCommitFrequency(allCommits, analytics.commitFrequency.granularity),
+    languageBreakdown: computeLanguageBreakdown(repos),
+    codingPatterns: summarizeCodingPatterns(
+      merged.byHour,
+      merged.byDayOfWeek,
+      hourDayMatrix,
+      totalCommits
+    ),
+    streaks: computeStreaks(allCommits),
+    productivity: computeProductivityMetrics(allCommits),
+    yearOverYear: computeYearOverYear(allCommits),
+    monthlyBreakdown: computeMonthlyBreakdown(allCommits),
+    superlatives: computeSuperlatives(allCommits, repos),
+    topContributors: computeTopContributors(allCommits),
+    dateRange: {
+      start: new Date(minTime).toISOString(),
+      end: new Date(maxTime).toISOString(),
+      totalDays,
+    },
+    totals: {
+      ...analytics.totals,
+      totalCommits,
+      totalAdditions: merged.totalAdditions,
+      totalDeletions: merged.totalDeletions,
+      totalFilesChanged:
+        analytics.totals.totalFilesChanged + newCommits.reduce((sum, c) => sum + c.filesChanged, 0),
+      activeDays,
+      uniqueContributors: uniqueContributors.size,
+      avgCommitsPerDay: activeDays > 0 ? totalCommits / activeDays : 0,
+      avgCommitsPerWeek: totalDays > 0 ? (totalCommits / totalDays) * 7 : 0,
+    },
+    automation: filteredAll.automation,
+    computedAt: Date.now(),
+  };
+}
@@ -0,0 +1,104 @@
+// =============================================================================
+// BOT CLASSIFIER — recognize automated commits
+// =============================================================================
+//
+// Dependency updaters, CI and release bots commit on schedules no human
+// keeps, inflating totals, streaks and word counts. A commit is automated
+// when its author carries a `[bot]` suffix, matches a configured author
+// pattern, or its headline matches a configured message pattern.
+
+import type {
+  AutomationReason,
+  BotClassifierConfig,
+  BotFilterSetting,
+  CommitData,
+} from '@/lib/types';
+import { BotFilterMode } from '@/lib/types';
+
+/** Dependency and version bump headlines. */
+export const BUMP_RE = /\b(bump version|update dependencies|chore\(deps\))\b/i;
+
+/** `dependabot[bot]`, `renovate[bot]`, `49699333+dependabot[bot]@users.noreply.github.com` */
+const BOT_SUFFIX_RE = /\[bot\](@|$)/i;
+
+export const DEFAULT_BOT_CLASSIFIER: BotClassifierConfig = {
+  matchBotLogins: true,
+  authorPatterns: [
+    '^dependabot',
+    '^renovate',
+    '^github[- ]actions',
+    '^semantic-release',
+    '^release-please',
+    '^greenkeeper',
+    '^snyk-bot',
+    '^pre-commit-ci',
+    '^allcontributors',
+    '^imgbot',
+  ],
+  messagePatterns: [
+    BUMP_RE.source,
+    '^bump \\S+ from \\S+ to \\S+',
+    '^update dependency ',
+    '^(chore|build)\\(release\\)',
+  ],
+};
+
+export const DEFAULT_BOT_FILTER: BotFilterSetting = {
+  mode: BotFilterMode.EXCLUDE,
+  classifier: DEFAULT_BOT_CLASSIFIER,
+};
+
+/** Whether a pattern compiles as a regular expression. */
+export function isValidPattern(source: string): boolean {
+  try {
+    new RegExp(source, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function compilePatterns(sources: string[]): RegExp[] {
+  return sources
+    .filter((source) => source.trim() && isValidPattern(source))
+    .map((source) => new RegExp(source, 'i'));
+}
+
+export type BotClassifier = (commit: CommitData) => AutomationReason | null;
+
+/**
+ * Compile a classifier. Returns why a commit is automated, or null for
+ * commits a human made. Invalid patterns are skipped.
+ */
+export function createBotClassifier(config: BotClassifierConfig): BotClassifier {
+  const authorPatterns = compilePatterns(config.authorPatterns);
+  const messagePatterns = compilePatterns(config.messagePatterns);
+
+  return (commit) => {
+    const { login, name, email } = commit.author;
+
+    if (
+      config.matchBotLogins &&
+      (BOT_SUFFIX_RE.test(login ?? '') || BOT_SUFFIX_RE.test(name) || BOT_SUFFIX_RE.test(email))
+    ) {
+      return 'bot-login';
+    }
+
+    for (const pattern of authorPatterns) {
+      if ((login && pattern.test(login)) || pattern.test(name) || pattern.test(email)) {
+        return 'author-pattern';
+      }
+    }
+
+    for (const pattern of messagePatterns) {
+      if (pattern.test(commit.messageHeadline)) return 'message-pattern';
+    }
+
+    return null;
+  };
+}
+
+/** Whether two settings classify and count commits the same way. */
+export function isSameBotFilter(a: BotFilterSetting, b: BotFilterSetting): boolean {
+  return a.mode === b.mode && JSON.stringify(a.classifier) === JSON.stringify(b.classifier);
+}
@@ -18,6 +18,7 @@ export const CACHE_TTL = {
   COMMITS: 86400000,       // 24 hours (incremental fetching corrects stale data)
   ANALYTICS: 86400000,     // 24 hours
   STORIES: 86400000,       // 24 hours
+  COMMIT_FILES: 2592000000, // 30 days (a SHA's file list never changes)
   REPOS: 3600000,          // 1 hour
   DEFAULT: 3600000,        // 1 hour
 } as const;
@@ -177,6 +178,18 @@ export async function has(key: string): Promise<boolean> {
   }
 }
 
+/**
+ * Delete a single entry from the cache.
+ */
+export async function remove(key: string): Promise<void> {
+  try {
+    const db = await getDB();
+    await db.delete('cache-entries', key);
+  } catch (error) {
+    console.error(`[CacheManager] Error deleting key "${key}":`, error);
+  }
+}
+
 /**
  * Clear all entries from the cache.
  */
@@ -357,7 +370,7 @@ function scheduleCleanup(): void {
 // =============================================================================
 
 export function cacheKey(
-  type: 'repos' | 'commits' | 'analytics' | 'story' | 'story:unified',
+  type: 'repos' | 'commits' | 'commit-files' | 'analytics' | 'story' | 'story:unified',
   identifier: string
 ): string {
   return `${type}:${identifier}`;
@@ -411,6 +424,7 @@ const cacheManager = {
   get,
   set,
   has,
+  remove,
   clear,
   clearByPrefix,
   getAllKeys,
@@ -0,0 +1,326 @@
+// =============================================================================
+// CAMERA DIRECTOR — automatic and scripted shots for the Gource camera
+// =============================================================================
+//
+// The engine reports every commit it plays; the director keeps a short window
+// of them and, each frame, turns the chosen GourceCameraMode into a shot
+// (centre + zoom). The engine eases towards that shot unless the user has
+// taken over with pan/zoom. Scripts are plain JSON so a camera path can be
+// saved with a view and replayed for recordings.
+
+import { z } from 'zod';
+import type {
+  GourceCameraKeyframe,
+  GourceCameraMode,
+  GourceCameraScript,
+  GourceContributor,
+  GourceNode,
+} from '@/lib/types';
+
+export interface CameraShot {
+  x: number;
+  y: number;
+  zoom: number;
+  /** Jump straight there instead of easing (scripts already ease) */
+  cut?: boolean;
+}
+
+/** What the director can see of the scene. */
+export interface CameraScene {
+  nodes: Map<string, GourceNode>;
+  contributors: Map<string, GourceContributor>;
+  simulationTime: number;
+  viewWidth: number;
+  viewHeight: number;
+}
+
+/** Commits that count as "current" activity */
+const ACTIVITY_WINDOW = 60;
+
+/** A new subject must lead the current one by this factor before the camera moves */
+const SWITCH_MARGIN = 1.5;
+
+const MIN_ZOOM = 0.05;
+const MAX_ZOOM = 4;
+
+function clampZoom(zoom: number): number {
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+}
+
+function parentDirectory(path: string): string | null {
+  const slash = path.lastIndexOf('/');
+  return slash > 0 ? path.slice(0, slash) : null;
+}
+
+export class CameraDirector {
+  private recent: { contributorId: string; directories: string[] }[] = [];
+  private contributorSubject: string | null = null;
+  private directorySubject: string | null = null;
+
+  /** Record a commit as it is played. */
+  noteCommit(contributorId: string, paths: string[]): void {
+    const directories = new Set<string>();
+    for (const path of paths) {
+      const dir = parentDirectory(path);
+      if (dir) directories.add(dir);
+    }
+    this.recent.push({ contributorId, directories: Array.from(directories) });
+    if (this.recent.length > ACTIVITY_WINDOW) this.recent.shift();
+  }
+
+  /** Forget recent activity, e.g. after a seek. */
+  reset(): void {
+    this.recent = [];
+    this.contributorSubject = null;
+    this.directorySubject = null;
+  }
+
+  /** The shot for `mode`, or null to leave the camera where it is. */
+  frame(mode: GourceCameraMode, script: GourceCameraScript | null, scene: CameraScene): CameraShot | null {
+    switch (mode) {
+      case 'follow-contributor':
+        return this.frameContributor(scene) ?? this.frameRecentActivity(scene);
+      case 'active-directory':
+        return this.frameDirectory(scene) ?? this.frameRecentActivity(scene);
+      case 'overview':
+        return this.frameOverview(scene);
+      case 'script':
+        return (script && sampleCameraScript(script, scene)) ?? this.frameRecentActivity(scene);
+      case 'auto':
+      default:
+        return this.frameRecentActivity(scene);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Shots
+  // ---------------------------------------------------------------------------
+
+  /** Centroid of recently modified files, zoomed out as the tree grows. */
+  private frameRecentActivity(scene: CameraScene): CameraShot | null {
+    let sumX = 0;
+    let sumY = 0;
+    let totalWeight = 0;
+
+    scene.nodes.forEach((node) => {
+      if (node.opacity > 0.3 && !node.isDirectory) {
+        const recency = scene.simulationTime - node.lastModified;
+        if (recency < 15000) {
+          const weight = Math.max(0.1, 1 - recency / 15000);
+          sumX += node.x * weight;
+          sumY += node.y * weight;
+          totalWeight += weight;
+        }
+      }
+    });
+
+    if (totalWeight === 0) return null;
+
+    const nodeCount = scene.nodes.size;
+    return {
+      x: sumX / totalWeight,
+      y: sumY / totalWeight,
+      zoom: nodeCount > 500 ? Math.max(0.4, 1 - (nodeCount - 500) / 5000) : 1,
+    };
+  }
+
+  private frameContributor(scene: CameraScene): CameraShot | null {
+    const counts = new Map<string, number>();
+    for (const commit of this.recent) {
+      counts.set(commit.contributorId, (counts.get(commit.contributorId) ?? 0) + 1);
+    }
+    this.contributorSubject = pickSubject(counts, this.contributorSubject);
+
+    const contributor = this.contributorSubject ? scene.contributors.get(this.contributorSubject) : undefined;
+    if (!contributor || !contributor.isVisible) return null;
+    return { x: contributor.targetX, y: contributor.targetY, zoom: 1.4 };
+  }
+
+  private frameDirectory(scene: CameraScene): CameraShot | null {
+    const counts = new Map<string, number>();
+    for (const commit of this.recent) {
+      for (const dir of commit.directories) {
+        counts.set(dir, (counts.get(dir) ?? 0) + 1);
+      }
+    }
+    this.directorySubject = pickSubject(counts, this.directorySubject);
+
+    const dir = this.directorySubject ? scene.nodes.get(this.directorySubject) : undefined;
+    if (!dir) return null;
+
+    // Fit the directory's visible subtree
+    const prefix = `${dir.path}/`;
+    let radius = 0;
+    scene.nodes.forEach((node) => {
+      if (node.opacity > 0.05 && node.path.startsWith(prefix)) {
+        radius = Math.max(radius, Math.hypot(node.x - dir.x, node.y - dir.y));
+      }
+    });
+    const fit = (Math.min(scene.viewWidth, scene.viewHeight) * 0.4) / Math.max(radius, 60);
+    return { x: dir.x, y: dir.y, zoom: Math.min(2.5, Math.max(0.3, fit)) };
+  }
+
+  /** Everything on screen, with a margin. */
+  private frameOverview(scene: CameraScene): CameraShot | null {
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+
+    scene.nodes.forEach((node) => {
+      if (node.opacity <= 0.05) return;
+      minX = Math.min(minX, node.x);
+      minY = Math.min(minY, node.y);
+      maxX = Math.max(maxX, node.x);
+      maxY = Math.max(maxY, node.y);
+    });
+
+    if (minX > maxX) return null;
+
+    const width = Math.max(maxX - minX, 200);
+    const height = Math.max(maxY - minY, 200);
+    return {
+      x: (minX + maxX) / 2,
+      y: (minY + maxY) / 2,
+      zoom: clampZoom(Math.min(scene.viewWidth / width, scene.viewHeight / height) * 0.85),
+    };
+  }
+}
+
+/** Keep the current subject unless another clearly overtakes it. */
+function pickSubject(counts: Map<string, number>, current: string | null): string | null {
+  let leader: string | null = null;
+  let leaderCount = 0;
+  counts.forEach((count, id) => {
+    if (count > leaderCount) {
+      leader = id;
+      leaderCount = count;
+    }
+  });
+
+  const currentCount = current ? counts.get(current) ?? 0 : 0;
+  if (current && currentCount > 0 && leaderCount < currentCount * SWITCH_MARGIN) return current;
+  return leader;
+}
+
+// =============================================================================
+// SCRIPTS
+// =============================================================================
+
+function resolveKeyframe(
+  keyframe: GourceCameraKeyframe,
+  nodes: Map<string, GourceNode>,
+): { x: number; y: number } | null {
+  const node = keyframe.targetPath ? nodes.get(keyframe.targetPath) : undefined;
+  if (node) return { x: node.x, y: node.y };
+  if (keyframe.x !== undefined && keyframe.y !== undefined) return { x: keyframe.x, y: keyframe.y };
+  return null;
+}
+
+function smoothstep(t: number): number {
+  return t * t * (3 - 2 * t);
+}
+
+/**
+ * Where the script puts the camera at the scene's simulation time: eased
+ * between the surrounding keyframes, held at either end. Zoom is interpolated
+ * geometrically so zooming in and out feel equally fast.
+ */
+export function sampleCameraScript(script: GourceCameraScript, scene: CameraScene): CameraShot | null {
+  const frames = script.keyframes;
+  if (frames.length === 0) return null;
+
+  const time = scene.simulationTime;
+  let next = frames.findIndex((k) => k.time > time);
+  if (next === -1) next = frames.length;
+
+  const a = frames[Math.max(0, next - 1)];
+  const b = frames[Math.min(frames.length - 1, next)];
+  const posA = resolveKeyframe(a, scene.nodes);
+  const posB = resolveKeyframe(b, scene.nodes);
+  if (!posA || !posB) {
+    const pos = posA ?? posB;
+    const zoom = posA ? a.zoom : b.zoom;
+    return pos ? { ...pos, zoom: clampZoom(zoom), cut: true } : null;
+  }
+
+  const t = a === b || b.time === a.time ? 0 : smoothstep((time - a.time) / (b.time - a.time));
+  return {
+    x: posA.x + (posB.x - posA.x) * t,
+    y: posA.y + (posB.y - posA.y) * t,
+    zoom: clampZoom(Math.exp(Math.log(a.zoom) + (Math.log(b.zoom) - Math.log(a.zoom)) * t)),
+    cut: true,
+  };
+}
+
+/** Insert a keyframe in time order, replacing one at the same time. */
+export function addCameraKeyframe(
+  script: GourceCameraScript | null,
+  keyframe: GourceCameraKeyframe,
+): GourceCameraScript {
+  const keyframes = (script?.keyframes ?? []).filter((k) => k.time !== keyframe.time);
+  keyframes.push(keyframe);
+  keyframes.sort((a, b) => a.time - b.time);
+  return { version: 1, keyframes };
+}
+
+/** Scripts come from files and shared links; more keyframes than this is not a real tour. */
+const MAX_KEYFRAMES = 500;
+
+const keyframeSchema = z
+  .object({
+    // Epoch milliseconds, or any date string Date.parse understands
+    time: z.union([
+      z.number().finite(),
+      z.string().transform((value, ctx) => {
+        const ms = Date.parse(value);
+        if (Number.isNaN(ms)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `"${value}" is not a date` });
+          return z.NEVER;
+        }
+        return ms;
+      }),
+    ]),
+    x: z.number().finite().optional(),
+    y: z.number().finite().optional(),
+    targetPath: z.string().min(1).optional(),
+    zoom: z.number().positive().finite(),
+  })
+  .refine((k) => k.targetPath !== undefined || (k.x !== undefined && k.y !== undefined), {
+    message: 'A keyframe needs a targetPath or both x and y',
+  });
+
+export const cameraScriptSchema = z.object({
+  version: z.literal(1),
+  keyframes: z
+    .array(keyframeSchema)
+    .max(MAX_KEYFRAMES, `A camera script can have at most ${MAX_KEYFRAMES} keyframes`),
+});
+
+export type ParseCameraScriptResult =
+  | { success: true; script: GourceCameraScript }
+  | { success: false; error: string };
+
+/** Validate a camera script loaded from JSON. */
+export function parseCameraScript(json: string): ParseCameraScriptResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { success: false, error: 'The file is not valid JSON.' };
+  }
+
+  const parsed = cameraScriptSchema.safeParse(data);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const where = issue.path.length > 0 ? ` at ${issue.path.join('.')}` : '';
+    return { success: false, error: `Not a camera script: ${issue.message}${where}.` };
+  }
+
+  const keyframes = [...parsed.data.keyframes].sort((a, b) => a.time - b.time);
+  return { success: true, script: { version: 1, keyframes } };
+}
+
+export function serializeCameraScript(script: GourceCameraScript): string {
+  return `${JSON.stringify(script, null, 2)}\n`;
+}
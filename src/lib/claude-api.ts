@@ -12,157 +12,27 @@ import type {
   Repository,
   CommitData,
 } from '@/lib/types';
+import {
+  ClaudeApiError,
+  clampOutputTokens,
+  getLlmProvider,
+  inputTokenBudget,
+} from '@/lib/llm-provider';
 
-// =============================================================================
-// ERROR TYPES
-// =============================================================================
-
-export class ClaudeApiError extends Error {
-  code: string;
-  status: number;
-  retryAfter: number | null;
-  isRetryable: boolean;
-
-  constructor(
-    message: string,
-    code: string,
-    status: number,
-    retryAfter: number | null = null,
-    isRetryable: boolean = false
-  ) {
-    super(message);
-    this.name = 'ClaudeApiError';
-    this.code = code;
-    this.status = status;
-    this.retryAfter = retryAfter;
-    this.isRetryable = isRetryable;
-  }
-}
+export { ClaudeApiError };
 
 // =============================================================================
 // CONSTANTS
 // =============================================================================
 
+// Requested from Anthropic; a local provider substitutes its own model
 const CLAUDE_MODEL = 'claude-opus-4-6';
-const MAX_INPUT_TOKENS_SAFETY = 180000; // Leave headroom below the 200k context
 const MAX_OUTPUT_TOKENS = 4096;
+const SUMMARY_OUTPUT_TOKENS = 1024;
 const BATCH_SIZE_COMMITS = 100;
 const MAX_SUMMARY_CHARS_PER_BATCH = 2000;
 const MAX_RETRIES = 3;
 const RETRY_DELAY_BASE_MS = 1000;
-const API_TIMEOUT_MS = 300_000; // 5 minutes — matches OpenDev
-
-// =============================================================================
-// NATIVE HTTP — bypass Next.js fetch patching which breaks OAuth tokens
-// =============================================================================
-
-// Next.js globally patches `fetch` (and even undici) with caching/revalidation
-// logic that corrupts Authorization headers for OAuth bearer tokens.
-// We use Node's built-in https module to make Anthropic API calls directly.
-import https from 'https';
-
-function httpsRequest(
-  url: string,
-  options: { method: string; headers: Record<string, string>; body: string; timeout: number }
-): Promise<{ status: number; headers: Record<string, string>; body: string }> {
-  return new Promise((resolve, reject) => {
-    const parsed = new URL(url);
-    const req = https.request(
-      {
-        hostname: parsed.hostname,
-        path: parsed.pathname,
-        method: options.method,
-        headers: {
-          ...options.headers,
-          'content-length': Buffer.byteLength(options.body).toString(),
-        },
-        timeout: options.timeout,
-      },
-      (res) => {
-        const chunks: Buffer[] = [];
-        res.on('data', (chunk: Buffer) => chunks.push(chunk));
-        res.on('end', () => {
-          const responseHeaders: Record<string, string> = {};
-          for (const [key, val] of Object.entries(res.headers)) {
-            if (typeof val === 'string') responseHeaders[key] = val;
-          }
-          resolve({
-            status: res.statusCode || 500,
-            headers: responseHeaders,
-            body: Buffer.concat(chunks).toString('utf-8'),
-          });
-        });
-      }
-    );
-    req.on('error', reject);
-    req.on('timeout', () => {
-      req.destroy();
-      reject(new Error('Request timed out'));
-    });
-    req.write(options.body);
-    req.end();
-  });
-}
-
-/**
- * Streaming HTTPS request that returns a readable stream.
- */
-function httpsRequestStream(
-  url: string,
-  options: { method: string; headers: Record<string, string>; body: string; timeout: number }
-): Promise<{ status: number; headers: Record<string, string>; stream: NodeJS.ReadableStream }> {
-  return new Promise((resolve, reject) => {
-    const parsed = new URL(url);
-    const req = https.request(
-      {
-        hostname: parsed.hostname,
-        path: parsed.pathname,
-        method: options.method,
-        headers: {
-          ...options.headers,
-          'content-length': Buffer.byteLength(options.body).toString(),
-        },
-        timeout: options.timeout,
-      },
-      (res) => {
-        const responseHeaders: Record<string, string> = {};
-        for (const [key, val] of Object.entries(res.headers)) {
-          if (typeof val === 'string') responseHeaders[key] = val;
-        }
-
-        // For error responses, read the full body
-        if (res.statusCode && res.statusCode >= 400) {
-          const chunks: Buffer[] = [];
-          res.on('data', (chunk: Buffer) => chunks.push(chunk));
-          res.on('end', () => {
-            resolve({
-              status: res.statusCode || 500,
-              headers: responseHeaders,
-              stream: res,
-            });
-            // Attach the body for error reading
-            (res as NodeJS.ReadableStream & { _errorBody?: string })._errorBody =
-              Buffer.concat(chunks).toString('utf-8');
-          });
-          return;
-        }
-
-        resolve({
-          status: res.statusCode || 200,
-          headers: responseHeaders,
-          stream: res,
-        });
-      }
-    );
-    req.on('error', reject);
-    req.on('timeout', () => {
-      req.destroy();
-      reject(new Error('Request timed out'));
-    });
-    req.write(options.body);
-    req.end();
-  });
-}
 
 // =============================================================================
 // INTERNAL HELPERS
@@ -183,106 +53,50 @@ async function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+/** Prompt tokens available to a story prompt on the configured provider. */
+function storyInputBudget(): number {
+  return inputTokenBudget(getLlmProvider(), MAX_OUTPUT_TOKENS);
+}
+
+/** Throws unless the token may use the configured provider. */
+function requireToken(claudeToken: string): void {
+  if (!getLlmProvider().authorize(claudeToken)) {
+    throw new ClaudeApiError(
+      'A valid Claude API token (or the server\'s LLM access key) is required',
+      'TOKEN_MISSING',
+      401,
+      null,
+      false
+    );
+  }
+}
+
+/** The request as the configured provider will run it: its model, its output ceiling. */
+function prepareRequest(request: ClaudeApiRequest): ClaudeApiRequest {
+  const provider = getLlmProvider();
+  return {
+    ...request,
+    model: provider.resolveModel(request.model),
+    maxTokens: clampOutputTokens(provider, request.maxTokens),
+  };
+}
+
 /**
- * Call Claude Messages API — mirrors OpenDev's AnthropicProvider.chatOnce exactly.
- * OAuth tokens (sk-ant-oat*) use Bearer + beta flag; API keys use x-api-key.
+ * Send a prompt to the configured provider, retrying rate limits, overloads
+ * and server errors with backoff. Anthropic OAuth tokens (sk-ant-oat*) and API
+ * keys both work; local providers ignore `token`.
  */
 async function callClaudeApi(
   token: string,
   request: ClaudeApiRequest
 ): Promise<ClaudeApiResponse> {
+  const provider = getLlmProvider();
+  const prepared = prepareRequest(request);
   let lastError: Error | null = null;
 
   for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
     try {
-      // Build body exactly like OpenDev: conditionally add system & temperature
-      const body: Record<string, unknown> = {
-        model: request.model,
-        max_tokens: request.maxTokens,
-        messages: [{ role: 'user', content: request.userMessage }],
-      };
-      if (request.systemPrompt) body.system = request.systemPrompt;
-      if (request.temperature !== undefined) body.temperature = request.temperature;
-
-      // Auth + headers match OpenDev's AnthropicProvider.chatOnce
-      const isOAuth = token.startsWith('sk-ant-oat');
-      const authHeaders: Record<string, string> = isOAuth
-        ? {
-            Authorization: `Bearer ${token}`,
-            'anthropic-beta': 'oauth-2025-04-20',
-          }
-        : { 'x-api-key': token };
-
-      const jsonBody = JSON.stringify(body);
-      const reqHeaders = {
-        ...authHeaders,
-        'anthropic-version': '2023-06-01',
-        'content-type': 'application/json',
-      };
-
-      const response = await httpsRequest('https://api.anthropic.com/v1/messages', {
-        method: 'POST',
-        headers: reqHeaders,
-        body: jsonBody,
-        timeout: API_TIMEOUT_MS,
-      });
-
-      if (response.status >= 400) {
-        const retryAfter = response.headers['retry-after']
-          ? parseInt(response.headers['retry-after'], 10)
-          : null;
-
-        if (response.status === 429) {
-          throw new ClaudeApiError(
-            `Rate limited by Claude API: ${response.body}`,
-            'RATE_LIMITED',
-            429,
-            retryAfter || 30,
-            true
-          );
-        }
-
-        if (response.status === 529) {
-          throw new ClaudeApiError(
-            'Claude API is overloaded. Please try again later.',
-            'OVERLOADED',
-            529,
-            retryAfter || 60,
-            true
-          );
-        }
-
-        if (response.status === 401) {
-          throw new ClaudeApiError(
-            `Invalid or expired Claude API token. Detail: ${response.body}`,
-            'UNAUTHORIZED',
-            401,
-            null,
-            false
-          );
-        }
-
-        throw new ClaudeApiError(
-          `Claude API error (${response.status}): ${response.body}`,
-          'API_ERROR',
-          response.status,
-          null,
-          response.status >= 500
-        );
-      }
-
-      const data = JSON.parse(response.body);
-      const content = data.content?.[0]?.text ?? '';
-
-      return {
-        content,
-        model: data.model || request.model,
-        usage: {
-          inputTokens: data.usage?.input_tokens || 0,
-          outputTokens: data.usage?.output_tokens || 0,
-        },
-        stopReason: data.stop_reason || 'end_turn',
-      };
+      return await provider.complete(token, prepared);
     } catch (error) {
       lastError = error as Error;
 
@@ -314,124 +128,7 @@ async function callClaudeApiStreaming(
   request: ClaudeApiRequest,
   onChunk: (chunk: ClaudeStreamChunk) => void
 ): Promise<string> {
-  // Build body matching OpenDev pattern + stream flag
-  const body: Record<string, unknown> = {
-    model: request.model,
-    max_tokens: request.maxTokens,
-    messages: [{ role: 'user', content: request.userMessage }],
-    stream: true,
-  };
-  if (request.systemPrompt) body.system = request.systemPrompt;
-  if (request.temperature !== undefined) body.temperature = request.temperature;
-
-  const isOAuth = token.startsWith('sk-ant-oat');
-  const authHeaders: Record<string, string> = isOAuth
-    ? {
-        Authorization: `Bearer ${token}`,
-        'anthropic-beta': 'oauth-2025-04-20',
-      }
-    : { 'x-api-key': token };
-
-  const jsonBody = JSON.stringify(body);
-  const streamResponse = await httpsRequestStream('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      ...authHeaders,
-      'anthropic-version': '2023-06-01',
-      'content-type': 'application/json',
-    },
-    body: jsonBody,
-    timeout: API_TIMEOUT_MS,
-  });
-
-  if (streamResponse.status >= 400) {
-    // Read error body from stream
-    const errorBody = await new Promise<string>((resolve) => {
-      const chunks: Buffer[] = [];
-      streamResponse.stream.on('data', (chunk: Buffer) => chunks.push(chunk));
-      streamResponse.stream.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
-      // If already consumed (by httpsRequestStream error path), use _errorBody
-      const cached = (streamResponse.stream as NodeJS.ReadableStream & { _errorBody?: string })._errorBody;
-      if (cached) resolve(cached);
-    });
-
-    const retryAfter = streamResponse.headers['retry-after']
-      ? parseInt(streamResponse.headers['retry-after'], 10)
-      : null;
-
-    if (streamResponse.status === 429) {
-      throw new ClaudeApiError(
-        `Rate limited by Claude API: ${errorBody}`,
-        'RATE_LIMITED',
-        429,
-        retryAfter || 30,
-        true
-      );
-    }
-
-    if (streamResponse.status === 401) {
-      throw new ClaudeApiError(
-        `Invalid or expired Claude API token. Detail: ${errorBody}`,
-        'UNAUTHORIZED',
-        401,
-        null,
-        false
-      );
-    }
-
-    throw new ClaudeApiError(
-      `Claude API streaming error (${streamResponse.status}): ${errorBody}`,
-      'API_ERROR',
-      streamResponse.status,
-      null,
-      streamResponse.status >= 500
-    );
-  }
-
-  let fullContent = '';
-  let buffer = '';
-
-  return new Promise<string>((resolve, reject) => {
-    streamResponse.stream.on('data', (chunk: Buffer) => {
-      buffer += chunk.toString('utf-8');
-      const lines = buffer.split('\n');
-      buffer = lines.pop() || '';
-
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const jsonStr = line.slice(6).trim();
-          if (jsonStr === '[DONE]') {
-            onChunk({ type: 'message_stop', isFinal: true });
-            continue;
-          }
-
-          try {
-            const event = JSON.parse(jsonStr);
-
-            if (event.type === 'content_block_delta' && event.delta?.text) {
-              fullContent += event.delta.text;
-              onChunk({
-                type: 'content_block_delta',
-                text: event.delta.text,
-                isFinal: false,
-              });
-            } else if (event.type === 'message_start') {
-              onChunk({ type: 'message_start', isFinal: false });
-            } else if (event.type === 'message_delta') {
-              onChunk({ type: 'message_delta', isFinal: false });
-            } else if (event.type === 'message_stop') {
-              onChunk({ type: 'message_stop', isFinal: true });
-            }
-          } catch {
-            // Skip invalid JSON lines in SSE stream
-          }
-        }
-      }
-    });
-
-    streamResponse.stream.on('end', () => resolve(fullContent));
-    streamResponse.stream.on('error', (err: Error) => reject(err));
-  });
+  return getLlmProvider().stream(token, prepareRequest(request), onChunk);
 }
 
 // =============================================================================
@@ -595,52 +292,104 @@ function formatBatchesForPrompt(batches: CommitSummaryBatch[]): string {
 // PROGRESSIVE SUMMARIZATION
 // =============================================================================
 
+const SUMMARIZER_SYSTEM_PROMPT = `You are a technical summarizer. Condense the following development activity log into a concise summary (max 500 words). Focus on: major features built, significant refactors, bug fix campaigns, key contributors, and development velocity trends. Preserve specific dates, file names, and technical details that tell the story of this project's evolution.`;
+/** Sections summarized together at most, so long histories keep their detail */
+const META_GROUP_SIZE = 10;
+/** Rounds of summarizing summaries before falling back to truncation */
+const MAX_CONDENSE_ROUNDS = 3;
+
+/**
+ * Pack consecutive sections into groups of at most `maxTokens` and
+ * META_GROUP_SIZE sections. A section too big on its own is truncated.
+ */
+function packSections(sections: string[], maxTokens: number): string[][] {
+  const groups: string[][] = [];
+  let group: string[] = [];
+  let groupTokens = 0;
+
+  for (const section of sections) {
+    const fitted = truncateToTokenLimit(section, maxTokens);
+    const tokens = estimateTokens(fitted) + 1;
+    if (group.length > 0 && (groupTokens + tokens > maxTokens || group.length >= META_GROUP_SIZE)) {
+      groups.push(group);
+      group = [];
+      groupTokens = 0;
+    }
+    group.push(fitted);
+    groupTokens += tokens;
+  }
+  if (group.length > 0) groups.push(group);
+  return groups;
+}
+
+/**
+ * Shrink chronologically ordered `sections` to about `targetTokens` by
+ * summarizing runs of them — each run sized to the provider's context window —
+ * and repeating on the summaries until they fit.
+ */
+async function condenseSections(
+  token: string,
+  sections: string[],
+  targetTokens: number,
+  subject: string
+): Promise<string> {
+  const overhead = estimateTokens(SUMMARIZER_SYSTEM_PROMPT) + 100;
+  const chunkTokens = inputTokenBudget(getLlmProvider(), SUMMARY_OUTPUT_TOKENS) - overhead;
+  let current = sections;
+
+  for (let round = 0; round < MAX_CONDENSE_ROUNDS; round++) {
+    const joined = current.join('\n\n');
+    if (estimateTokens(joined) <= targetTokens) return joined;
+
+    const groups = packSections(current, chunkTokens);
+    const summaries: string[] = [];
+    for (let groupIdx = 0; groupIdx < groups.length; groupIdx++) {
+      const response = await callClaudeApi(token, {
+        model: CLAUDE_MODEL,
+        maxTokens: SUMMARY_OUTPUT_TOKENS,
+        systemPrompt: SUMMARIZER_SYSTEM_PROMPT,
+        userMessage: `Summarize this development activity for ${subject} (period group ${groupIdx + 1}/${groups.length}):\n\n${groups[groupIdx].join('\n\n')}`,
+        temperature: 0.3,
+        stream: false,
+      });
+      summaries.push(`=== Period ${groupIdx + 1}/${groups.length} ===\n${response.content}`);
+    }
+    current = summaries;
+  }
+
+  return truncateToTokenLimit(current.join('\n\n'), targetTokens);
+}
+
 /**
  * For very large repositories, we do progressive summarization:
  * 1. Batch commits into groups of ~100
  * 2. Summarize each batch into a CommitSummaryBatch
- * 3. If total batches > 20, further summarize batches into "meta-batches"
- * 4. Send the final summarized text to Claude
+ * 3. If the batches don't fit `targetTokens`, summarize them into "meta-batches"
+ *    with the model, sized to the provider's context window
+ * 4. Send the final summarized text to the model
  */
 async function progressivelySummarizeBatches(
   token: string,
   batches: CommitSummaryBatch[],
-  repoName: string
+  repoName: string,
+  targetTokens: number
 ): Promise<string> {
-  // If batches fit within token limits, just format them directly
-  const directFormat = formatBatchesForPrompt(batches);
-  if (estimateTokens(directFormat) < MAX_INPUT_TOKENS_SAFETY * 0.6) {
-    return directFormat;
-  }
-
-  // Need progressive summarization: group batches into meta-groups
-  const META_GROUP_SIZE = 10;
-  const metaGroups: CommitSummaryBatch[][] = [];
-  for (let i = 0; i < batches.length; i += META_GROUP_SIZE) {
-    metaGroups.push(batches.slice(i, i + META_GROUP_SIZE));
-  }
-
-  const metaSummaries: string[] = [];
-
-  for (let groupIdx = 0; groupIdx < metaGroups.length; groupIdx++) {
-    const group = metaGroups[groupIdx];
-    const groupText = formatBatchesForPrompt(group);
-
-    const response = await callClaudeApi(token, {
-      model: CLAUDE_MODEL,
-      maxTokens: 1024,
-      systemPrompt: `You are a technical summarizer. Condense the following development activity log into a concise summary (max 500 words). Focus on: major features built, significant refactors, bug fix campaigns, key contributors, and development velocity trends. Preserve specific dates, file names, and technical details that tell the story of this project's evolution.`,
-      userMessage: `Summarize this development activity for "${repoName}" (period group ${groupIdx + 1}/${metaGroups.length}):\n\n${groupText}`,
-      temperature: 0.3,
-      stream: false,
-    });
-
-    metaSummaries.push(
-      `=== Period ${groupIdx + 1}/${metaGroups.length} ===\n${response.content}`
-    );
-  }
+  // One paragraph per batch, numbered across the whole history
+  const sections = formatBatchesForPrompt(batches).split('\n\n');
+  return condenseSections(token, sections, targetTokens, `"${repoName}"`);
+}
 
-  return metaSummaries.join('\n\n');
+/**
+ * Condense free-form text (paragraphs separated by blank lines) to about
+ * `targetTokens`, for prompts larger than the provider's context window.
+ */
+export async function condenseText(
+  token: string,
+  text: string,
+  targetTokens: number,
+  subject: string
+): Promise<string> {
+  return condenseSections(token, text.split(/\n{2,}/), targetTokens, subject);
 }
 
 // =============================================================================
@@ -672,34 +421,23 @@ export async function generateRepoStory(
   commitSummary: string | CommitSummaryBatch[],
   repoMeta: RepoMeta
 ): Promise<GeneratedStory> {
-  if (!claudeToken) {
-    throw new ClaudeApiError(
-      'Claude API token is required',
-      'TOKEN_MISSING',
-      401,
-      null,
-      false
-    );
-  }
+  requireToken(claudeToken);
 
   // If we received raw batches, format them
   let summaryText: string;
   if (Array.isArray(commitSummary)) {
-    if (commitSummary.length > 20) {
-      summaryText = await progressivelySummarizeBatches(
-        claudeToken,
-        commitSummary,
-        repoMeta.name
-      );
-    } else {
-      summaryText = formatBatchesForPrompt(commitSummary);
-    }
+    summaryText = await progressivelySummarizeBatches(
+      claudeToken,
+      commitSummary,
+      repoMeta.name,
+      Math.floor(storyInputBudget() * 0.6)
+    );
   } else {
     summaryText = commitSummary;
   }
 
   // Ensure we don't exceed token limits
-  summaryText = truncateToTokenLimit(summaryText, Math.floor(MAX_INPUT_TOKENS_SAFETY * 0.7));
+  summaryText = truncateToTokenLimit(summaryText, Math.floor(storyInputBudget() * 0.7));
 
   const languageList = Object.entries(repoMeta.languages || {})
     .sort((a, b) => b[1] - a[1])
@@ -783,32 +521,25 @@ export async function generateUnifiedStory(
     summary: string | CommitSummaryBatch[];
   }>
 ): Promise<GeneratedStory> {
-  if (!claudeToken) {
-    throw new ClaudeApiError(
-      'Claude API token is required',
-      'TOKEN_MISSING',
-      401,
-      null,
-      false
-    );
-  }
+  requireToken(claudeToken);
 
   // Build combined summary, respecting token limits
   const repoSections: string[] = [];
   let totalTokenEstimate = 0;
   const tokenBudgetPerRepo = Math.floor(
-    (MAX_INPUT_TOKENS_SAFETY * 0.6) / allRepoSummaries.length
+    (storyInputBudget() * 0.6) / allRepoSummaries.length
   );
 
   for (const { repoMeta, summary } of allRepoSummaries) {
     let summaryText: string;
     if (Array.isArray(summary)) {
-      if (summary.length > 10) {
-        // For unified story, be more aggressive with summarization
-        summaryText = await progressivelySummarizeBatches(claudeToken, summary, repoMeta.name);
-      } else {
-        summaryText = formatBatchesForPrompt(summary);
-      }
+      // For unified story, be more aggressive with summarization
+      summaryText = await progressivelySummarizeBatches(
+        claudeToken,
+        summary,
+        repoMeta.name,
+        tokenBudgetPerRepo
+      );
     } else {
       summaryText = summary;
     }
@@ -906,15 +637,7 @@ export async function generateRepoSummary(
   repoId: string,
   repoName: string
 ): Promise<CommitSummaryBatch[]> {
-  if (!claudeToken) {
-    throw new ClaudeApiError(
-      'Claude API token is required',
-      'TOKEN_MISSING',
-      401,
-      null,
-      false
-    );
-  }
+  requireToken(claudeToken);
 
   // Create batches using local summarization (no AI needed for this step)
   const batches = batchCommits(commits, repoId, repoName, BATCH_SIZE_COMMITS);
@@ -935,15 +658,7 @@ export async function generateSuperlatives(
   developerPersonality: string;
   yearInReview: string;
 }> {
-  if (!claudeToken) {
-    throw new ClaudeApiError(
-      'Claude API token is required',
-      'TOKEN_MISSING',
-      401,
-      null,
-      false
-    );
-  }
+  requireToken(claudeToken);
 
   const repoList = repositories
     .map(
@@ -1051,32 +766,21 @@ export async function generateRepoStoryStreaming(
   repoMeta: RepoMeta,
   onChunk: (chunk: ClaudeStreamChunk) => void
 ): Promise<GeneratedStory> {
-  if (!claudeToken) {
-    throw new ClaudeApiError(
-      'Claude API token is required',
-      'TOKEN_MISSING',
-      401,
-      null,
-      false
-    );
-  }
+  requireToken(claudeToken);
 
   let summaryText: string;
   if (Array.isArray(commitSummary)) {
-    if (commitSummary.length > 20) {
-      summaryText = await progressivelySummarizeBatches(
-        claudeToken,
-        commitSummary,
-        repoMeta.name
-      );
-    } else {
-      summaryText = formatBatchesForPrompt(commitSummary);
-    }
+    summaryText = await progressivelySummarizeBatches(
+      claudeToken,
+      commitSummary,
+      repoMeta.name,
+      Math.floor(storyInputBudget() * 0.6)
+    );
   } else {
     summaryText = commitSummary;
   }
 
-  summaryText = truncateToTokenLimit(summaryText, Math.floor(MAX_INPUT_TOKENS_SAFETY * 0.7));
+  summaryText = truncateToTokenLimit(summaryText, Math.floor(storyInputBudget() * 0.7));
 
   const languageList = Object.entries(repoMeta.languages || {})
     .sort((a, b) => b[1] - a[1])
@@ -0,0 +1,329 @@
+import type {
+  CommitData,
+  CommitFile,
+  Contributor,
+  DayOfWeek,
+  FileCategory,
+  RemoteRepositorySource,
+  Repository,
+} from '@/lib/types';
+import { RepositorySource } from '@/lib/types';
+import { getIdentityId } from '@/lib/identity-resolver';
+
+// =============================================================================
+// Provider-neutral commit normalization helpers.
+//
+// Shared by the GitHub, GitLab and Gitea clients and the local `git log`
+// importer so every source produces identical CommitFile entries, derived
+// date fields and contributor records.
+// Pure functions only — safe to import from client components.
+// =============================================================================
+
+// =============================================================================
+// FILE HELPERS
+// =============================================================================
+
+/** Lowercased extension without the dot, or '' when there is none. */
+export function getFileExtension(filename: string): string {
+  const parts = filename.split('.');
+  return parts.length > 1 ? parts[parts.length - 1].toLowerCase() : '';
+}
+
+/** Coarse file category used by analytics and the Gource legend. */
+export function getFileCategory(extension: string): FileCategory {
+  const categories: Record<string, FileCategory> = {
+    ts: 'code' as FileCategory,
+    tsx: 'code' as FileCategory,
+    js: 'code' as FileCategory,
+    jsx: 'code' as FileCategory,
+    py: 'code' as FileCategory,
+    java: 'code' as FileCategory,
+    go: 'code' as FileCategory,
+    rs: 'code' as FileCategory,
+    cpp: 'code' as FileCategory,
+    c: 'code' as FileCategory,
+    cs: 'code' as FileCategory,
+    rb: 'code' as FileCategory,
+    php: 'code' as FileCategory,
+    swift: 'code' as FileCategory,
+    kt: 'code' as FileCategory,
+    dart: 'code' as FileCategory,
+    scala: 'code' as FileCategory,
+    html: 'markup' as FileCategory,
+    htm: 'markup' as FileCategory,
+    xml: 'markup' as FileCategory,
+    svg: 'markup' as FileCategory,
+    vue: 'markup' as FileCategory,
+    svelte: 'markup' as FileCategory,
+    md: 'documentation' as FileCategory,
+    mdx: 'documentation' as FileCategory,
+    txt: 'documentation' as FileCategory,
+    rst: 'documentation' as FileCategory,
+    json: 'config' as FileCategory,
+    yaml: 'config' as FileCategory,
+    yml: 'config' as FileCategory,
+    toml: 'config' as FileCategory,
+    ini: 'config' as FileCategory,
+    env: 'config' as FileCategory,
+    css: 'asset' as FileCategory,
+    scss: 'asset' as FileCategory,
+    sass: 'asset' as FileCategory,
+    less: 'asset' as FileCategory,
+    png: 'asset' as FileCategory,
+    jpg: 'asset' as FileCategory,
+    jpeg: 'asset' as FileCategory,
+    gif: 'asset' as FileCategory,
+    ico: 'asset' as FileCategory,
+    test: 'test' as FileCategory,
+    spec: 'test' as FileCategory,
+    Makefile: 'build' as FileCategory,
+    Dockerfile: 'build' as FileCategory,
+    csv: 'data' as FileCategory,
+    tsv: 'data' as FileCategory,
+  };
+
+  return categories[extension] ?? ('other' as FileCategory);
+}
+
+/** Parent directory of a repo-relative path, or '' for root files. */
+export function getDirectoryPath(filePath: string): string {
+  const parts = filePath.split('/');
+  return parts.length > 1 ? parts.slice(0, -1).join('/') : '';
+}
+
+/** ISO-8601 week number (1–53) of a date. */
+export function getISOWeekNumber(date: Date): number {
+  const d = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+  const dayNum = d.getUTCDay() || 7;
+  d.setUTCDate(d.getUTCDate() + 4 - dayNum);
+  const yearStart = new Date(Date.UTC(d.getUTCFullYear(), 0, 1));
+  return Math.ceil(((d.getTime() - yearStart.getTime()) / 86400000 + 1) / 7);
+}
+
+// =============================================================================
+// LANGUAGES
+// =============================================================================
+
+/** Map file extensions to their language name for GITHUB_LANGUAGE_COLORS lookup */
+export const EXTENSION_TO_LANGUAGE: Record<string, string> = {
+  ts: 'TypeScript',
+  tsx: 'TypeScript',
+  js: 'JavaScript',
+  jsx: 'JavaScript',
+  mjs: 'JavaScript',
+  cjs: 'JavaScript',
+  py: 'Python',
+  pyw: 'Python',
+  java: 'Java',
+  go: 'Go',
+  rs: 'Rust',
+  cpp: 'C++',
+  cc: 'C++',
+  cxx: 'C++',
+  hpp: 'C++',
+  c: 'C',
+  h: 'C',
+  cs: 'C#',
+  rb: 'Ruby',
+  php: 'PHP',
+  swift: 'Swift',
+  kt: 'Kotlin',
+  kts: 'Kotlin',
+  dart: 'Dart',
+  html: 'HTML',
+  htm: 'HTML',
+  css: 'CSS',
+  scss: 'CSS',
+  sass: 'CSS',
+  less: 'CSS',
+  sh: 'Shell',
+  bash: 'Shell',
+  zsh: 'Shell',
+  vue: 'Vue',
+  svelte: 'Svelte',
+  scala: 'Scala',
+  ex: 'Elixir',
+  exs: 'Elixir',
+  hs: 'Haskell',
+  lua: 'Lua',
+  r: 'R',
+  m: 'MATLAB',
+  pl: 'Perl',
+  pm: 'Perl',
+  zig: 'Zig',
+  nim: 'Nim',
+  ml: 'OCaml',
+  mli: 'OCaml',
+  clj: 'Clojure',
+  cljs: 'Clojure',
+  erl: 'Erlang',
+};
+
+// =============================================================================
+// BUILDERS
+// =============================================================================
+
+/** Raw per-file change as reported by a commit source. */
+export interface RawFileChange {
+  path: string;
+  status: CommitFile['status'];
+  additions: number;
+  deletions: number;
+  /** Defaults to additions + deletions */
+  changes?: number;
+  previousPath?: string | null;
+}
+
+/** Build a CommitFile with derived filename, directory, extension and category. */
+export function buildCommitFile(raw: RawFileChange): CommitFile {
+  const parts = raw.path.split('/');
+  const filename = parts[parts.length - 1];
+  const extension = getFileExtension(filename);
+
+  return {
+    path: raw.path,
+    filename,
+    directory: getDirectoryPath(raw.path),
+    extension,
+    status: raw.status,
+    additions: raw.additions,
+    deletions: raw.deletions,
+    changes: raw.changes ?? raw.additions + raw.deletions,
+    previousPath: raw.previousPath ?? null,
+    category: getFileCategory(extension),
+  };
+}
+
+/** Calendar fields derived from a commit date at a given UTC offset. */
+export type CommitDateFields = Pick<
+  CommitData,
+  'hourOfDay' | 'dayOfWeek' | 'year' | 'month' | 'dayOfMonth' | 'weekOfYear' | 'dateKey'
+>;
+
+/**
+ * Derive the calendar fields stored on every CommitData — at the author's
+ * offset when known, otherwise UTC. Never the runtime's zone, which differs
+ * between API routes and the browser.
+ */
+export function getCommitDateFields(date: Date, offsetMinutes: number | null = null): CommitDateFields {
+  const shifted = new Date(date.getTime() + (offsetMinutes ?? 0) * 60000);
+  const year = shifted.getUTCFullYear();
+  const month = shifted.getUTCMonth() + 1;
+  const dayOfMonth = shifted.getUTCDate();
+
+  return {
+    hourOfDay: shifted.getUTCHours(),
+    dayOfWeek: shifted.getUTCDay() as DayOfWeek,
+    year,
+    month,
+    dayOfMonth,
+    // getISOWeekNumber reads local calendar fields — hand it the same calendar day
+    weekOfYear: getISOWeekNumber(new Date(year, month - 1, dayOfMonth)),
+    dateKey: `${year}-${String(month).padStart(2, '0')}-${String(dayOfMonth).padStart(2, '0')}`,
+  };
+}
+
+// =============================================================================
+// TIME ZONES
+// =============================================================================
+
+/** UTC offset in minutes from an ISO 8601 date ("+02:00", "-0530", "Z"); null when it has none. */
+export function parseTimezoneOffset(value: string): number | null {
+  const match = value.trim().match(/(?:Z|([+-])(\d{2}):?(\d{2}))$/i);
+  if (!match) return null;
+  if (!match[1]) return 0;
+  const minutes = parseInt(match[2], 10) * 60 + parseInt(match[3], 10);
+  return match[1] === '-' ? -minutes : minutes;
+}
+
+/**
+ * Author offset from a raw git commit object ("author Name <email> 1700000000 +0200").
+ * GitHub exposes the raw object for signed commits as the verification payload.
+ */
+export function parseRawCommitOffset(rawCommit: string): number | null {
+  const match = rawCommit.match(/^author .* \d+ ([+-])(\d{2})(\d{2})$/m);
+  if (!match) return null;
+  const minutes = parseInt(match[2], 10) * 60 + parseInt(match[3], 10);
+  return match[1] === '-' ? -minutes : minutes;
+}
+
+/** Format an offset in minutes as "UTC+02:00". */
+export function formatUtcOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `UTC${sign}${String(Math.floor(abs / 60)).padStart(2, '0')}:${String(abs % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Aggregate contributors from commits, keyed by login (or email when the
+ * source has no accounts). Used for providers without a contributor endpoint.
+ */
+export function deriveContributors(
+  commits: CommitData[],
+  repoId: string,
+  colorFor: (id: string) => string
+): Contributor[] {
+  const byId = new Map<string, Contributor>();
+
+  for (const commit of commits) {
+    const id = getIdentityId(commit.author);
+    let contributor = byId.get(id);
+    if (!contributor) {
+      contributor = {
+        id,
+        name: commit.author.name,
+        email: commit.author.email,
+        login: commit.author.login,
+        avatarUrl: commit.author.avatarUrl,
+        totalCommits: 0,
+        totalAdditions: 0,
+        totalDeletions: 0,
+        firstCommitDate: commit.timestamp,
+        lastCommitDate: commit.timestamp,
+        repos: [repoId],
+        color: colorFor(id),
+      };
+      byId.set(id, contributor);
+    }
+
+    contributor.totalCommits += 1;
+    contributor.totalAdditions += commit.additions;
+    contributor.totalDeletions += commit.deletions;
+    if (commit.timestamp < contributor.firstCommitDate) contributor.firstCommitDate = commit.timestamp;
+    if (commit.timestamp > contributor.lastCommitDate) contributor.lastCommitDate = commit.timestamp;
+  }
+
+  return [...byId.values()].sort((a, b) => b.totalCommits - a.totalCommits);
+}
+
+// =============================================================================
+// REPOSITORY HELPERS
+// =============================================================================
+
+/** How API routes address a remote repository: provider plus path segments. */
+export interface ProviderRepoRef {
+  source: RemoteRepositorySource;
+  /** Owner or namespace — GitLab namespaces may contain slashes */
+  owner: string;
+  repo: string;
+}
+
+/**
+ * Split a repository's fullName into the provider reference API routes expect.
+ * Self-hosted fullNames carry a leading host segment that is dropped here.
+ * Returns null for local imports, which have no remote API.
+ */
+export function getProviderRepoRef(repository: Pick<Repository, 'fullName' | 'source'>): ProviderRepoRef | null {
+  const source = repository.source ?? RepositorySource.GITHUB;
+  if (source === RepositorySource.LOCAL) return null;
+
+  const segments = repository.fullName.split('/');
+  const path = source === RepositorySource.GITHUB ? segments : segments.slice(1);
+  if (path.length < 2) return null;
+
+  return {
+    source,
+    owner: path.slice(0, -1).join('/'),
+    repo: path[path.length - 1],
+  };
+}
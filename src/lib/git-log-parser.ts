@@ -0,0 +1,526 @@
+import type {
+  CommitAuthor,
+  CommitData,
+  CommitFile,
+  LocalRepositoryImport,
+  Repository,
+} from '@/lib/types';
+import { RepositorySource } from '@/lib/types';
+import {
+  buildCommitFile,
+  getCommitDateFields,
+  getFileExtension,
+  parseTimezoneOffset,
+  EXTENSION_TO_LANGUAGE,
+} from '@/lib/commit-normalizer';
+
+// =============================================================================
+// Parser for `git log --numstat` text dumps (local repository import).
+//
+// Two input shapes are accepted:
+//   1. The recommended machine format (GIT_LOG_COMMAND below): records start
+//      with \x1e, header fields are separated by \x1f and the raw message ends
+//      with \x1d, so messages may contain anything.
+//   2. Plain `git log --numstat [--summary]` output (the default "medium"
+//      format), for people who already have a dump lying around.
+//
+// Several repositories can be concatenated into one "bundle" by prefixing
+// each with a `# repo: <name>` line.
+// =============================================================================
+
+/** `--format` string understood by parseGitLog. */
+export const GIT_LOG_FORMAT = '%x1e%H%x1f%P%x1f%an%x1f%ae%x1f%aI%x1f%cn%x1f%ce%x1f%cI%x1f%B%x1d';
+
+/** Command users run inside their repository to produce an importable dump. */
+export const GIT_LOG_COMMAND = `git log --numstat --summary --format='${GIT_LOG_FORMAT}' > history.log`;
+
+/** Shell loop producing a bundle of every repository in the current directory. */
+export const GIT_LOG_BUNDLE_COMMAND =
+  `for d in */; do echo "# repo: \${d%/}"; git -C "$d" log --numstat --summary --format='${GIT_LOG_FORMAT}'; done > bundle.log`;
+
+const RECORD_START = '\x1e';
+const FIELD_SEP = '\x1f';
+const MESSAGE_END = '\x1d';
+
+const BUNDLE_MARKER_RE = /^# repo: (.+)$/gm;
+const NUMSTAT_RE = /^(\d+|-)\t(\d+|-)\t(.+)$/;
+const SUMMARY_CREATE_DELETE_RE = /^ (create|delete) mode \d+ (.+)$/;
+const SUMMARY_COPY_RE = /^ copy (.+) \(\d+%\)$/;
+const MEDIUM_COMMIT_RE = /^commit ([0-9a-f]{7,40})(?:\s|$)/;
+const GIT_DEFAULT_DATE_RE = /^\w{3} (\w{3}) (\d{1,2}) (\d{2}):(\d{2}):(\d{2}) (\d{4}) ([+-])(\d{2})(\d{2})$/;
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// =============================================================================
+// INTERMEDIATE SHAPES
+// =============================================================================
+
+interface RawFileEntry {
+  path: string;
+  previousPath: string | null;
+  additions: number;
+  deletions: number;
+  isBinary: boolean;
+  status: CommitFile['status'] | null;
+}
+
+interface RawCommit {
+  sha: string;
+  parents: string[];
+  author: CommitAuthor;
+  committer: CommitAuthor;
+  authorDate: string;
+  message: string;
+  bodyLines: string[];
+}
+
+// =============================================================================
+// PATH HELPERS
+// =============================================================================
+
+/**
+ * Undo git's C-style path quoting (`"dir/na\303\257ve.txt"`), used for paths
+ * with non-ASCII or control characters when core.quotePath is on.
+ */
+export function unquoteGitPath(raw: string): string {
+  if (raw.length < 2 || !raw.startsWith('"') || !raw.endsWith('"')) return raw;
+
+  const inner = raw.slice(1, -1);
+  const bytes: number[] = [];
+  const simpleEscapes: Record<string, number> = {
+    n: 10, t: 9, r: 13, a: 7, b: 8, f: 12, v: 11, '\\': 92, '"': 34,
+  };
+
+  for (let i = 0; i < inner.length; i++) {
+    const ch = inner[i];
+    if (ch !== '\\') {
+      bytes.push(...new TextEncoder().encode(ch));
+      continue;
+    }
+    const next = inner[i + 1];
+    if (next !== undefined && /[0-7]/.test(next)) {
+      bytes.push(parseInt(inner.slice(i + 1, i + 4), 8));
+      i += 3;
+    } else if (next !== undefined && next in simpleEscapes) {
+      bytes.push(simpleEscapes[next]);
+      i += 1;
+    } else {
+      bytes.push(92);
+    }
+  }
+
+  return new TextDecoder().decode(new Uint8Array(bytes));
+}
+
+/** Collapse the empty segments left behind by `{ => dir}` style renames. */
+function normalizeRepoPath(path: string): string {
+  return path.replace(/\/{2,}/g, '/').replace(/^\//, '');
+}
+
+/**
+ * Expand numstat rename notation into old and new paths.
+ *
+ *   src/{old.ts => new.ts}     → src/old.ts, src/new.ts
+ *   {lib => src}/util/x.ts     → lib/util/x.ts, src/util/x.ts
+ *   src/{ => nested}/x.ts      → src/x.ts, src/nested/x.ts
+ *   old/name.ts => new/name.ts → old/name.ts, new/name.ts
+ */
+export function expandRenamePath(raw: string): { path: string; previousPath: string | null } {
+  const braced = raw.match(/^(.*)\{(.*) => (.*)\}(.*)$/);
+  if (braced) {
+    const [, prefix, from, to, suffix] = braced;
+    return {
+      path: normalizeRepoPath(`${prefix}${to}${suffix}`),
+      previousPath: normalizeRepoPath(`${prefix}${from}${suffix}`),
+    };
+  }
+
+  const plain = raw.match(/^(.*) => (.*)$/);
+  if (plain) {
+    return {
+      path: unquoteGitPath(plain[2]),
+      previousPath: unquoteGitPath(plain[1]),
+    };
+  }
+
+  return { path: unquoteGitPath(raw), previousPath: null };
+}
+
+// =============================================================================
+// HEADER PARSING
+// =============================================================================
+
+/**
+ * Parse git's default date format ("Mon Jan 1 12:00:00 2024 +0100") or any
+ * ISO date, keeping the author's UTC offset.
+ */
+function parseGitDate(value: string): { timestampMs: number; offsetMinutes: number | null } {
+  const match = value.trim().match(GIT_DEFAULT_DATE_RE);
+  if (match) {
+    const [, mon, day, hh, mm, ss, year, sign, offH, offM] = match;
+    const month = MONTHS.indexOf(mon);
+    if (month >= 0) {
+      const offsetMinutes = (sign === '-' ? -1 : 1) * (parseInt(offH, 10) * 60 + parseInt(offM, 10));
+      const utc = Date.UTC(
+        parseInt(year, 10), month, parseInt(day, 10),
+        parseInt(hh, 10), parseInt(mm, 10), parseInt(ss, 10)
+      );
+      return { timestampMs: utc - offsetMinutes * 60000, offsetMinutes };
+    }
+  }
+  return { timestampMs: Date.parse(value.trim()), offsetMinutes: parseTimezoneOffset(value) };
+}
+
+/** Split `Name <email>` into its parts. */
+function parseIdentity(value: string): CommitAuthor {
+  const match = value.trim().match(/^(.*?)\s*<([^>]*)>$/);
+  return {
+    name: (match ? match[1] : value.trim()) || 'Unknown',
+    email: match ? match[2] : '',
+    login: null,
+    avatarUrl: null,
+  };
+}
+
+/** Parse records in the \x1e/\x1f/\x1d machine format. */
+function parseMachineFormat(text: string, warnings: string[]): RawCommit[] {
+  const commits: RawCommit[] = [];
+
+  for (const record of text.split(RECORD_START).slice(1)) {
+    const messageEnd = record.indexOf(MESSAGE_END);
+    if (messageEnd === -1) {
+      warnings.push('Skipped a truncated commit record (missing message terminator).');
+      continue;
+    }
+
+    const fields = record.slice(0, messageEnd).split(FIELD_SEP);
+    if (fields.length < 9) {
+      warnings.push('Skipped a commit record with missing header fields.');
+      continue;
+    }
+
+    const [sha, parents, authorName, authorEmail, authorDate, committerName, committerEmail, committerDate] = fields;
+    const message = fields.slice(8).join(FIELD_SEP).trim();
+
+    commits.push({
+      sha: sha.trim(),
+      parents: parents.trim() ? parents.trim().split(/\s+/) : [],
+      author: { name: authorName || 'Unknown', email: authorEmail, login: null, avatarUrl: null },
+      committer: {
+        name: committerName || authorName || 'Unknown',
+        email: committerEmail || authorEmail,
+        login: null,
+        avatarUrl: null,
+      },
+      authorDate: authorDate || committerDate,
+      message,
+      bodyLines: record.slice(messageEnd + 1).split('\n'),
+    });
+  }
+
+  return commits;
+}
+
+/** Parse plain `git log` output (medium or fuller format). */
+function parseMediumFormat(text: string, warnings: string[]): RawCommit[] {
+  const commits: RawCommit[] = [];
+  let current: RawCommit | null = null;
+  let inHeader = false;
+  const messageLines: string[] = [];
+
+  const flush = () => {
+    if (!current) return;
+    current.message = messageLines.join('\n').trim();
+    if (!current.authorDate) {
+      warnings.push(`Commit ${current.sha.slice(0, 7)} has no date and was skipped.`);
+    } else {
+      commits.push(current);
+    }
+    messageLines.length = 0;
+  };
+
+  for (const line of text.split('\n')) {
+    const commitMatch = line.match(MEDIUM_COMMIT_RE);
+    if (commitMatch) {
+      flush();
+      const identity: CommitAuthor = { name: 'Unknown', email: '', login: null, avatarUrl: null };
+      current = {
+        sha: commitMatch[1],
+        parents: [],
+        author: identity,
+        committer: { ...identity },
+        authorDate: '',
+        message: '',
+        bodyLines: [],
+      };
+      inHeader = true;
+      continue;
+    }
+    if (!current) continue;
+
+    if (inHeader) {
+      if (line.trim() === '') {
+        inHeader = false;
+      } else if (line.startsWith('Merge:')) {
+        current.parents = line.slice('Merge:'.length).trim().split(/\s+/);
+      } else if (line.startsWith('Author:')) {
+        current.author = parseIdentity(line.slice('Author:'.length));
+        current.committer = { ...current.author };
+      } else if (line.startsWith('Commit:')) {
+        current.committer = parseIdentity(line.slice('Commit:'.length));
+      } else if (line.startsWith('AuthorDate:')) {
+        current.authorDate = line.slice('AuthorDate:'.length).trim();
+      } else if (line.startsWith('Date:')) {
+        current.authorDate = line.slice('Date:'.length).trim();
+      }
+      continue;
+    }
+
+    // Message lines are indented by four spaces; everything else is numstat/summary
+    if (line.startsWith('    ')) {
+      messageLines.push(line.slice(4));
+    } else if (line.trim() === '') {
+      // Blank lines between message paragraphs are not indented
+      if (current.bodyLines.length === 0) messageLines.push('');
+    } else {
+      current.bodyLines.push(line);
+    }
+  }
+  flush();
+
+  return commits;
+}
+
+// =============================================================================
+// FILE PARSING
+// =============================================================================
+
+/** Turn numstat + summary lines into CommitFile entries. */
+function parseFileLines(lines: string[]): CommitFile[] {
+  const entries = new Map<string, RawFileEntry>();
+  const statusOverrides = new Map<string, CommitFile['status']>();
+
+  for (const line of lines) {
+    const numstat = line.match(NUMSTAT_RE);
+    if (numstat) {
+      const [, added, deleted, rawPath] = numstat;
+      const { path, previousPath } = expandRenamePath(rawPath);
+      const isBinary = added === '-' || deleted === '-';
+      const existing = entries.get(path);
+
+      // `-m` dumps can list the same path once per parent; keep the first
+      if (existing) continue;
+
+      entries.set(path, {
+        path,
+        previousPath,
+        additions: isBinary ? 0 : parseInt(added, 10),
+        deletions: isBinary ? 0 : parseInt(deleted, 10),
+        isBinary,
+        status: previousPath ? 'renamed' : null,
+      });
+      continue;
+    }
+
+    const createDelete = line.match(SUMMARY_CREATE_DELETE_RE);
+    if (createDelete) {
+      statusOverrides.set(
+        unquoteGitPath(createDelete[2]),
+        createDelete[1] === 'create' ? 'added' : 'removed'
+      );
+      continue;
+    }
+
+    const copy = line.match(SUMMARY_COPY_RE);
+    if (copy) {
+      statusOverrides.set(expandRenamePath(copy[1]).path, 'copied');
+    }
+  }
+
+  return Array.from(entries.values()).map((entry) =>
+    buildCommitFile({
+      path: entry.path,
+      status: statusOverrides.get(entry.path) ?? entry.status ?? 'modified',
+      additions: entry.additions,
+      deletions: entry.deletions,
+      previousPath: entry.previousPath,
+    })
+  );
+}
+
+// =============================================================================
+// NORMALIZATION
+// =============================================================================
+
+/** Stable id segment for a local repository name. */
+export function slugifyRepoName(name: string): string {
+  const slug = name
+    .trim()
+    .toLowerCase()
+    .replace(/\.(log|txt)$/, '')
+    .replace(/[^a-z0-9._-]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return slug || 'repository';
+}
+
+function toCommitData(raw: RawCommit, files: CommitFile[], repoId: string, repoName: string): CommitData {
+  const { timestampMs, offsetMinutes } = parseGitDate(raw.authorDate);
+  const date = new Date(timestampMs);
+  const additions = files.reduce((sum, f) => sum + f.additions, 0);
+  const deletions = files.reduce((sum, f) => sum + f.deletions, 0);
+
+  return {
+    sha: raw.sha,
+    shortSha: raw.sha.substring(0, 7),
+    message: raw.message,
+    messageHeadline: raw.message.split('\n')[0],
+    author: raw.author,
+    committer: raw.committer,
+    timestamp: date.toISOString(),
+    timestampMs,
+    repoId,
+    repoName,
+    filesChanged: files.length,
+    additions,
+    deletions,
+    totalChanges: additions + deletions,
+    isMerge: raw.parents.length > 1,
+    parents: raw.parents,
+    files,
+    htmlUrl: '',
+    timezoneOffset: offsetMinutes,
+    ...getCommitDateFields(date, offsetMinutes),
+  };
+}
+
+/** Approximate GitHub's language bytes with lines added per language. */
+function computeLanguageTotals(commits: CommitData[]): Record<string, number> {
+  const totals: Record<string, number> = {};
+  for (const commit of commits) {
+    for (const file of commit.files) {
+      const language = EXTENSION_TO_LANGUAGE[getFileExtension(file.filename)];
+      if (language) {
+        totals[language] = (totals[language] ?? 0) + file.additions;
+      }
+    }
+  }
+  return totals;
+}
+
+/** Repository record for an imported history, dated by its first and last commit. */
+export function buildLocalRepository(name: string, commits: CommitData[]): Repository {
+  const slug = slugifyRepoName(name);
+  const fullName = `local/${slug}`;
+  const languages = computeLanguageTotals(commits);
+  const topLanguage = Object.entries(languages).sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+  const first = commits[0]?.timestamp ?? new Date().toISOString();
+  const last = commits[commits.length - 1]?.timestamp ?? first;
+
+  return {
+    id: fullName,
+    githubId: 0,
+    name: slug,
+    fullName,
+    description: null,
+    owner: { login: 'local', avatarUrl: '', isOrg: false, type: 'User' },
+    isPrivate: true,
+    isFork: false,
+    isArchived: false,
+    language: topLanguage,
+    languages,
+    starCount: 0,
+    forkCount: 0,
+    watcherCount: 0,
+    openIssueCount: 0,
+    defaultBranch: 'HEAD',
+    createdAt: first,
+    updatedAt: last,
+    pushedAt: last,
+    htmlUrl: '',
+    cloneUrl: '',
+    commitCount: commits.length,
+    size: 0,
+    topics: [],
+    license: null,
+    source: RepositorySource.LOCAL,
+  };
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Parse a single repository's `git log --numstat` dump.
+ *
+ * Renames (`{old => new}`) become `renamed` files with `previousPath`, binary
+ * files (`-\t-`) count as zero-line changes, and merge commits are kept with
+ * whatever files the dump lists for them (none, unless run with `-m`).
+ */
+export function parseGitLog(text: string, repoName: string): LocalRepositoryImport {
+  const warnings: string[] = [];
+  const normalized = text.replace(/\r\n/g, '\n');
+  const slug = slugifyRepoName(repoName);
+  const repoId = `local/${slug}`;
+
+  let rawCommits: RawCommit[];
+  if (normalized.includes(RECORD_START)) {
+    rawCommits = parseMachineFormat(normalized, warnings);
+  } else if (/^commit [0-9a-f]{7,40}/m.test(normalized)) {
+    rawCommits = parseMediumFormat(normalized, warnings);
+  } else {
+    rawCommits = [];
+    warnings.push(`No commits found in "${repoName}". Was it produced with \`git log --numstat\`?`);
+  }
+
+  const seen = new Set<string>();
+  const commits: CommitData[] = [];
+
+  for (const raw of rawCommits) {
+    if (seen.has(raw.sha)) continue;
+    seen.add(raw.sha);
+
+    const commit = toCommitData(raw, parseFileLines(raw.bodyLines), repoId, slug);
+    if (Number.isNaN(commit.timestampMs)) {
+      warnings.push(`Commit ${raw.sha.slice(0, 7)} has an unreadable date "${raw.authorDate}" and was skipped.`);
+      continue;
+    }
+    commits.push(commit);
+  }
+
+  // git log lists newest first; reverse before the (stable) sort so commits
+  // sharing a timestamp keep their real order
+  commits.reverse().sort((a, b) => a.timestampMs - b.timestampMs);
+
+  return {
+    repository: buildLocalRepository(repoName, commits),
+    commits,
+    warnings,
+  };
+}
+
+/**
+ * Parse an upload that may bundle several repositories, each introduced by a
+ * `# repo: <name>` line. Text without markers is treated as one repository
+ * named `fallbackName` (usually the uploaded file name).
+ */
+export function parseGitLogBundle(text: string, fallbackName: string): LocalRepositoryImport[] {
+  const markers = [...text.matchAll(BUNDLE_MARKER_RE)];
+  if (markers.length === 0) {
+    return [parseGitLog(text, fallbackName)];
+  }
+
+  const imports: LocalRepositoryImport[] = [];
+  const preamble = text.slice(0, markers[0].index).trim();
+  if (preamble) {
+    imports.push(parseGitLog(preamble, fallbackName));
+  }
+
+  markers.forEach((marker, i) => {
+    const start = (marker.index ?? 0) + marker[0].length;
+    const end = i + 1 < markers.length ? markers[i + 1].index : text.length;
+    imports.push(parseGitLog(text.slice(start, end), marker[1].trim()));
+  });
+
+  return imports.filter((imp) => imp.commits.length > 0 || imp.warnings.length > 0);
+}
@@ -0,0 +1,191 @@
+import type {
+  CommitData,
+  Contributor,
+  GitHubRateLimit,
+  GitProvider,
+  ProviderCredentials,
+  ProviderRepoStats,
+  RemoteRepositorySource,
+} from '@/lib/types';
+import { RepositorySource } from '@/lib/types';
+import { createGitHubProvider } from '@/lib/github-api';
+import { createGitLabProvider } from '@/lib/gitlab-api';
+import { createGiteaProvider } from '@/lib/gitea-api';
+import { deriveContributors } from '@/lib/commit-normalizer';
+import { contributorColor, normalizeProviderBaseUrl } from '@/lib/provider-http';
+
+// =============================================================================
+// Provider registry — API routes resolve a GitProvider from request cookies
+// and never call a specific hosting API directly.
+// =============================================================================
+
+/** Remote sources in display order. */
+export const REMOTE_SOURCES: readonly RemoteRepositorySource[] = [
+  RepositorySource.GITHUB,
+  RepositorySource.GITLAB,
+  RepositorySource.GITEA,
+];
+
+export const PROVIDER_LABELS: Record<RemoteRepositorySource, string> = {
+  [RepositorySource.GITHUB]: 'GitHub',
+  [RepositorySource.GITLAB]: 'GitLab',
+  [RepositorySource.GITEA]: 'Gitea',
+};
+
+/**
+ * Cookies holding each provider's token and instance URL. GitHub's token
+ * cookie is set by the OAuth callback; the others by /api/providers/connect.
+ */
+export const PROVIDER_COOKIES: Record<RemoteRepositorySource, { token: string; url: string | null }> = {
+  [RepositorySource.GITHUB]: { token: 'github_token', url: null },
+  [RepositorySource.GITLAB]: { token: 'gitlab_token', url: 'gitlab_url' },
+  [RepositorySource.GITEA]: { token: 'gitea_token', url: 'gitea_url' },
+};
+
+/** Minimal cookie store shape shared by `cookies()` and `request.cookies`. */
+interface CookieReader {
+  get(name: string): { value: string } | undefined;
+}
+
+/** Parse a `provider` / `source` parameter, defaulting to GitHub when absent. */
+export function parseRemoteSource(value: string | null | undefined): RemoteRepositorySource | null {
+  if (!value) return RepositorySource.GITHUB;
+  return REMOTE_SOURCES.find((s) => s === value) ?? null;
+}
+
+/**
+ * Read a provider's credentials from cookies. Returns null when the provider
+ * isn't connected or its stored instance URL is no longer valid.
+ */
+export function readProviderCredentials(
+  cookieStore: CookieReader,
+  source: RemoteRepositorySource
+): ProviderCredentials | null {
+  const names = PROVIDER_COOKIES[source];
+  const token = cookieStore.get(names.token)?.value;
+  if (!token) return null;
+
+  if (!names.url) {
+    return { source, token, baseUrl: null };
+  }
+
+  const rawUrl = cookieStore.get(names.url)?.value;
+  if (!rawUrl) return null;
+
+  try {
+    return { source, token, baseUrl: normalizeProviderBaseUrl(rawUrl) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Instantiate the GitProvider for a set of credentials.
+ */
+export function createGitProvider(credentials: ProviderCredentials): GitProvider {
+  switch (credentials.source) {
+    case RepositorySource.GITLAB:
+      return createGitLabProvider(credentials.baseUrl ?? 'https://gitlab.com', credentials.token);
+    case RepositorySource.GITEA:
+      if (!credentials.baseUrl) {
+        throw new Error('Gitea requires an instance URL.');
+      }
+      return createGiteaProvider(credentials.baseUrl, credentials.token);
+    case RepositorySource.GITHUB:
+    default:
+      return createGitHubProvider(credentials.token);
+  }
+}
+
+// =============================================================================
+// ADAPTIVE CONCURRENCY
+// =============================================================================
+
+/** Repos to fetch in parallel, sized by the most constrained provider in the request. */
+export function getAdaptiveChunkSize(providers: GitProvider[]): number {
+  const remaining = Math.min(...providers.map((p) => p.getRateLimit().remaining));
+  if (remaining < 50) return 1;
+  if (remaining < 200) return 2;
+  return 5;
+}
+
+// =============================================================================
+// SMART FETCH
+// =============================================================================
+
+/**
+ * Smart fetch: determines strategy based on repo size.
+ *
+ * Stats and contributor endpoints are optional on GitProvider — when a
+ * provider lacks them, the commit count is unknown (full fetch, capped at
+ * maxCommits) and contributors are derived from the fetched commits.
+ */
+export async function smartFetchRepoData(
+  provider: GitProvider,
+  owner: string,
+  repo: string,
+  options?: {
+    since?: string;
+    until?: string;
+    maxCommits?: number;
+    onProgress?: (fetched: number, estimated: number | null) => void;
+  }
+): Promise<{
+  commits: CommitData[];
+  languages: Record<string, number>;
+  contributors: Contributor[];
+  stats: ProviderRepoStats | null;
+  rateLimit: GitHubRateLimit;
+}> {
+  const {
+    since,
+    until,
+    maxCommits = 10000,
+    onProgress,
+  } = options ?? {};
+
+  // Step 1: Fetch stats to determine commit count
+  let stats: ProviderRepoStats | null = null;
+  if (provider.fetchStats) {
+    try {
+      stats = await provider.fetchStats(owner, repo);
+    } catch {
+      // Stats might fail for empty/new repos, continue anyway
+    }
+  }
+
+  const estimatedCommits = stats?.totalCommitCount ?? 0;
+
+  // Step 2: Fetch languages (lightweight, always do this)
+  let languages: Record<string, number> = {};
+  try {
+    languages = await provider.fetchLanguages(owner, repo);
+  } catch {
+    // Non-critical, continue
+  }
+
+  // Step 3: Fetch commits
+  const result = await provider.fetchAllCommits(owner, repo, { since, until, onProgress });
+  const commits =
+    estimatedCommits > 1000 || estimatedCommits === 0
+      ? result.commits.slice(0, maxCommits)
+      : result.commits;
+
+  // Step 4: Contributors — from the API when available, else from commits
+  let contributors: Contributor[] = [];
+  try {
+    contributors = provider.fetchContributors
+      ? await provider.fetchContributors(owner, repo)
+      : deriveContributors(commits, provider.getRepoId(owner, repo), contributorColor);
+  } catch {
+    // Non-critical, continue
+  }
+
+  return {
+    commits,
+    languages,
+    contributors,
+    stats,
+    rateLimit: provider.getRateLimit(),
+  };
+}
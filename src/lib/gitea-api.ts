@@ -0,0 +1,342 @@
+import type {
+  Repository,
+  RepositoryOwner,
+  CommitData,
+  CommitFile,
+  CommitAuthor,
+  GitProvider,
+  GitHubPagination,
+  ProviderTag,
+} from '@/lib/types';
+import { RepositorySource } from '@/lib/types';
+import { buildCommitFile, getCommitDateFields, parseTimezoneOffset } from '@/lib/commit-normalizer';
+import {
+  fetchAllPages,
+  getProviderHost,
+  getProviderRateLimit,
+  providerGet,
+  ProviderApiError,
+  readPagination,
+} from '@/lib/provider-http';
+
+// =============================================================================
+// Gitea / Forgejo REST v1 client.
+//
+// Gitea's API is modelled on GitHub's, so normalization mirrors github-api.ts.
+// Repository ids are namespaced by host — `git.example.com/owner/repo`.
+// =============================================================================
+
+/** Gitea's default MAX_RESPONSE_ITEMS — larger page sizes are silently clamped. */
+const GITEA_PAGE_SIZE = 50;
+
+interface GiteaConnection {
+  apiUrl: string;
+  host: string;
+  authHeaders: Record<string, string>;
+}
+
+function createConnection(baseUrl: string, token: string): GiteaConnection {
+  return {
+    apiUrl: `${baseUrl}/api/v1`,
+    host: getProviderHost(baseUrl),
+    authHeaders: { Authorization: `token ${token}` },
+  };
+}
+
+// =============================================================================
+// NORMALIZE FUNCTIONS
+// =============================================================================
+
+function normalizeRepository(raw: Record<string, unknown>, conn: GiteaConnection): Repository {
+  const owner = (raw['owner'] as Record<string, unknown>) ?? {};
+  const fullName = `${conn.host}/${(raw['full_name'] as string) ?? ''}`;
+
+  // Gitea's user objects don't say whether an owner is an organization
+  const normalizedOwner: RepositoryOwner = {
+    login: (owner['login'] as string) ?? '',
+    avatarUrl: (owner['avatar_url'] as string) ?? '',
+    isOrg: false,
+    type: 'User',
+  };
+
+  return {
+    id: fullName,
+    githubId: (raw['id'] as number) ?? 0,
+    name: (raw['name'] as string) ?? '',
+    fullName,
+    description: (raw['description'] as string) || null,
+    owner: normalizedOwner,
+    isPrivate: (raw['private'] as boolean) ?? false,
+    isFork: (raw['fork'] as boolean) ?? false,
+    isArchived: (raw['archived'] as boolean) ?? false,
+    language: (raw['language'] as string) || null,
+    languages: {},
+    starCount: (raw['stars_count'] as number) ?? 0,
+    forkCount: (raw['forks_count'] as number) ?? 0,
+    watcherCount: (raw['watchers_count'] as number) ?? 0,
+    openIssueCount: (raw['open_issues_count'] as number) ?? 0,
+    defaultBranch: (raw['default_branch'] as string) ?? 'main',
+    createdAt: (raw['created_at'] as string) ?? '',
+    updatedAt: (raw['updated_at'] as string) ?? '',
+    pushedAt: (raw['updated_at'] as string) ?? '',
+    htmlUrl: (raw['html_url'] as string) ?? '',
+    cloneUrl: (raw['clone_url'] as string) ?? '',
+    commitCount: null,
+    size: (raw['size'] as number) ?? 0,
+    topics: (raw['topics'] as string[]) ?? [],
+    license: null,
+    source: RepositorySource.GITEA,
+  };
+}
+
+const FILE_STATUSES = new Set<CommitFile['status']>(['added', 'removed', 'modified', 'renamed', 'copied']);
+
+function normalizeCommit(raw: Record<string, unknown>, repoId: string, repoName: string): CommitData {
+  const commitObj = (raw['commit'] as Record<string, unknown>) ?? {};
+  const authorObj = (commitObj['author'] as Record<string, unknown>) ?? {};
+  const committerObj = (commitObj['committer'] as Record<string, unknown>) ?? {};
+  const giteaAuthor = raw['author'] as Record<string, unknown> | null;
+  const giteaCommitter = raw['committer'] as Record<string, unknown> | null;
+  const parents = (raw['parents'] as Array<Record<string, unknown>>) ?? [];
+  const filesRaw = (raw['files'] as Array<Record<string, unknown>>) ?? [];
+  const stats = raw['stats'] as Record<string, unknown> | undefined;
+
+  const sha = (raw['sha'] as string) ?? '';
+  const message = (commitObj['message'] as string) ?? '';
+  const timestamp = (authorObj['date'] as string) ?? (raw['created'] as string) ?? new Date().toISOString();
+  const date = new Date(timestamp);
+  // Gitea keeps the author's own offset on the commit date
+  const timezoneOffset = parseTimezoneOffset(timestamp);
+
+  const author: CommitAuthor = {
+    name: (authorObj['name'] as string) ?? 'Unknown',
+    email: (authorObj['email'] as string) ?? '',
+    login: giteaAuthor ? (giteaAuthor['login'] as string) || null : null,
+    avatarUrl: giteaAuthor ? (giteaAuthor['avatar_url'] as string) || null : null,
+  };
+
+  const committer: CommitAuthor = {
+    name: (committerObj['name'] as string) ?? 'Unknown',
+    email: (committerObj['email'] as string) ?? '',
+    login: giteaCommitter ? (giteaCommitter['login'] as string) || null : null,
+    avatarUrl: giteaCommitter ? (giteaCommitter['avatar_url'] as string) || null : null,
+  };
+
+  // The list endpoint reports affected paths without per-file line counts
+  const files: CommitFile[] = filesRaw.map((f) => {
+    const status = f['status'] as CommitFile['status'];
+    return buildCommitFile({
+      path: (f['filename'] as string) ?? '',
+      status: FILE_STATUSES.has(status) ? status : 'modified',
+      additions: 0,
+      deletions: 0,
+    });
+  });
+
+  const additions = (stats?.['additions'] as number) ?? 0;
+  const deletions = (stats?.['deletions'] as number) ?? 0;
+
+  return {
+    sha,
+    shortSha: sha.substring(0, 7),
+    message,
+    messageHeadline: message.split('\n')[0],
+    author,
+    committer,
+    timestamp: date.toISOString(),
+    timestampMs: date.getTime(),
+    repoId,
+    repoName,
+    filesChanged: files.length,
+    additions,
+    deletions,
+    totalChanges: additions + deletions,
+    isMerge: parents.length > 1,
+    parents: parents.map((p) => (p['sha'] as string) ?? ''),
+    files,
+    htmlUrl: (raw['html_url'] as string) ?? '',
+    timezoneOffset,
+    ...getCommitDateFields(date, timezoneOffset),
+  };
+}
+
+// =============================================================================
+// API FUNCTIONS
+// =============================================================================
+
+async function fetchRepoPage(
+  conn: GiteaConnection,
+  path: string,
+  params: Record<string, string | number | undefined>,
+  page: number,
+  perPage: number
+): Promise<{ repos: Repository[]; pagination: GitHubPagination }> {
+  const { data, headers } = await providerGet<
+    Array<Record<string, unknown>> | { ok: boolean; data: Array<Record<string, unknown>> }
+  >(conn.apiUrl, path, conn.authHeaders, { page, limit: perPage, ...params });
+
+  // /repos/search wraps results in { ok, data }; /user/repos returns a bare array
+  const items = Array.isArray(data) ? data : data.data ?? [];
+
+  return {
+    repos: items.map((r) => normalizeRepository(r, conn)),
+    pagination: readPagination(headers, page, perPage),
+  };
+}
+
+/**
+ * Create a GitProvider for a Gitea or Forgejo instance.
+ */
+export function createGiteaProvider(baseUrl: string, token: string): GitProvider {
+  const conn = createConnection(baseUrl, token);
+  const getRateLimit = () => getProviderRateLimit(conn.apiUrl);
+  const getRepoId = (owner: string, repo: string) => `${conn.host}/${owner}/${repo}`;
+  const repoPath = (owner: string, repo: string) =>
+    `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+
+  return {
+    source: RepositorySource.GITEA,
+    label: 'Gitea',
+    getRepoId,
+
+    validateConnection: async () => {
+      const { data } = await providerGet<Record<string, unknown>>(conn.apiUrl, '/user', conn.authHeaders);
+      return {
+        login: (data['login'] as string) ?? '',
+        name: (data['full_name'] as string) || null,
+        avatarUrl: (data['avatar_url'] as string) || null,
+      };
+    },
+
+    listRepositories: async ({ page, perPage }) => {
+      // /user/repos has no sort parameters — the route re-sorts client-side
+      const result = await fetchRepoPage(
+        conn,
+        '/user/repos',
+        {},
+        page,
+        Math.min(perPage, GITEA_PAGE_SIZE)
+      );
+      return { ...result, rateLimit: getRateLimit() };
+    },
+
+    searchRepositories: async (query, page, perPage) => {
+      const limit = Math.min(perPage, GITEA_PAGE_SIZE);
+      const result = await fetchRepoPage(
+        conn,
+        '/repos/search',
+        { q: query, sort: 'updated', order: 'desc' },
+        page,
+        limit
+      );
+      const totalCount = result.pagination.totalPages
+        ? result.pagination.totalPages * limit
+        : result.repos.length;
+      return { repos: result.repos, totalCount, rateLimit: getRateLimit() };
+    },
+
+    fetchAllCommits: async (owner, repo, options = {}) => {
+      const repoId = getRepoId(owner, repo);
+      const sinceMs = options.since ? new Date(options.since).getTime() : null;
+      const untilMs = options.until ? new Date(options.until).getTime() : null;
+
+      const commits = await fetchAllPages(
+        async (page) => {
+          const { data, headers } = await providerGet<Array<Record<string, unknown>>>(
+            conn.apiUrl,
+            `${repoPath(owner, repo)}/commits`,
+            conn.authHeaders,
+            {
+              stat: true,
+              files: true,
+              verification: false,
+              since: options.since,
+              until: options.until,
+              page,
+              limit: GITEA_PAGE_SIZE,
+            }
+          );
+          return {
+            items: data.map((c) => normalizeCommit(c, repoId, repo)),
+            pagination: readPagination(headers, page, GITEA_PAGE_SIZE),
+          };
+        },
+        { onProgress: options.onProgress }
+      );
+
+      // Older Gitea releases ignore since/until — enforce the window here
+      const inWindow = commits.filter(
+        (c) =>
+          (sinceMs === null || c.timestampMs >= sinceMs) &&
+          (untilMs === null || c.timestampMs <= untilMs)
+      );
+
+      inWindow.sort((a, b) => b.timestampMs - a.timestampMs);
+      return { commits: inWindow, rateLimit: getRateLimit() };
+    },
+
+    fetchLanguages: async (owner, repo) => {
+      const { data } = await providerGet<Record<string, number>>(
+        conn.apiUrl,
+        `${repoPath(owner, repo)}/languages`,
+        conn.authHeaders
+      );
+      return data;
+    },
+
+    fetchTags: async (owner, repo) => {
+      const raw = await fetchAllPages(
+        async (page) => {
+          const { data, headers } = await providerGet<Array<Record<string, unknown>>>(
+            conn.apiUrl,
+            `${repoPath(owner, repo)}/tags`,
+            conn.authHeaders,
+            { page, limit: GITEA_PAGE_SIZE }
+          );
+          return { items: data, pagination: readPagination(headers, page, GITEA_PAGE_SIZE) };
+        },
+        { maxPages: 10 }
+      );
+
+      return raw.map((t): ProviderTag => {
+        const commit = (t['commit'] as Record<string, unknown>) ?? {};
+        return {
+          name: (t['name'] as string) ?? '',
+          sha: (commit['sha'] as string) ?? '',
+          // Only newer Gitea releases include the commit date
+          date: (commit['created'] as string) ?? null,
+          message: (t['message'] as string) || null,
+        };
+      });
+    },
+
+    fetchBranchHead: async (owner, repo, branch) => {
+      const { data } = await providerGet<Record<string, unknown>>(
+        conn.apiUrl,
+        `${repoPath(owner, repo)}/branches/${encodeURIComponent(branch)}`,
+        conn.authHeaders
+      );
+      const commit = (data['commit'] as Record<string, unknown>) ?? {};
+      return (commit['id'] as string) ?? '';
+    },
+
+    isAncestor: async (owner, repo, ancestorSha, headSha) => {
+      // `git log head..ancestor` is empty exactly when ancestor is reachable from head
+      try {
+        const { data } = await providerGet<Array<Record<string, unknown>>>(
+          conn.apiUrl,
+          `${repoPath(owner, repo)}/commits`,
+          conn.authHeaders,
+          { sha: ancestorSha, not: headSha, stat: false, files: false, verification: false, limit: 1 }
+        );
+        return data.length === 0;
+      } catch (error) {
+        // 404 — the old SHA no longer exists (rewritten and garbage-collected)
+        if (error instanceof ProviderApiError && error.isNotFound) return false;
+        throw error;
+      }
+    },
+
+    getRateLimit,
+  };
+}
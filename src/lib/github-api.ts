@@ -9,33 +9,33 @@ import type {
   Contributor,
   GitHubRateLimit,
   GitHubPagination,
-  DayOfWeek,
-  FileCategory,
+  GitProvider,
+  ProviderRepoStats,
+  ProviderTag,
 } from '@/lib/types';
+import { RepositorySource } from '@/lib/types';
+import {
+  buildCommitFile,
+  getCommitDateFields,
+  parseRawCommitOffset,
+  parseTimezoneOffset,
+} from '@/lib/commit-normalizer';
+import { ProviderApiError, contributorColor } from '@/lib/provider-http';
 
 // =============================================================================
 // ERROR TYPES
 // =============================================================================
 
-export class GitHubApiError extends Error {
-  public readonly status: number;
-  public readonly retryAfter: number | null;
-  public readonly isRateLimit: boolean;
-  public readonly isNotFound: boolean;
-  public readonly isUnauthorized: boolean;
-
+/** GitHub flavour of ProviderApiError — provider-agnostic callers can catch the base class. */
+export class GitHubApiError extends ProviderApiError {
   constructor(
     message: string,
     status: number,
-    retryAfter: number | null = null
+    retryAfter: number | null = null,
+    isRateLimit?: boolean
   ) {
-    super(message);
+    super(message, status, retryAfter, isRateLimit);
     this.name = 'GitHubApiError';
-    this.status = status;
-    this.retryAfter = retryAfter;
-    this.isRateLimit = status === 403 || status === 429;
-    this.isNotFound = status === 404;
-    this.isUnauthorized = status === 401;
   }
 }
 
@@ -69,6 +69,18 @@ export function getRateLimit(): GitHubRateLimit {
   return { ...currentRateLimit };
 }
 
+/**
+ * Whether a 403 is GitHub throttling rather than a permission denial: the
+ * primary limit is spent, or the secondary limit answered with a retry hint.
+ */
+function isRateLimitDenial(headers: Record<string, string | undefined>, message: string): boolean {
+  return (
+    headers['x-ratelimit-remaining'] === '0' ||
+    headers['retry-after'] !== undefined ||
+    /secondary rate limit/i.test(message)
+  );
+}
+
 // =============================================================================
 // OCTOKIT FACTORY
 // =============================================================================
@@ -133,79 +145,6 @@ function sleep(ms: number): Promise<void> {
 // HELPERS
 // =============================================================================
 
-function getFileExtension(filename: string): string {
-  const parts = filename.split('.');
-  return parts.length > 1 ? parts[parts.length - 1].toLowerCase() : '';
-}
-
-function getFileCategory(extension: string): FileCategory {
-  const categories: Record<string, FileCategory> = {
-    ts: 'code' as FileCategory,
-    tsx: 'code' as FileCategory,
-    js: 'code' as FileCategory,
-    jsx: 'code' as FileCategory,
-    py: 'code' as FileCategory,
-    java: 'code' as FileCategory,
-    go: 'code' as FileCategory,
-    rs: 'code' as FileCategory,
-    cpp: 'code' as FileCategory,
-    c: 'code' as FileCategory,
-    cs: 'code' as FileCategory,
-    rb: 'code' as FileCategory,
-    php: 'code' as FileCategory,
-    swift: 'code' as FileCategory,
-    kt: 'code' as FileCategory,
-    dart: 'code' as FileCategory,
-    scala: 'code' as FileCategory,
-    html: 'markup' as FileCategory,
-    htm: 'markup' as FileCategory,
-    xml: 'markup' as FileCategory,
-    svg: 'markup' as FileCategory,
-    vue: 'markup' as FileCategory,
-    svelte: 'markup' as FileCategory,
-    md: 'documentation' as FileCategory,
-    mdx: 'documentation' as FileCategory,
-    txt: 'documentation' as FileCategory,
-    rst: 'documentation' as FileCategory,
-    json: 'config' as FileCategory,
-    yaml: 'config' as FileCategory,
-    yml: 'config' as FileCategory,
-    toml: 'config' as FileCategory,
-    ini: 'config' as FileCategory,
-    env: 'config' as FileCategory,
-    css: 'asset' as FileCategory,
-    scss: 'asset' as FileCategory,
-    sass: 'asset' as FileCategory,
-    less: 'asset' as FileCategory,
-    png: 'asset' as FileCategory,
-    jpg: 'asset' as FileCategory,
-    jpeg: 'asset' as FileCategory,
-    gif: 'asset' as FileCategory,
-    ico: 'asset' as FileCategory,
-    test: 'test' as FileCategory,
-    spec: 'test' as FileCategory,
-    Makefile: 'build' as FileCategory,
-    Dockerfile: 'build' as FileCategory,
-    csv: 'data' as FileCategory,
-    tsv: 'data' as FileCategory,
-  };
-
-  return categories[extension] ?? ('other' as FileCategory);
-}
-
-function getDirectoryPath(filePath: string): string {
-  const parts = filePath.split('/');
-  return parts.length > 1 ? parts.slice(0, -1).join('/') : '';
-}
-
-function getISOWeekNumber(date: Date): number {
-  const d = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
-  const dayNum = d.getUTCDay() || 7;
-  d.setUTCDate(d.getUTCDate() + 4 - dayNum);
-  const yearStart = new Date(Date.UTC(d.getUTCFullYear(), 0, 1));
-  return Math.ceil(((d.getTime() - yearStart.getTime()) / 86400000 + 1) / 7);
-}
-
 function parseLinkHeader(linkHeader: string | undefined): GitHubPagination['links'] {
   const links: GitHubPagination['links'] = {
     next: null,
@@ -292,6 +231,7 @@ function normalizeRepository(raw: Record<string, unknown>): Repository {
     size: (raw['size'] as number) ?? 0,
     topics: (raw['topics'] as string[]) ?? [],
     license: normalizedLicense,
+    source: RepositorySource.GITHUB,
   };
 }
 
@@ -315,6 +255,12 @@ function normalizeCommit(
   const timestampMs = new Date(timestamp).getTime();
   const date = new Date(timestamp);
 
+  // REST dates are normalized to UTC; signed commits still carry the raw
+  // commit object (with the author's offset) in their verification payload
+  const verification = commitObj['verification'] as Record<string, unknown> | undefined;
+  const rawCommit = verification?.['payload'] as string | null | undefined;
+  const timezoneOffset = rawCommit ? parseRawCommitOffset(rawCommit) : null;
+
   const author: CommitAuthor = {
     name: (authorObj['name'] as string) ?? 'Unknown',
     email: (authorObj['email'] as string) ?? '',
@@ -329,25 +275,16 @@ function normalizeCommit(
     avatarUrl: ghCommitter ? (ghCommitter['avatar_url'] as string) ?? null : null,
   };
 
-  const files: CommitFile[] = filesRaw.map((f) => {
-    const path = (f['filename'] as string) ?? '';
-    const parts = path.split('/');
-    const filename = parts[parts.length - 1];
-    const extension = getFileExtension(filename);
-
-    return {
-      path,
-      filename,
-      directory: getDirectoryPath(path),
-      extension,
+  const files: CommitFile[] = filesRaw.map((f) =>
+    buildCommitFile({
+      path: (f['filename'] as string) ?? '',
       status: (f['status'] as CommitFile['status']) ?? 'modified',
       additions: (f['additions'] as number) ?? 0,
       deletions: (f['deletions'] as number) ?? 0,
       changes: (f['changes'] as number) ?? 0,
       previousPath: (f['previous_filename'] as string) ?? null,
-      category: getFileCategory(extension),
-    };
-  });
+    })
+  );
 
   const additions = stats
     ? (stats['additions'] as number) ?? 0
@@ -356,8 +293,6 @@ function normalizeCommit(
     ? (stats['deletions'] as number) ?? 0
     : files.reduce((sum, f) => sum + f.deletions, 0);
 
-  const dateKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
-
   return {
     sha,
     shortSha: sha.substring(0, 7),
@@ -377,13 +312,55 @@ function normalizeCommit(
     parents: parents.map((p) => (p['sha'] as string) ?? ''),
     files,
     htmlUrl: (raw['html_url'] as string) ?? '',
-    hourOfDay: date.getHours(),
-    dayOfWeek: date.getDay() as DayOfWeek,
-    year: date.getFullYear(),
-    month: date.getMonth() + 1,
-    dayOfMonth: date.getDate(),
-    weekOfYear: getISOWeekNumber(date),
-    dateKey,
+    timezoneOffset,
+    ...getCommitDateFields(date, timezoneOffset),
+  };
+}
+
+/**
+ * Author dates as git recorded them, keyed by SHA. REST normalizes commit
+ * dates to UTC; GraphQL's GitActor.date keeps the author's offset. Best
+ * effort: on failure the commits keep their UTC dates.
+ */
+async function fetchAuthorDates(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  shas: string[]
+): Promise<Map<string, string>> {
+  const dates = new Map<string, string>();
+  const valid = shas.filter((sha) => /^[0-9a-f]{40}$/i.test(sha));
+  if (valid.length === 0) return dates;
+
+  const fields = valid
+    .map((sha, i) => `c${i}: object(oid: "${sha}") { ... on Commit { author { date } } }`)
+    .join('\n');
+
+  try {
+    const data = await octokit.graphql<{
+      repository: Record<string, { author: { date: string | null } | null } | null> | null;
+    }>(`query ($owner: String!, $name: String!) { repository(owner: $owner, name: $name) { ${fields} } }`, {
+      owner,
+      name: repo,
+    });
+    valid.forEach((sha, i) => {
+      const date = data.repository?.[`c${i}`]?.author?.date;
+      if (date) dates.set(sha, date);
+    });
+  } catch (error) {
+    console.warn(`[github-api] Could not read author offsets for ${owner}/${repo}:`, error);
+  }
+  return dates;
+}
+
+/** Fill in the author's offset (and re-derive the calendar fields) from an offset-preserving date. */
+function withAuthorOffset(commit: CommitData, authorDate: string | undefined): CommitData {
+  const timezoneOffset = authorDate ? parseTimezoneOffset(authorDate) : null;
+  if (timezoneOffset === null) return commit;
+  return {
+    ...commit,
+    timezoneOffset,
+    ...getCommitDateFields(new Date(commit.timestampMs), timezoneOffset),
   };
 }
 
@@ -559,7 +536,14 @@ export async function fetchRepoCommits(
       const links = parseLinkHeader(linkHeader);
 
       const rawCommits = response.data as unknown as Array<Record<string, unknown>>;
-      const commits = rawCommits.map((c) => normalizeCommit(c, repoId, repo));
+      let commits = rawCommits.map((c) => normalizeCommit(c, repoId, repo));
+
+      // Only signed commits carry the author's offset in the REST payload
+      const missingOffset = commits.filter((c) => c.timezoneOffset === null).map((c) => c.sha);
+      if (missingOffset.length > 0) {
+        const authorDates = await fetchAuthorDates(octokit, owner, repo, missingOffset);
+        commits = commits.map((c) => withAuthorOffset(c, authorDates.get(c.sha)));
+      }
 
       // Estimate total count from pagination
       let totalCount: number | null = null;
@@ -741,9 +725,15 @@ export async function fetchCommitDetail(
     } catch (error: unknown) {
       const err = error as { status?: number; response?: { headers?: Record<string, string> }; message?: string };
       const status = err.status ?? 500;
+      const headers = err.response?.headers ?? {};
+      const message = err.message ?? `Failed to fetch commit ${sha} for ${repoId}`;
+      updateRateLimit(headers);
+
       throw new GitHubApiError(
-        err.message ?? `Failed to fetch commit ${sha} for ${repoId}`,
-        status
+        message,
+        status,
+        headers['retry-after'] ? parseInt(headers['retry-after'], 10) : null,
+        status === 429 || (status === 403 && isRateLimitDenial(headers, message))
       );
     }
   });
@@ -792,12 +782,6 @@ export async function fetchRepoContributors(
           const login = (raw['login'] as string) ?? null;
           const id = login ?? (raw['email'] as string) ?? `anon-${raw['id']}`;
 
-          // Generate a consistent color from the contributor's name/id
-          const colorHash = String(id).split('').reduce((acc, char) => {
-            return char.charCodeAt(0) + ((acc << 5) - acc);
-          }, 0);
-          const color = `hsl(${Math.abs(colorHash) % 360}, 70%, 60%)`;
-
           allContributors.push({
             id: String(id),
             name: (raw['name'] as string) ?? login ?? 'Anonymous',
@@ -810,7 +794,7 @@ export async function fetchRepoContributors(
             firstCommitDate: '',
             lastCommitDate: '',
             repos: [repoId],
-            color,
+            color: contributorColor(String(id)),
           });
         }
 
@@ -843,6 +827,65 @@ export async function fetchRepoContributors(
   });
 }
 
+/**
+ * Fetch a repository's tags. The tags endpoint doesn't include dates, so
+ * callers date each tag by its commit.
+ */
+export async function fetchRepoTags(
+  token: string,
+  owner: string,
+  repo: string
+): Promise<{
+  tags: ProviderTag[];
+  rateLimit: GitHubRateLimit;
+}> {
+  return withRetry(async () => {
+    const octokit = createOctokit(token);
+    const tags: ProviderTag[] = [];
+    let page = 1;
+    let hasMore = true;
+
+    try {
+      while (hasMore) {
+        const response = await octokit.request(
+          'GET /repos/{owner}/{repo}/tags',
+          {
+            owner,
+            repo,
+            per_page: 100,
+            page,
+            headers: {
+              'X-GitHub-Api-Version': '2022-11-28',
+            },
+          }
+        );
+
+        const headers = response.headers as unknown as Record<string, string | undefined>;
+        updateRateLimit(headers);
+
+        for (const raw of response.data) {
+          tags.push({ name: raw.name, sha: raw.commit.sha, date: null, message: null });
+        }
+
+        const links = parseLinkHeader(headers['link']);
+        hasMore = links.next !== null;
+        page++;
+
+        if (hasMore) await sleep(100);
+        if (page > 10) break; // Safety cap
+      }
+
+      return { tags, rateLimit: getRateLimit() };
+    } catch (error: unknown) {
+      const err = error as { status?: number; message?: string };
+      throw new GitHubApiError(
+        err.message ?? `Failed to fetch tags for ${owner}/${repo}`,
+        err.status ?? 500
+      );
+    }
+  });
+}
+
 /**
  * Fetch language breakdown for a repository.
  */
@@ -974,6 +1017,107 @@ export async function fetchRepoBranches(
   });
 }
 
+/**
+ * Fetch the SHA at the tip of a branch.
+ */
+export async function fetchBranchHead(
+  token: string,
+  owner: string,
+  repo: string,
+  branch: string
+): Promise<{
+  sha: string;
+  rateLimit: GitHubRateLimit;
+}> {
+  return withRetry(async () => {
+    const octokit = createOctokit(token);
+
+    try {
+      const response = await octokit.request(
+        'GET /repos/{owner}/{repo}/branches/{branch}',
+        {
+          owner,
+          repo,
+          branch,
+          headers: {
+            'X-GitHub-Api-Version': '2022-11-28',
+          },
+        }
+      );
+
+      const headers = response.headers as unknown as Record<string, string | undefined>;
+      updateRateLimit(headers);
+
+      const data = response.data as unknown as Record<string, unknown>;
+      const commitObj = (data['commit'] as Record<string, unknown>) ?? {};
+
+      return {
+        sha: (commitObj['sha'] as string) ?? '',
+        rateLimit: getRateLimit(),
+      };
+    } catch (error: unknown) {
+      const err = error as { status?: number; message?: string };
+      const status = err.status ?? 500;
+      throw new GitHubApiError(
+        err.message ?? `Failed to fetch branch ${branch} for ${owner}/${repo}`,
+        status
+      );
+    }
+  });
+}
+
+/**
+ * Compare two commits. `status` is 'ahead' or 'identical' when base is an
+ * ancestor of head; 'behind' or 'diverged' means head no longer contains base.
+ */
+export async function compareCommits(
+  token: string,
+  owner: string,
+  repo: string,
+  base: string,
+  head: string
+): Promise<{
+  status: 'ahead' | 'behind' | 'identical' | 'diverged';
+  rateLimit: GitHubRateLimit;
+}> {
+  return withRetry(async () => {
+    const octokit = createOctokit(token);
+
+    try {
+      // per_page=1 — only the status is needed, not the commit list
+      const response = await octokit.request(
+        'GET /repos/{owner}/{repo}/compare/{basehead}',
+        {
+          owner,
+          repo,
+          basehead: `${base}...${head}`,
+          per_page: 1,
+          headers: {
+            'X-GitHub-Api-Version': '2022-11-28',
+          },
+        }
+      );
+
+      const headers = response.headers as unknown as Record<string, string | undefined>;
+      updateRateLimit(headers);
+
+      const data = response.data as unknown as Record<string, unknown>;
+
+      return {
+        status: (data['status'] as 'ahead' | 'behind' | 'identical' | 'diverged') ?? 'diverged',
+        rateLimit: getRateLimit(),
+      };
+    } catch (error: unknown) {
+      const err = error as { status?: number; message?: string };
+      const status = err.status ?? 500;
+      throw new GitHubApiError(
+        err.message ?? `Failed to compare ${base}...${head} for ${owner}/${repo}`,
+        status
+      );
+    }
+  });
+}
+
 /**
  * Fetch repository statistics including participation, commit activity, and code frequency.
  */
@@ -982,22 +1126,7 @@ export async function fetchRepoStats(
   owner: string,
   repo: string
 ): Promise<{
-  stats: {
-    weeklyCommitCounts: number[];
-    participation: {
-      all: number[];
-      owner: number[];
-    };
-    codeFrequency: Array<[number, number, number]>;
-    totalCommitCount: number;
-    contributorStats: Array<{
-      login: string;
-      avatarUrl: string;
-      totalCommits: number;
-      totalAdditions: number;
-      totalDeletions: number;
-    }>;
-  };
+  stats: ProviderRepoStats;
   rateLimit: GitHubRateLimit;
 }> {
   const octokit = createOctokit(token);
@@ -1117,101 +1246,6 @@ export async function fetchRepoStats(
   }
 }
 
-type FetchRepoStatsReturn = Awaited<ReturnType<typeof fetchRepoStats>>;
-
-/**
- * Smart fetch: determines strategy based on repo size.
- */
-export async function smartFetchRepoData(
-  token: string,
-  owner: string,
-  repo: string,
-  options?: {
-    since?: string;
-    until?: string;
-    maxCommits?: number;
-    includeFileDetails?: boolean;
-    onProgress?: (fetched: number, estimated: number | null) => void;
-  }
-): Promise<{
-  commits: CommitData[];
-  languages: Record<string, number>;
-  contributors: Contributor[];
-  stats: FetchRepoStatsReturn['stats'] | null;
-  rateLimit: GitHubRateLimit;
-}> {
-  const {
-    since,
-    until,
-    maxCommits = 10000,
-    onProgress,
-  } = options ?? {};
-
-  // Step 1: Fetch stats to determine commit count
-  let stats: FetchRepoStatsReturn['stats'] | null = null;
-  try {
-    const statsResult = await fetchRepoStats(token, owner, repo);
-    stats = statsResult.stats;
-  } catch {
-    // Stats might fail for empty/new repos, continue anyway
-  }
-
-  const estimatedCommits = stats?.totalCommitCount ?? 0;
-
-  // Step 2: Fetch languages (lightweight, always do this)
-  let languages: Record<string, number> = {};
-  try {
-    const langResult = await fetchRepoLanguages(token, owner, repo);
-    languages = langResult.languages;
-  } catch {
-    // Non-critical, continue
-  }
-
-  // Step 3: Fetch contributors
-  let contributors: Contributor[] = [];
-  try {
-    const contribResult = await fetchRepoContributors(token, owner, repo);
-    contributors = contribResult.contributors;
-  } catch {
-    // Non-critical, continue
-  }
-
-  // Step 4: Fetch commits based on estimated size
-  let commits: CommitData[] = [];
-
-  if (estimatedCommits > 1000 || estimatedCommits === 0) {
-    const result = await fetchAllRepoCommits(
-      token,
-      owner,
-      repo,
-      since,
-      until,
-      (fetched, estimated) => {
-        onProgress?.(fetched, estimated);
-      }
-    );
-    commits = result.commits.slice(0, maxCommits);
-  } else {
-    const result = await fetchAllRepoCommits(
-      token,
-      owner,
-      repo,
-      since,
-      until,
-      onProgress
-    );
-    commits = result.commits;
-  }
-
-  return {
-    commits,
-    languages,
-    contributors,
-    stats,
-    rateLimit: getRateLimit(),
-  };
-}
-
 /**
  * Validate a GitHub token by attempting to fetch the authenticated user.
  */
@@ -1396,3 +1430,47 @@ export async function searchUserRepos(
     }
   });
 }
+
+// =============================================================================
+// PROVIDER ADAPTER
+// =============================================================================
+
+/**
+ * Expose the GitHub client through the provider-neutral GitProvider interface.
+ */
+export function createGitHubProvider(token: string): GitProvider {
+  return {
+    source: RepositorySource.GITHUB,
+    label: 'GitHub',
+    getRepoId: (owner, repo) => `${owner}/${repo}`,
+    validateConnection: async () => {
+      const { valid, user } = await validateToken(token);
+      if (!valid || !user) {
+        throw new GitHubApiError('GitHub token is invalid or expired.', 401);
+      }
+      return { login: user.login, name: user.name, avatarUrl: user.avatarUrl || null };
+    },
+    listRepositories: (options) => fetchUserRepos(token, options),
+    searchRepositories: (query, page, perPage) => searchUserRepos(token, query, page, perPage),
+    fetchAllCommits: (owner, repo, options = {}) =>
+      fetchAllRepoCommits(token, owner, repo, options.since, options.until, options.onProgress),
+    fetchLanguages: async (owner, repo) => (await fetchRepoLanguages(token, owner, repo)).languages,
+    fetchContributors: async (owner, repo) =>
+      (await fetchRepoContributors(token, owner, repo)).contributors,
+    fetchStats: async (owner, repo) => (await fetchRepoStats(token, owner, repo)).stats,
+    fetchTags: async (owner, repo) => (await fetchRepoTags(token, owner, repo)).tags,
+    fetchBranchHead: async (owner, repo, branch) =>
+      (await fetchBranchHead(token, owner, repo, branch)).sha,
+    isAncestor: async (owner, repo, ancestorSha, headSha) => {
+      try {
+        const { status } = await compareCommits(token, owner, repo, ancestorSha, headSha);
+        return status === 'ahead' || status === 'identical';
+      } catch (error) {
+        // 404 — the old SHA no longer exists (rewritten and garbage-collected)
+        if (error instanceof GitHubApiError && error.isNotFound) return false;
+        throw error;
+      }
+    },
+    getRateLimit,
+  };
+}
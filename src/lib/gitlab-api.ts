@@ -0,0 +1,376 @@
+import type {
+  Repository,
+  RepositoryOwner,
+  LicenseInfo,
+  CommitData,
+  CommitAuthor,
+  Contributor,
+  GitProvider,
+  GitHubPagination,
+  ProviderRepoListOptions,
+  ProviderTag,
+} from '@/lib/types';
+import { RepositorySource } from '@/lib/types';
+import { getCommitDateFields, parseTimezoneOffset } from '@/lib/commit-normalizer';
+import {
+  contributorColor,
+  fetchAllPages,
+  getProviderHost,
+  getProviderRateLimit,
+  providerGet,
+  ProviderApiError,
+  readPagination,
+} from '@/lib/provider-http';
+
+// =============================================================================
+// GitLab REST v4 client (gitlab.com or self-managed).
+//
+// Repository ids are namespaced by host — `gitlab.example.com/group/project` —
+// so they can't collide with GitHub `owner/repo` ids or cache keys.
+// =============================================================================
+
+interface GitLabConnection {
+  /** Instance root, e.g. https://gitlab.com */
+  baseUrl: string;
+  apiUrl: string;
+  host: string;
+  authHeaders: Record<string, string>;
+}
+
+function createConnection(baseUrl: string, token: string): GitLabConnection {
+  return {
+    baseUrl,
+    apiUrl: `${baseUrl}/api/v4`,
+    host: getProviderHost(baseUrl),
+    // Personal, project and OAuth tokens are all accepted as bearer tokens
+    authHeaders: { Authorization: `Bearer ${token}` },
+  };
+}
+
+/** URL-encoded `namespace/project` path used as the :id route parameter. */
+function projectId(owner: string, repo: string): string {
+  return encodeURIComponent(`${owner}/${repo}`);
+}
+
+// =============================================================================
+// NORMALIZE FUNCTIONS
+// =============================================================================
+
+function normalizeProject(raw: Record<string, unknown>, conn: GitLabConnection): Repository {
+  const namespace = (raw['namespace'] as Record<string, unknown>) ?? {};
+  const license = raw['license'] as Record<string, unknown> | null | undefined;
+  const pathWithNamespace = (raw['path_with_namespace'] as string) ?? '';
+  const fullName = `${conn.host}/${pathWithNamespace}`;
+  const isGroup = namespace['kind'] === 'group';
+
+  const owner: RepositoryOwner = {
+    login: (namespace['full_path'] as string) ?? pathWithNamespace.split('/').slice(0, -1).join('/'),
+    avatarUrl: (namespace['avatar_url'] as string) ?? '',
+    isOrg: isGroup,
+    type: isGroup ? 'Organization' : 'User',
+  };
+
+  const normalizedLicense: LicenseInfo | null = license
+    ? {
+        key: (license['key'] as string) ?? '',
+        name: (license['name'] as string) ?? '',
+        spdxId: (license['key'] as string) ?? null,
+      }
+    : null;
+
+  const lastActivity = (raw['last_activity_at'] as string) ?? '';
+
+  return {
+    id: fullName,
+    githubId: (raw['id'] as number) ?? 0,
+    // `path` is the URL slug — it matches the last segment of fullName like GitHub names do
+    name: (raw['path'] as string) ?? (raw['name'] as string) ?? '',
+    fullName,
+    description: (raw['description'] as string) || null,
+    owner,
+    isPrivate: raw['visibility'] !== 'public',
+    isFork: Boolean(raw['forked_from_project']),
+    isArchived: (raw['archived'] as boolean) ?? false,
+    language: null,
+    languages: {},
+    starCount: (raw['star_count'] as number) ?? 0,
+    forkCount: (raw['forks_count'] as number) ?? 0,
+    watcherCount: 0,
+    openIssueCount: (raw['open_issues_count'] as number) ?? 0,
+    defaultBranch: (raw['default_branch'] as string) ?? 'main',
+    createdAt: (raw['created_at'] as string) ?? '',
+    updatedAt: (raw['updated_at'] as string) ?? lastActivity,
+    pushedAt: lastActivity,
+    htmlUrl: (raw['web_url'] as string) ?? '',
+    cloneUrl: (raw['http_url_to_repo'] as string) ?? '',
+    commitCount: null,
+    size: 0,
+    topics: (raw['topics'] as string[]) ?? (raw['tag_list'] as string[]) ?? [],
+    license: normalizedLicense,
+    source: RepositorySource.GITLAB,
+  };
+}
+
+function normalizeCommit(raw: Record<string, unknown>, repoId: string, repoName: string): CommitData {
+  const stats = raw['stats'] as Record<string, unknown> | undefined;
+  const parents = (raw['parent_ids'] as string[]) ?? [];
+
+  const sha = (raw['id'] as string) ?? '';
+  const message = (raw['message'] as string) ?? (raw['title'] as string) ?? '';
+  const timestamp = (raw['authored_date'] as string) ?? (raw['created_at'] as string) ?? new Date().toISOString();
+  const date = new Date(timestamp);
+  // GitLab keeps the author's own offset on authored_date
+  const timezoneOffset = parseTimezoneOffset(timestamp);
+
+  // GitLab commits carry no account info — identity is name/email only
+  const author: CommitAuthor = {
+    name: (raw['author_name'] as string) ?? 'Unknown',
+    email: (raw['author_email'] as string) ?? '',
+    login: null,
+    avatarUrl: null,
+  };
+
+  const committer: CommitAuthor = {
+    name: (raw['committer_name'] as string) ?? 'Unknown',
+    email: (raw['committer_email'] as string) ?? '',
+    login: null,
+    avatarUrl: null,
+  };
+
+  const additions = (stats?.['additions'] as number) ?? 0;
+  const deletions = (stats?.['deletions'] as number) ?? 0;
+
+  return {
+    sha,
+    shortSha: sha.substring(0, 7),
+    message,
+    messageHeadline: message.split('\n')[0],
+    author,
+    committer,
+    timestamp: date.toISOString(),
+    timestampMs: date.getTime(),
+    repoId,
+    repoName,
+    // The list endpoint has no per-file data; file lists stay empty
+    filesChanged: 0,
+    additions,
+    deletions,
+    totalChanges: additions + deletions,
+    isMerge: parents.length > 1,
+    parents,
+    files: [],
+    htmlUrl: (raw['web_url'] as string) ?? '',
+    timezoneOffset,
+    ...getCommitDateFields(date, timezoneOffset),
+  };
+}
+
+// =============================================================================
+// API FUNCTIONS
+// =============================================================================
+
+const ORDER_BY: Record<ProviderRepoListOptions['sort'], string> = {
+  created: 'created_at',
+  updated: 'updated_at',
+  pushed: 'last_activity_at',
+  full_name: 'path',
+};
+
+async function fetchProjects(
+  conn: GitLabConnection,
+  params: Record<string, string | number | boolean | undefined>,
+  page: number,
+  perPage: number
+): Promise<{ repos: Repository[]; pagination: GitHubPagination }> {
+  const { data, headers } = await providerGet<Array<Record<string, unknown>>>(
+    conn.apiUrl,
+    '/projects',
+    conn.authHeaders,
+    { membership: true, simple: false, page, per_page: perPage, ...params }
+  );
+
+  return {
+    repos: data.map((p) => normalizeProject(p, conn)),
+    pagination: readPagination(headers, page, perPage),
+  };
+}
+
+/**
+ * Create a GitProvider for a GitLab instance.
+ */
+export function createGitLabProvider(baseUrl: string, token: string): GitProvider {
+  const conn = createConnection(baseUrl, token);
+  const getRateLimit = () => getProviderRateLimit(conn.apiUrl);
+  const getRepoId = (owner: string, repo: string) => `${conn.host}/${owner}/${repo}`;
+
+  return {
+    source: RepositorySource.GITLAB,
+    label: 'GitLab',
+    getRepoId,
+
+    validateConnection: async () => {
+      const { data } = await providerGet<Record<string, unknown>>(conn.apiUrl, '/user', conn.authHeaders);
+      return {
+        login: (data['username'] as string) ?? '',
+        name: (data['name'] as string) ?? null,
+        avatarUrl: (data['avatar_url'] as string) ?? null,
+      };
+    },
+
+    listRepositories: async ({ page, perPage, sort, direction }) => {
+      const result = await fetchProjects(
+        conn,
+        { order_by: ORDER_BY[sort], sort: direction },
+        page,
+        perPage
+      );
+      return { ...result, rateLimit: getRateLimit() };
+    },
+
+    searchRepositories: async (query, page, perPage) => {
+      const result = await fetchProjects(
+        conn,
+        { search: query, order_by: 'last_activity_at', sort: 'desc' },
+        page,
+        perPage
+      );
+      const totalCount = result.pagination.totalPages
+        ? result.pagination.totalPages * perPage
+        : result.repos.length;
+      return { repos: result.repos, totalCount, rateLimit: getRateLimit() };
+    },
+
+    fetchAllCommits: async (owner, repo, options = {}) => {
+      const repoId = getRepoId(owner, repo);
+      const perPage = 100;
+
+      const commits = await fetchAllPages(
+        async (page) => {
+          const { data, headers } = await providerGet<Array<Record<string, unknown>>>(
+            conn.apiUrl,
+            `/projects/${projectId(owner, repo)}/repository/commits`,
+            conn.authHeaders,
+            {
+              with_stats: true,
+              since: options.since,
+              until: options.until,
+              page,
+              per_page: perPage,
+            }
+          );
+          return {
+            items: data.map((c) => normalizeCommit(c, repoId, repo)),
+            pagination: readPagination(headers, page, perPage),
+          };
+        },
+        { onProgress: options.onProgress }
+      );
+
+      commits.sort((a, b) => b.timestampMs - a.timestampMs);
+      return { commits, rateLimit: getRateLimit() };
+    },
+
+    fetchLanguages: async (owner, repo) => {
+      // GitLab reports percentages rather than bytes; shares are what analytics use
+      const { data } = await providerGet<Record<string, number>>(
+        conn.apiUrl,
+        `/projects/${projectId(owner, repo)}/languages`,
+        conn.authHeaders
+      );
+      return data;
+    },
+
+    fetchContributors: async (owner, repo) => {
+      const repoId = getRepoId(owner, repo);
+      const perPage = 100;
+
+      const raw = await fetchAllPages(
+        async (page) => {
+          const { data, headers } = await providerGet<Array<Record<string, unknown>>>(
+            conn.apiUrl,
+            `/projects/${projectId(owner, repo)}/repository/contributors`,
+            conn.authHeaders,
+            { page, per_page: perPage }
+          );
+          return { items: data, pagination: readPagination(headers, page, perPage) };
+        },
+        { maxPages: 20 }
+      );
+
+      return raw.map((c): Contributor => {
+        const email = (c['email'] as string) ?? '';
+        const name = (c['name'] as string) ?? 'Anonymous';
+        const id = email || name;
+        return {
+          id,
+          name,
+          email,
+          login: null,
+          avatarUrl: null,
+          totalCommits: (c['commits'] as number) ?? 0,
+          totalAdditions: (c['additions'] as number) ?? 0,
+          totalDeletions: (c['deletions'] as number) ?? 0,
+          firstCommitDate: '',
+          lastCommitDate: '',
+          repos: [repoId],
+          color: contributorColor(id),
+        };
+      });
+    },
+
+    fetchTags: async (owner, repo) => {
+      const perPage = 100;
+      const raw = await fetchAllPages(
+        async (page) => {
+          const { data, headers } = await providerGet<Array<Record<string, unknown>>>(
+            conn.apiUrl,
+            `/projects/${projectId(owner, repo)}/repository/tags`,
+            conn.authHeaders,
+            { page, per_page: perPage }
+          );
+          return { items: data, pagination: readPagination(headers, page, perPage) };
+        },
+        { maxPages: 10 }
+      );
+
+      return raw.map((t): ProviderTag => {
+        const commit = (t['commit'] as Record<string, unknown>) ?? {};
+        return {
+          name: (t['name'] as string) ?? '',
+          sha: (commit['id'] as string) ?? '',
+          date: (commit['committed_date'] as string) ?? (commit['created_at'] as string) ?? null,
+          message: (t['message'] as string) || null,
+        };
+      });
+    },
+
+    fetchBranchHead: async (owner, repo, branch) => {
+      const { data } = await providerGet<Record<string, unknown>>(
+        conn.apiUrl,
+        `/projects/${projectId(owner, repo)}/repository/branches/${encodeURIComponent(branch)}`,
+        conn.authHeaders
+      );
+      const commit = (data['commit'] as Record<string, unknown>) ?? {};
+      return (commit['id'] as string) ?? '';
+    },
+
+    isAncestor: async (owner, repo, ancestorSha, headSha) => {
+      // refs[] repeats, which the params object can't express
+      const refs = [ancestorSha, headSha].map((r) => `refs[]=${encodeURIComponent(r)}`).join('&');
+      try {
+        const { data } = await providerGet<Record<string, unknown>>(
+          conn.apiUrl,
+          `/projects/${projectId(owner, repo)}/repository/merge_base?${refs}`,
+          conn.authHeaders
+        );
+        return data['id'] === ancestorSha;
+      } catch (error) {
+        // 404 — the old SHA no longer exists (rewritten and garbage-collected)
+        if (error instanceof ProviderApiError && error.isNotFound) return false;
+        throw error;
+      }
+    },
+
+    getRateLimit,
+  };
+}
@@ -0,0 +1,157 @@
+// =============================================================================
+// GOURCE ANNOTATIONS — timed captions over the visualization
+// =============================================================================
+//
+// Annotations come from three places: git tags (release markers), the
+// milestones of a generated story, and notes the user writes. They are all
+// reduced to the same GourceAnnotation shape so the engine can caption them
+// and the timeline can mark them, and they round-trip through a small JSON
+// file format so a set can be saved alongside a recording.
+
+import { z } from 'zod';
+import type {
+  CommitData,
+  GourceAnnotation,
+  ProviderTag,
+  StoryMilestone,
+} from '@/lib/types';
+
+/**
+ * Turn tags into annotations. A tag without its own date is placed at the
+ * tagged commit when that commit is loaded; otherwise it is skipped.
+ */
+export function annotationsFromTags(
+  tags: ProviderTag[],
+  repoId: string,
+  commits: CommitData[],
+): GourceAnnotation[] {
+  const commitTimes = new Map<string, number>();
+  for (const commit of commits) {
+    if (commit.repoId === repoId) commitTimes.set(commit.sha, commit.timestampMs);
+  }
+
+  const annotations: GourceAnnotation[] = [];
+  for (const tag of tags) {
+    const tagged = tag.date ? Date.parse(tag.date) : NaN;
+    const time = Number.isNaN(tagged) ? commitTimes.get(tag.sha) : tagged;
+    if (time === undefined) continue;
+
+    annotations.push({
+      id: `tag:${repoId}:${tag.name}`,
+      time,
+      title: tag.name,
+      detail: tag.message?.split('\n')[0].trim() || null,
+      source: 'tag',
+      repoId,
+    });
+  }
+  return sortAnnotations(annotations);
+}
+
+export function annotationsFromMilestones(milestones: StoryMilestone[]): GourceAnnotation[] {
+  const annotations: GourceAnnotation[] = [];
+  for (const milestone of milestones) {
+    const time = Date.parse(milestone.date);
+    if (Number.isNaN(time)) continue;
+
+    annotations.push({
+      id: `milestone:${milestone.repoId ?? 'all'}:${milestone.date}:${milestone.title}`,
+      time,
+      title: milestone.title,
+      detail: milestone.description || null,
+      source: 'milestone',
+      repoId: milestone.repoId,
+    });
+  }
+  return sortAnnotations(annotations);
+}
+
+/** A user-authored note at `time`. */
+export function createNoteAnnotation(time: number, title: string, repoId: string | null): GourceAnnotation {
+  return {
+    id: `note:${Date.now().toString(36)}:${Math.random().toString(36).slice(2, 8)}`,
+    time,
+    title,
+    detail: null,
+    source: 'note',
+    repoId,
+  };
+}
+
+/** Add `incoming` to `existing`; an incoming annotation replaces one with the same id. */
+export function mergeAnnotations(
+  existing: GourceAnnotation[],
+  incoming: GourceAnnotation[],
+): GourceAnnotation[] {
+  const byId = new Map(existing.map((a) => [a.id, a]));
+  for (const annotation of incoming) byId.set(annotation.id, annotation);
+  return sortAnnotations(Array.from(byId.values()));
+}
+
+export function sortAnnotations(annotations: GourceAnnotation[]): GourceAnnotation[] {
+  return [...annotations].sort((a, b) => a.time - b.time);
+}
+
+// =============================================================================
+// FILE FORMAT
+// =============================================================================
+
+const annotationSchema = z.object({
+  id: z.string().min(1).optional(),
+  // Epoch milliseconds, or any date string Date.parse understands
+  time: z.union([
+    z.number().finite(),
+    z.string().transform((value, ctx) => {
+      const ms = Date.parse(value);
+      if (Number.isNaN(ms)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `"${value}" is not a date` });
+        return z.NEVER;
+      }
+      return ms;
+    }),
+  ]),
+  title: z.string().min(1),
+  detail: z.string().nullable().optional(),
+  source: z.enum(['tag', 'milestone', 'note']).default('note'),
+  repoId: z.string().nullable().optional(),
+});
+
+const fileSchema = z.object({
+  version: z.literal(1),
+  annotations: z.array(annotationSchema),
+});
+
+export type ParseAnnotationsResult =
+  | { success: true; annotations: GourceAnnotation[] }
+  | { success: false; error: string };
+
+/** Validate an annotations file loaded from JSON. */
+export function parseAnnotations(json: string): ParseAnnotationsResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { success: false, error: 'The file is not valid JSON.' };
+  }
+
+  const parsed = fileSchema.safeParse(data);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const where = issue.path.length > 0 ? ` at ${issue.path.join('.')}` : '';
+    return { success: false, error: `Not an annotations file: ${issue.message}${where}.` };
+  }
+
+  const annotations = parsed.data.annotations.map((a, i): GourceAnnotation => ({
+    id: a.id ?? `${a.source}:import:${i}:${a.time}`,
+    time: a.time,
+    title: a.title,
+    detail: a.detail ?? null,
+    source: a.source,
+    repoId: a.repoId ?? null,
+  }));
+  return { success: true, annotations: sortAnnotations(annotations) };
+}
+
+export function serializeAnnotations(annotations: GourceAnnotation[]): string {
+  return `${JSON.stringify({ version: 1, annotations }, null, 2)}\n`;
+}
@@ -0,0 +1,97 @@
+// =============================================================================
+// GOURCE COLOR MODES — what a file node's color shows
+// =============================================================================
+//
+// File nodes keep their extension color (GourceNode.color); the other modes
+// recolor the layout buffers every frame, which both the Canvas 2D and the
+// WebGL renderer draw from. Churn heat and file age are sampled from color
+// ramps, the categorical modes from contributor, repository or test colors.
+
+import { parseColorToRgb } from '@/lib/layout-buffers';
+import { FileCategory } from '@/lib/types';
+import type { GourceColorMode } from '@/lib/types';
+
+export const COLOR_MODES: Record<GourceColorMode, { label: string; hint: string }> = {
+  extension: { label: 'Extension', hint: 'Each language or file type has its own color.' },
+  churn: { label: 'Churn heat', hint: 'Lines changed recently; hotspots glow yellow and cool down over weeks.' },
+  age: { label: 'File age', hint: 'Newly added files are bright; the oldest fade to deep blue.' },
+  author: { label: 'Last author', hint: 'The color of whoever touched the file last.' },
+  repo: { label: 'Repository', hint: 'The color of the repository the file belongs to.' },
+  test: { label: 'Test vs source', hint: 'Tests, source code and everything else.' },
+};
+
+/** Churn loses half its heat every this many milliseconds of simulation time. */
+export const CHURN_HALF_LIFE_MS = 30 * 24 * 60 * 60 * 1000;
+
+export type ColorRamp = readonly (readonly [position: number, color: string])[];
+
+export const HEAT_RAMP: ColorRamp = [
+  [0, '#334155'],
+  [0.3, '#6366f1'],
+  [0.55, '#db2777'],
+  [0.8, '#f97316'],
+  [1, '#fde047'],
+];
+
+/** From just added (0) to as old as the history so far (1). */
+export const AGE_RAMP: ColorRamp = [
+  [0, '#d9f99d'],
+  [0.25, '#34d399'],
+  [0.6, '#0ea5e9'],
+  [1, '#1e3a8a'],
+];
+
+export type TestBucket = 'test' | 'source' | 'other';
+
+export const TEST_BUCKETS: Record<TestBucket, { label: string; color: string }> = {
+  test: { label: 'Tests', color: '#f472b6' },
+  source: { label: 'Source', color: '#60a5fa' },
+  other: { label: 'Other', color: '#64748b' },
+};
+
+const TEST_DIRECTORY = /(^|\/)(__tests__|__mocks__|tests?|specs?|e2e|testdata|test-utils)\//i;
+const TEST_FILE = /(\.(test|spec|e2e)\.[^/.]+$)|(_(test|spec)\.[^/.]+$)|((^|\/)test_[^/]+\.py$)|((Tests?|Spec)\.(java|kt|cs|swift|php|scala)$)/;
+
+export function isTestPath(path: string): boolean {
+  return TEST_DIRECTORY.test(path) || TEST_FILE.test(path);
+}
+
+export function classifyTestBucket(path: string, category: FileCategory): TestBucket {
+  if (category === FileCategory.TEST || isTestPath(path)) return 'test';
+  return category === FileCategory.CODE ? 'source' : 'other';
+}
+
+/** `churn` recorded at `since`, decayed to `time`. */
+export function decayChurn(churn: number, since: number, time: number): number {
+  if (churn === 0 || time <= since) return churn;
+  return churn * Math.pow(0.5, (time - since) / CHURN_HALF_LIFE_MS);
+}
+
+const rgbCache = new Map<string, { r: number; g: number; b: number }>();
+
+/** parseColorToRgb, memoized: contributor colors are HSL, which is slow to parse every frame. */
+export function colorToRgb(color: string): { r: number; g: number; b: number } {
+  let rgb = rgbCache.get(color);
+  if (!rgb) {
+    rgb = parseColorToRgb(color);
+    rgbCache.set(color, rgb);
+  }
+  return rgb;
+}
+
+/** Color at `t` (0-1) along a ramp, interpolated in RGB. */
+export function sampleRamp(ramp: ColorRamp, t: number): { r: number; g: number; b: number } {
+  const position = Math.min(1, Math.max(0, t));
+  let i = 1;
+  while (i < ramp.length - 1 && ramp[i][0] < position) i++;
+  const [startAt, startColor] = ramp[i - 1];
+  const [endAt, endColor] = ramp[i];
+  const from = colorToRgb(startColor);
+  const to = colorToRgb(endColor);
+  const f = endAt > startAt ? (position - startAt) / (endAt - startAt) : 0;
+  return {
+    r: Math.round(from.r + (to.r - from.r) * f),
+    g: Math.round(from.g + (to.g - from.g) * f),
+    b: Math.round(from.b + (to.b - from.b) * f),
+  };
+}
@@ -1,12 +1,23 @@
 import type {
   CommitData,
+  CommitFile,
   GourceNode,
   GourceCommitEvent,
   GourceContributor,
   GourceSettings,
   GourceCamera,
+  GourceCameraKeyframe,
+  GourceColorMode,
+  GourceAnnotation,
+  GourceAnnotationSource,
+  GourceInspectedCommit,
+  GourceInspection,
+  GourceSelection,
   GourceState,
   GourceFileChange,
+  GourceLogImport,
+  GourceRenderBackend,
+  GourceRenderStats,
   GameLoopState,
   Repository,
   Contributor,
@@ -23,12 +34,34 @@ import {
   GITHUB_LANGUAGE_COLORS,
   PlaybackState,
   PlaybackSpeed,
+  RepositorySource,
   FileCategory as FileCategoryEnum,
 } from '@/lib/types';
 
 import { LayoutBuffers, NodeFlags, parseColorToRgb } from '@/lib/layout-buffers';
 import { TreeLayout } from '@/lib/tree-layout';
+import { LayoutWorkerClient } from '@/lib/layout-worker-client';
+import { KeyframeStore, estimateKeyframeBytes } from '@/lib/gource-keyframes';
+import type { SceneKeyframe } from '@/lib/gource-keyframes';
+import { CameraDirector } from '@/lib/camera-director';
+import { PathFilter, isEmptyPathRules } from '@/lib/path-filter';
+import {
+  AGE_RAMP,
+  COLOR_MODES,
+  HEAT_RAMP,
+  TEST_BUCKETS,
+  classifyTestBucket,
+  colorToRgb,
+  decayChurn,
+  sampleRamp,
+} from '@/lib/gource-color-modes';
+import type { ColorRamp, TestBucket } from '@/lib/gource-color-modes';
 import { BeamPool, ParticlePool } from '@/lib/object-pools';
+import { EXTENSION_TO_LANGUAGE } from '@/lib/commit-normalizer';
+import { getIdentityId } from '@/lib/identity-resolver';
+import { formatGourceLog } from '@/lib/gource-log';
+import { WebGLRenderer, isWebGL2Available } from '@/lib/webgl-renderer';
+import type { IGourceRenderer } from '@/lib/webgl-renderer';
 
 // =============================================================================
 // HELPER UTILITIES
@@ -119,6 +152,21 @@ function dateToString(timestampMs: number): string {
   return d.toISOString().split('T')[0];
 }
 
+/** Shorten `text` with an ellipsis to fit `maxWidth` in the current font. */
+function truncateText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  let end = text.length;
+  while (end > 1 && ctx.measureText(`${text.slice(0, end)}…`).width > maxWidth) end--;
+  return `${text.slice(0, end)}…`;
+}
+
+/** A row of the on-canvas color legend. */
+interface LegendEntry {
+  color: string;
+  label: string;
+  count: number;
+}
+
 function generateColor(seed: string): string {
   let hash = 0;
   for (let i = 0; i < seed.length; i++) {
@@ -135,61 +183,6 @@ function generateColor(seed: string): string {
 // LANGUAGE COLOR MAPPING (extension -> language -> GitHub color)
 // =============================================================================
 
-/** Map file extensions to their language name for GITHUB_LANGUAGE_COLORS lookup */
-const EXTENSION_TO_LANGUAGE: Record<string, string> = {
-  ts: 'TypeScript',
-  tsx: 'TypeScript',
-  js: 'JavaScript',
-  jsx: 'JavaScript',
-  mjs: 'JavaScript',
-  cjs: 'JavaScript',
-  py: 'Python',
-  pyw: 'Python',
-  java: 'Java',
-  go: 'Go',
-  rs: 'Rust',
-  cpp: 'C++',
-  cc: 'C++',
-  cxx: 'C++',
-  hpp: 'C++',
-  c: 'C',
-  h: 'C',
-  cs: 'C#',
-  rb: 'Ruby',
-  php: 'PHP',
-  swift: 'Swift',
-  kt: 'Kotlin',
-  kts: 'Kotlin',
-  dart: 'Dart',
-  html: 'HTML',
-  htm: 'HTML',
-  css: 'CSS',
-  scss: 'CSS',
-  sass: 'CSS',
-  less: 'CSS',
-  sh: 'Shell',
-  bash: 'Shell',
-  zsh: 'Shell',
-  vue: 'Vue',
-  svelte: 'Svelte',
-  scala: 'Scala',
-  ex: 'Elixir',
-  exs: 'Elixir',
-  hs: 'Haskell',
-  lua: 'Lua',
-  r: 'R',
-  m: 'MATLAB',
-  pl: 'Perl',
-  pm: 'Perl',
-  zig: 'Zig',
-  nim: 'Nim',
-  ml: 'OCaml',
-  mli: 'OCaml',
-  clj: 'Clojure',
-  cljs: 'Clojure',
-  erl: 'Erlang',
-};
-
 /** Get the language color for a file extension, falling back to category color */
 function getLanguageColor(extension: string): string | null {
   const language = EXTENSION_TO_LANGUAGE[extension];
@@ -207,6 +200,24 @@ const REPO_COLORS = [
   '#c084fc', '#f43f5e', '#14b8a6', '#eab308',
 ];
 
+// Seek keyframes: one every 250 events at first, thinned to stay under 96 MB
+const KEYFRAME_INTERVAL = 250;
+const KEYFRAME_BUDGET_BYTES = 96 * 1024 * 1024;
+
+// Captions: on screen for five seconds of playback, fading at either end
+const CAPTION_DURATION_MS = 5000;
+const CAPTION_FADE_MS = 600;
+const MAX_CAPTIONS = 3;
+
+// Inspector: commits listed for a selected file or contributor
+const INSPECTOR_COMMIT_LIMIT = 50;
+
+const CAPTION_ACCENTS: Record<GourceAnnotationSource, string> = {
+  tag: '#60a5fa',
+  milestone: '#fbbf24',
+  note: '#34d399',
+};
+
 // =============================================================================
 // SYNTHETIC FILE GENERATION
 // =============================================================================
@@ -345,6 +356,37 @@ function inferCommitType(message: string): 'add' | 'modify' | 'delete' {
   return 'modify';
 }
 
+/** Convert API file entries into gource file changes rooted under `repoName`. */
+function toGourceFileChanges(files: CommitFile[], repoName: string): GourceFileChange[] {
+  return files.map((f) => ({
+    path: `${repoName}/${f.path}`,
+    type: f.status === 'added' ? 'add' as const : f.status === 'removed' ? 'delete' as const : f.status === 'renamed' ? 'rename' as const : 'modify' as const,
+    additions: f.additions,
+    deletions: f.deletions,
+    ...(f.status === 'renamed' && f.previousPath ? { previousPath: `${repoName}/${f.previousPath}` } : {}),
+  }));
+}
+
+function toInspectedCommit(event: GourceCommitEvent, files: GourceFileChange[]): GourceInspectedCommit {
+  let additions = 0;
+  let deletions = 0;
+  for (const f of files) {
+    additions += f.additions;
+    deletions += f.deletions;
+  }
+  return {
+    sha: event.sha,
+    timestamp: event.timestamp,
+    contributorId: event.contributorId,
+    contributorName: event.contributorName,
+    htmlUrl: event.htmlUrl ?? null,
+    fileCount: files.length,
+    additions,
+    deletions,
+    changeType: files.length === 1 ? files[0].type : null,
+  };
+}
+
 /**
  * Generate synthetic file paths for a commit when the API didn't return file details.
  * Uses the commit SHA as seed for deterministic, varied results.
@@ -448,7 +490,7 @@ export interface GourceEngineCallbacks {
   onFrame?: (state: GourceState) => void;
   onDateChange?: (date: string) => void;
   onPlaybackChange?: (state: PlaybackState) => void;
-  onStatsUpdate?: (stats: { fps: number; nodeCount: number; edgeCount: number; beamCount: number }) => void;
+  onStatsUpdate?: (stats: GourceRenderStats) => void;
 }
 
 /** Input data required to construct a GourceEngine. */
@@ -456,6 +498,11 @@ export interface GourceEngineData {
   commits: CommitData[];
   repositories: Repository[];
   contributors: Contributor[];
+  /**
+   * Ready-made events (e.g. an imported gource log), played as given instead
+   * of being derived from `commits`.
+   */
+  events?: GourceCommitEvent[];
 }
 
 /**
@@ -475,6 +522,8 @@ export class GourceEngine {
   // ---- Scene Graph (SoA buffers + tree layout) ----
   private buffers: LayoutBuffers;
   private treeLayout: TreeLayout;
+  /** Runs tree physics off the main thread; null means physics runs here */
+  private layoutWorker: LayoutWorkerClient | null = null;
 
   /**
    * Legacy node Map maintained alongside SoA `buffers` for external consumers.
@@ -495,6 +544,7 @@ export class GourceEngine {
   private state: GourceState;
   private settings: GourceSettings;
   private camera: GourceCamera;
+  private director = new CameraDirector();
   private loopState: GameLoopState;
 
   // ---- Playback ----
@@ -504,6 +554,40 @@ export class GourceEngine {
   private endTime: number = 0;
   private autoSpeedFactor: number = 1;
 
+  // ---- Seek Keyframes ----
+  private keyframes = new KeyframeStore(KEYFRAME_BUDGET_BYTES, KEYFRAME_INTERVAL);
+  /** Bumped whenever the scene is rebuilt, so pending node removals are dropped */
+  private sceneEpoch: number = 0;
+
+  // ---- Inspection ----
+  private selection: GourceSelection | null = null;
+  /** Contributor the camera follows whatever the director mode; panning releases it */
+  private pinnedContributorId: string | null = null;
+
+  // ---- Captions ----
+  private annotations: GourceAnnotation[] = [];
+  /** First annotation whose time playback has not reached yet */
+  private nextAnnotationIndex: number = 0;
+  /** On screen now; `age` is playback milliseconds since it appeared */
+  private captions: { annotation: GourceAnnotation; age: number }[] = [];
+
+  // ---- Color Modes ----
+  /** Mode the buffers' file colors were last painted for; null forces a repaint */
+  private paintedColorMode: GourceColorMode | null = 'extension';
+
+  // ---- Split View ----
+  /** Engine whose simulation clock this one plays on instead of its own */
+  private clockSource: GourceEngine | null = null;
+
+  /** Jitter source; seeded during offline renders so exports are reproducible */
+  private random: () => number = Math.random;
+
+  /**
+   * Offline-render time axis with quiet gaps capped: simulation timestamps
+   * and their cumulative position on the compressed axis. Null = linear.
+   */
+  private offlineTimeline: { times: number[]; offsets: number[] } | null = null;
+
   // ---- Rendering ----
   private canvas: HTMLCanvasElement | null = null;
   private ctx: CanvasRenderingContext2D | null = null;
@@ -512,6 +596,13 @@ export class GourceEngine {
   private pixelRatio: number = 1;
   private animationFrameId: number | null = null;
 
+  /**
+   * WebGL2 backend drawing scene geometry into its own offscreen canvas,
+   * composited into `canvas` each frame. Null when Canvas 2D draws everything.
+   */
+  private renderer: IGourceRenderer | null = null;
+  private rendererCanvas: HTMLCanvasElement | null = null;
+
   // ---- Callbacks ----
   private callbacks: GourceEngineCallbacks = {};
 
@@ -530,6 +621,19 @@ export class GourceEngine {
   // ---- Repo Language Map (for synthetic file generation) ----
   private repoLanguageMap: Map<string, string | null> = new Map();
 
+  /**
+   * Repos whose commits always carry real file lists (local imports). An empty
+   * list there means the commit touched nothing (e.g. a merge), not missing data.
+   */
+  private realFileRepoIds: Set<string> = new Set();
+
+  // ---- Path Filters (compiled from settings, per repository) ----
+  private pathFilters: Map<string, PathFilter | null> = new Map();
+
+  // ---- File Hydration (real file lists arriving after construction) ----
+  private eventRepoNames: Map<string, string> = new Map();
+  private hydratedShas: Set<string> = new Set();
+
   constructor(data: GourceEngineData) {
     this.settings = { ...DEFAULT_GOURCE_SETTINGS };
     this.camera = { ...DEFAULT_CAMERA };
@@ -556,7 +660,11 @@ export class GourceEngine {
     // Process commit data into gource events
     this.repositories = data.repositories;
     this.setupRepoColors();
-    this.processCommitData(data.commits, data.contributors);
+    if (data.events) {
+      this.processEventData(data.events, data.contributors);
+    } else {
+      this.processCommitData(data.commits, data.contributors);
+    }
 
     // Compute time range
     if (this.commitEvents.length > 0) {
@@ -599,69 +707,40 @@ export class GourceEngine {
     this.repositories.forEach((repo, index) => {
       this.repoColorMap.set(repo.fullName, REPO_COLORS[index % REPO_COLORS.length]);
       this.repoLanguageMap.set(repo.fullName, repo.language);
+      if (repo.source === RepositorySource.LOCAL) {
+        this.realFileRepoIds.add(repo.fullName);
+      }
     });
   }
 
   private processCommitData(commits: CommitData[], contributorData: Contributor[]): void {
-    // Setup contributor map from provided data
-    for (const contributor of contributorData) {
-      this.contributors.set(contributor.id, {
-        id: contributor.id,
-        name: contributor.name,
-        avatarUrl: contributor.avatarUrl,
-        avatarImage: null,
-        x: 0,
-        y: 0,
-        targetX: 0,
-        targetY: 0,
-        color: contributor.color || generateColor(contributor.id),
-        opacity: 0,
-        lastActiveTime: 0,
-        isVisible: false,
-      });
-    }
+    this.registerContributors(contributorData);
 
     // Sort commits by timestamp
     const sortedCommits = [...commits].sort((a, b) => a.timestampMs - b.timestampMs);
 
     // Convert to GourceCommitEvents
     this.commitEvents = sortedCommits.map((commit) => {
-      const contributorId = commit.author.login || commit.author.email || commit.author.name;
-
-      // Ensure contributor exists
-      if (!this.contributors.has(contributorId)) {
-        this.contributors.set(contributorId, {
-          id: contributorId,
-          name: commit.author.name,
-          avatarUrl: commit.author.avatarUrl,
-          avatarImage: null,
-          x: 0,
-          y: 0,
-          targetX: 0,
-          targetY: 0,
-          color: generateColor(contributorId),
-          opacity: 0,
-          lastActiveTime: 0,
-          isVisible: false,
-        });
-      }
+      const contributorId = getIdentityId(commit.author);
+      this.ensureContributor(contributorId, commit.author.name, commit.author.avatarUrl);
 
       let affectedFiles: GourceFileChange[];
+      let synthetic = false;
 
       if (commit.files.length > 0) {
         // Real file data from API
-        affectedFiles = commit.files.map((f) => ({
-          path: `${commit.repoName}/${f.path}`,
-          type: f.status === 'added' ? 'add' as const : f.status === 'removed' ? 'delete' as const : f.status === 'renamed' ? 'rename' as const : 'modify' as const,
-          additions: f.additions,
-          deletions: f.deletions,
-        }));
+        affectedFiles = toGourceFileChanges(commit.files, commit.repoName);
+      } else if (this.realFileRepoIds.has(commit.repoId)) {
+        affectedFiles = [];
       } else {
         // No file data from API — synthesize realistic file paths
         const repoLanguage = this.repoLanguageMap.get(commit.repoId) || null;
         affectedFiles = generateSyntheticFiles(commit, repoLanguage);
+        synthetic = true;
       }
 
+      this.eventRepoNames.set(commit.sha, commit.repoName);
+
       return {
         sha: commit.sha,
         timestamp: commit.timestampMs,
@@ -671,16 +750,80 @@ export class GourceEngine {
         repoId: commit.repoId,
         affectedFiles,
         processed: false,
+        htmlUrl: commit.htmlUrl || undefined,
+        ...(synthetic ? { synthetic } : {}),
       };
     });
   }
 
-  /** Bind the engine to a canvas element and create initial scene graph. */
-  public initialize(canvas: HTMLCanvasElement): void {
+  /**
+   * Adopt ready-made events. They are copied, so the caller's array can seed
+   * further engines; file lists hydrate under the repository's short name,
+   * matching the paths of events derived from commits.
+   */
+  private processEventData(events: GourceCommitEvent[], contributorData: Contributor[]): void {
+    this.registerContributors(contributorData);
+
+    const repoNames = new Map(this.repositories.map((repo) => [repo.fullName, repo.name]));
+    this.commitEvents = [...events]
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .map((event) => {
+        this.ensureContributor(event.contributorId, event.contributorName, event.contributorAvatarUrl);
+        this.eventRepoNames.set(event.sha, repoNames.get(event.repoId) ?? event.repoId);
+        return { ...event, processed: false };
+      });
+  }
+
+  private registerContributors(contributorData: Contributor[]): void {
+    for (const contributor of contributorData) {
+      this.contributors.set(contributor.id, {
+        id: contributor.id,
+        name: contributor.name,
+        avatarUrl: contributor.avatarUrl,
+        avatarImage: null,
+        x: 0,
+        y: 0,
+        targetX: 0,
+        targetY: 0,
+        color: contributor.color || generateColor(contributor.id),
+        opacity: 0,
+        lastActiveTime: 0,
+        isVisible: false,
+      });
+    }
+  }
+
+  private ensureContributor(id: string, name: string, avatarUrl: string | null): void {
+    if (this.contributors.has(id)) return;
+    this.contributors.set(id, {
+      id,
+      name,
+      avatarUrl,
+      avatarImage: null,
+      x: 0,
+      y: 0,
+      targetX: 0,
+      targetY: 0,
+      color: generateColor(id),
+      opacity: 0,
+      lastActiveTime: 0,
+      isVisible: false,
+    });
+  }
+
+  /**
+   * Bind the engine to a canvas element and create initial scene graph.
+   * An explicit size renders at exactly that many pixels (offline export);
+   * otherwise the canvas' layout size is scaled by the device pixel ratio.
+   */
+  public initialize(canvas: HTMLCanvasElement, size?: { width: number; height: number }): void {
     this.canvas = canvas;
     this.ctx = canvas.getContext('2d', { alpha: false });
-    this.pixelRatio = window.devicePixelRatio || 1;
-    this.resize(canvas.clientWidth, canvas.clientHeight);
+    this.pixelRatio = size ? 1 : window.devicePixelRatio || 1;
+    this.resize(size?.width ?? canvas.clientWidth, size?.height ?? canvas.clientHeight);
+    this.selectRenderer();
+    // Offline export steps physics in lockstep with its frames, so it stays here
+    if (!size) this.startLayoutWorker();
 
     // Create root nodes for each repository
     const repoCount = this.repositories.length;
@@ -712,11 +855,14 @@ export class GourceEngine {
         this.buffers.scale[idx] = 1;
         this.buffers.angle[idx] = baseAngle;
         this.treeLayout.addRoot(idx);
+        this.layoutWorker?.updateNode(idx, { x: node.x, y: node.y, targetX: node.x, targetY: node.y });
       }
     }
+    this.layoutWorker?.setRoots(this.repositories.map((r) => r.fullName));
 
     // Recompute full tree layout
     this.treeLayout.recomputeAll();
+    this.layoutWorker?.recomputeAll();
 
     // Pre-load contributor avatars
     this.contributors.forEach((contributor) => {
@@ -736,6 +882,49 @@ export class GourceEngine {
     this.canvas.style.width = `${width}px`;
     this.canvas.style.height = `${height}px`;
     this.ctx.setTransform(this.pixelRatio, 0, 0, this.pixelRatio, 0, 0);
+    this.renderer?.resize(width, height);
+  }
+
+  /**
+   * Move tree physics into the layout worker. If the worker can't start or
+   * fails later, physics carries on here from the current positions.
+   */
+  private startLayoutWorker(): void {
+    this.layoutWorker = LayoutWorkerClient.create(this.buffers, (reason) => {
+      console.warn(`GourceEngine: layout worker stopped (${reason}); running layout on the main thread`);
+      this.layoutWorker = null;
+    });
+  }
+
+  private stopLayoutWorker(): void {
+    this.layoutWorker?.dispose();
+    this.layoutWorker = null;
+  }
+
+  /**
+   * (Re)create the drawing backend for the `renderer` setting. WebGL2 renders
+   * offscreen and is composited into the 2D canvas, which keeps drawing labels
+   * and overlays, so the backend can change without replacing the canvas.
+   */
+  private selectRenderer(): void {
+    this.renderer?.dispose();
+    this.renderer = null;
+    this.rendererCanvas = null;
+    if (!this.ctx) return;
+
+    const preference = this.settings.renderer;
+    if (preference === 'canvas2d') return;
+    if (preference === 'auto' && !isWebGL2Available()) return;
+
+    const rendererCanvas = document.createElement('canvas');
+    const renderer = new WebGLRenderer();
+    if (!renderer.initialize(rendererCanvas)) {
+      console.warn('GourceEngine: WebGL2 renderer unavailable, using Canvas 2D');
+      return;
+    }
+    renderer.resize(this.width, this.height);
+    this.renderer = renderer;
+    this.rendererCanvas = rendererCanvas;
   }
 
   // ===========================================================================
@@ -821,7 +1010,7 @@ export class GourceEngine {
     const siblingCount = parentNode ? parentNode.children.length : 0;
     const goldenAngle = Math.PI * (3 - Math.sqrt(5));
     const childAngle = (parentNode ? parentNode.angle : 0) + goldenAngle * (siblingCount + 1);
-    const branchLen = isDirectory ? 60 + Math.max(0, 30 - depth * 5) : 35 + Math.random() * 20;
+    const branchLen = isDirectory ? 60 + Math.max(0, 30 - depth * 5) : 35 + this.random() * 20;
 
     const x = baseX + Math.cos(childAngle) * branchLen;
     const y = baseY + Math.sin(childAngle) * branchLen;
@@ -855,6 +1044,10 @@ export class GourceEngine {
       scale: 0,
       lastModified: 0,
       modificationCount: 0,
+      createdAt: 0,
+      churn: 0,
+      churnTime: 0,
+      lastAuthorId: null,
       isVisible: true,
       depth,
       angle: childAngle,
@@ -869,6 +1062,7 @@ export class GourceEngine {
 
     // Trigger incremental tree layout update
     this.treeLayout.onNodeAdded(idx);
+    this.layoutWorker?.addNode(idx);
     this.layoutDirty = true;
 
     return node;
@@ -897,7 +1091,15 @@ export class GourceEngine {
     }
   }
 
-  private addOrUpdateFile(filePath: string, repoId: string, timestamp: number, changeType: 'add' | 'modify' | 'delete' | 'rename'): GourceNode {
+  private addOrUpdateFile(
+    filePath: string,
+    repoId: string,
+    timestamp: number,
+    changeType: 'add' | 'modify' | 'delete' | 'rename',
+    linesChanged: number,
+    authorId: string,
+    color?: string,
+  ): GourceNode {
     this.ensureDirectoryChain(filePath, repoId);
 
     const dirPath = getDirectoryPath(filePath);
@@ -914,6 +1116,13 @@ export class GourceEngine {
     node.lastModified = timestamp;
     node.modificationCount++;
     node.isVisible = true;
+    if (isNew || changeType === 'add') node.createdAt = timestamp;
+    // Every change warms the file, even when the provider reports no line counts
+    node.churn = decayChurn(node.churn, node.churnTime, timestamp) + Math.max(1, linesChanged);
+    node.churnTime = timestamp;
+    node.lastAuthorId = authorId;
+    // An explicit log colour wins over the extension colour, as in gource
+    if (color) node.color = color;
 
     // Sync to buffers
     const idx = this.buffers.getIndex(filePath);
@@ -921,6 +1130,7 @@ export class GourceEngine {
       this.buffers.lastModified[idx] = timestamp;
       this.buffers.modificationCount[idx] = node.modificationCount;
       this.buffers.setFlag(idx, NodeFlags.VISIBLE);
+      if (color) this.buffers.setColor(idx, color);
     }
 
     if (isNew || changeType === 'add') {
@@ -957,6 +1167,7 @@ export class GourceEngine {
     if (idx > 0) {
       this.buffers.markDeleting(idx);
       this.buffers.scale[idx] = 0.8;
+      this.layoutWorker?.updateNode(idx, { flags: this.buffers.flags[idx] });
     }
 
     // Subtle fade-out particle on deletion
@@ -966,6 +1177,7 @@ export class GourceEngine {
         node.x, node.y,
         rgb.r, rgb.g, rgb.b,
         2, 0.2, 0.6, 0.5, 1.0, 8, 15,
+        this.random,
       );
     }
 
@@ -977,19 +1189,30 @@ export class GourceEngine {
       }
     }
 
-    // Schedule removal after fade animation
-    const parentIdx = idx > 0 ? this.buffers.parentIndex[idx] : -1;
+    // Schedule removal after fade animation, unless the scene is rebuilt first
+    const epoch = this.sceneEpoch;
     setTimeout(() => {
-      this.nodes.delete(filePath);
-      if (idx > 0) {
-        this.buffers.remove(idx);
-        if (parentIdx > 0) {
-          this.treeLayout.onNodeRemoved(parentIdx);
-        }
-      }
+      if (epoch === this.sceneEpoch) this.finalizeRemoval(filePath);
     }, 1500);
   }
 
+  /** Drop a faded-out node from the facade map, the buffers and the layout. */
+  private finalizeRemoval(path: string): void {
+    this.nodes.delete(path);
+    const idx = this.buffers.getIndex(path);
+    if (idx <= 0) return;
+
+    const parentId = this.buffers.getId(this.buffers.parentIndex[idx]);
+    this.buffers.remove(idx);
+    this.layoutWorker?.removeNode(path);
+
+    // Looked up again: the swap-remove may have moved the parent
+    const parentIdx = parentId ? this.buffers.getIndex(parentId) : 0;
+    if (parentIdx > 0) {
+      this.treeLayout.onNodeRemoved(parentIdx);
+    }
+  }
+
   // ===========================================================================
   // COMMIT PROCESSING
   // ===========================================================================
@@ -998,11 +1221,8 @@ export class GourceEngine {
     if (event.processed) return;
     event.processed = true;
 
-    // Filter by active repo if not combined view
-    if (this.state.activeRepoId && event.repoId !== this.state.activeRepoId) return;
-
-    // Filter by contributor
-    if (this.settings.contributorFilter && !this.settings.contributorFilter.includes(event.contributorId)) return;
+    // Filter by active repo / contributor
+    if (!this.isEventInView(event)) return;
 
     // Update contributor position
     const contributor = this.contributors.get(event.contributorId);
@@ -1012,15 +1232,24 @@ export class GourceEngine {
       contributor.lastActiveTime = this.simulationTime;
     }
 
-    // Process each file change
-    for (const fileChange of event.affectedFiles) {
+    // Process each file change that passes the path rules
+    const files = this.resolveFileChanges(event.affectedFiles, event.repoId);
+    for (const fileChange of files) {
       if (fileChange.type === 'delete') {
         this.removeFile(fileChange.path);
         continue;
       }
 
       const isNewFile = !this.nodes.has(fileChange.path) || fileChange.type === 'add';
-      const node = this.addOrUpdateFile(fileChange.path, event.repoId, event.timestamp, fileChange.type);
+      const node = this.addOrUpdateFile(
+        fileChange.path,
+        event.repoId,
+        event.timestamp,
+        fileChange.type,
+        fileChange.additions + fileChange.deletions,
+        event.contributorId,
+        fileChange.color,
+      );
 
       // Create beam from contributor to the file node
       if (contributor && this.settings.showCommitBeams) {
@@ -1045,14 +1274,17 @@ export class GourceEngine {
           0.3, 1.0,
           0.6, 1.5,
           10, 20,
+          this.random,
         );
       }
     }
 
+    this.director.noteCommit(event.contributorId, files.map((f) => f.path));
+
     // Move contributor toward affected files (centroid)
-    if (contributor && event.affectedFiles.length > 0) {
+    if (contributor && files.length > 0) {
       let cx = 0, cy = 0, count = 0;
-      for (const f of event.affectedFiles) {
+      for (const f of files) {
         const targetNode = this.nodes.get(f.path);
         if (targetNode) {
           cx += targetNode.x;
@@ -1061,19 +1293,149 @@ export class GourceEngine {
         }
       }
       if (count > 0) {
-        contributor.targetX = cx / count + (Math.random() - 0.5) * 60;
-        contributor.targetY = cy / count + (Math.random() - 0.5) * 60;
+        contributor.targetX = cx / count + (this.random() - 0.5) * 60;
+        contributor.targetY = cy / count + (this.random() - 0.5) * 60;
       }
     }
   }
 
+  /** The rules that apply to a repository's files, compiled on first use. */
+  private getPathFilter(repoId: string): PathFilter | null {
+    let filter = this.pathFilters.get(repoId);
+    if (filter === undefined) {
+      const rules = this.settings.repoPathRules[repoId] ?? this.settings.pathRules;
+      filter = isEmptyPathRules(rules) ? null : new PathFilter(rules);
+      this.pathFilters.set(repoId, filter);
+    }
+    return filter;
+  }
+
+  /** Drop filtered-out files and map the rest to their (possibly collapsed) node paths. */
+  private resolveFileChanges(files: GourceFileChange[], repoId: string): GourceFileChange[] {
+    const filter = this.getPathFilter(repoId);
+    if (!filter) return files;
+
+    const resolved: GourceFileChange[] = [];
+    for (const file of files) {
+      const path = filter.resolve(file.path);
+      if (path !== null) resolved.push(path === file.path ? file : { ...file, path });
+    }
+    return resolved;
+  }
+
+  /** Whether an event passes the active repo and contributor filters. */
+  private isEventInView(event: GourceCommitEvent): boolean {
+    if (this.state.activeRepoId && event.repoId !== this.state.activeRepoId) return false;
+    if (this.settings.contributorFilter && !this.settings.contributorFilter.includes(event.contributorId)) return false;
+    return true;
+  }
+
+  /**
+   * Swap synthetic file lists for real ones fetched after construction.
+   *
+   * Events that have not played yet simply get their `affectedFiles` replaced.
+   * Events already on screen get their real files added in place and the
+   * synthetic nodes they introduced faded out (unless another played event
+   * still references them), so a running visualization converges on the real
+   * tree without a restart. Returns the number of events updated.
+   */
+  public hydrateCommitFiles(filesBySha: Map<string, CommitFile[]>): number {
+    const playedEvents: GourceCommitEvent[] = [];
+    const stalePaths = new Set<string>();
+    let updated = 0;
+
+    for (let i = 0; i < this.commitEvents.length; i++) {
+      const event = this.commitEvents[i];
+      if (this.hydratedShas.has(event.sha)) continue;
+      const files = filesBySha.get(event.sha);
+      if (!files || files.length === 0) continue;
+      if (updated === 0) this.keyframes.invalidateAfter(i);
+
+      const repoName = this.eventRepoNames.get(event.sha) ?? event.repoId;
+      const previousFiles = event.affectedFiles;
+      event.affectedFiles = toGourceFileChanges(files, repoName);
+      delete event.synthetic;
+      this.hydratedShas.add(event.sha);
+      updated++;
+
+      if (event.processed && this.isEventInView(event)) {
+        playedEvents.push(event);
+        for (const f of this.resolveFileChanges(previousFiles, event.repoId)) {
+          stalePaths.add(f.path);
+        }
+      }
+    }
+
+    if (playedEvents.length === 0) return updated;
+
+    // commitEvents is sorted, so played events replay in chronological order
+    for (const event of playedEvents) {
+      for (const fileChange of this.resolveFileChanges(event.affectedFiles, event.repoId)) {
+        stalePaths.delete(fileChange.path);
+        if (fileChange.type === 'delete') {
+          this.removeFile(fileChange.path);
+        } else {
+          this.addOrUpdateFile(
+            fileChange.path,
+            event.repoId,
+            event.timestamp,
+            fileChange.type,
+            fileChange.additions + fileChange.deletions,
+            event.contributorId,
+            fileChange.color,
+          );
+        }
+      }
+    }
+
+    // Keep synthetic paths that other played (still synthetic) events touched
+    for (const event of this.commitEvents) {
+      if (!event.processed || stalePaths.size === 0) continue;
+      for (const f of this.resolveFileChanges(event.affectedFiles, event.repoId)) {
+        stalePaths.delete(f.path);
+      }
+    }
+
+    const orphanedDirs = new Set<string>();
+    stalePaths.forEach((path) => {
+      const node = this.nodes.get(path);
+      if (!node || node.isDirectory) return;
+      if (node.parentId) orphanedDirs.add(node.parentId);
+      this.removeFile(path);
+    });
+    orphanedDirs.forEach((dirPath) => this.pruneEmptyDirectories(dirPath));
+
+    this.layoutDirty = true;
+    return updated;
+  }
+
+  /**
+   * Remove a directory and its ancestors once they no longer hold any children.
+   * Repository roots (the nodes without a parent) are always kept.
+   */
+  private pruneEmptyDirectories(dirPath: string): void {
+    let current: string | null = dirPath;
+
+    while (current) {
+      const node = this.nodes.get(current);
+      if (!node || !node.isDirectory || node.parentId === null || node.children.length > 0) return;
+      const parentId: string | null = node.parentId;
+      this.removeFile(current);
+      current = parentId;
+    }
+  }
+
   // ===========================================================================
   // PHYSICS / LAYOUT UPDATE
   // ===========================================================================
 
   private updateLayout(dt: number): void {
     // --- Tree layout physics (spring-to-target + sibling repulsion) ---
-    this.treeLayout.updatePhysics(dt);
+    if (this.layoutWorker) {
+      this.layoutWorker.step(dt, this.simulationTime, this.settings.nodeFadeTime);
+    } else {
+      this.treeLayout.updatePhysics(dt);
+    }
 
     // --- Animations (pop-in, deletion, fading) ---
     this.treeLayout.updateAnimations(this.simulationTime, this.settings.nodeFadeTime);
@@ -1139,44 +1501,51 @@ export class GourceEngine {
     this.camera.y = lerp(this.camera.y, this.camera.targetY, smoothing);
     this.camera.zoom = lerp(this.camera.zoom, this.camera.targetZoom, smoothing);
 
-    // Auto-follow: center camera on the centroid of recently-modified nodes
-    if (!this.camera.isUserControlled) {
-      let sumX = 0;
-      let sumY = 0;
-      let totalWeight = 0;
-      let count = 0;
+    // A pinned contributor overrides the director; zoom stays with the user
+    const pinned = this.pinnedContributorId ? this.contributors.get(this.pinnedContributorId) : undefined;
+    if (pinned?.isVisible) {
+      this.camera.targetX = pinned.x;
+      this.camera.targetY = pinned.y;
+      return;
+    }
 
-      this.nodes.forEach((node) => {
-        if (node.opacity > 0.3 && !node.isDirectory) {
-          const recency = this.simulationTime - node.lastModified;
-          if (recency < 15000) {
-            const weight = Math.max(0.1, 1 - recency / 15000);
-            sumX += node.x * weight;
-            sumY += node.y * weight;
-            totalWeight += weight;
-            count++;
-          }
-        }
+    // Let the director frame the next shot unless the user has taken over
+    if (!this.camera.isUserControlled) {
+      const shot = this.director.frame(this.settings.cameraMode, this.settings.cameraScript, {
+        nodes: this.nodes,
+        contributors: this.contributors,
+        simulationTime: this.simulationTime,
+        viewWidth: this.width,
+        viewHeight: this.height,
       });
 
-      if (count > 0 && totalWeight > 0) {
-        this.camera.targetX = sumX / totalWeight;
-        this.camera.targetY = sumY / totalWeight;
-
-        // Auto-zoom: zoom out more when tree is large
-        const nodeCount = this.nodes.size;
-        if (nodeCount > 500) {
-          this.camera.targetZoom = Math.max(0.4, 1 - (nodeCount - 500) / 5000);
-        } else {
-          this.camera.targetZoom = 1;
+      if (shot) {
+        this.camera.targetX = shot.x;
+        this.camera.targetY = shot.y;
+        this.camera.targetZoom = shot.zoom;
+        if (shot.cut) {
+          this.camera.x = shot.x;
+          this.camera.y = shot.y;
+          this.camera.zoom = shot.zoom;
         }
       }
     }
   }
 
+  /** The current view as a camera script keyframe at the current time. */
+  public getCameraKeyframe(): GourceCameraKeyframe {
+    return {
+      time: this.simulationTime,
+      x: Math.round(this.camera.x),
+      y: Math.round(this.camera.y),
+      zoom: Math.round(this.camera.zoom * 1000) / 1000,
+    };
+  }
+
   /** Pan the camera by a screen-space delta. */
   public panCamera(dx: number, dy: number): void {
     this.camera.isUserControlled = true;
+    this.pinnedContributorId = null;
     this.camera.targetX -= dx / this.camera.zoom;
     this.camera.targetY -= dy / this.camera.zoom;
   }
@@ -1196,7 +1565,7 @@ export class GourceEngine {
     this.camera.isUserControlled = true;
   }
 
-  /** Reset camera to center with auto-follow enabled. */
+  /** Reset camera to center and hand it back to the director. */
   public resetCamera(): void {
     this.camera.isUserControlled = false;
     this.camera.targetX = 0;
@@ -1204,29 +1573,32 @@ export class GourceEngine {
     this.camera.targetZoom = 1;
   }
 
+  /** Where the user has put the camera, or null while the director is framing shots. */
+  public getCameraView(): { x: number; y: number; zoom: number } | null {
+    if (!this.camera.isUserControlled) return null;
+    return { x: this.camera.targetX, y: this.camera.targetY, zoom: this.camera.targetZoom };
+  }
+
+  /** Cut to a view and keep the camera there, as if the user had steered it, until reset. */
+  public setCameraView(view: { x: number; y: number; zoom: number }): void {
+    this.camera.isUserControlled = true;
+    this.pinnedContributorId = null;
+    this.camera.x = this.camera.targetX = view.x;
+    this.camera.y = this.camera.targetY = view.y;
+    this.camera.zoom = this.camera.targetZoom = clamp(view.zoom, 0.1, 10);
+  }
+
   // ===========================================================================
-  // RENDERING (Canvas 2D — kept as fallback, eventually replaced by WebGL)
+  // RENDERING (WebGL2 geometry when available; Canvas 2D for text + fallback)
   // ===========================================================================
 
   private render(): void {
     if (!this.ctx) return;
+    this.paintNodeColors();
     const ctx = this.ctx;
     const w = this.width;
     const h = this.height;
 
-    // Clear with background
-    ctx.fillStyle = this.settings.backgroundColor;
-    ctx.fillRect(0, 0, w, h);
-
-    // Render subtle background grid/stars
-    this.renderBackground(ctx, w, h);
-
-    // Apply camera transform
-    ctx.save();
-    ctx.translate(w / 2, h / 2);
-    ctx.scale(this.camera.zoom, this.camera.zoom);
-    ctx.translate(-this.camera.x, -this.camera.y);
-
     // Compute viewport bounds for culling
     const viewport: Bounds = {
       x: this.camera.x - (w / 2) / this.camera.zoom,
@@ -1239,19 +1611,50 @@ export class GourceEngine {
     const showDetails = this.camera.zoom > 0.3;
     const showFileLabels = this.camera.zoom > 1.2;
 
-    // 1. Render edges (tree branches)
-    this.renderEdges(ctx, viewport);
-
-    // 2. Render beams
-    this.renderBeams(ctx);
+    if (this.renderer && this.rendererCanvas) {
+      // Background, edges, beams, particles and nodes on the GPU. Contributors
+      // stay on the 2D pass below, which can draw their avatar images.
+      this.renderer.render({
+        buffers: this.buffers,
+        beams: this.beamPool,
+        particles: this.particlePool,
+        contributors: this.contributors,
+        camera: this.camera,
+        settings: { ...this.settings, showAvatars: false },
+        simulationTime: this.simulationTime,
+        viewport,
+      });
+      ctx.drawImage(this.rendererCanvas, 0, 0, w, h);
+    } else {
+      // Clear with background
+      ctx.fillStyle = this.settings.backgroundColor;
+      ctx.fillRect(0, 0, w, h);
 
-    // 3. Render particles
-    if (this.settings.showParticles) {
-      this.renderParticles(ctx);
+      // Render subtle background grid/stars
+      this.renderBackground(ctx, w, h);
     }
 
-    // 4. Render nodes (directories then files for z-order)
-    this.renderNodes(ctx, viewport, showDetails, showFileLabels);
+    // Apply camera transform
+    ctx.save();
+    ctx.translate(w / 2, h / 2);
+    ctx.scale(this.camera.zoom, this.camera.zoom);
+    ctx.translate(-this.camera.x, -this.camera.y);
+
+    if (!this.renderer) {
+      // 1. Render edges (tree branches)
+      this.renderEdges(ctx, viewport);
+
+      // 2. Render beams
+      this.renderBeams(ctx);
+
+      // 3. Render particles
+      if (this.settings.showParticles) {
+        this.renderParticles(ctx);
+      }
+
+      // 4. Render nodes (directories then files for z-order)
+      this.renderNodes(ctx, viewport, showDetails, showFileLabels);
+    }
 
     // 5. Render contributors
     if (this.settings.showAvatars) {
@@ -1263,6 +1666,9 @@ export class GourceEngine {
       this.renderLabels(ctx, viewport, showFileLabels);
     }
 
+    // 7. Ring around the inspected node or contributor
+    this.renderSelection(ctx);
+
     ctx.restore();
 
     // Render UI overlays (screen space)
@@ -1714,6 +2120,35 @@ export class GourceEngine {
     });
   }
 
+  private renderSelection(ctx: CanvasRenderingContext2D): void {
+    if (!this.selection) return;
+
+    let x: number;
+    let y: number;
+    let radius: number;
+    if (this.selection.kind === 'node') {
+      const node = this.nodes.get(this.selection.path);
+      if (!node || node.opacity < 0.05) return;
+      x = node.x;
+      y = node.y;
+      radius = (node.isDirectory ? this.settings.nodeSize * 1.5 : this.settings.nodeSize) * Math.max(node.scale, 1) + 5;
+    } else {
+      const contributor = this.contributors.get(this.selection.id);
+      if (!contributor || !contributor.isVisible) return;
+      x = contributor.x;
+      y = contributor.y;
+      radius = 18;
+    }
+
+    // Constant on-screen thickness and a slow pulse
+    const pulse = 1 + Math.sin(performance.now() / 300) * 0.08;
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.85)';
+    ctx.lineWidth = 2 / this.camera.zoom;
+    ctx.beginPath();
+    ctx.arc(x, y, radius * pulse, 0, Math.PI * 2);
+    ctx.stroke();
+  }
+
   private renderDateOverlay(ctx: CanvasRenderingContext2D, w: number, h: number): void {
     const dateStr = dateToString(this.simulationTime);
 
@@ -1759,10 +2194,85 @@ export class GourceEngine {
       w - 20 - datePadX + 4,
       dateBoxY + fontSize + datePadY + 8,
     );
+
+    this.renderCaptions(ctx, w, h);
+  }
+
+  /** Lower-third boxes for the captions on screen, newest at the bottom. */
+  private renderCaptions(ctx: CanvasRenderingContext2D, w: number, h: number): void {
+    if (this.captions.length === 0) return;
+
+    const titleSize = Math.max(13, Math.min(20, w * 0.022));
+    const detailSize = Math.round(titleSize * 0.7);
+    const padX = 16;
+    const padY = 10;
+    const gap = 8;
+    const maxWidth = Math.min(w * 0.6, 560);
+    let bottom = h - 28;
+
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+
+    for (let i = this.captions.length - 1; i >= 0; i--) {
+      const { annotation, age } = this.captions[i];
+      const remaining = CAPTION_DURATION_MS - age;
+      const alpha = clamp(Math.min(age, remaining) / CAPTION_FADE_MS, 0, 1);
+      if (alpha <= 0) continue;
+
+      ctx.font = `600 ${titleSize}px -apple-system, system-ui, sans-serif`;
+      const title = truncateText(ctx, annotation.title, maxWidth - padX * 2);
+      let width = ctx.measureText(title).width;
+
+      const meta = `${dateToString(annotation.time)}${annotation.detail ? ` · ${annotation.detail}` : ''}`;
+      ctx.font = `${detailSize}px -apple-system, system-ui, sans-serif`;
+      const detail = truncateText(ctx, meta, maxWidth - padX * 2);
+      width = Math.max(width, ctx.measureText(detail).width);
+
+      const boxW = width + padX * 2;
+      const boxH = titleSize + detailSize + padY * 2 + 4;
+      const boxX = (w - boxW) / 2;
+      const boxY = bottom - boxH;
+      // Slide up slightly while fading in
+      const offset = age < CAPTION_FADE_MS ? (1 - alpha) * 6 : 0;
+
+      ctx.save();
+      ctx.globalAlpha = alpha;
+
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+      ctx.beginPath();
+      ctx.roundRect(boxX, boxY + offset, boxW, boxH, 8);
+      ctx.fill();
+
+      ctx.fillStyle = CAPTION_ACCENTS[annotation.source];
+      ctx.fillRect(boxX, boxY + offset + 8, 3, boxH - 16);
+
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.92)';
+      ctx.font = `600 ${titleSize}px -apple-system, system-ui, sans-serif`;
+      ctx.fillText(title, boxX + padX, boxY + offset + padY);
+
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.5)';
+      ctx.font = `${detailSize}px -apple-system, system-ui, sans-serif`;
+      ctx.fillText(detail, boxX + padX, boxY + offset + padY + titleSize + 4);
+
+      ctx.restore();
+      bottom = boxY - gap;
+    }
   }
 
   private renderLegendOverlay(ctx: CanvasRenderingContext2D, w: number, h: number): void {
-    const extensionColors = new Map<string, { color: string; count: number; language: string }>();
+    const mode = this.settings.colorMode;
+    if (mode === 'churn') {
+      this.renderRampLegend(ctx, h, COLOR_MODES.churn.label, HEAT_RAMP, 'cool', 'hot');
+    } else if (mode === 'age') {
+      this.renderRampLegend(ctx, h, COLOR_MODES.age.label, AGE_RAMP, 'new', 'old');
+    } else {
+      this.renderLegendEntries(ctx, h, mode === 'extension' ? this.extensionLegendEntries() : this.colorModeLegendEntries(mode));
+    }
+  }
+
+  /** The most common languages on screen, one entry per language. */
+  private extensionLegendEntries(): LegendEntry[] {
+    const extensionColors = new Map<string, LegendEntry>();
 
     this.nodes.forEach((node) => {
       if (node.isDirectory || node.opacity < 0.2) return;
@@ -1773,31 +2283,71 @@ export class GourceEngine {
         existing.count++;
       } else {
         const language = EXTENSION_TO_LANGUAGE[ext] || ext.toUpperCase();
-        extensionColors.set(ext, { color: node.color, count: 1, language });
+        extensionColors.set(ext, { color: node.color, count: 1, label: language });
       }
     });
 
-    if (extensionColors.size === 0) return;
-
     const sorted = Array.from(extensionColors.values())
       .sort((a, b) => b.count - a.count)
       .slice(0, 8);
 
     const seen = new Set<string>();
-    const deduped: typeof sorted = [];
+    const deduped: LegendEntry[] = [];
     for (const entry of sorted) {
-      if (!seen.has(entry.language)) {
-        seen.add(entry.language);
+      if (!seen.has(entry.label)) {
+        seen.add(entry.label);
         deduped.push(entry);
       }
     }
+    return deduped;
+  }
+
+  /** Files on screen per author, repository or test bucket. */
+  private colorModeLegendEntries(mode: 'author' | 'repo' | 'test'): LegendEntry[] {
+    const entries = new Map<string, LegendEntry>();
+    this.nodes.forEach((node) => {
+      if (node.isDirectory || node.opacity < 0.2) return;
+      const key = this.legendKeyFor(node, mode);
+      if (key === null) return;
+      const existing = entries.get(key);
+      if (existing) {
+        existing.count++;
+      } else {
+        entries.set(key, { ...this.legendEntryFor(key, mode), count: 1 });
+      }
+    });
+    return Array.from(entries.values())
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 8);
+  }
+
+  private legendKeyFor(node: GourceNode, mode: 'author' | 'repo' | 'test'): string | null {
+    if (mode === 'author') return node.lastAuthorId;
+    if (mode === 'repo') return node.repoId;
+    return classifyTestBucket(node.path, node.category);
+  }
+
+  private legendEntryFor(key: string, mode: 'author' | 'repo' | 'test'): Omit<LegendEntry, 'count'> {
+    if (mode === 'author') {
+      const contributor = this.contributors.get(key);
+      return { color: contributor?.color ?? '#94a3b8', label: contributor?.name ?? key };
+    }
+    if (mode === 'repo') {
+      const repo = this.repositories.find((r) => r.fullName === key);
+      return { color: this.repoColorMap.get(key) ?? '#60a5fa', label: repo?.name ?? key };
+    }
+    return TEST_BUCKETS[key as TestBucket];
+  }
+
+  private renderLegendEntries(ctx: CanvasRenderingContext2D, h: number, entries: LegendEntry[]): void {
+    if (entries.length === 0) return;
 
     const legendX = 16;
-    const legendY = h - 20 - deduped.length * 18;
+    const legendY = h - 20 - entries.length * 18;
     const dotSize = 5;
 
     const bgWidth = 120;
-    const bgHeight = deduped.length * 18 + 12;
+    const bgHeight = entries.length * 18 + 12;
     ctx.fillStyle = 'rgba(0, 0, 0, 0.3)';
     ctx.beginPath();
     ctx.roundRect(legendX - 6, legendY - 6, bgWidth, bgHeight, 6);
@@ -1807,8 +2357,8 @@ export class GourceEngine {
     ctx.textAlign = 'left';
     ctx.textBaseline = 'middle';
 
-    for (let i = 0; i < deduped.length; i++) {
-      const entry = deduped[i];
+    for (let i = 0; i < entries.length; i++) {
+      const entry = entries[i];
       const y = legendY + i * 18 + 6;
 
       ctx.fillStyle = entry.color;
@@ -1817,13 +2367,110 @@ export class GourceEngine {
       ctx.fill();
 
       ctx.fillStyle = 'rgba(255, 255, 255, 0.5)';
-      ctx.fillText(entry.language, legendX + dotSize * 2 + 6, y);
+      ctx.fillText(truncateText(ctx, entry.label, bgWidth - 52), legendX + dotSize * 2 + 6, y);
 
       ctx.fillStyle = 'rgba(255, 255, 255, 0.25)';
       ctx.fillText(`${entry.count}`, legendX + bgWidth - 26, y);
     }
   }
 
+  /** A gradient bar for the continuous modes, labelled at both ends. */
+  private renderRampLegend(
+    ctx: CanvasRenderingContext2D,
+    h: number,
+    title: string,
+    ramp: ColorRamp,
+    startLabel: string,
+    endLabel: string,
+  ): void {
+    const legendX = 16;
+    const width = 120;
+    const barWidth = width - 12;
+    const legendY = h - 64;
+
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.3)';
+    ctx.beginPath();
+    ctx.roundRect(legendX - 6, legendY - 6, width, 50, 6);
+    ctx.fill();
+
+    ctx.font = '10px -apple-system, system-ui, sans-serif';
+    ctx.textBaseline = 'middle';
+    ctx.textAlign = 'left';
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.5)';
+    ctx.fillText(title, legendX, legendY + 6);
+
+    const gradient = ctx.createLinearGradient(legendX, 0, legendX + barWidth, 0);
+    for (const [position, color] of ramp) gradient.addColorStop(position, color);
+    ctx.fillStyle = gradient;
+    ctx.beginPath();
+    ctx.roundRect(legendX, legendY + 16, barWidth, 6, 3);
+    ctx.fill();
+
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.35)';
+    ctx.fillText(startLabel, legendX, legendY + 32);
+    ctx.textAlign = 'right';
+    ctx.fillText(endLabel, legendX + barWidth, legendY + 32);
+  }
+
+  // ===========================================================================
+  // COLOR MODES
+  // ===========================================================================
+
+  /**
+   * Write the color mode's file colors into the buffers both renderers draw
+   * from. Extension colors stay put once painted; the other modes change as
+   * time passes and are repainted every frame.
+   */
+  private paintNodeColors(): void {
+    const mode = this.settings.colorMode;
+    if (mode === 'extension' && this.paintedColorMode === 'extension') return;
+    this.paintedColorMode = mode;
+
+    // Normalizers: heat against the hottest file, age against the history so far
+    let maxHeat = 0;
+    if (mode === 'churn') {
+      this.nodes.forEach((node) => {
+        if (!node.isDirectory) maxHeat = Math.max(maxHeat, decayChurn(node.churn, node.churnTime, this.simulationTime));
+      });
+    }
+    const span = Math.max(1, this.simulationTime - this.startTime);
+
+    const b = this.buffers;
+    this.nodes.forEach((node) => {
+      if (node.isDirectory) return;
+      const idx = b.getIndex(node.id);
+      if (idx <= 0) return;
+
+      let rgb: { r: number; g: number; b: number };
+      switch (mode) {
+        case 'churn': {
+          const heat = decayChurn(node.churn, node.churnTime, this.simulationTime);
+          rgb = sampleRamp(HEAT_RAMP, maxHeat > 0 ? Math.log1p(heat) / Math.log1p(maxHeat) : 0);
+          break;
+        }
+        case 'age':
+          rgb = sampleRamp(AGE_RAMP, (this.simulationTime - node.createdAt) / span);
+          break;
+        case 'author':
+          rgb = colorToRgb(
+            (node.lastAuthorId && this.contributors.get(node.lastAuthorId)?.color) || '#94a3b8',
+          );
+          break;
+        case 'repo':
+          rgb = colorToRgb(this.repoColorMap.get(node.repoId) || '#60a5fa');
+          break;
+        case 'test':
+          rgb = colorToRgb(TEST_BUCKETS[classifyTestBucket(node.path, node.category)].color);
+          break;
+        default:
+          rgb = colorToRgb(node.color);
+      }
+      b.colorR[idx] = rgb.r;
+      b.colorG[idx] = rgb.g;
+      b.colorB[idx] = rgb.b;
+    });
+  }
+
   // ===========================================================================
   // GAME LOOP
   // ===========================================================================
@@ -1847,8 +2494,10 @@ export class GourceEngine {
       }
       this.loopState.fps = this.frameTimestamps.length;
 
-      // Advance simulation time based on speed
-      if (this.state.playback === PlaybackState.PLAYING) {
+      // Advance simulation time based on speed, or to the clock being followed
+      if (this.clockSource) {
+        this.followClockSource(this.clockSource);
+      } else if (this.state.playback === PlaybackState.PLAYING) {
         const simDelta = this.loopState.deltaTime * this.state.speed * this.autoSpeedFactor;
         this.simulationTime += simDelta;
 
@@ -1881,6 +2530,9 @@ export class GourceEngine {
         }
       }
 
+      // Captions only age during playback, so a paused caption stays readable
+      this.updateCaptions(this.state.playback === PlaybackState.PLAYING ? this.loopState.deltaTime : 0);
+
       // Update physics
       this.updateLayout(this.loopState.deltaTime);
 
@@ -1906,6 +2558,7 @@ export class GourceEngine {
           nodeCount: this.buffers.count,
           edgeCount,
           beamCount: this.beamPool.count,
+          renderer: this.getRenderBackend(),
         });
       }
     } catch (err) {
@@ -1922,7 +2575,22 @@ export class GourceEngine {
     ) {
       this.processCommitEvent(this.commitEvents[this.currentEventIndex]);
       this.currentEventIndex++;
+      if (this.keyframes.shouldCapture(this.currentEventIndex)) {
+        this.captureKeyframe();
+      }
+    }
+  }
+
+  /** Number of events at or before `time` (commitEvents is sorted). */
+  private eventCountAt(time: number): number {
+    let lo = 0;
+    let hi = this.commitEvents.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      if (this.commitEvents[mid].timestamp <= time) lo = mid + 1;
+      else hi = mid;
     }
+    return lo;
   }
 
   // ===========================================================================
@@ -1981,14 +2649,24 @@ export class GourceEngine {
     const previousPlayback = this.state.playback;
     this.state.playback = PlaybackState.SEEKING;
 
-    if (targetTime < this.simulationTime) {
-      this.resetScene();
-      this.simulationTime = this.startTime;
-      this.currentEventIndex = 0;
+    // Rewind to the nearest keyframe (or the start) when going back, and skip
+    // ahead to one when it is closer than the current position
+    const targetIndex = this.eventCountAt(targetTime);
+    const keyframe = this.keyframes.findAtOrBefore(targetIndex);
+    if (targetIndex < this.currentEventIndex) {
+      if (keyframe) {
+        this.restoreKeyframe(keyframe);
+      } else {
+        this.resetScene();
+        this.currentEventIndex = 0;
+      }
+    } else if (keyframe && keyframe.eventIndex > this.currentEventIndex) {
+      this.restoreKeyframe(keyframe);
     }
 
     this.simulationTime = targetTime;
     this.processEventsUpToTime();
+    this.syncCaptions();
 
     this.state.currentTime = this.simulationTime;
     this.state.progress = clampedProgress;
@@ -1996,6 +2674,7 @@ export class GourceEngine {
 
     // Recompute full tree layout after seek
     this.treeLayout.recomputeAll();
+    this.layoutWorker?.recomputeAll();
 
     this.state.playback = previousPlayback;
     this.callbacks.onDateChange?.(this.state.currentDate);
@@ -2006,6 +2685,8 @@ export class GourceEngine {
   }
 
   private resetScene(): void {
+    this.sceneEpoch++;
+    this.director.reset();
     const rootNodeIds = this.repositories.map((r) => r.fullName);
     const toKeep = new Set(rootNodeIds);
 
@@ -2026,6 +2707,7 @@ export class GourceEngine {
     // Reset SoA buffers (but keep root nodes)
     this.buffers.clear();
     this.treeLayout = new TreeLayout(this.buffers);
+    this.layoutWorker?.reset();
 
     // Re-create root nodes in buffers
     for (let i = 0; i < this.repositories.length; i++) {
@@ -2042,8 +2724,10 @@ export class GourceEngine {
         this.buffers.setFlag(idx, NodeFlags.IS_DIR | NodeFlags.VISIBLE);
         this.buffers.setColor(idx, rootNode.color);
         this.treeLayout.addRoot(idx);
+        this.layoutWorker?.addNode(idx);
       }
     }
+    this.layoutWorker?.setRoots(rootNodeIds);
 
     // Reset contributor visibility
     this.contributors.forEach((c) => {
@@ -2061,6 +2745,359 @@ export class GourceEngine {
     });
   }
 
+  // ===========================================================================
+  // SEEK KEYFRAMES
+  // ===========================================================================
+
+  private captureKeyframe(): void {
+    const buffers = this.buffers.snapshot();
+    const nodes: GourceNode[] = [];
+    this.nodes.forEach((node) => {
+      nodes.push({ ...node, children: node.children.slice() });
+    });
+    const contributors: SceneKeyframe['contributors'] = [];
+    this.contributors.forEach((c) => {
+      contributors.push({
+        id: c.id,
+        x: c.x,
+        y: c.y,
+        targetX: c.targetX,
+        targetY: c.targetY,
+        opacity: c.opacity,
+        isVisible: c.isVisible,
+        lastActiveTime: c.lastActiveTime,
+      });
+    });
+
+    this.keyframes.add({
+      eventIndex: this.currentEventIndex,
+      buffers,
+      nodes,
+      contributors,
+      bytes: estimateKeyframeBytes(buffers, nodes.length, contributors.length),
+    });
+  }
+
+  /** Put the scene back the way it was when `keyframe` was captured. */
+  private restoreKeyframe(keyframe: SceneKeyframe): void {
+    this.sceneEpoch++;
+    this.director.reset();
+
+    // Refill rather than replace: the viewer holds on to this Map
+    this.nodes.clear();
+    for (const node of keyframe.nodes) {
+      this.nodes.set(node.id, { ...node, children: node.children.slice() });
+    }
+
+    this.buffers.restore(keyframe.buffers);
+    // The snapshot holds whatever colors were painted when it was taken
+    this.paintedColorMode = null;
+    this.treeLayout = new TreeLayout(this.buffers);
+    this.layoutWorker?.load(keyframe.buffers);
+    const rootNodeIds = this.repositories.map((r) => r.fullName);
+    for (const id of rootNodeIds) {
+      const idx = this.buffers.getIndex(id);
+      if (idx > 0) this.treeLayout.addRoot(idx);
+    }
+    this.layoutWorker?.setRoots(rootNodeIds);
+
+    for (const saved of keyframe.contributors) {
+      const contributor = this.contributors.get(saved.id);
+      if (contributor) Object.assign(contributor, saved);
+    }
+
+    this.beamPool.clear();
+    this.particlePool.clear();
+
+    this.currentEventIndex = keyframe.eventIndex;
+    for (let i = 0; i < this.commitEvents.length; i++) {
+      this.commitEvents[i].processed = i < keyframe.eventIndex;
+    }
+
+    // Fade-outs that were under way would never complete; finish them now
+    const deleting: string[] = [];
+    for (let i = 1; i <= this.buffers.count; i++) {
+      if (this.buffers.hasFlag(i, NodeFlags.DELETING)) deleting.push(this.buffers.getId(i));
+    }
+    deleting.forEach((path) => this.finalizeRemoval(path));
+
+    this.layoutDirty = true;
+  }
+
+  // ===========================================================================
+  // INSPECTION
+  // ===========================================================================
+
+  /** Highlight a node or contributor; both are looked up by key, so it survives seeks. */
+  public setSelection(selection: GourceSelection | null): void {
+    this.selection = selection;
+    if (!this.loopState.isRunning) this.render();
+  }
+
+  /** Keep the camera on a contributor until unpinned or the user pans. */
+  public pinCamera(contributorId: string | null): void {
+    this.pinnedContributorId = contributorId;
+    if (contributorId) this.camera.isUserControlled = false;
+  }
+
+  /** Details for the inspector, from the commits played so far. */
+  public inspect(selection: GourceSelection): GourceInspection {
+    return selection.kind === 'node'
+      ? this.inspectNode(selection.path)
+      : this.inspectContributor(selection.id);
+  }
+
+  /** History of a file, or of everything under a directory. */
+  private inspectNode(path: string): GourceInspection {
+    const prefix = `${path}/`;
+    const commits: GourceInspectedCommit[] = [];
+    const byContributor = new Map<string, { name: string; commitCount: number }>();
+    let totalCommits = 0;
+
+    for (let i = this.currentEventIndex - 1; i >= 0; i--) {
+      const event = this.commitEvents[i];
+      if (!this.isEventInView(event)) continue;
+
+      const files = this.resolveFileChanges(event.affectedFiles, event.repoId)
+        .filter((f) => f.path === path || f.path.startsWith(prefix));
+      if (files.length === 0) continue;
+
+      totalCommits++;
+      const entry = byContributor.get(event.contributorId);
+      if (entry) entry.commitCount++;
+      else byContributor.set(event.contributorId, { name: event.contributorName, commitCount: 1 });
+      if (commits.length < INSPECTOR_COMMIT_LIMIT) commits.push(toInspectedCommit(event, files));
+    }
+
+    const node = this.nodes.get(path);
+    return {
+      kind: 'node',
+      path,
+      node: node ? { ...node, children: node.children.slice() } : null,
+      commits,
+      totalCommits,
+      contributors: Array.from(byContributor, ([id, { name, commitCount }]) => ({
+        id,
+        name,
+        color: this.contributors.get(id)?.color ?? '#94a3b8',
+        commitCount,
+      })).sort((a, b) => b.commitCount - a.commitCount),
+    };
+  }
+
+  /** A contributor's commits from the start of the history up to the current time. */
+  private inspectContributor(id: string): GourceInspection {
+    const commits: GourceInspectedCommit[] = [];
+    const files = new Set<string>();
+    const directories = new Map<string, number>();
+    let totalCommits = 0;
+    let additions = 0;
+    let deletions = 0;
+
+    for (let i = this.currentEventIndex - 1; i >= 0; i--) {
+      const event = this.commitEvents[i];
+      if (event.contributorId !== id || !this.isEventInView(event)) continue;
+
+      const changes = this.resolveFileChanges(event.affectedFiles, event.repoId);
+      totalCommits++;
+      const commitDirs = new Set<string>();
+      for (const f of changes) {
+        files.add(f.path);
+        additions += f.additions;
+        deletions += f.deletions;
+        commitDirs.add(getDirectoryPath(f.path));
+      }
+      commitDirs.forEach((dir) => directories.set(dir, (directories.get(dir) ?? 0) + 1));
+      if (commits.length < INSPECTOR_COMMIT_LIMIT) commits.push(toInspectedCommit(event, changes));
+    }
+
+    const contributor = this.contributors.get(id);
+    return {
+      kind: 'contributor',
+      id,
+      contributor: contributor ? { ...contributor } : null,
+      commits,
+      totalCommits,
+      filesTouched: files.size,
+      additions,
+      deletions,
+      topDirectories: Array.from(directories, ([path, commitCount]) => ({ path, commitCount }))
+        .sort((a, b) => b.commitCount - a.commitCount)
+        .slice(0, 5),
+      isPinned: this.pinnedContributorId === id,
+    };
+  }
+
+  // ===========================================================================
+  // CAPTIONS
+  // ===========================================================================
+
+  /** Replace the annotations captioned during playback. */
+  public setAnnotations(annotations: GourceAnnotation[]): void {
+    this.annotations = [...annotations].sort((a, b) => a.time - b.time);
+
+    // Keep captions already on screen, picking up edits to their text
+    const byId = new Map(this.annotations.map((a) => [a.id, a]));
+    this.captions = this.captions.flatMap((caption) => {
+      const annotation = byId.get(caption.annotation.id);
+      return annotation ? [{ annotation, age: caption.age }] : [];
+    });
+
+    this.nextAnnotationIndex = this.annotations.findIndex((a) => a.time > this.simulationTime);
+    if (this.nextAnnotationIndex === -1) this.nextAnnotationIndex = this.annotations.length;
+  }
+
+  private isAnnotationShown(annotation: GourceAnnotation): boolean {
+    const activeRepoId = this.state.activeRepoId;
+    return !activeRepoId || !annotation.repoId || annotation.repoId === activeRepoId;
+  }
+
+  /** Show annotations that playback has just reached and age the rest by `dt`. */
+  private updateCaptions(dt: number): void {
+    while (
+      this.nextAnnotationIndex < this.annotations.length &&
+      this.annotations[this.nextAnnotationIndex].time <= this.simulationTime
+    ) {
+      const annotation = this.annotations[this.nextAnnotationIndex++];
+      if (this.isAnnotationShown(annotation)) this.captions.push({ annotation, age: 0 });
+    }
+
+    for (const caption of this.captions) caption.age += dt;
+    this.captions = this.captions
+      .filter((caption) => caption.age < CAPTION_DURATION_MS)
+      .slice(-MAX_CAPTIONS);
+  }
+
+  /**
+   * Rebuild captions after a jump in time: annotations reached within the
+   * last few seconds of playback at the current speed stay on screen, aged
+   * as if playback had run up to here.
+   */
+  private syncCaptions(): void {
+    const simPerMs = Math.max(this.autoSpeedFactor * this.state.speed, 1e-6);
+    this.captions = [];
+    this.nextAnnotationIndex = 0;
+
+    while (
+      this.nextAnnotationIndex < this.annotations.length &&
+      this.annotations[this.nextAnnotationIndex].time <= this.simulationTime
+    ) {
+      const annotation = this.annotations[this.nextAnnotationIndex++];
+      const age = (this.simulationTime - annotation.time) / simPerMs;
+      if (age < CAPTION_DURATION_MS && this.isAnnotationShown(annotation)) {
+        this.captions.push({ annotation, age });
+      }
+    }
+    this.captions = this.captions.slice(-MAX_CAPTIONS);
+  }
+
+  // ===========================================================================
+  // SPLIT VIEW
+  // ===========================================================================
+
+  /**
+   * Play on another engine's clock (its time, speed and play state) instead
+   * of this one's own, so side-by-side panes show the same date. Null runs
+   * this engine on its own clock again.
+   */
+  public followClock(source: GourceEngine | null): void {
+    this.clockSource = source === this ? null : source;
+  }
+
+  private followClockSource(source: GourceEngine): void {
+    this.state.speed = source.state.speed;
+    const playback = source.state.playback;
+    if (playback !== this.state.playback && playback !== PlaybackState.SEEKING) {
+      this.state.playback = playback;
+      this.callbacks.onPlaybackChange?.(playback);
+    }
+
+    const time = clamp(source.getCurrentTime(), this.startTime, this.endTime);
+    if (time === this.simulationTime) return;
+
+    // Going back, or further ahead than a keyframe interval, is cheaper as a seek
+    if (time < this.simulationTime || this.eventCountAt(time) - this.currentEventIndex > this.keyframes.interval) {
+      const duration = this.endTime - this.startTime;
+      this.seek(duration > 0 ? (time - this.startTime) / duration : 0);
+      // Land exactly on the source's time so the next frame doesn't seek again
+      this.simulationTime = time;
+      this.state.currentTime = time;
+      return;
+    }
+
+    this.simulationTime = time;
+    this.processEventsUpToTime();
+
+    this.state.currentTime = time;
+    this.state.progress = (time - this.startTime) / (this.endTime - this.startTime);
+    const newDate = dateToString(time);
+    if (newDate !== this.state.currentDate) {
+      this.state.currentDate = newDate;
+      this.callbacks.onDateChange?.(newDate);
+    }
+  }
+
+  // ===========================================================================
+  // OFFLINE RENDERING
+  // ===========================================================================
+
+  /**
+   * Rewind to the first commit for a deterministic, fixed-timestep render
+   * (video export). The rAF loop is stopped, jitter is seeded and the camera
+   * starts from rest, so the same data and settings yield the same frames.
+   * With `skipDeadTime`, gaps longer than about a second of output are
+   * compressed the way live playback skips them.
+   */
+  public beginOfflineRender(seed: string, durationMs: number): void {
+    this.stop();
+    this.stopLayoutWorker();
+    this.random = seededRandom(seed);
+    // Keyframes hold live-playback jitter; the export must replay its own
+    this.keyframes.clear();
+    this.resetScene();
+    this.simulationTime = this.startTime;
+    this.currentEventIndex = 0;
+    this.camera = { ...DEFAULT_CAMERA };
+    this.state.camera = this.camera;
+    this.treeLayout.recomputeAll();
+    this.syncCaptions();
+    this.offlineTimeline = this.settings.skipDeadTime
+      ? buildCompressedTimeline(this.commitEvents, this.startTime, this.endTime, durationMs)
+      : null;
+  }
+
+  /**
+   * Advance to a normalized position on the offline time axis and draw one
+   * frame, stepping physics by a fixed `frameMs` instead of wall-clock time.
+   */
+  public renderOfflineFrame(progress: number, frameMs: number): void {
+    const targetTime = this.offlineTimeline
+      ? sampleTimeline(this.offlineTimeline, clamp(progress, 0, 1))
+      : this.startTime + clamp(progress, 0, 1) * (this.endTime - this.startTime);
+
+    if (targetTime > this.simulationTime) {
+      this.simulationTime = targetTime;
+      this.processEventsUpToTime();
+    }
+
+    this.state.currentTime = this.simulationTime;
+    this.state.progress = (this.simulationTime - this.startTime) / (this.endTime - this.startTime || 1);
+    this.state.currentDate = dateToString(this.simulationTime);
+
+    this.updateCaptions(frameMs);
+    this.updateLayout(frameMs);
+    this.updateCamera();
+    this.render();
+  }
+
+  /** Resolve once every pending avatar has loaded or failed, or after timeoutMs. */
+  public async waitForAvatars(timeoutMs: number): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (this.avatarLoadingSet.size > 0 && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+  }
+
   /** Get the current simulation timestamp in milliseconds. */
   public getCurrentTime(): number {
     return this.simulationTime;
@@ -2076,6 +3113,7 @@ export class GourceEngine {
     this.state.activeRepoId = repoId;
     this.state.isCombinedView = repoId === null;
 
+    this.keyframes.clear();
     this.resetScene();
     this.simulationTime = this.startTime;
     this.currentEventIndex = 0;
@@ -2084,8 +3122,31 @@ export class GourceEngine {
 
   /** Merge partial settings into the current configuration. */
   public setSettings(settings: Partial<GourceSettings>): void {
+    const rendererChanged = settings.renderer !== undefined && settings.renderer !== this.settings.renderer;
+    // Both shape the scene that keyframes captured
+    if (
+      (settings.contributorFilter !== undefined && settings.contributorFilter !== this.settings.contributorFilter) ||
+      (settings.extensionColors !== undefined && settings.extensionColors !== this.settings.extensionColors)
+    ) {
+      this.keyframes.clear();
+    }
+    const pathRulesChanged =
+      (settings.pathRules !== undefined && settings.pathRules !== this.settings.pathRules) ||
+      (settings.repoPathRules !== undefined && settings.repoPathRules !== this.settings.repoPathRules);
+
     this.settings = { ...this.settings, ...settings };
     this.state.settings = { ...this.settings };
+    if (rendererChanged) this.selectRenderer();
+
+    // Files already on screen may now be hidden or collapsed: replay from the start
+    if (pathRulesChanged) {
+      this.pathFilters.clear();
+      this.keyframes.clear();
+      this.resetScene();
+      this.simulationTime = this.startTime;
+      this.currentEventIndex = 0;
+      this.seek(this.state.progress);
+    }
   }
 
   /** Get a copy of the current settings. */
@@ -2093,6 +3154,11 @@ export class GourceEngine {
     return { ...this.settings };
   }
 
+  /** The backend actually drawing the scene (the setting may ask for one that isn't available). */
+  public getRenderBackend(): GourceRenderBackend {
+    return this.renderer ? 'webgl2' : 'canvas2d';
+  }
+
   /** Register event callbacks for frame updates, date changes, etc. */
   public setCallbacks(callbacks: GourceEngineCallbacks): void {
     this.callbacks = callbacks;
@@ -2113,6 +3179,19 @@ export class GourceEngine {
     return this.commitEvents;
   }
 
+  /**
+   * Write the loaded events as a gource custom log (see gource-log.ts).
+   * Commits whose file lists haven't loaded yet only have stand-in paths,
+   * so they are left out and counted.
+   */
+  public exportGourceLog(): { log: string; skippedCommits: number } {
+    const real = this.commitEvents.filter((event) => !event.synthetic);
+    return {
+      log: formatGourceLog(real),
+      skippedCommits: this.commitEvents.length - real.length,
+    };
+  }
+
   /** Compute a histogram of commit counts over evenly-spaced time buckets. */
   public getCommitDensity(bucketCount: number = 100): number[] {
     if (this.commitEvents.length === 0) return new Array(bucketCount).fill(0);
@@ -2144,6 +3223,11 @@ export class GourceEngine {
     return dateToString(this.endTime);
   }
 
+  /** Get the first and last commit timestamps in milliseconds. */
+  public getTimeRange(): { start: number; end: number } {
+    return { start: this.startTime, end: this.endTime };
+  }
+
   /** Get the total time span in milliseconds. */
   public getTotalDuration(): number {
     return this.endTime - this.startTime;
@@ -2156,6 +3240,7 @@ export class GourceEngine {
 
   /** Highlight a single contributor (filters future commits) or clear with null. */
   public highlightContributor(contributorId: string | null): void {
+    this.keyframes.clear();
     if (contributorId === null) {
       this.settings.contributorFilter = null;
     } else {
@@ -2186,17 +3271,77 @@ export class GourceEngine {
   /** Tear down the engine and release all resources. */
   public destroy(): void {
     this.stop();
+    this.clockSource = null;
     this.nodes.clear();
     this.contributors.clear();
     this.beamPool.clear();
     this.particlePool.clear();
     this.commitEvents = [];
     this.avatarImages.clear();
+    this.renderer?.dispose();
+    this.renderer = null;
+    this.rendererCanvas = null;
+    this.stopLayoutWorker();
     this.canvas = null;
     this.ctx = null;
   }
 }
 
+// =============================================================================
+// OFFLINE TIMELINE
+// =============================================================================
+
+/**
+ * Build a time axis on which no gap between commits lasts longer than about
+ * one second of a `durationMs` render. The cap depends on the compressed
+ * length, so it is refined a few times until it settles.
+ */
+function buildCompressedTimeline(
+  events: GourceCommitEvent[],
+  startTime: number,
+  endTime: number,
+  durationMs: number,
+): { times: number[]; offsets: number[] } | null {
+  if (events.length < 2 || durationMs <= 0) return null;
+
+  const times = [startTime];
+  for (const event of events) {
+    if (event.timestamp > times[times.length - 1]) times.push(event.timestamp);
+  }
+  if (times[times.length - 1] < endTime) times.push(endTime);
+
+  let total = endTime - startTime;
+  let offsets: number[] = [];
+  for (let pass = 0; pass < 5; pass++) {
+    const maxGap = total / (durationMs / 1000);
+    offsets = [0];
+    for (let i = 1; i < times.length; i++) {
+      offsets.push(offsets[i - 1] + Math.min(times[i] - times[i - 1], maxGap));
+    }
+    total = offsets[offsets.length - 1];
+  }
+
+  return total > 0 ? { times, offsets } : null;
+}
+
+/** Map a 0-1 position on a compressed axis back to a simulation timestamp. */
+function sampleTimeline(timeline: { times: number[]; offsets: number[] }, progress: number): number {
+  const { times, offsets } = timeline;
+  const target = progress * offsets[offsets.length - 1];
+
+  let lo = 0;
+  let hi = offsets.length - 1;
+  while (lo < hi - 1) {
+    const mid = (lo + hi) >> 1;
+    if (offsets[mid] <= target) lo = mid;
+    else hi = mid;
+  }
+
+  const span = offsets[hi] - offsets[lo];
+  const t = span > 0 ? (target - offsets[lo]) / span : 1;
+  return times[lo] + t * (times[hi] - times[lo]);
+}
+
 // =============================================================================
 // FACTORY FUNCTION
 // =============================================================================
@@ -2206,6 +3351,16 @@ export function createGourceEngine(data: GourceEngineData): GourceEngine {
   return new GourceEngine(data);
 }
 
+/** Create a GourceEngine that plays a gource custom log (see gource-log.ts). */
+export function createGourceEngineFromLog(log: GourceLogImport): GourceEngine {
+  return new GourceEngine({
+    commits: [],
+    repositories: [log.repository],
+    contributors: [],
+    events: log.events,
+  });
+}
+
 // =============================================================================
 // HIT DETECTION
 // =============================================================================
@@ -0,0 +1,131 @@
+// =============================================================================
+// GOURCE KEYFRAMES — periodic scene snapshots for fast seeking
+// =============================================================================
+//
+// Seeking backward used to mean clearing the scene and replaying every commit
+// from the start. The engine now records a keyframe every `interval` events
+// as it plays (or replays during a forward seek) and restores the nearest one
+// at or before the seek target, so at most one interval has to be replayed.
+// When the keyframes outgrow the memory budget, every other one is dropped
+// and the interval doubles, which keeps them evenly spread over the history.
+
+import type { GourceContributor, GourceNode } from '@/lib/types';
+import type { LayoutBuffersSnapshot } from '@/lib/layout-buffers';
+
+export interface SceneKeyframe {
+  /** Events before this index had been processed when it was taken */
+  eventIndex: number;
+  buffers: LayoutBuffersSnapshot;
+  /** Shallow copies of the node facades, children lists included */
+  nodes: GourceNode[];
+  contributors: Pick<
+    GourceContributor,
+    'id' | 'x' | 'y' | 'targetX' | 'targetY' | 'opacity' | 'isVisible' | 'lastActiveTime'
+  >[];
+  /** Rough in-memory size, counted against the store's budget */
+  bytes: number;
+}
+
+// Approximate per-object costs in a JS engine; only used for budgeting
+const NODE_FACADE_BYTES = 320;
+const CHILD_LIST_BYTES = 80;
+const CONTRIBUTOR_BYTES = 96;
+
+/** Estimate the footprint of a keyframe's contents. */
+export function estimateKeyframeBytes(
+  buffers: LayoutBuffersSnapshot,
+  nodeCount: number,
+  contributorCount: number,
+): number {
+  let bytes = 0;
+  for (const column of Object.values(buffers.columns)) {
+    bytes += column.byteLength;
+  }
+  for (const children of buffers.children) {
+    bytes += CHILD_LIST_BYTES + children.byteLength;
+  }
+  bytes += buffers.indexToId.length * 8;
+  bytes += nodeCount * NODE_FACADE_BYTES;
+  bytes += contributorCount * CONTRIBUTOR_BYTES;
+  return bytes;
+}
+
+export class KeyframeStore {
+  private readonly budgetBytes: number;
+  private readonly initialInterval: number;
+  private keyframes: SceneKeyframe[] = []; // sorted by eventIndex
+  private totalBytes = 0;
+  private _interval: number;
+
+  constructor(budgetBytes: number, initialInterval: number) {
+    this.budgetBytes = budgetBytes;
+    this.initialInterval = initialInterval;
+    this._interval = initialInterval;
+  }
+
+  /** Events between keyframes; doubles each time the store is thinned. */
+  get interval(): number {
+    return this._interval;
+  }
+
+  /** Whether a keyframe is due after processing the event before `eventIndex`. */
+  shouldCapture(eventIndex: number): boolean {
+    if (eventIndex <= 0 || eventIndex % this._interval !== 0) return false;
+    return this.findAtOrBefore(eventIndex)?.eventIndex !== eventIndex;
+  }
+
+  add(keyframe: SceneKeyframe): void {
+    const i = this.insertionPoint(keyframe.eventIndex);
+    this.keyframes.splice(i, 0, keyframe);
+    this.totalBytes += keyframe.bytes;
+
+    while (this.totalBytes > this.budgetBytes && this.keyframes.length > 1) {
+      this.thin();
+    }
+    // A single scene bigger than the whole budget isn't worth keeping
+    if (this.totalBytes > this.budgetBytes) this.clear();
+  }
+
+  /** The latest keyframe taken at or before `eventIndex`. */
+  findAtOrBefore(eventIndex: number): SceneKeyframe | null {
+    const i = this.insertionPoint(eventIndex + 1);
+    return i > 0 ? this.keyframes[i - 1] : null;
+  }
+
+  /** Drop keyframes taken after `eventIndex`, e.g. once earlier events change. */
+  invalidateAfter(eventIndex: number): void {
+    const i = this.insertionPoint(eventIndex + 1);
+    for (let j = i; j < this.keyframes.length; j++) {
+      this.totalBytes -= this.keyframes[j].bytes;
+    }
+    this.keyframes.length = i;
+  }
+
+  clear(): void {
+    this.keyframes = [];
+    this.totalBytes = 0;
+    this._interval = this.initialInterval;
+  }
+
+  /** Keep only keyframes on the doubled interval. */
+  private thin(): void {
+    this._interval *= 2;
+    this.keyframes = this.keyframes.filter((keyframe) => {
+      if (keyframe.eventIndex % this._interval === 0) return true;
+      this.totalBytes -= keyframe.bytes;
+      return false;
+    });
+  }
+
+  /** First position whose keyframe's eventIndex is >= `eventIndex`. */
+  private insertionPoint(eventIndex: number): number {
+    let lo = 0;
+    let hi = this.keyframes.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      if (this.keyframes[mid].eventIndex < eventIndex) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  }
+}
@@ -0,0 +1,160 @@
+// =============================================================================
+// GOURCE CUSTOM LOG — read and write gource's pipe-delimited history format
+// =============================================================================
+//
+// One line per file action, as understood by `gource --log-format custom`:
+//
+//   1275543595|alice|A|/src/main.c|FF0000
+//
+// Fields are a unix timestamp in seconds, the username, A(dded), M(odified)
+// or D(eleted), the path, and an optional hex colour. Consecutive lines with
+// the same timestamp and username are folded into one commit event. The
+// same format comes out of SVN/Mercurial converters and `gource
+// --output-custom-log`, and is what we export for desktop gource.
+
+import type { GourceCommitEvent, GourceFileChange, GourceLogImport } from '@/lib/types';
+import { buildLocalRepository, slugifyRepoName } from '@/lib/git-log-parser';
+
+const ACTION_TYPES: Record<string, GourceFileChange['type']> = {
+  A: 'add',
+  M: 'modify',
+  D: 'delete',
+};
+
+const COLOUR_RE = /^#?([0-9a-f]{6})$/i;
+
+/** Only the first few problems are listed; the rest are counted. */
+const MAX_LISTED_WARNINGS = 5;
+
+// =============================================================================
+// IMPORT
+// =============================================================================
+
+/**
+ * Parse a gource custom log into commit events for GourceEngine. Paths are
+ * rooted under the repository name, like the engine's own events.
+ */
+export function parseGourceLog(text: string, repoName: string): GourceLogImport {
+  const slug = slugifyRepoName(repoName);
+  const repository = buildLocalRepository(repoName, []);
+  const events: GourceCommitEvent[] = [];
+  const problems: string[] = [];
+
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const fields = line.split('|');
+    const [rawTimestamp, username, action, rawPath, rawColour] = fields;
+    const seconds = Number(rawTimestamp);
+    const type = ACTION_TYPES[(action ?? '').trim().toUpperCase()];
+    const path = (rawPath ?? '').trim().replace(/^\/+/, '');
+
+    if (fields.length < 4 || !Number.isFinite(seconds) || !username?.trim() || !type || !path) {
+      problems.push(`Line ${i + 1} is not timestamp|username|A/M/D|path[|colour] and was skipped.`);
+      continue;
+    }
+
+    const change: GourceFileChange = { path: `${slug}/${path}`, type, additions: 0, deletions: 0 };
+    const colour = rawColour?.trim().match(COLOUR_RE);
+    if (colour) change.color = `#${colour[1].toLowerCase()}`;
+
+    const timestamp = Math.round(seconds * 1000);
+    const name = username.trim();
+    const previous = events[events.length - 1];
+    if (previous && previous.timestamp === timestamp && previous.contributorId === name) {
+      previous.affectedFiles.push(change);
+      continue;
+    }
+
+    events.push({
+      sha: '',
+      timestamp,
+      contributorId: name,
+      contributorName: name,
+      contributorAvatarUrl: null,
+      repoId: repository.fullName,
+      affectedFiles: [change],
+      processed: false,
+    });
+  }
+
+  // Logs are chronological, but converters don't always guarantee it
+  events.sort((a, b) => a.timestamp - b.timestamp);
+  events.forEach((event, i) => {
+    event.sha = `${slug}:${i}`;
+  });
+
+  const warnings = problems.slice(0, MAX_LISTED_WARNINGS);
+  if (problems.length > MAX_LISTED_WARNINGS) {
+    warnings.push(`…and ${problems.length - MAX_LISTED_WARNINGS} more unreadable lines.`);
+  }
+  if (events.length === 0) {
+    warnings.push(`No file actions found in "${repoName}". Was it written with gource's custom log format?`);
+  }
+
+  const first = events[0] ? new Date(events[0].timestamp).toISOString() : repository.createdAt;
+  const last = events.length > 0 ? new Date(events[events.length - 1].timestamp).toISOString() : first;
+
+  return {
+    repository: { ...repository, commitCount: events.length, createdAt: first, updatedAt: last, pushedAt: last },
+    events,
+    warnings,
+    skippedLines: problems.length,
+  };
+}
+
+// =============================================================================
+// EXPORT
+// =============================================================================
+
+function toLogAction(type: GourceFileChange['type']): string {
+  if (type === 'delete') return 'D';
+  if (type === 'add' || type === 'rename') return 'A';
+  return 'M';
+}
+
+/**
+ * Write events as a gource custom log, oldest first. A single-repository
+ * history drops the repository directory every path starts with, so the log
+ * matches what `gource --output-custom-log` produces inside that repository;
+ * multi-repository histories keep it to stay apart.
+ */
+export function formatGourceLog(events: GourceCommitEvent[]): string {
+  const sorted = [...events].sort((a, b) => a.timestamp - b.timestamp);
+  const singleRepo = new Set(sorted.map((e) => e.repoId)).size === 1;
+
+  let root: string | null = null;
+  if (singleRepo) {
+    for (const event of sorted) {
+      for (const file of event.affectedFiles) {
+        const segment = file.path.split('/')[0];
+        if (root === null) root = segment;
+        else if (root !== segment) root = '';
+      }
+    }
+  }
+  const prefix = root ? `${root}/` : '';
+
+  const toLogPath = (path: string) =>
+    `/${prefix && path.startsWith(prefix) ? path.slice(prefix.length) : path}`;
+
+  const lines: string[] = [];
+  for (const event of sorted) {
+    const seconds = Math.floor(event.timestamp / 1000);
+    // The delimiter can't be escaped, so it can't appear in a name
+    const username = event.contributorName.replace(/\|/g, '') || event.contributorId;
+    for (const file of event.affectedFiles) {
+      // gource has no renames: the old path goes away and the new one appears
+      if (file.type === 'rename' && file.previousPath) {
+        lines.push([String(seconds), username, 'D', toLogPath(file.previousPath)].join('|'));
+      }
+      const fields = [String(seconds), username, toLogAction(file.type), toLogPath(file.path)];
+      if (file.color) fields.push(file.color.replace('#', '').toUpperCase());
+      lines.push(fields.join('|'));
+    }
+  }
+
+  return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+}
@@ -0,0 +1,98 @@
+// =============================================================================
+// GOURCE SPLIT VIEW — side-by-side panes on one clock
+// =============================================================================
+//
+// Each pane runs its own engine over the same events, narrowed to a
+// repository, a contributor or a part of the tree. The first pane owns the
+// clock that the shared playback controls drive; the others follow it (see
+// GourceEngine.followClock), so every pane shows the same date.
+
+import type {
+  GourceCommitEvent,
+  GourcePathRules,
+  GourceSettings,
+  GourceSplitPane,
+  Repository,
+} from '@/lib/types';
+
+export const MAX_SPLIT_PANES = 4;
+
+export function createSplitPane(fields: Partial<Omit<GourceSplitPane, 'id'>> = {}): GourceSplitPane {
+  return {
+    id: `pane:${Date.now().toString(36)}:${Math.random().toString(36).slice(2, 8)}`,
+    repoId: fields.repoId ?? null,
+    contributorId: fields.contributorId ?? null,
+    pathInclude: fields.pathInclude ?? null,
+  };
+}
+
+/** Everyone who committed, most commits first, as offered in the pane picker. */
+export function rankContributors(
+  events: GourceCommitEvent[],
+): { id: string; name: string; commitCount: number }[] {
+  const byId = new Map<string, { id: string; name: string; commitCount: number }>();
+  for (const event of events) {
+    const entry = byId.get(event.contributorId);
+    if (entry) {
+      entry.commitCount++;
+    } else {
+      byId.set(event.contributorId, { id: event.contributorId, name: event.contributorName, commitCount: 1 });
+    }
+  }
+  return [...byId.values()].sort((a, b) => b.commitCount - a.commitCount);
+}
+
+/**
+ * Panes to open the split view with: one per repository when several are
+ * loaded, otherwise the two most active contributors of the only one.
+ */
+export function defaultSplitPanes(
+  repositories: Pick<Repository, 'fullName'>[],
+  contributors: { id: string }[],
+): GourceSplitPane[] {
+  if (repositories.length > 1) {
+    return repositories
+      .slice(0, MAX_SPLIT_PANES)
+      .map((repo) => createSplitPane({ repoId: repo.fullName }));
+  }
+  if (contributors.length < 2) return [createSplitPane(), createSplitPane()];
+  return contributors.slice(0, 2).map((contributor) => createSplitPane({ contributorId: contributor.id }));
+}
+
+function narrowRules(rules: GourcePathRules, pathInclude: string): GourcePathRules {
+  return { ...rules, include: [pathInclude] };
+}
+
+/** The pane's path glob replaces the include globs of every rule set. */
+export function paneRepoPathRules(
+  repoPathRules: GourceSettings['repoPathRules'],
+  pathInclude: string | null,
+): GourceSettings['repoPathRules'] {
+  if (!pathInclude) return repoPathRules;
+  return Object.fromEntries(
+    Object.entries(repoPathRules).map(([repoId, rules]) => [repoId, narrowRules(rules, pathInclude)]),
+  );
+}
+
+export function panePathRules(rules: GourcePathRules, pathInclude: string | null): GourcePathRules {
+  return pathInclude ? narrowRules(rules, pathInclude) : rules;
+}
+
+/** Short caption for a pane, e.g. "web · Ada Lovelace · frontend/". */
+export function describeSplitPane(
+  pane: GourceSplitPane,
+  repositories: Pick<Repository, 'fullName' | 'name'>[],
+  contributors: { id: string; name: string }[],
+): string {
+  const parts: string[] = [];
+  if (pane.repoId) {
+    parts.push(repositories.find((r) => r.fullName === pane.repoId)?.name ?? pane.repoId);
+  } else if (repositories.length > 1) {
+    parts.push('All repositories');
+  }
+  if (pane.contributorId) {
+    parts.push(contributors.find((c) => c.id === pane.contributorId)?.name ?? pane.contributorId);
+  }
+  if (pane.pathInclude) parts.push(pane.pathInclude);
+  return parts.length > 0 ? parts.join(' · ') : 'Everything';
+}
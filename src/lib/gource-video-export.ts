@@ -0,0 +1,297 @@
+// =============================================================================
+// GOURCE VIDEO EXPORT — deterministic offline render to .webm
+// =============================================================================
+//
+// A fresh GourceEngine replays the history on a detached canvas at a fixed
+// frame rate, independent of requestAnimationFrame, so the output does not
+// depend on how fast the machine is. Frames go to WebCodecs (VP9, then VP8)
+// and are muxed into WebM; browsers without WebCodecs fall back to a
+// MediaRecorder fed one frame at a time, which has to run in real time.
+
+import type {
+  CommitFile,
+  GourceSettings,
+  GourceVideoExportOptions,
+  GourceVideoExportProgress,
+} from '@/lib/types';
+import { createGourceEngine } from '@/lib/gource-engine';
+import type { GourceEngineData } from '@/lib/gource-engine';
+import { WebmMuxer } from '@/lib/webm-muxer';
+import type { WebmVideoCodec } from '@/lib/webm-muxer';
+
+/** Length of the optional title card, in seconds */
+export const TITLE_CARD_SECONDS = 3;
+
+/** Keyframe interval, in seconds — also the seek granularity of the file */
+const KEYFRAME_INTERVAL_SECONDS = 2;
+
+/** Title card fade-out at its end, in seconds */
+const TITLE_FADE_SECONDS = 0.6;
+
+/** What the live view is showing, so the export matches it. */
+export interface GourceVideoExportInput {
+  data: GourceEngineData;
+  hydratedFiles: Map<string, CommitFile[]>;
+  settings: GourceSettings;
+  activeRepoId: string | null;
+  highlightedContributorId: string | null;
+}
+
+export interface GourceVideoExportCallbacks {
+  onProgress?: (progress: GourceVideoExportProgress) => void;
+  signal?: AbortSignal;
+}
+
+/** Whether this browser can export at all (WebCodecs or MediaRecorder). */
+export function isVideoExportSupported(): boolean {
+  if (typeof window === 'undefined') return false;
+  if (typeof VideoEncoder !== 'undefined' && typeof VideoFrame !== 'undefined') return true;
+  return (
+    typeof MediaRecorder !== 'undefined' &&
+    typeof HTMLCanvasElement.prototype.captureStream === 'function'
+  );
+}
+
+// =============================================================================
+// FRAME SINKS
+// =============================================================================
+
+interface FrameSink {
+  encoder: GourceVideoExportProgress['encoder'];
+  /** Encode the canvas as it is now, as frame number `index` */
+  addFrame(index: number): Promise<void>;
+  finish(): Promise<Blob>;
+  cancel(): void;
+}
+
+const WEBCODECS_CANDIDATES: { codec: string; container: WebmVideoCodec }[] = [
+  { codec: 'vp09.00.10.08', container: 'V_VP9' },
+  { codec: 'vp8', container: 'V_VP8' },
+];
+
+async function createWebCodecsSink(
+  canvas: HTMLCanvasElement,
+  options: GourceVideoExportOptions
+): Promise<FrameSink | null> {
+  if (typeof VideoEncoder === 'undefined' || typeof VideoFrame === 'undefined') return null;
+
+  const { width, height, fps } = options;
+  // ~0.1 bits per pixel per frame keeps thin branches and labels crisp
+  const bitrate = Math.round(width * height * fps * 0.1);
+
+  for (const candidate of WEBCODECS_CANDIDATES) {
+    const config: VideoEncoderConfig = { codec: candidate.codec, width, height, bitrate, framerate: fps };
+    const support = await VideoEncoder.isConfigSupported(config).catch(() => null);
+    if (!support?.supported) continue;
+
+    const muxer = new WebmMuxer({ codec: candidate.container, width, height });
+    let failure: Error | null = null;
+    const encoder = new VideoEncoder({
+      output: (chunk) => muxer.addChunk(chunk),
+      error: (err) => {
+        failure = err;
+      },
+    });
+    encoder.configure(config);
+
+    const frameDuration = 1e6 / fps;
+    const keyframeEvery = Math.max(1, Math.round(fps * KEYFRAME_INTERVAL_SECONDS));
+
+    return {
+      encoder: 'webcodecs',
+      async addFrame(index) {
+        if (failure) throw failure;
+        const frame = new VideoFrame(canvas, {
+          timestamp: Math.round(index * frameDuration),
+          duration: Math.round(frameDuration),
+        });
+        encoder.encode(frame, { keyFrame: index % keyframeEvery === 0 });
+        frame.close();
+        // Back-pressure: don't let raw frames pile up in memory
+        while (encoder.encodeQueueSize > 4) {
+          await new Promise((resolve) => setTimeout(resolve, 1));
+        }
+      },
+      async finish() {
+        await encoder.flush();
+        encoder.close();
+        if (failure) throw failure;
+        return muxer.finalize();
+      },
+      cancel() {
+        if (encoder.state !== 'closed') encoder.close();
+      },
+    };
+  }
+
+  return null;
+}
+
+const RECORDER_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+function createMediaRecorderSink(
+  canvas: HTMLCanvasElement,
+  options: GourceVideoExportOptions
+): FrameSink {
+  const mimeType = RECORDER_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+  // Frame rate 0: a frame is only captured when requestFrame() is called
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, {
+    mimeType,
+    videoBitsPerSecond: Math.round(options.width * options.height * options.fps * 0.1),
+  });
+
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  recorder.start(1000);
+
+  // The recorder timestamps frames by wall clock, so pace them in real time
+  const frameMs = 1000 / options.fps;
+  const startedAt = performance.now();
+
+  return {
+    encoder: 'mediarecorder',
+    async addFrame(index) {
+      track.requestFrame();
+      const wait = startedAt + (index + 1) * frameMs - performance.now();
+      if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+    },
+    finish() {
+      return new Promise<Blob>((resolve) => {
+        recorder.onstop = () => {
+          stream.getTracks().forEach((t) => t.stop());
+          resolve(new Blob(chunks, { type: 'video/webm' }));
+        };
+        recorder.stop();
+      });
+    },
+    cancel() {
+      if (recorder.state !== 'inactive') recorder.stop();
+      stream.getTracks().forEach((t) => t.stop());
+    },
+  };
+}
+
+// =============================================================================
+// TITLE CARD
+// =============================================================================
+
+function drawTitleCard(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  card: NonNullable<GourceVideoExportOptions['titleCard']>,
+  backgroundColor: string,
+  opacity: number
+): void {
+  const unit = Math.min(width, height);
+
+  ctx.save();
+  ctx.globalAlpha = opacity;
+  ctx.fillStyle = backgroundColor;
+  ctx.fillRect(0, 0, width, height);
+
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.92)';
+  ctx.font = `bold ${Math.round(unit * 0.07)}px -apple-system, system-ui, sans-serif`;
+  ctx.fillText(card.title, width / 2, height / 2 - unit * 0.03, width * 0.9);
+
+  if (card.subtitle) {
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.5)';
+    ctx.font = `${Math.round(unit * 0.03)}px -apple-system, system-ui, sans-serif`;
+    ctx.fillText(card.subtitle, width / 2, height / 2 + unit * 0.05, width * 0.9);
+  }
+
+  ctx.restore();
+}
+
+// =============================================================================
+// EXPORT
+// =============================================================================
+
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw new DOMException('Video export cancelled', 'AbortError');
+}
+
+/**
+ * Render the animation offline and encode it to a .webm Blob. Rejects with
+ * an AbortError when `signal` fires.
+ */
+export async function exportGourceVideo(
+  input: GourceVideoExportInput,
+  options: GourceVideoExportOptions,
+  { onProgress, signal }: GourceVideoExportCallbacks = {}
+): Promise<Blob> {
+  const { width, height, fps } = options;
+  const titleFrames = options.titleCard ? Math.round(TITLE_CARD_SECONDS * fps) : 0;
+  const animationFrames = Math.max(1, Math.round(options.durationSeconds * fps));
+  const totalFrames = titleFrames + animationFrames;
+  const frameMs = 1000 / fps;
+
+  const canvas = document.createElement('canvas');
+  const engine = createGourceEngine(input.data);
+  let sink: FrameSink | null = null;
+
+  try {
+    engine.initialize(canvas, { width, height });
+    engine.setSettings(input.settings);
+    if (input.activeRepoId) engine.setActiveRepo(input.activeRepoId);
+    engine.hydrateCommitFiles(input.hydratedFiles);
+    engine.highlightContributor(input.highlightedContributorId);
+
+    // Same history, same settings → same frames
+    const commits = input.data.commits;
+    const seed = `${commits.length}:${commits[0]?.sha ?? ''}:${commits[commits.length - 1]?.sha ?? ''}`;
+    engine.beginOfflineRender(seed, options.durationSeconds * 1000);
+
+    sink = (await createWebCodecsSink(canvas, options)) ?? createMediaRecorderSink(canvas, options);
+    const encoder = sink.encoder;
+    onProgress?.({ phase: 'preparing', frame: 0, totalFrames, encoder });
+
+    await engine.waitForAvatars(5000);
+    throwIfAborted(signal);
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+    for (let frame = 0; frame < totalFrames; frame++) {
+      if (frame < titleFrames && options.titleCard) {
+        // The empty scene sits under the card and shows through as it fades
+        engine.renderOfflineFrame(0, frameMs);
+        const remaining = (titleFrames - frame) / fps;
+        drawTitleCard(
+          ctx,
+          width,
+          height,
+          options.titleCard,
+          input.settings.backgroundColor,
+          Math.min(1, remaining / TITLE_FADE_SECONDS)
+        );
+      } else {
+        engine.renderOfflineFrame((frame - titleFrames + 1) / animationFrames, frameMs);
+      }
+
+      await sink.addFrame(frame);
+      throwIfAborted(signal);
+
+      if (frame % 5 === 0 || frame === totalFrames - 1) {
+        onProgress?.({ phase: 'rendering', frame: frame + 1, totalFrames, encoder });
+        // Let the progress dialog paint
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      }
+    }
+
+    onProgress?.({ phase: 'finalizing', frame: totalFrames, totalFrames, encoder });
+    const blob = await sink.finish();
+    sink = null;
+    return blob;
+  } finally {
+    sink?.cancel();
+    engine.destroy();
+  }
+}
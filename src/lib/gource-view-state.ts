@@ -0,0 +1,164 @@
+// =============================================================================
+// GOURCE VIEW STATE — a moment of the visualization as a shareable link
+// =============================================================================
+//
+// Settings, camera, focus, filters and playback position are component state,
+// so a view can't be sent to anyone. A GourceViewState captures them (never
+// the commit data, which the recipient loads themselves) and travels in the
+// URL hash as `#view=<version>.<base64url JSON>`. Settings are stored as a
+// diff against the defaults to keep links short.
+
+import { z } from 'zod';
+import { cameraScriptSchema } from '@/lib/camera-director';
+import { MAX_SPLIT_PANES } from '@/lib/gource-split-view';
+import { globError } from '@/lib/path-filter';
+import { DEFAULT_GOURCE_SETTINGS, PlaybackSpeed } from '@/lib/types';
+import type { GourceSettings, GourceViewState } from '@/lib/types';
+
+export const VIEW_STATE_HASH_KEY = 'view';
+const VIEW_STATE_VERSION = 1;
+
+/** A number pulled into the range its settings slider allows. */
+function clamped(min: number, max: number) {
+  return z.number().finite().transform((value) => Math.min(max, Math.max(min, value)));
+}
+
+/** A record with at most `max` keys. */
+function boundedRecord<T extends z.ZodTypeAny>(value: T, max: number) {
+  return z.record(value).refine((record) => Object.keys(record).length <= max, `At most ${max} entries`);
+}
+
+// Ceilings for the lists a link carries; far above what the settings UI produces
+const MAX_GLOBS = 200;
+const MAX_CONTRIBUTORS = 1000;
+const MAX_EXTENSION_COLORS = 500;
+const MAX_REPO_PATH_RULES = 200;
+
+const globSchema = z.string().refine((glob) => globError(glob) === null, 'Invalid glob');
+
+const pathRulesSchema = z.object({
+  presets: z.array(z.enum(['vendored', 'generated', 'lockfiles', 'binary-assets'])).max(4),
+  include: z.array(globSchema).max(MAX_GLOBS),
+  exclude: z.array(globSchema).max(MAX_GLOBS),
+  maxDepth: z.number().int().positive().nullable(),
+});
+
+// Unknown keys are dropped, so links from newer builds still open
+const settingsSchema = z
+  .object({
+    nodeSize: clamped(2, 20),
+    edgeThickness: clamped(0.5, 5),
+    showLabels: z.boolean(),
+    showAvatars: z.boolean(),
+    backgroundColor: z.string().regex(/^#[0-9a-f]{3,8}$/i),
+    showGlowEffects: z.boolean(),
+    showParticles: z.boolean(),
+    dateFilter: z.object({ start: z.string(), end: z.string(), totalDays: z.number() }).nullable(),
+    contributorFilter: z.array(z.string()).max(MAX_CONTRIBUTORS).nullable(),
+    extensionColors: boundedRecord(z.string(), MAX_EXTENSION_COLORS),
+    maxVisibleNodes: clamped(500, 10000).transform(Math.round),
+    showCommitBeams: z.boolean(),
+    nodeFadeTime: clamped(5000, 120000),
+    springStiffness: clamped(0.001, 0.1),
+    repulsionForce: clamped(10, 500),
+    skipDeadTime: z.boolean(),
+    renderer: z.enum(['auto', 'webgl2', 'canvas2d']),
+    cameraMode: z.enum(['auto', 'follow-contributor', 'active-directory', 'overview', 'script']),
+    cameraScript: cameraScriptSchema.nullable(),
+    colorMode: z.enum(['extension', 'churn', 'age', 'author', 'repo', 'test']),
+    pathRules: pathRulesSchema,
+    repoPathRules: boundedRecord(pathRulesSchema, MAX_REPO_PATH_RULES),
+  })
+  .partial();
+
+const viewStateSchema = z.object({
+  time: z.number().finite(),
+  isPlaying: z.boolean(),
+  speed: z.nativeEnum(PlaybackSpeed),
+  activeRepoId: z.string().nullable(),
+  highlightedContributorId: z.string().nullable(),
+  camera: z
+    .object({ x: z.number().finite(), y: z.number().finite(), zoom: z.number().positive().finite() })
+    .nullable(),
+  settings: settingsSchema,
+  splitPanes: z
+    .array(
+      z.object({
+        id: z.string(),
+        repoId: z.string().nullable(),
+        contributorId: z.string().nullable(),
+        pathInclude: z.string().nullable(),
+      }),
+    )
+    .max(MAX_SPLIT_PANES),
+  selection: z
+    .discriminatedUnion('kind', [
+      z.object({ kind: z.literal('node'), path: z.string() }),
+      z.object({ kind: z.literal('contributor'), id: z.string() }),
+    ])
+    .nullable(),
+});
+
+/** The settings that differ from the defaults. */
+export function diffSettings(settings: GourceSettings): Partial<GourceSettings> {
+  const diff: Partial<Record<keyof GourceSettings, unknown>> = {};
+  for (const key of Object.keys(settings) as (keyof GourceSettings)[]) {
+    if (JSON.stringify(settings[key]) !== JSON.stringify(DEFAULT_GOURCE_SETTINGS[key])) {
+      diff[key] = settings[key];
+    }
+  }
+  return diff as Partial<GourceSettings>;
+}
+
+function toBase64Url(text: string): string {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(text)) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): string {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+}
+
+export function encodeViewState(view: GourceViewState): string {
+  // Sub-pixel camera positions and sub-second times don't change what is seen
+  const compact: GourceViewState = {
+    ...view,
+    time: Math.round(view.time / 1000) * 1000,
+    camera: view.camera && {
+      x: Math.round(view.camera.x),
+      y: Math.round(view.camera.y),
+      zoom: Math.round(view.camera.zoom * 1000) / 1000,
+    },
+  };
+  return `${VIEW_STATE_VERSION}.${toBase64Url(JSON.stringify(compact))}`;
+}
+
+/** Read a view from an encoded hash value; null when it is missing, from another version or malformed. */
+export function decodeViewState(encoded: string): GourceViewState | null {
+  const dot = encoded.indexOf('.');
+  if (dot === -1 || encoded.slice(0, dot) !== String(VIEW_STATE_VERSION)) return null;
+
+  let data: unknown;
+  try {
+    data = JSON.parse(fromBase64Url(encoded.slice(dot + 1)));
+  } catch {
+    return null;
+  }
+  const parsed = viewStateSchema.safeParse(data);
+  return parsed.success ? (parsed.data as GourceViewState) : null;
+}
+
+/** The view carried by a location hash such as `#view=1.eyJ0…`, if any. */
+export function readViewStateFromHash(hash: string): GourceViewState | null {
+  const encoded = new URLSearchParams(hash.replace(/^#/, '')).get(VIEW_STATE_HASH_KEY);
+  return encoded ? decodeViewState(encoded) : null;
+}
+
+/** `baseUrl` with its hash replaced by `view`. */
+export function buildViewStateUrl(baseUrl: string, view: GourceViewState): string {
+  const url = new URL(baseUrl);
+  url.hash = `${VIEW_STATE_HASH_KEY}=${encodeViewState(view)}`;
+  return url.toString();
+}
@@ -0,0 +1,321 @@
+// =============================================================================
+// IDENTITY RESOLVER — fold one person's many author records together
+// =============================================================================
+//
+// The same person commits as a work and a personal email, a GitHub noreply
+// address, or a login-less local import. Every raw author gets an alias key;
+// aliases that share a handle (login, email, noreply login, .mailmap proper
+// email) are unioned, manual merges are applied on top, and each commit is
+// rewritten to its identity's canonical author — so everything downstream
+// keyed by login || email || name sees one contributor.
+
+import type {
+  CommitAuthor,
+  CommitData,
+  IdentityAlias,
+  IdentityAliasReason,
+  IdentityRules,
+  MailmapEntry,
+  ResolvedIdentity,
+} from '@/lib/types';
+
+export const EMPTY_IDENTITY_RULES: IdentityRules = { mailmap: [], merges: {}, splits: [] };
+
+/** Contributor id used by analytics, Gource and the story pipeline. */
+export function getIdentityId(author: CommitAuthor): string {
+  return author.login || author.email || author.name;
+}
+
+/** Case-folded contributor id of a raw author. */
+export function getAliasKey(author: CommitAuthor): string {
+  return getIdentityId(author).toLowerCase();
+}
+
+// =============================================================================
+// MAILMAP
+// =============================================================================
+
+/**
+ * Parse a .mailmap file. Supported forms (see gitmailmap(5)):
+ *
+ *   Proper Name <commit@email>
+ *   <proper@email> <commit@email>
+ *   Proper Name <proper@email> <commit@email>
+ *   Proper Name <proper@email> Commit Name <commit@email>
+ */
+export function parseMailmap(text: string): MailmapEntry[] {
+  const entries: MailmapEntry[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const trimmed = rawLine.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+    // Trailing comments follow the last email
+    const line = trimmed.replace(/(>)\s*#.*$/, '$1');
+
+    const parts = [...line.matchAll(/([^<]*)<([^>]*)>/g)];
+    if (parts.length === 1) {
+      const properName = parts[0][1].trim();
+      const commitEmail = parts[0][2].trim().toLowerCase();
+      if (!properName || !commitEmail) continue;
+      entries.push({ properName, properEmail: null, commitName: null, commitEmail });
+    } else if (parts.length === 2) {
+      const commitEmail = parts[1][2].trim().toLowerCase();
+      if (!commitEmail) continue;
+      entries.push({
+        properName: parts[0][1].trim() || null,
+        properEmail: parts[0][2].trim() || null,
+        commitName: parts[1][1].trim() || null,
+        commitEmail,
+      });
+    }
+  }
+
+  return entries;
+}
+
+type MailmapIndex = Map<string, MailmapEntry>;
+
+/** Later entries win, as in git; name-specific entries are keyed by email + name. */
+function indexMailmap(entries: MailmapEntry[]): MailmapIndex {
+  const index: MailmapIndex = new Map();
+  for (const entry of entries) {
+    const key = entry.commitName
+      ? `${entry.commitEmail}\0${entry.commitName.toLowerCase()}`
+      : entry.commitEmail;
+    index.set(key, entry);
+  }
+  return index;
+}
+
+function applyMailmap(
+  author: CommitAuthor,
+  index: MailmapIndex
+): { name: string; email: string } | null {
+  if (index.size === 0 || !author.email) return null;
+  const email = author.email.toLowerCase();
+  const entry = index.get(`${email}\0${author.name.toLowerCase()}`) ?? index.get(email);
+  if (!entry) return null;
+  return {
+    name: entry.properName ?? author.name,
+    email: entry.properEmail ?? author.email,
+  };
+}
+
+// =============================================================================
+// RESOLUTION
+// =============================================================================
+
+const NOREPLY_PATTERN = /^(?:\d+\+)?([^@]+)@users\.noreply\.github\.com$/i;
+
+/** GitHub login behind a `[id+]login@users.noreply.github.com` address. */
+export function parseNoreplyLogin(email: string): string | null {
+  return email.match(NOREPLY_PATTERN)?.[1] ?? null;
+}
+
+interface AliasRecord {
+  key: string;
+  author: CommitAuthor;
+  avatarUrl: string | null;
+  commitCount: number;
+  mapped: { name: string; email: string } | null;
+  noreplyLogin: string | null;
+}
+
+function createUnionFind() {
+  const parent = new Map<string, string>();
+
+  const find = (x: string): string => {
+    let root = parent.get(x) ?? x;
+    if (root === x) return x;
+    root = find(root);
+    parent.set(x, root);
+    return root;
+  };
+
+  return {
+    find,
+    union(a: string, b: string) {
+      const ra = find(a);
+      const rb = find(b);
+      if (ra !== rb) parent.set(ra, rb);
+    },
+  };
+}
+
+function sameAuthor(a: CommitAuthor, b: CommitAuthor): boolean {
+  return a.name === b.name && a.email === b.email && a.login === b.login && a.avatarUrl === b.avatarUrl;
+}
+
+function rewriteCommits(commits: CommitData[], authorByAlias: Map<string, CommitAuthor>): CommitData[] {
+  let changed = false;
+  const rewritten = commits.map((commit) => {
+    const canonical = authorByAlias.get(getAliasKey(commit.author));
+    if (!canonical || sameAuthor(canonical, commit.author)) return commit;
+    changed = true;
+    return { ...commit, author: canonical };
+  });
+  return changed ? rewritten : commits;
+}
+
+export interface IdentityResolution {
+  /** Same object as the input when no commit needed rewriting */
+  commitsByRepo: Record<string, CommitData[]>;
+  identities: ResolvedIdentity[];
+}
+
+/**
+ * Group raw authors into identities and rewrite every commit to its
+ * identity's canonical author. Arrays of repos whose commits are untouched
+ * keep their reference.
+ */
+export function resolveIdentities(
+  commitsByRepo: Record<string, CommitData[]>,
+  rules: IdentityRules
+): IdentityResolution {
+  const mailmap = indexMailmap(rules.mailmap);
+  const aliases = new Map<string, AliasRecord>();
+
+  for (const repoId in commitsByRepo) {
+    for (const commit of commitsByRepo[repoId]) {
+      const key = getAliasKey(commit.author);
+      const alias = aliases.get(key);
+      if (alias) {
+        alias.commitCount++;
+        if (!alias.avatarUrl) alias.avatarUrl = commit.author.avatarUrl;
+        continue;
+      }
+      aliases.set(key, {
+        key,
+        author: commit.author,
+        avatarUrl: commit.author.avatarUrl,
+        commitCount: 1,
+        mapped: applyMailmap(commit.author, mailmap),
+        noreplyLogin: commit.author.email ? parseNoreplyLogin(commit.author.email) : null,
+      });
+    }
+  }
+
+  // Union aliases through shared handles. A split alias claims nothing, and
+  // no other alias may claim its key.
+  const splits = new Set(rules.splits);
+  const uf = createUnionFind();
+
+  for (const alias of aliases.values()) {
+    if (splits.has(alias.key)) continue;
+    const handles = [
+      alias.author.email.toLowerCase(),
+      alias.author.login?.toLowerCase(),
+      alias.noreplyLogin?.toLowerCase(),
+      alias.mapped?.email.toLowerCase(),
+    ];
+    for (const handle of handles) {
+      if (handle && !splits.has(handle)) uf.union(alias.key, handle);
+    }
+  }
+
+  for (const [aliasKey, targetKey] of Object.entries(rules.merges)) {
+    if (aliases.has(aliasKey) && aliases.has(targetKey)) uf.union(aliasKey, targetKey);
+  }
+
+  const groups = new Map<string, AliasRecord[]>();
+  for (const alias of aliases.values()) {
+    const root = uf.find(alias.key);
+    const group = groups.get(root);
+    if (group) group.push(alias);
+    else groups.set(root, [alias]);
+  }
+
+  // Canonical author: the most active alias with a login, else the most active
+  const identities: ResolvedIdentity[] = [];
+  const authorByAlias = new Map<string, CommitAuthor>();
+
+  for (const group of groups.values()) {
+    group.sort(
+      (a, b) =>
+        Number(!a.author.login) - Number(!b.author.login) || b.commitCount - a.commitCount
+    );
+    const primary = group[0];
+    // A split alias is deliberately not the person its .mailmap line names
+    const mappedAliases = group.filter((a) => a.mapped && !splits.has(a.key));
+    const primaryMapped = splits.has(primary.key) ? null : primary.mapped;
+    const author: CommitAuthor = {
+      name: primaryMapped?.name ?? mappedAliases[0]?.mapped?.name ?? primary.author.name,
+      email: primaryMapped?.email ?? primary.author.email,
+      login: primary.author.login,
+      avatarUrl: group.find((a) => a.avatarUrl)?.avatarUrl ?? null,
+    };
+
+    const identityAliases: IdentityAlias[] = group.map((alias, i) => ({
+      key: alias.key,
+      name: alias.author.name,
+      email: alias.author.email,
+      login: alias.author.login,
+      commitCount: alias.commitCount,
+      reason: i === 0 ? 'primary' : aliasReason(alias, rules),
+    }));
+
+    for (const alias of group) authorByAlias.set(alias.key, author);
+    identities.push({
+      id: getIdentityId(author),
+      author,
+      aliases: identityAliases,
+      commitCount: group.reduce((sum, a) => sum + a.commitCount, 0),
+    });
+  }
+
+  identities.sort((a, b) => b.commitCount - a.commitCount);
+
+  let changed = false;
+  const resolved: Record<string, CommitData[]> = {};
+  for (const repoId in commitsByRepo) {
+    resolved[repoId] = rewriteCommits(commitsByRepo[repoId], authorByAlias);
+    if (resolved[repoId] !== commitsByRepo[repoId]) changed = true;
+  }
+
+  return { commitsByRepo: changed ? resolved : commitsByRepo, identities };
+}
+
+function aliasReason(alias: AliasRecord, rules: IdentityRules): IdentityAliasReason {
+  if (alias.key in rules.merges) return 'manual';
+  if (alias.mapped) return 'mailmap';
+  if (alias.noreplyLogin) return 'noreply';
+  return 'shared-email';
+}
+
+/**
+ * Rewrite commits that arrive after a resolution (e.g. an incremental sync)
+ * to the canonical authors of already-known identities.
+ */
+export function resolveCommits(commits: CommitData[], identities: ResolvedIdentity[]): CommitData[] {
+  const authorByAlias = new Map<string, CommitAuthor>();
+  for (const identity of identities) {
+    for (const alias of identity.aliases) authorByAlias.set(alias.key, identity.author);
+  }
+  return rewriteCommits(commits, authorByAlias);
+}
+
+// =============================================================================
+// RULE UPDATES
+// =============================================================================
+
+/** Fold the identity owning aliasKey into the one owning targetKey. */
+export function addIdentityMerge(rules: IdentityRules, aliasKey: string, targetKey: string): IdentityRules {
+  if (aliasKey === targetKey) return rules;
+  return {
+    ...rules,
+    merges: { ...rules.merges, [aliasKey]: targetKey },
+    splits: rules.splits.filter((key) => key !== aliasKey && key !== targetKey),
+  };
+}
+
+/** Keep one alias as its own identity, undoing manual and automatic merges. */
+export function addIdentitySplit(rules: IdentityRules, aliasKey: string): IdentityRules {
+  const merges = Object.fromEntries(
+    Object.entries(rules.merges).filter(([alias, target]) => alias !== aliasKey && target !== aliasKey)
+  );
+  return {
+    ...rules,
+    merges,
+    splits: rules.splits.includes(aliasKey) ? rules.splits : [...rules.splits, aliasKey],
+  };
+}
@@ -14,6 +14,29 @@ export const NodeFlags = {
   POP_IN:   0b0001_0000,
 } as const;
 
+/** Per-node typed-array columns, copied as a unit by snapshot() and restore(). */
+const COLUMNS = [
+  'x', 'y', 'targetX', 'targetY',
+  'vx', 'vy', 'mass', 'angle', 'radius', 'opacity', 'scale', 'popInTarget',
+  'depth', 'flags', 'childCount', 'parentIndex', 'subtreeWeight',
+  'subtreeAngleStart', 'subtreeAngleSpan',
+  'colorR', 'colorG', 'colorB',
+  'lastModified', 'modificationCount',
+] as const;
+
+type ColumnName = (typeof COLUMNS)[number];
+
+/**
+ * Copy of the live slots (0..count) of a LayoutBuffers. Structured-cloneable,
+ * so it can be kept as a seek keyframe or posted to the layout worker.
+ */
+export interface LayoutBuffersSnapshot {
+  count: number;
+  columns: Record<ColumnName, LayoutBuffers[ColumnName]>;
+  indexToId: string[];
+  children: Int32Array[];
+}
+
 /**
  * LayoutBuffers holds all per-node data in contiguous typed arrays.
  * Index 0 is reserved (unused sentinel), so valid indices start at 1.
@@ -376,6 +399,42 @@ export class LayoutBuffers {
     }
   }
 
+  /** Copy the live slots into a snapshot that later mutations won't touch. */
+  snapshot(): LayoutBuffersSnapshot {
+    const n = this.count + 1;
+    const columns = {} as LayoutBuffersSnapshot['columns'];
+    for (const name of COLUMNS) {
+      columns[name] = this[name].slice(0, n);
+    }
+    return {
+      count: this.count,
+      columns,
+      indexToId: this.indexToId.slice(0, n),
+      // Child lists are patched in place by swapIndices, so copy them too
+      children: this.children.slice(0, n).map((c) => c.slice()),
+    };
+  }
+
+  /** Replace all data with a snapshot, growing if it holds more nodes than fit. */
+  restore(snapshot: LayoutBuffersSnapshot): void {
+    if (snapshot.count > this.capacity) {
+      this.grow(Math.max(this.capacity * 2, snapshot.count));
+    }
+
+    this.parentIndex.fill(-1);
+    for (const name of COLUMNS) {
+      this[name].set(snapshot.columns[name]);
+    }
+
+    this.count = snapshot.count;
+    this.indexToId = snapshot.indexToId.slice();
+    this.children = snapshot.children.map((c) => c.slice());
+    this.idToIndex.clear();
+    for (let i = 1; i <= this.count; i++) {
+      this.idToIndex.set(this.indexToId[i], i);
+    }
+  }
+
   /** Reset all data (keep allocated buffers). */
   clear(): void {
     this.count = 0;
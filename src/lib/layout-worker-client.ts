@@ -0,0 +1,235 @@
+// =============================================================================
+// LAYOUT WORKER CLIENT — main-thread side of the layout worker
+// =============================================================================
+// Mirrors scene-graph changes from the engine's LayoutBuffers into the layout
+// worker, which runs TreeLayout physics, and copies the positions it computes
+// back. Positions arrive through a SharedArrayBuffer when the page is
+// cross-origin isolated, otherwise as transferred Float64Arrays. Any failure
+// is reported through `onFailure` so the engine can resume physics itself.
+
+import { LayoutBuffers, NodeFlags } from './layout-buffers';
+import type { LayoutBuffersSnapshot } from './layout-buffers';
+import type {
+  NodeUpdate,
+  WorkerInMessage,
+  WorkerOutMessage,
+} from './layout-worker-protocol';
+import {
+  computeSABSize,
+  getSABMetadata,
+  getSABPositionsX,
+  getSABPositionsY,
+} from './layout-worker-protocol';
+
+/** Node slots in the worker and the shared position buffer (index 0 unused). */
+const WORKER_CAPACITY = 32768;
+
+/**
+ * Main-thread handle on the layout worker.
+ *
+ * Node indices on both sides stay aligned because every allocation, removal
+ * and reset is replayed in the same order; `generation` guards the window in
+ * which a removal has happened here but not yet in the positions coming back.
+ */
+export class LayoutWorkerClient {
+  private worker: Worker;
+  private buffers: LayoutBuffers;
+  private onFailure: (reason: string) => void;
+
+  private ready = false;
+  private disposed = false;
+  private tickInFlight = false;
+  private generation = 0;
+
+  // SharedArrayBuffer views (null in transfer mode)
+  private sabMeta: Int32Array | null = null;
+  private sabX: Float64Array | null = null;
+  private sabY: Float64Array | null = null;
+
+  // Latest transferred positions, applied on the next step
+  private pendingPositions: Extract<WorkerOutMessage, { type: 'positions' }> | null = null;
+
+  /** Spawn the worker, or return null where workers can't run. */
+  static create(buffers: LayoutBuffers, onFailure: (reason: string) => void): LayoutWorkerClient | null {
+    if (typeof Worker === 'undefined') return null;
+    try {
+      const worker = new Worker(new URL('./layout-worker.ts', import.meta.url), { type: 'module' });
+      return new LayoutWorkerClient(worker, buffers, onFailure);
+    } catch (err) {
+      console.warn('LayoutWorkerClient: could not start the layout worker', err);
+      return null;
+    }
+  }
+
+  private constructor(worker: Worker, buffers: LayoutBuffers, onFailure: (reason: string) => void) {
+    this.worker = worker;
+    this.buffers = buffers;
+    this.onFailure = onFailure;
+
+    worker.onmessage = (e: MessageEvent<WorkerOutMessage>) => this.handleMessage(e.data);
+    worker.onerror = (e) => {
+      e.preventDefault();
+      this.fail(e.message || 'worker error');
+    };
+
+    // SAB needs COOP/COEP headers; without them positions are transferred
+    const useSAB = typeof SharedArrayBuffer !== 'undefined' && self.crossOriginIsolated === true;
+    let sab: SharedArrayBuffer | undefined;
+    if (useSAB) {
+      sab = new SharedArrayBuffer(computeSABSize(WORKER_CAPACITY));
+      this.sabMeta = getSABMetadata(sab);
+      this.sabX = getSABPositionsX(sab, WORKER_CAPACITY);
+      this.sabY = getSABPositionsY(sab, WORKER_CAPACITY);
+    }
+
+    this.post({ type: 'init', capacity: WORKER_CAPACITY, useSAB, sab });
+  }
+
+  // ===========================================================================
+  // SCENE MIRRORING
+  // ===========================================================================
+
+  /** Mirror a node that has just been allocated, linked and placed in `buffers`. */
+  addNode(idx: number): void {
+    const b = this.buffers;
+    const parentIdx = b.parentIndex[idx];
+    this.post({
+      type: 'addNode',
+      id: b.getId(idx),
+      parentId: parentIdx > 0 ? b.getId(parentIdx) : null,
+      isDir: b.hasFlag(idx, NodeFlags.IS_DIR),
+      depth: b.depth[idx],
+      colorR: b.colorR[idx],
+      colorG: b.colorG[idx],
+      colorB: b.colorB[idx],
+      x: b.x[idx],
+      y: b.y[idx],
+    });
+  }
+
+  /** Mirror changed per-node fields. */
+  updateNode(idx: number, updates: Partial<NodeUpdate>): void {
+    this.post({ type: 'updateNode', id: this.buffers.getId(idx), updates });
+  }
+
+  /** Mirror `buffers.remove()` of the node that had `id`. */
+  removeNode(id: string): void {
+    this.generation++;
+    this.post({ type: 'removeNode', id });
+  }
+
+  /** Mirror `buffers.clear()`; roots are re-added and registered afterwards. */
+  reset(): void {
+    this.generation++;
+    this.pendingPositions = null;
+    this.post({ type: 'reset' });
+  }
+
+  /** Mirror `buffers.restore()`; roots are registered afterwards. */
+  load(snapshot: LayoutBuffersSnapshot): void {
+    this.generation++;
+    this.pendingPositions = null;
+    this.post({ type: 'loadSnapshot', snapshot });
+  }
+
+  setRoots(ids: string[]): void {
+    this.post({ type: 'setRoots', ids });
+  }
+
+  recomputeAll(): void {
+    this.post({ type: 'recomputeAll' });
+  }
+
+  // ===========================================================================
+  // STEPPING
+  // ===========================================================================
+
+  /**
+   * Copy the newest positions from the worker into `buffers`, then request
+   * the next physics step unless the previous one is still running.
+   */
+  step(dt: number, simulationTime: number, nodeFadeTime: number): void {
+    if (!this.ready || this.disposed) return;
+
+    this.applyPositions();
+
+    if (this.tickInFlight) return;
+    this.tickInFlight = true;
+    this.post({ type: 'tick', dt, simulationTime, nodeFadeTime, generation: this.generation });
+  }
+
+  private applyPositions(): void {
+    const b = this.buffers;
+
+    if (this.sabMeta && this.sabX && this.sabY && Atomics.load(this.sabMeta, 1) === 1) {
+      Atomics.store(this.sabMeta, 1, 0);
+      if (Atomics.load(this.sabMeta, 3) === this.generation) {
+        // Nodes added since the tick keep their own positions until the next one
+        const count = Math.min(Atomics.load(this.sabMeta, 0), b.count, WORKER_CAPACITY - 1);
+        for (let i = 1; i <= count; i++) {
+          b.x[i] = this.sabX[i];
+          b.y[i] = this.sabY[i];
+        }
+      }
+    }
+
+    const pending = this.pendingPositions;
+    if (pending) {
+      this.pendingPositions = null;
+      if (pending.generation === this.generation) {
+        const count = Math.min(pending.count, b.count);
+        for (let i = 0; i < count; i++) {
+          b.x[i + 1] = pending.buffer[i * 2];
+          b.y[i + 1] = pending.buffer[i * 2 + 1];
+        }
+      }
+    }
+  }
+
+  private handleMessage(msg: WorkerOutMessage): void {
+    if (this.disposed) return;
+
+    switch (msg.type) {
+      case 'ready':
+        this.ready = true;
+        break;
+      case 'tickDone':
+        // Past the shared buffer's capacity, fall back to a transfer
+        if (this.sabMeta && this.buffers.count < WORKER_CAPACITY) {
+          this.tickInFlight = false;
+        } else {
+          this.post({ type: 'getPositions' });
+        }
+        break;
+      case 'positions':
+        this.pendingPositions = msg;
+        this.tickInFlight = false;
+        break;
+      case 'error':
+        this.fail(msg.message);
+        break;
+    }
+  }
+
+  // ===========================================================================
+  // LIFECYCLE
+  // ===========================================================================
+
+  private post(msg: WorkerInMessage): void {
+    if (this.disposed) return;
+    this.worker.postMessage(msg);
+  }
+
+  private fail(reason: string): void {
+    if (this.disposed) return;
+    this.dispose();
+    this.onFailure(reason);
+  }
+
+  dispose(): void {
+    if (this.disposed) return;
+    this.disposed = true;
+    this.worker.terminate();
+    this.pendingPositions = null;
+  }
+}
@@ -2,16 +2,19 @@
 // LAYOUT WORKER PROTOCOL — Message types for main ↔ worker communication
 // =============================================================================
 
+import type { LayoutBuffersSnapshot } from './layout-buffers';
+
 /** Discriminated union of messages sent from the main thread to the layout worker. */
 export type WorkerInMessage =
   | { type: 'init'; capacity: number; useSAB: boolean; sab?: SharedArrayBuffer }
-  | { type: 'addNode'; id: string; parentId: string | null; isDir: boolean; depth: number; colorR: number; colorG: number; colorB: number }
+  | { type: 'addNode'; id: string; parentId: string | null; isDir: boolean; depth: number; colorR: number; colorG: number; colorB: number; x: number; y: number }
   | { type: 'removeNode'; id: string }
-  | { type: 'tick'; dt: number; simulationTime: number; nodeFadeTime: number }
+  | { type: 'tick'; dt: number; simulationTime: number; nodeFadeTime: number; generation: number }
   | { type: 'recomputeAll' }
   | { type: 'setRoots'; ids: string[] }
   | { type: 'updateNode'; id: string; updates: Partial<NodeUpdate> }
   | { type: 'reset' }
+  | { type: 'loadSnapshot'; snapshot: LayoutBuffersSnapshot }
   | { type: 'getPositions' };
 
 /** Mutable per-node fields that can be patched via the 'updateNode' message. */
@@ -22,13 +25,17 @@ export interface NodeUpdate {
   scale: number;
   popInTarget: number;
   flags: number;
+  x: number;
+  y: number;
+  targetX: number;
+  targetY: number;
 }
 
 /** Discriminated union of messages sent from the layout worker to the main thread. */
 export type WorkerOutMessage =
   | { type: 'ready' }
   | { type: 'tickDone'; frameTime: number }
-  | { type: 'positions'; buffer: Float64Array; count: number } // Transferable fallback
+  | { type: 'positions'; buffer: Float64Array; count: number; generation: number } // Transferable fallback
   | { type: 'error'; message: string };
 
 /**
@@ -38,7 +45,12 @@ export type WorkerOutMessage =
  *   [0] count (number of live nodes)
  *   [1] dirty flag (1 = worker has written new positions)
  *   [2] lock  (for Atomics — not used in basic version)
- *   [3] reserved
+ *   [3] generation of the tick that wrote the positions
+ *
+ * Node indices only line up with the main thread's while both sides have
+ * applied the same removals and resets. The main thread bumps a generation
+ * counter on each of those and sends it with every tick; positions tagged
+ * with an older generation are discarded.
  *
  * Section 1: Positions — Float64 x[capacity], y[capacity]
  *   offset = 16
@@ -31,6 +31,7 @@ let sabMeta: Int32Array | null = null;
 let sabX: Float64Array | null = null;
 let sabY: Float64Array | null = null;
 let capacity = 16384;
+let generation = 0;
 
 // =============================================================================
 // MESSAGE HANDLER
@@ -65,6 +66,9 @@ self.onmessage = (e: MessageEvent<WorkerInMessage>) => {
       case 'reset':
         handleReset();
         break;
+      case 'loadSnapshot':
+        handleLoadSnapshot(msg);
+        break;
       case 'getPositions':
         handleGetPositions();
         break;
@@ -106,6 +110,10 @@ function handleAddNode(msg: Extract<WorkerInMessage, { type: 'addNode' }>): void
   buffers.colorR[idx] = msg.colorR;
   buffers.colorG[idx] = msg.colorG;
   buffers.colorB[idx] = msg.colorB;
+  buffers.x[idx] = msg.x;
+  buffers.y[idx] = msg.y;
+  buffers.targetX[idx] = msg.x;
+  buffers.targetY[idx] = msg.y;
 
   if (msg.isDir) {
     buffers.setFlag(idx, NodeFlags.IS_DIR);
@@ -129,8 +137,10 @@ function handleRemoveNode(msg: Extract<WorkerInMessage, { type: 'removeNode' }>)
   const idx = buffers.getIndex(msg.id);
   if (idx <= 0) return;
 
+  // Same swap-remove as the main thread, so indices stay aligned. The
+  // fade-out before it is mirrored as a DELETING flag via 'updateNode'.
   const parentIdx = buffers.parentIndex[idx];
-  buffers.markDeleting(idx);
+  buffers.remove(idx);
 
   if (parentIdx > 0) {
     layout.onNodeRemoved(parentIdx);
@@ -141,6 +151,7 @@ function handleTick(msg: Extract<WorkerInMessage, { type: 'tick' }>): void {
   if (!buffers || !layout) return;
 
   const start = performance.now();
+  generation = msg.generation;
 
   // Run physics
   layout.updatePhysics(msg.dt);
@@ -157,6 +168,7 @@ function handleTick(msg: Extract<WorkerInMessage, { type: 'tick' }>): void {
       sabY[i] = buffers.y[i];
     }
     Atomics.store(sabMeta, 0, buffers.count);
+    Atomics.store(sabMeta, 3, generation);
     Atomics.store(sabMeta, 1, 1); // dirty flag
     postOut({ type: 'tickDone', frameTime });
   } else {
@@ -193,6 +205,10 @@ function handleUpdateNode(msg: Extract<WorkerInMessage, { type: 'updateNode' }>)
   if (u.scale !== undefined) buffers.scale[idx] = u.scale;
   if (u.popInTarget !== undefined) buffers.popInTarget[idx] = u.popInTarget;
   if (u.flags !== undefined) buffers.flags[idx] = u.flags;
+  if (u.x !== undefined) buffers.x[idx] = u.x;
+  if (u.y !== undefined) buffers.y[idx] = u.y;
+  if (u.targetX !== undefined) buffers.targetX[idx] = u.targetX;
+  if (u.targetY !== undefined) buffers.targetY[idx] = u.targetY;
 }
 
 function handleReset(): void {
@@ -202,6 +218,13 @@ function handleReset(): void {
   layout = new TreeLayout(buffers);
 }
 
+function handleLoadSnapshot(msg: Extract<WorkerInMessage, { type: 'loadSnapshot' }>): void {
+  if (!buffers) return;
+  buffers.restore(msg.snapshot);
+  // Roots and targets follow via 'setRoots' and 'recomputeAll'
+  layout = new TreeLayout(buffers);
+}
+
 function handleGetPositions(): void {
   if (!buffers) return;
 
@@ -217,7 +240,7 @@ function handleGetPositions(): void {
 
   // Transfer ownership of the buffer (zero-copy)
   (self as unknown as Worker).postMessage(
-    { type: 'positions', buffer: posBuffer, count } as WorkerOutMessage,
+    { type: 'positions', buffer: posBuffer, count, generation } as WorkerOutMessage,
     [posBuffer.buffer],
   );
 }
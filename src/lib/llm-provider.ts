@@ -0,0 +1,668 @@
+// =============================================================================
+// LLM PROVIDERS — where story prompts are sent
+// =============================================================================
+//
+// Stories are generated by Anthropic by default, on the user's own token.
+// Deployments that can't send commit history to an external API point the
+// server at a local OpenAI-compatible endpoint (Ollama, llama.cpp's server)
+// instead:
+//
+//   LLM_PROVIDER=openai-compatible
+//   LLM_BASE_URL=http://localhost:11434/v1
+//   LLM_MODEL=llama3.1:8b
+//   LLM_API_KEY=              (optional)
+//   LLM_CONTEXT_TOKENS=8192   (the server's context window)
+//   LLM_ACCESS_KEY=...        (required, 32+ characters)
+//
+// A local provider ignores the Claude model a route asks for. It has no
+// accounts of its own, so instead of a Claude token users enter the
+// deployment's LLM_ACCESS_KEY; without it the model server would be open to
+// anyone who can reach the app. Its context window is usually far smaller
+// than Claude's, so callers size prompts with inputTokenBudget() and chunk
+// anything larger.
+
+import { createHash, timingSafeEqual } from 'crypto';
+import http from 'http';
+import https from 'https';
+import type {
+  ClaudeApiRequest,
+  ClaudeApiResponse,
+  ClaudeStreamChunk,
+  LlmProviderId,
+  LlmProviderInfo,
+} from '@/lib/types';
+
+// =============================================================================
+// ERROR TYPES
+// =============================================================================
+
+/** Thrown by every provider; routes map `code` to an HTTP status. */
+export class ClaudeApiError extends Error {
+  code: string;
+  status: number;
+  retryAfter: number | null;
+  isRetryable: boolean;
+
+  constructor(
+    message: string,
+    code: string,
+    status: number,
+    retryAfter: number | null = null,
+    isRetryable: boolean = false
+  ) {
+    super(message);
+    this.name = 'ClaudeApiError';
+    this.code = code;
+    this.status = status;
+    this.retryAfter = retryAfter;
+    this.isRetryable = isRetryable;
+  }
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const ANTHROPIC_MESSAGES_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_CONTEXT_TOKENS = 200_000;
+const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+/** Conservative: llama.cpp and Ollama both default to small windows */
+const DEFAULT_LOCAL_CONTEXT_TOKENS = 8192;
+const MIN_ACCESS_KEY_LENGTH = 32;
+const API_TIMEOUT_MS = 300_000; // 5 minutes — matches OpenDev
+
+// =============================================================================
+// PROVIDER INTERFACE
+// =============================================================================
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  /** Context window in tokens, prompt and completion together */
+  contextTokens: number;
+  /**
+   * Whether a request carrying `token` may use this provider. Routes check
+   * this before anything is sent to the model.
+   */
+  authorize(token: string): boolean;
+  /** The model called when a route asks for `requested` */
+  resolveModel(requested: string): string;
+  /** A single attempt; callClaudeApi owns retries */
+  complete(token: string, request: ClaudeApiRequest): Promise<ClaudeApiResponse>;
+  /** Resolves with the full text once the stream ends */
+  stream(
+    token: string,
+    request: ClaudeApiRequest,
+    onChunk: (chunk: ClaudeStreamChunk) => void
+  ): Promise<string>;
+}
+
+// =============================================================================
+// NATIVE HTTP — bypass Next.js fetch patching which breaks OAuth tokens
+// =============================================================================
+
+// Next.js globally patches `fetch` (and even undici) with caching/revalidation
+// logic that corrupts Authorization headers for OAuth bearer tokens.
+// We use Node's built-in http/https modules to call providers directly;
+// local servers are usually plain http.
+
+interface NativeRequestOptions {
+  method: string;
+  headers: Record<string, string>;
+  body: string;
+  timeout: number;
+}
+
+function openRequest(
+  url: string,
+  options: NativeRequestOptions,
+  onResponse: (res: http.IncomingMessage) => void,
+  reject: (error: Error) => void
+): void {
+  const parsed = new URL(url);
+  const transport = parsed.protocol === 'http:' ? http : https;
+  const req = transport.request(
+    {
+      hostname: parsed.hostname,
+      port: parsed.port || undefined,
+      path: parsed.pathname + parsed.search,
+      method: options.method,
+      headers: {
+        ...options.headers,
+        'content-length': Buffer.byteLength(options.body).toString(),
+      },
+      timeout: options.timeout,
+    },
+    onResponse
+  );
+  req.on('error', reject);
+  req.on('timeout', () => {
+    req.destroy();
+    reject(new Error('Request timed out'));
+  });
+  req.write(options.body);
+  req.end();
+}
+
+function collectHeaders(res: http.IncomingMessage): Record<string, string> {
+  const responseHeaders: Record<string, string> = {};
+  for (const [key, val] of Object.entries(res.headers)) {
+    if (typeof val === 'string') responseHeaders[key] = val;
+  }
+  return responseHeaders;
+}
+
+function readBody(stream: NodeJS.ReadableStream): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+    stream.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    stream.on('error', reject);
+  });
+}
+
+function nativeRequest(
+  url: string,
+  options: NativeRequestOptions
+): Promise<{ status: number; headers: Record<string, string>; body: string }> {
+  return new Promise((resolve, reject) => {
+    openRequest(
+      url,
+      options,
+      (res) => {
+        readBody(res)
+          .then((body) => resolve({ status: res.statusCode || 500, headers: collectHeaders(res), body }))
+          .catch(reject);
+      },
+      reject
+    );
+  });
+}
+
+/**
+ * Request whose successful response is handed back unread, for SSE.
+ * Error responses are read in full into `errorBody`.
+ */
+function nativeRequestStream(
+  url: string,
+  options: NativeRequestOptions
+): Promise<{
+  status: number;
+  headers: Record<string, string>;
+  stream: NodeJS.ReadableStream;
+  errorBody: string | null;
+}> {
+  return new Promise((resolve, reject) => {
+    openRequest(
+      url,
+      options,
+      (res) => {
+        const status = res.statusCode || 200;
+        const headers = collectHeaders(res);
+        if (status >= 400) {
+          readBody(res)
+            .then((errorBody) => resolve({ status, headers, stream: res, errorBody }))
+            .catch(reject);
+          return;
+        }
+        resolve({ status, headers, stream: res, errorBody: null });
+      },
+      reject
+    );
+  });
+}
+
+/**
+ * Feed `data:` payloads of a server-sent event stream to `onData` and
+ * resolve when the stream ends.
+ */
+function readServerSentEvents(
+  stream: NodeJS.ReadableStream,
+  onData: (data: string) => void
+): Promise<void> {
+  let buffer = '';
+  return new Promise<void>((resolve, reject) => {
+    stream.on('data', (chunk: Buffer) => {
+      buffer += chunk.toString('utf-8');
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (line.startsWith('data: ')) onData(line.slice(6).trim());
+      }
+    });
+    stream.on('end', () => resolve());
+    stream.on('error', (err: Error) => reject(err));
+  });
+}
+
+function parseRetryAfter(headers: Record<string, string>): number | null {
+  return headers['retry-after'] ? parseInt(headers['retry-after'], 10) : null;
+}
+
+// =============================================================================
+// ANTHROPIC
+// =============================================================================
+
+function anthropicHeaders(token: string): Record<string, string> {
+  // OAuth tokens (sk-ant-oat*) use Bearer + beta flag; API keys use x-api-key
+  const isOAuth = token.startsWith('sk-ant-oat');
+  const authHeaders: Record<string, string> = isOAuth
+    ? {
+        Authorization: `Bearer ${token}`,
+        'anthropic-beta': 'oauth-2025-04-20',
+      }
+    : { 'x-api-key': token };
+
+  return {
+    ...authHeaders,
+    'anthropic-version': '2023-06-01',
+    'content-type': 'application/json',
+  };
+}
+
+function anthropicBody(request: ClaudeApiRequest, stream: boolean): string {
+  // Build body exactly like OpenDev: conditionally add system & temperature
+  const body: Record<string, unknown> = {
+    model: request.model,
+    max_tokens: request.maxTokens,
+    messages: [{ role: 'user', content: request.userMessage }],
+  };
+  if (stream) body.stream = true;
+  if (request.systemPrompt) body.system = request.systemPrompt;
+  if (request.temperature !== undefined) body.temperature = request.temperature;
+  return JSON.stringify(body);
+}
+
+function anthropicError(
+  status: number,
+  headers: Record<string, string>,
+  body: string,
+  streaming: boolean
+): ClaudeApiError {
+  const retryAfter = parseRetryAfter(headers);
+
+  if (status === 429) {
+    return new ClaudeApiError(
+      `Rate limited by Claude API: ${body}`,
+      'RATE_LIMITED',
+      429,
+      retryAfter || 30,
+      true
+    );
+  }
+
+  if (status === 529) {
+    return new ClaudeApiError(
+      'Claude API is overloaded. Please try again later.',
+      'OVERLOADED',
+      529,
+      retryAfter || 60,
+      true
+    );
+  }
+
+  if (status === 401) {
+    return new ClaudeApiError(
+      `Invalid or expired Claude API token. Detail: ${body}`,
+      'UNAUTHORIZED',
+      401,
+      null,
+      false
+    );
+  }
+
+  return new ClaudeApiError(
+    `Claude API ${streaming ? 'streaming ' : ''}error (${status}): ${body}`,
+    'API_ERROR',
+    status,
+    null,
+    status >= 500
+  );
+}
+
+function createAnthropicProvider(contextTokens: number): LlmProvider {
+  return {
+    id: 'anthropic',
+    contextTokens,
+    // Anthropic checks the token itself; it only has to be there
+    authorize: (token) => token.length > 0,
+    resolveModel: (requested) => requested,
+
+    async complete(token, request) {
+      const response = await nativeRequest(ANTHROPIC_MESSAGES_URL, {
+        method: 'POST',
+        headers: anthropicHeaders(token),
+        body: anthropicBody(request, false),
+        timeout: API_TIMEOUT_MS,
+      });
+
+      if (response.status >= 400) {
+        throw anthropicError(response.status, response.headers, response.body, false);
+      }
+
+      const data = JSON.parse(response.body);
+      return {
+        content: data.content?.[0]?.text ?? '',
+        model: data.model || request.model,
+        usage: {
+          inputTokens: data.usage?.input_tokens || 0,
+          outputTokens: data.usage?.output_tokens || 0,
+        },
+        stopReason: data.stop_reason || 'end_turn',
+      };
+    },
+
+    async stream(token, request, onChunk) {
+      const response = await nativeRequestStream(ANTHROPIC_MESSAGES_URL, {
+        method: 'POST',
+        headers: anthropicHeaders(token),
+        body: anthropicBody(request, true),
+        timeout: API_TIMEOUT_MS,
+      });
+
+      if (response.status >= 400) {
+        throw anthropicError(response.status, response.headers, response.errorBody ?? '', true);
+      }
+
+      let fullContent = '';
+      await readServerSentEvents(response.stream, (data) => {
+        if (data === '[DONE]') {
+          onChunk({ type: 'message_stop', isFinal: true });
+          return;
+        }
+
+        try {
+          const event = JSON.parse(data);
+
+          if (event.type === 'content_block_delta' && event.delta?.text) {
+            fullContent += event.delta.text;
+            onChunk({
+              type: 'content_block_delta',
+              text: event.delta.text,
+              isFinal: false,
+            });
+          } else if (event.type === 'message_start') {
+            onChunk({ type: 'message_start', isFinal: false });
+          } else if (event.type === 'message_delta') {
+            onChunk({ type: 'message_delta', isFinal: false });
+          } else if (event.type === 'message_stop') {
+            onChunk({ type: 'message_stop', isFinal: true });
+          }
+        } catch {
+          // Skip invalid JSON lines in SSE stream
+        }
+      });
+      return fullContent;
+    },
+  };
+}
+
+// =============================================================================
+// OPENAI-COMPATIBLE (Ollama, llama.cpp server, vLLM, ...)
+// =============================================================================
+
+interface OpenAiCompatibleConfig {
+  baseUrl: string;
+  model: string;
+  apiKey: string | null;
+  contextTokens: number;
+  accessKey: string;
+}
+
+function openAiHeaders(config: OpenAiCompatibleConfig): Record<string, string> {
+  return {
+    'content-type': 'application/json',
+    ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+  };
+}
+
+function openAiBody(config: OpenAiCompatibleConfig, request: ClaudeApiRequest, stream: boolean): string {
+  const messages = [
+    ...(request.systemPrompt ? [{ role: 'system', content: request.systemPrompt }] : []),
+    { role: 'user', content: request.userMessage },
+  ];
+  return JSON.stringify({
+    model: config.model,
+    messages,
+    max_tokens: request.maxTokens,
+    temperature: request.temperature,
+    stream,
+  });
+}
+
+/**
+ * Errors from the model server reach the browser, so their messages stay
+ * generic; the server address and response body are only logged here.
+ */
+function openAiError(
+  config: OpenAiCompatibleConfig,
+  status: number,
+  headers: Record<string, string>,
+  body: string
+): ClaudeApiError {
+  console.error(`[llm-provider] Model server at ${config.baseUrl} returned ${status}:`, body);
+
+  if (status === 401 || status === 403) {
+    return new ClaudeApiError(
+      'The model server rejected LLM_API_KEY. Check the server logs for details.',
+      'UNAUTHORIZED',
+      401,
+      null,
+      false
+    );
+  }
+
+  if (status === 429 || status === 503) {
+    return new ClaudeApiError(
+      'The model server is busy. Please try again shortly.',
+      status === 429 ? 'RATE_LIMITED' : 'OVERLOADED',
+      status,
+      parseRetryAfter(headers) || 10,
+      true
+    );
+  }
+
+  return new ClaudeApiError(
+    `Model server error (${status}). Check the server logs for details.`,
+    'API_ERROR',
+    status,
+    null,
+    status >= 500
+  );
+}
+
+/** Connection failures (server not started, wrong port) as a readable, retryable error. */
+function unreachable(config: OpenAiCompatibleConfig, error: unknown): ClaudeApiError {
+  const detail = error instanceof Error ? error.message : String(error);
+  console.error(`[llm-provider] Could not reach the model server at ${config.baseUrl}:`, detail);
+  return new ClaudeApiError(
+    'Could not reach the model server. Check that it is running and that LLM_BASE_URL is correct.',
+    'PROVIDER_UNREACHABLE',
+    503,
+    null,
+    true
+  );
+}
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/** Constant-time comparison; hashing first makes the lengths match. */
+function matchesAccessKey(config: OpenAiCompatibleConfig, token: string): boolean {
+  return token.length > 0 && timingSafeEqual(digest(token), digest(config.accessKey));
+}
+
+function toStopReason(finishReason: unknown): ClaudeApiResponse['stopReason'] {
+  if (finishReason === 'length') return 'max_tokens';
+  if (finishReason === 'stop_sequence') return 'stop_sequence';
+  return 'end_turn';
+}
+
+function createOpenAiCompatibleProvider(config: OpenAiCompatibleConfig): LlmProvider {
+  const endpoint = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    id: 'openai-compatible',
+    contextTokens: config.contextTokens,
+    authorize: (token) => matchesAccessKey(config, token),
+    resolveModel: () => config.model,
+
+    async complete(_token, request) {
+      let response: Awaited<ReturnType<typeof nativeRequest>>;
+      try {
+        response = await nativeRequest(endpoint, {
+          method: 'POST',
+          headers: openAiHeaders(config),
+          body: openAiBody(config, request, false),
+          timeout: API_TIMEOUT_MS,
+        });
+      } catch (error) {
+        throw unreachable(config, error);
+      }
+
+      if (response.status >= 400) {
+        throw openAiError(config, response.status, response.headers, response.body);
+      }
+
+      const data = JSON.parse(response.body);
+      const choice = data.choices?.[0];
+      return {
+        content: choice?.message?.content ?? '',
+        model: data.model || config.model,
+        usage: {
+          inputTokens: data.usage?.prompt_tokens || 0,
+          outputTokens: data.usage?.completion_tokens || 0,
+        },
+        stopReason: toStopReason(choice?.finish_reason),
+      };
+    },
+
+    async stream(_token, request, onChunk) {
+      let response: Awaited<ReturnType<typeof nativeRequestStream>>;
+      try {
+        response = await nativeRequestStream(endpoint, {
+          method: 'POST',
+          headers: openAiHeaders(config),
+          body: openAiBody(config, request, true),
+          timeout: API_TIMEOUT_MS,
+        });
+      } catch (error) {
+        throw unreachable(config, error);
+      }
+
+      if (response.status >= 400) {
+        throw openAiError(config, response.status, response.headers, response.errorBody ?? '');
+      }
+
+      let fullContent = '';
+      let finished = false;
+      onChunk({ type: 'message_start', isFinal: false });
+
+      await readServerSentEvents(response.stream, (data) => {
+        if (finished) return;
+        if (data === '[DONE]') {
+          finished = true;
+          onChunk({ type: 'message_stop', isFinal: true });
+          return;
+        }
+
+        try {
+          const event = JSON.parse(data);
+          const text = event.choices?.[0]?.delta?.content;
+          if (typeof text === 'string' && text) {
+            fullContent += text;
+            onChunk({ type: 'content_block_delta', text, isFinal: false });
+          }
+        } catch {
+          // Skip invalid JSON lines in SSE stream
+        }
+      });
+
+      // Not every server sends [DONE]; consumers still expect a final chunk
+      if (!finished) onChunk({ type: 'message_stop', isFinal: true });
+      return fullContent;
+    },
+  };
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+function misconfigured(message: string): ClaudeApiError {
+  return new ClaudeApiError(message, 'PROVIDER_MISCONFIGURED', 500, null, false);
+}
+
+function readContextTokens(fallback: number): number {
+  const raw = process.env.LLM_CONTEXT_TOKENS?.trim();
+  if (!raw) return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1024) {
+    throw misconfigured(`LLM_CONTEXT_TOKENS must be a whole number of tokens (at least 1024), got "${raw}".`);
+  }
+  return value;
+}
+
+function createProviderFromEnv(): LlmProvider {
+  const id = process.env.LLM_PROVIDER?.trim() || 'anthropic';
+
+  if (id === 'anthropic') {
+    return createAnthropicProvider(readContextTokens(ANTHROPIC_CONTEXT_TOKENS));
+  }
+
+  if (id === 'openai-compatible') {
+    const model = process.env.LLM_MODEL?.trim();
+    if (!model) {
+      throw misconfigured('LLM_MODEL must name the model to use when LLM_PROVIDER=openai-compatible.');
+    }
+    const accessKey = process.env.LLM_ACCESS_KEY?.trim() ?? '';
+    if (accessKey.length < MIN_ACCESS_KEY_LENGTH) {
+      throw misconfigured(
+        `LLM_ACCESS_KEY must be set to a secret of at least ${MIN_ACCESS_KEY_LENGTH} characters when LLM_PROVIDER=openai-compatible.`
+      );
+    }
+    return createOpenAiCompatibleProvider({
+      baseUrl: process.env.LLM_BASE_URL?.trim() || DEFAULT_LOCAL_BASE_URL,
+      model,
+      apiKey: process.env.LLM_API_KEY?.trim() || null,
+      contextTokens: readContextTokens(DEFAULT_LOCAL_CONTEXT_TOKENS),
+      accessKey,
+    });
+  }
+
+  throw misconfigured(`Unknown LLM_PROVIDER "${id}". Use "anthropic" or "openai-compatible".`);
+}
+
+let provider: LlmProvider | null = null;
+
+/** The provider configured by the LLM_* environment variables. Throws when they are invalid. */
+export function getLlmProvider(): LlmProvider {
+  if (!provider) provider = createProviderFromEnv();
+  return provider;
+}
+
+export function describeLlmProvider(llm: LlmProvider): LlmProviderInfo {
+  return {
+    id: llm.id,
+    model: llm.id === 'anthropic' ? null : llm.resolveModel(''),
+    contextTokens: llm.contextTokens,
+  };
+}
+
+// =============================================================================
+// CONTEXT BUDGETS
+// =============================================================================
+
+/** Output tokens to ask for: the request, but never more than a quarter of the window. */
+export function clampOutputTokens(llm: LlmProvider, requested: number): number {
+  return Math.min(requested, Math.floor(llm.contextTokens / 4));
+}
+
+/**
+ * Prompt tokens that fit beside a completion of `outputTokens`, keeping 10%
+ * of the window spare because token counts are estimated.
+ */
+export function inputTokenBudget(llm: LlmProvider, outputTokens: number): number {
+  return Math.floor(llm.contextTokens * 0.9) - clampOutputTokens(llm, outputTokens);
+}
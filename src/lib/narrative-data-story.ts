@@ -0,0 +1,383 @@
+// src/lib/narrative-data-story.ts
+// Deterministic "data story": turns a CommitIntelligenceResult into an
+// EnrichedGeneratedStory with templated prose — no LLM, no network.
+// One chapter per suggested act; milestones from narrative events;
+// spotlights from contributor profiles. The same input always yields the
+// same story, so it doubles as a fixture for the story UI.
+
+import type {
+  CommitIntelligenceResult,
+  ContributorIntelligence,
+  ContributorSpotlight,
+  EnrichedGeneratedStory,
+  EnrichedStoryChapter,
+  NarrativeEvent,
+  NarrativeEventCategory,
+  WindowAnalysis,
+} from '@/lib/narrative-types';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** `model` of a data story; how the UI tells it from an AI-written one */
+export const DATA_STORY_MODEL = 'data-story';
+
+/** Recorded with saved stories; bump when the templates change so old and new aren't compared as retakes */
+export const DATA_STORY_PROMPT_VERSION = 'data-story@1';
+
+const MAX_MILESTONES = 12;
+const MAX_SPOTLIGHTS = 5;
+const EVENTS_PER_CHAPTER = 5;
+const COMMITS_PER_CHAPTER = 3;
+
+type MilestoneType =
+  | 'project-start'
+  | 'major-release'
+  | 'pivot'
+  | 'breakthrough'
+  | 'collaboration'
+  | 'milestone'
+  | 'achievement';
+
+const EVENT_MILESTONES: Record<NarrativeEventCategory, { type: MilestoneType; icon: string }> = {
+  'project-birth': { type: 'project-start', icon: '🌱' },
+  'project-abandonment': { type: 'pivot', icon: '🌙' },
+  'project-revival': { type: 'breakthrough', icon: '🔥' },
+  'new-contributor': { type: 'collaboration', icon: '👋' },
+  'contributor-departure': { type: 'milestone', icon: '🚪' },
+  'collaboration-burst': { type: 'collaboration', icon: '🤝' },
+  'solo-sprint': { type: 'achievement', icon: '🏃' },
+  'architecture-shift': { type: 'pivot', icon: '🏗️' },
+  'technology-adoption': { type: 'breakthrough', icon: '🧪' },
+  'technology-removal': { type: 'pivot', icon: '🧹' },
+  'major-feature-arc': { type: 'major-release', icon: '🚀' },
+  'bug-fix-emergency': { type: 'milestone', icon: '🚑' },
+  'great-refactor': { type: 'pivot', icon: '♻️' },
+  'testing-adoption': { type: 'achievement', icon: '✅' },
+  'ci-cd-setup': { type: 'achievement', icon: '⚙️' },
+  'dependency-overhaul': { type: 'milestone', icon: '📦' },
+  'velocity-acceleration': { type: 'breakthrough', icon: '📈' },
+  'velocity-deceleration': { type: 'milestone', icon: '📉' },
+  sprint: { type: 'achievement', icon: '⚡' },
+  drought: { type: 'milestone', icon: '🏜️' },
+  'parallel-development': { type: 'collaboration', icon: '🔀' },
+  'focus-shift': { type: 'pivot', icon: '🧭' },
+  'pattern-replication': { type: 'milestone', icon: '🧬' },
+  relocation: { type: 'pivot', icon: '🚚' },
+};
+
+const ARC_TITLES: Record<string, { title: string; theme: string }> = {
+  'phoenix-rising': { title: 'Gone Quiet, Back Louder', theme: 'Persistence' },
+  'sprint-driven': { title: 'Built in Bursts', theme: 'Momentum' },
+  'long-journey': { title: 'The Long Haul', theme: 'Endurance' },
+  'new-beginning': { title: 'First Commits', theme: 'Beginnings' },
+  'steady-growth': { title: 'Commit by Commit', theme: 'Growth' },
+};
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function plural(count: number, singular: string, pluralForm = `${singular}s`): string {
+  return `${count.toLocaleString('en-US')} ${count === 1 ? singular : pluralForm}`;
+}
+
+/** "March 2024", in UTC so the output doesn't depend on the viewer's timezone. */
+function formatMonth(date: string): string {
+  if (!date) return 'an unknown date';
+  return new Date(date).toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+}
+
+function formatDay(date: string): string {
+  if (!date) return 'an unknown date';
+  return new Date(date).toLocaleDateString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+function listPhrase(items: string[]): string {
+  if (items.length <= 1) return items[0] ?? '';
+  return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+}
+
+function totalCommits(contributor: ContributorIntelligence): number {
+  return contributor.repoActivity.reduce((sum, ra) => sum + ra.commitCount, 0);
+}
+
+function dayCount(start: string, end: string): number {
+  if (!start || !end) return 0;
+  return Math.max(0, Math.ceil((new Date(end).getTime() - new Date(start).getTime()) / 86_400_000));
+}
+
+// =============================================================================
+// CHAPTERS
+// =============================================================================
+
+interface ChapterSource {
+  title: string;
+  windows: WindowAnalysis[];
+  events: NarrativeEvent[];
+}
+
+/** The suggested acts with their windows; acts without windows are dropped. */
+function chapterSources(intelligence: CommitIntelligenceResult): ChapterSource[] {
+  const windowsById = new Map(intelligence.windows.map((wa) => [wa.window.id, wa]));
+  const sources = intelligence.narrativeArc.acts
+    .map((act) => {
+      const windows = act.windowIds
+        .map((id) => windowsById.get(id))
+        .filter((wa): wa is WindowAnalysis => !!wa);
+      const windowIds = new Set(act.windowIds);
+      const events = intelligence.narrativeEvents
+        .filter((e) => windowIds.has(e.windowId))
+        .sort((a, b) => b.significance - a.significance || a.timestampMs - b.timestampMs);
+      return { title: act.suggestedTitle, windows, events };
+    })
+    .filter((source) => source.windows.length > 0);
+
+  if (sources.length > 0 || intelligence.windows.length === 0) return sources;
+  return [{ title: 'The Story So Far', windows: intelligence.windows, events: intelligence.narrativeEvents }];
+}
+
+function chapterTypeFor(source: ChapterSource, index: number, count: number): string {
+  const categories = new Set(source.events.map((e) => e.category));
+  if (index === 0) return 'origin';
+  if (categories.has('project-revival') || categories.has('drought')) return 'silence-return';
+  if (categories.has('bug-fix-emergency')) return 'crisis';
+  if (categories.has('architecture-shift') || categories.has('great-refactor')) return 'migration';
+  if (categories.has('collaboration-burst')) return 'collaboration';
+  if (categories.has('parallel-development')) return 'parallel';
+  return index === count - 1 ? 'current-state' : 'growth';
+}
+
+function moodFor(windows: WindowAnalysis[]): string {
+  const first = windows[0].metrics.relativeVelocity;
+  const last = windows[windows.length - 1].metrics.relativeVelocity;
+  if (windows.length === 1) return first >= 1.2 ? 'intense' : first <= 0.6 ? 'quiet' : 'steady';
+  if (last > first * 1.3) return 'building momentum';
+  if (last < first * 0.7) return 'winding down';
+  return 'steady';
+}
+
+function writeChapter(source: ChapterSource, intelligence: CommitIntelligenceResult): string {
+  const { windows, events } = source;
+  const start = windows[0].window.startDate;
+  const end = windows[windows.length - 1].window.endDate;
+  const commits = windows.reduce((sum, wa) => sum + wa.metrics.totalCommits, 0);
+  const additions = windows.reduce((sum, wa) => sum + wa.metrics.totalAdditions, 0);
+  const deletions = windows.reduce((sum, wa) => sum + wa.metrics.totalDeletions, 0);
+  const activeDays = windows.reduce((sum, wa) => sum + wa.metrics.activeDays, 0);
+
+  const repoCommits = new Map<string, number>();
+  for (const wa of windows) {
+    for (const rb of wa.repoBreakdown) {
+      repoCommits.set(rb.repoName, (repoCommits.get(rb.repoName) ?? 0) + rb.commitCount);
+    }
+  }
+  const repos = [...repoCommits.entries()].sort((a, b) => b[1] - a[1]).map(([name]) => name);
+
+  const paragraphs: string[] = [];
+
+  const period = formatMonth(start) === formatMonth(end)
+    ? `In ${formatMonth(start)}`
+    : `From ${formatMonth(start)} to ${formatMonth(end)}`;
+  paragraphs.push(
+    `${period}, ${plural(commits, 'commit')} landed over ${plural(activeDays, 'active day')}` +
+    `${repos.length > 0 ? ` in ${listPhrase(repos.slice(0, 3).map((r) => `**${r}**`))}` : ''}` +
+    `${repos.length > 3 ? ` and ${plural(repos.length - 3, 'other repository', 'other repositories')}` : ''}. ` +
+    `The codebase gained ${additions.toLocaleString('en-US')} lines and shed ${deletions.toLocaleString('en-US')}.`
+  );
+
+  const themes = windows
+    .map((wa) => wa.dominantTheme)
+    .filter((theme): theme is NonNullable<typeof theme> => !!theme)
+    .sort((a, b) => b.commitCount - a.commitCount);
+  const themeLabels = [...new Set(themes.map((t) => t.label))].slice(0, 3);
+  if (themeLabels.length > 0) {
+    const quote = themes[0].representativeMessages[0];
+    paragraphs.push(
+      `Most of the work went into ${listPhrase(themeLabels.map((l) => l.toLowerCase()))}.` +
+      (quote ? ` A typical commit from this stretch read:\n\n> ${quote}` : '')
+    );
+  }
+
+  if (events.length > 0) {
+    paragraphs.push(
+      '### What happened\n\n' +
+      events
+        .slice(0, EVENTS_PER_CHAPTER)
+        .sort((a, b) => a.timestampMs - b.timestampMs)
+        .map((e) => `- **${formatDay(e.date)}** — ${e.title}. ${e.description}`)
+        .join('\n')
+    );
+  }
+
+  const startMs = new Date(start).getTime();
+  const endMs = new Date(end).getTime();
+  const notable = intelligence.interestingCommits
+    .filter((sc) => {
+      const ms = new Date(sc.timestamp).getTime();
+      return ms >= startMs && ms <= endMs;
+    })
+    .slice(0, COMMITS_PER_CHAPTER);
+  if (notable.length > 0) {
+    paragraphs.push(
+      '### Notable commits\n\n' +
+      notable
+        .map(
+          (sc) =>
+            `- \`${sc.shortSha}\` "${sc.messageHeadline}" by ${sc.authorName} in ${sc.repoName}` +
+            ` (+${sc.additions.toLocaleString('en-US')}/-${sc.deletions.toLocaleString('en-US')})`
+        )
+        .join('\n')
+    );
+  }
+
+  const peopleCommits = new Map<string, number>();
+  for (const wa of windows) {
+    for (const rb of wa.repoBreakdown) {
+      for (const name of rb.topContributors) {
+        peopleCommits.set(name, (peopleCommits.get(name) ?? 0) + 1);
+      }
+    }
+  }
+  const people = [...peopleCommits.entries()].sort((a, b) => b[1] - a[1]).map(([name]) => name);
+  if (people.length > 0) {
+    paragraphs.push(
+      people.length === 1
+        ? `${people[0]} carried this chapter alone.`
+        : `The most active hands were ${listPhrase(people.slice(0, 4))}.`
+    );
+  }
+
+  return paragraphs.join('\n\n');
+}
+
+// =============================================================================
+// SPOTLIGHTS & MILESTONES
+// =============================================================================
+
+function chapterIdAt(chapters: EnrichedStoryChapter[], date: string): string {
+  const ms = new Date(date).getTime();
+  const chapter =
+    chapters.find((ch) => ms <= new Date(ch.dateRange.end).getTime()) ?? chapters[chapters.length - 1];
+  return chapter?.id ?? '';
+}
+
+function writeSpotlight(contributor: ContributorIntelligence): string {
+  const commits = totalCommits(contributor);
+  const modules = contributor.specializations.slice(0, 2).map((s) => s.module);
+  const hours = contributor.peakHours.slice(0, 2).map((h) => `${h}:00`);
+  const sentences = [
+    `${contributor.name} made ${plural(commits, 'commit')} between ${formatMonth(contributor.firstSeenDate)} ` +
+    `and ${formatMonth(contributor.lastSeenDate)}, working as a ${contributor.inferredRole} developer` +
+    `${modules.length > 0 ? ` mostly in ${listPhrase(modules.map((m) => `\`${m}\``))}` : ''}.`,
+  ];
+  if (hours.length > 0) {
+    sentences.push(
+      `They were busiest around ${listPhrase(hours)}` +
+      `${contributor.weekendPercentage >= 25 ? `, with ${Math.round(contributor.weekendPercentage)}% of commits on weekends` : ''}.`
+    );
+  }
+  return sentences.join(' ');
+}
+
+// =============================================================================
+// MAIN ENTRY POINT
+// =============================================================================
+
+/**
+ * Write a story from the preprocessor's output alone. Pure and
+ * deterministic: no network, and `generatedAt` is the analysis time.
+ */
+export function generateDataStory(intelligence: CommitIntelligenceResult): EnrichedGeneratedStory {
+  const { meta } = intelligence;
+  const sources = chapterSources(intelligence);
+
+  const chapters: EnrichedStoryChapter[] = sources.map((source, i) => {
+    const start = source.windows[0].window.startDate;
+    const end = source.windows[source.windows.length - 1].window.endDate;
+    return {
+      id: `ch-${i + 1}`,
+      index: i,
+      title: source.title,
+      content: writeChapter(source, intelligence),
+      dateRange: { start, end, totalDays: dayCount(start, end) },
+      repoIds: [...new Set(source.windows.flatMap((wa) => wa.repoBreakdown.map((rb) => rb.repoId)))],
+      anchorId: `chapter-${i + 1}`,
+      chapterType: chapterTypeFor(source, i, sources.length),
+      moodProgression: moodFor(source.windows),
+    };
+  });
+
+  const milestones = [...intelligence.narrativeEvents]
+    .sort((a, b) => b.significance - a.significance || a.timestampMs - b.timestampMs)
+    .slice(0, MAX_MILESTONES)
+    .sort((a, b) => a.timestampMs - b.timestampMs)
+    .map((e) => ({
+      date: e.date,
+      title: e.title,
+      description: e.quantitativeEvidence ? `${e.description} (${e.quantitativeEvidence})` : e.description,
+      type: EVENT_MILESTONES[e.category].type,
+      // Events score 1-10, milestones 1-5
+      significance: Math.max(1, Math.min(5, Math.round(e.significance / 2))),
+      relatedRepos: e.repoIds,
+      relatedCommitShas: e.evidenceCommits,
+      icon: EVENT_MILESTONES[e.category].icon,
+      chapterId: chapterIdAt(chapters, e.date),
+    }));
+
+  const contributorSpotlights: ContributorSpotlight[] = [...intelligence.contributors]
+    .sort((a, b) => totalCommits(b) - totalCommits(a) || a.name.localeCompare(b.name))
+    .slice(0, MAX_SPOTLIGHTS)
+    .map((c) => ({
+      contributorId: c.id,
+      contributorName: c.name,
+      avatarUrl: c.avatarUrl,
+      narrative: writeSpotlight(c),
+      repos: c.repoActivity.map((ra) => ra.repoId),
+      commitCount: totalCommits(c),
+      chapterId: chapterIdAt(chapters, c.firstSeenDate),
+    }));
+
+  const crossRepoConnections = intelligence.crossRepoCorrelations.map((c) => ({
+    type: c.type,
+    fromRepo: c.repoA,
+    toRepo: c.repoB,
+    description: c.evidence,
+  }));
+
+  const arc = ARC_TITLES[intelligence.narrativeArc.arcType] ?? ARC_TITLES['steady-growth'];
+  const span = meta.dateRange.start
+    ? `${formatMonth(meta.dateRange.start)} – ${formatMonth(meta.dateRange.end)}`
+    : 'No activity yet';
+
+  return {
+    id: `data-story-${meta.analyzedAt}`,
+    type: 'unified',
+    title: arc.title,
+    subtitle:
+      `${plural(meta.totalCommits, 'commit')} across ${plural(meta.totalRepos, 'repository', 'repositories')} ` +
+      `by ${plural(meta.uniqueContributors, 'contributor')} · ${span}`,
+    overarchingArc: {
+      title: arc.title,
+      theme: arc.theme,
+      narrativeType: intelligence.narrativeArc.arcType,
+    },
+    chapters,
+    milestones,
+    crossRepoConnections,
+    contributorSpotlights,
+    generatedAt: meta.analyzedAt,
+    dateRange: { ...meta.dateRange },
+    model: DATA_STORY_MODEL,
+    passMetadata: {
+      totalApiCalls: 0,
+      totalGenerationTimeMs: 0,
+    },
+  };
+}
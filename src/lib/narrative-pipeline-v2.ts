@@ -11,7 +11,12 @@ import type {
   ContributorSpotlight,
   NarrativePipelineProgress,
 } from '@/lib/narrative-types';
-import { analyzeCommitIntelligence, serializeForPrompt } from '@/lib/narrative-preprocessor';
+import {
+  INTELLIGENCE_PROMPT_TOKENS,
+  analyzeCommitIntelligence,
+  serializeForPrompt,
+} from '@/lib/narrative-preprocessor';
+import { verifyCitations } from '@/lib/story-citations';
 
 // =============================================================================
 // CONSTANTS
@@ -296,7 +301,8 @@ function finalizeParser(state: ParserState): void {
 function buildPartialStory(
   state: ParserState,
   intelligence: CommitIntelligenceResult,
-  startTime: number
+  startTime: number,
+  model: string
 ): Partial<EnrichedGeneratedStory> {
   const meta = state.metadata;
 
@@ -377,7 +383,7 @@ function buildPartialStory(
       end: intelligence.meta.dateRange.end,
       totalDays: intelligence.meta.dateRange.totalDays,
     },
-    model: MODEL,
+    model,
     passMetadata: {
       totalApiCalls: 1,
       totalGenerationTimeMs: Date.now() - startTime,
@@ -434,11 +440,6 @@ export async function generateNarrativeStreaming(
 
     if (signal?.aborted) throw new Error('Aborted');
 
-    // =========================================================================
-    // SERIALIZE DATA FOR PROMPT
-    // =========================================================================
-    const serialized = serializeForPrompt(intelligence, 50000);
-
     // =========================================================================
     // SINGLE STREAMING CALL
     // =========================================================================
@@ -448,16 +449,6 @@ export async function generateNarrativeStreaming(
       currentStep: 'Connecting to Claude...',
     });
 
-    const { UNIFIED_NARRATIVE_SYSTEM, buildUnifiedUserMessage } =
-      await import('@/lib/narrative-prompts-v2');
-
-    const userMessage = buildUnifiedUserMessage(
-      serialized,
-      intelligence.meta.totalRepos,
-      intelligence.meta.totalCommits,
-      intelligence.meta.uniqueContributors
-    );
-
     // Fetch SSE from our streaming API route
     const response = await fetch('/api/story/generate-v3', {
       method: 'POST',
@@ -465,9 +456,10 @@ export async function generateNarrativeStreaming(
         'Content-Type': 'application/json',
         Authorization: `Bearer ${claudeToken}`,
       },
+      // The server serializes the intelligence and renders the prompt from the template
       body: JSON.stringify({
-        systemPrompt: UNIFIED_NARRATIVE_SYSTEM,
-        userMessage,
+        templateId: 'unified-narrative',
+        inputs: { intelligence },
         maxTokens: MAX_OUTPUT_TOKENS,
         temperature: 0.7,
         model: MODEL,
@@ -505,6 +497,8 @@ export async function generateNarrativeStreaming(
     const decoder = new TextDecoder();
     let sseBuffer = '';
     let lastProgressUpdate = Date.now();
+    // The start event names the model the server actually called
+    let model: string = MODEL;
 
     while (true) {
       if (signal?.aborted) throw new Error('Aborted');
@@ -526,13 +520,15 @@ export async function generateNarrativeStreaming(
           try {
             const event = JSON.parse(jsonStr);
 
+            if (typeof event.model === 'string') model = event.model;
+
             if (event.text) {
               const changed = processChunk(state, event.text);
 
               if (changed) {
                 // Emit partial story only on key events:
                 // metadata parsed, new chapter started, chapter completed
-                const partial = buildPartialStory(state, intelligence, startTime);
+                const partial = buildPartialStory(state, intelligence, startTime, model);
                 onPartialStory(partial);
               }
 
@@ -577,11 +573,14 @@ export async function generateNarrativeStreaming(
     // =========================================================================
     finalizeParser(state);
 
-    const finalStory = buildPartialStory(
-      state,
-      intelligence,
-      startTime
-    ) as EnrichedGeneratedStory;
+    // Only citations of commits that were in the prompt's data survive; the
+    // server serializes the intelligence the same way
+    const promptData = serializeForPrompt(intelligence, INTELLIGENCE_PROMPT_TOKENS);
+    const finalStory = verifyCitations(
+      buildPartialStory(state, intelligence, startTime, model) as EnrichedGeneratedStory,
+      commitsByRepo,
+      () => promptData
+    );
 
     // Emit final story
     onPartialStory(finalStory);
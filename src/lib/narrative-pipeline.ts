@@ -17,6 +17,8 @@ import type {
   ChapterBlueprint,
 } from '@/lib/narrative-types';
 import { analyzeCommitIntelligence, serializeForPrompt } from '@/lib/narrative-preprocessor';
+import { buildChapterDataSlice } from '@/lib/narrative-prompts';
+import { verifyCitations } from '@/lib/story-citations';
 
 // =============================================================================
 // CONSTANTS
@@ -33,10 +35,6 @@ const MODEL_PASS3 = 'claude-sonnet-4-5-20250929';   // Narrative prose
 // HELPERS
 // =============================================================================
 
-function estimateTokens(text: string): number {
-  return Math.ceil(text.length / 4);
-}
-
 /**
  * Extract JSON from a Claude response that might contain markdown fences or preamble.
  */
@@ -110,10 +108,10 @@ function extractJSON<T>(text: string): T {
 // =============================================================================
 
 interface ApiCallOptions {
-  pass: 'analysis' | 'correlation' | 'narrative';
+  /** A prompt-registry template; the server renders the prompt from `inputs` */
+  templateId: 'repo-analysis' | 'chapter-plan' | 'chapter-prose' | 'chapter-revision';
+  inputs: Record<string, unknown>;
   model: string;
-  systemPrompt: string;
-  userMessage: string;
   maxTokens?: number;
   temperature?: number;
   repoId?: string;
@@ -129,10 +127,9 @@ async function callNarrativeApi(opts: ApiCallOptions): Promise<string> {
       Authorization: `Bearer ${opts.claudeToken}`,
     },
     body: JSON.stringify({
-      pass: opts.pass,
+      templateId: opts.templateId,
+      inputs: opts.inputs,
       model: opts.model,
-      systemPrompt: opts.systemPrompt,
-      userMessage: opts.userMessage,
       maxTokens: opts.maxTokens || 4096,
       temperature: opts.temperature || 0.7,
       repoId: opts.repoId,
@@ -171,11 +168,6 @@ async function runPass1(
   onProgress: (p: Partial<NarrativePipelineProgress>) => void,
   signal?: AbortSignal
 ): Promise<Map<string, RepoNarrativeAnalysis>> {
-  const {
-    buildPass1UserMessage,
-    PASS1_ANALYSIS_SYSTEM,
-  } = await import('@/lib/narrative-prompts');
-
   const repoIds = Object.keys(commitsByRepo).filter(
     (id) => (commitsByRepo[id]?.length || 0) > 0
   );
@@ -188,26 +180,14 @@ async function runPass1(
 
     const batch = repoIds.slice(i, i + MAX_PARALLEL_ANALYSIS);
     const batchPromises = batch.map(async (repoId) => {
-      // Build per-repo signals from intelligence
-      const repoSignals = buildRepoSignals(repoId, intelligence);
       const repoName = commitsByRepo[repoId][0]?.repoName || repoId;
 
-      const userMessage = buildPass1UserMessage(repoId, repoName, repoSignals);
-
-      // Truncate if needed
-      const tokenEst = estimateTokens(PASS1_ANALYSIS_SYSTEM + userMessage);
-      let finalMessage = userMessage;
-      if (tokenEst > 150000) {
-        const maxChars = 150000 * 4 - PASS1_ANALYSIS_SYSTEM.length * 4;
-        finalMessage = userMessage.slice(0, maxChars) + '\n\n[Truncated to fit token limits]';
-      }
-
       try {
+        // The server builds this repo's signals from the intelligence
         const content = await callNarrativeApi({
-          pass: 'analysis',
+          templateId: 'repo-analysis',
+          inputs: { intelligence, repoId, repoName },
           model: MODEL_PASS1,
-          systemPrompt: PASS1_ANALYSIS_SYSTEM,
-          userMessage: finalMessage,
           maxTokens: 4096,
           temperature: 0.6,
           repoId,
@@ -253,94 +233,6 @@ async function runPass1(
   return results;
 }
 
-/**
- * Build per-repo signals from the intelligence result for Pass 1.
- */
-function buildRepoSignals(
-  repoId: string,
-  intelligence: CommitIntelligenceResult
-): string {
-  const parts: string[] = [];
-
-  // Filter windows that include this repo
-  const repoWindows = intelligence.windows.filter((wa) =>
-    wa.repoBreakdown.some((rb) => rb.repoId === repoId)
-  );
-
-  // Filter events for this repo
-  const repoEvents = intelligence.narrativeEvents.filter((e) =>
-    e.repoIds.includes(repoId) || e.repoIds.length === 0
-  );
-
-  // Filter contributors for this repo
-  const repoContributors = intelligence.contributors.filter((c) =>
-    c.repoActivity.some((ra) => ra.repoId === repoId)
-  );
-
-  // Filter interesting commits for this repo
-  const repoCommits = intelligence.interestingCommits.filter(
-    (sc) => sc.repoId === repoId
-  );
-
-  parts.push(`## Repo: ${repoId}`);
-  parts.push(
-    `Total commits: ${intelligence.meta.totalCommits}, ` +
-    `Date range: ${intelligence.meta.dateRange.start.slice(0, 10)} to ${intelligence.meta.dateRange.end.slice(0, 10)}`
-  );
-
-  // Events
-  if (repoEvents.length > 0) {
-    parts.push('\n### Events');
-    for (const e of repoEvents.slice(0, 10)) {
-      parts.push(
-        `- [${e.date}] ${e.category}: ${e.title} (${e.significance}/10) — ${e.description}`
-      );
-    }
-  }
-
-  // Windows
-  if (repoWindows.length > 0) {
-    parts.push('\n### Time Periods');
-    for (const wa of repoWindows) {
-      const rb = wa.repoBreakdown.find((r) => r.repoId === repoId);
-      if (!rb) continue;
-      parts.push(
-        `- ${wa.window.startDate.slice(0, 10)} to ${wa.window.endDate.slice(0, 10)}: ` +
-        `${rb.commitCount} commits, +${rb.additions}/-${rb.deletions}` +
-        (wa.dominantTheme ? `, theme: ${wa.dominantTheme.label}` : '') +
-        ` (interest: ${wa.interestingnessScore}/10)`
-      );
-      if (wa.dominantTheme?.representativeMessages.length) {
-        parts.push(`  > "${wa.dominantTheme.representativeMessages[0]}"`);
-      }
-    }
-  }
-
-  // Contributors
-  if (repoContributors.length > 0) {
-    parts.push('\n### Contributors');
-    for (const c of repoContributors.slice(0, 3)) {
-      const ra = c.repoActivity.find((r) => r.repoId === repoId);
-      parts.push(
-        `- ${c.name}: ${ra?.commitCount || 0} commits, ${c.inferredRole}`
-      );
-    }
-  }
-
-  // Interesting commits
-  if (repoCommits.length > 0) {
-    parts.push('\n### Notable Commits');
-    for (const sc of repoCommits.slice(0, 10)) {
-      parts.push(
-        `- [${sc.timestamp.slice(0, 10)}] "${sc.messageHeadline}" ` +
-        `by ${sc.authorName} (+${sc.additions}/-${sc.deletions})`
-      );
-    }
-  }
-
-  return parts.join('\n');
-}
-
 // =============================================================================
 // PASS 2: CORRELATION & CHAPTER PLANNING
 // =============================================================================
@@ -352,83 +244,17 @@ async function runPass2(
   onProgress: (p: Partial<NarrativePipelineProgress>) => void,
   signal?: AbortSignal
 ): Promise<NarrativeChapterPlan> {
-  const {
-    buildPass2UserMessage,
-    PASS2_CORRELATION_SYSTEM,
-  } = await import('@/lib/narrative-prompts');
-
   onProgress({
     currentPass: 'correlating',
     overallProgress: 45,
     currentStep: 'Designing chapter structure and cross-repo connections...',
   });
 
-  // Build repo analysis summaries for the prompt
-  const analysisEntries: Array<{ repoId: string; analysis: string }> = [];
-  for (const [repoId, analysis] of repoAnalyses) {
-    analysisEntries.push({
-      repoId,
-      analysis: JSON.stringify(analysis, null, 1),
-    });
-  }
-
-  // Build cross-repo data
-  const crossRepoLines: string[] = [];
-  if (intelligence.crossRepoCorrelations.length > 0) {
-    crossRepoLines.push('### Cross-Repo Correlations');
-    for (const c of intelligence.crossRepoCorrelations.slice(0, 10)) {
-      crossRepoLines.push(
-        `- ${c.repoA} <-> ${c.repoB}: ${c.type} (strength: ${c.strength}) — ${c.evidence}`
-      );
-    }
-  }
-  if (intelligence.discontinuities.length > 0) {
-    crossRepoLines.push('\n### Discontinuities');
-    for (const d of intelligence.discontinuities.slice(0, 5)) {
-      crossRepoLines.push(
-        `- ${d.type}: ${d.description} (${d.startDate}${d.endDate ? ` to ${d.endDate}` : ''})`
-      );
-    }
-  }
-  crossRepoLines.push('\n### Narrative Arc Suggestion');
-  crossRepoLines.push(`Arc type: ${intelligence.narrativeArc.arcType}`);
-  crossRepoLines.push(`Summary: ${intelligence.narrativeArc.arcSummary}`);
-  for (const act of intelligence.narrativeArc.acts) {
-    crossRepoLines.push(`- Act ${act.number}: ${act.suggestedTitle} — ${act.characterization}`);
-  }
-
-  // Contributor summaries
-  const contributorLines: string[] = [];
-  for (const c of intelligence.contributors.slice(0, 10)) {
-    contributorLines.push(
-      `- ${c.name}${c.login ? ` (@${c.login})` : ''}: ${c.inferredRole}, ` +
-      `${c.repoActivity.length} repos, ` +
-      `first: ${c.firstSeenDate}, last: ${c.lastSeenDate}, ` +
-      `${c.commitsPerActiveDay} commits/active-day, ` +
-      `peak hours: ${c.peakHours.join('/')}, ` +
-      `${c.weekendPercentage}% weekend`
-    );
-  }
-
-  const userMessage = buildPass2UserMessage(
-    analysisEntries,
-    crossRepoLines.join('\n'),
-    contributorLines.join('\n')
-  );
-
-  // Truncate if needed
-  const totalTokens = estimateTokens(PASS2_CORRELATION_SYSTEM + userMessage);
-  let finalMessage = userMessage;
-  if (totalTokens > 150000) {
-    const maxChars = 150000 * 4 - PASS2_CORRELATION_SYSTEM.length * 4;
-    finalMessage = userMessage.slice(0, maxChars) + '\n\n[Truncated to fit token limits]';
-  }
-
+  // The server adds the cross-repo correlations and contributor profiles
   const content = await callNarrativeApi({
-    pass: 'correlation',
+    templateId: 'chapter-plan',
+    inputs: { intelligence, repoAnalyses: Array.from(repoAnalyses.values()) },
     model: MODEL_PASS2,
-    systemPrompt: PASS2_CORRELATION_SYSTEM,
-    userMessage: finalMessage,
     maxTokens: 8192,
     temperature: 0.7,
     claudeToken,
@@ -463,6 +289,63 @@ async function runPass2(
 // PASS 3: NARRATIVE PROSE
 // =============================================================================
 
+/** One Pass 3 call: the prose for a single chapter, new or revised. */
+async function writeChapterProse(
+  templateId: 'chapter-prose' | 'chapter-revision',
+  inputs: {
+    intelligence: CommitIntelligenceResult;
+    blueprint: ChapterBlueprint;
+    totalChapters: number;
+    previousChapter: string | null;
+    storyTitle: string;
+    currentDraft?: string;
+    feedback?: string;
+  },
+  claudeToken: string,
+  signal?: AbortSignal
+): Promise<string> {
+  const { blueprint } = inputs;
+  // The server builds the chapter's data slice from the intelligence
+  const content = await callNarrativeApi({
+    templateId,
+    inputs,
+    model: MODEL_PASS3,
+    maxTokens: blueprint.suggestedLength === 'long' ? 4096 : blueprint.suggestedLength === 'medium' ? 2048 : 1024,
+    temperature: 0.75,
+    claudeToken,
+    signal,
+  });
+
+  return content.trim();
+}
+
+function toEnrichedChapter(
+  blueprint: ChapterBlueprint,
+  index: number,
+  content: string
+): EnrichedStoryChapter {
+  const startDate = blueprint.dateRange?.start || '';
+  const endDate = blueprint.dateRange?.end || '';
+  const startMs = startDate ? new Date(startDate).getTime() : 0;
+  const endMs = endDate ? new Date(endDate).getTime() : 0;
+
+  return {
+    id: blueprint.id,
+    index,
+    title: blueprint.title,
+    content,
+    dateRange: {
+      start: startDate,
+      end: endDate,
+      totalDays: startMs && endMs ? Math.ceil((endMs - startMs) / 86400000) : 0,
+    },
+    repoIds: blueprint.repos || [],
+    anchorId: `chapter-${index + 1}`,
+    chapterType: blueprint.chapterType || 'growth',
+    moodProgression: blueprint.moodProgression || '',
+  };
+}
+
 async function runPass3(
   chapterPlan: NarrativeChapterPlan,
   intelligence: CommitIntelligenceResult,
@@ -470,11 +353,6 @@ async function runPass3(
   onProgress: (p: Partial<NarrativePipelineProgress>) => void,
   signal?: AbortSignal
 ): Promise<EnrichedStoryChapter[]> {
-  const {
-    buildPass3UserMessage,
-    PASS3_NARRATIVE_SYSTEM,
-  } = await import('@/lib/narrative-prompts');
-
   const totalChapters = chapterPlan.chapters.length;
 
   onProgress({
@@ -494,78 +372,39 @@ async function runPass3(
 
   // Generate all chapters in parallel
   const chapterPromises = chapterPlan.chapters.map(async (blueprint, i) => {
-    const dataSlice = buildChapterDataSlice(blueprint, intelligence);
-
     // Build continuity context from the chapter plan instead of previous chapter's literal text
     const prevContext = i > 0
       ? `Previous chapter: ${chapterSummaries[i - 1]}. Next you are writing chapter ${i + 1} of ${totalChapters}.`
       : null;
 
-    const userMessage = buildPass3UserMessage(
-      blueprint,
-      dataSlice,
-      totalChapters,
-      prevContext,
-      chapterPlan.storyTitle
-    );
-
-    const totalTokens = estimateTokens(PASS3_NARRATIVE_SYSTEM + userMessage);
-    let finalMessage = userMessage;
-    if (totalTokens > 150000) {
-      const maxChars = 150000 * 4 - PASS3_NARRATIVE_SYSTEM.length * 4;
-      finalMessage = userMessage.slice(0, maxChars) + '\n\n[Truncated]';
-    }
-
     try {
-      const content = await callNarrativeApi({
-        pass: 'narrative',
-        model: MODEL_PASS3,
-        systemPrompt: PASS3_NARRATIVE_SYSTEM,
-        userMessage: finalMessage,
-        maxTokens: blueprint.suggestedLength === 'long' ? 4096 : blueprint.suggestedLength === 'medium' ? 2048 : 1024,
-        temperature: 0.75,
-        claudeToken,
-        signal,
-      });
-
-      const cleanContent = content.trim();
-      const startDate = blueprint.dateRange?.start || '';
-      const endDate = blueprint.dateRange?.end || '';
-      const startMs = startDate ? new Date(startDate).getTime() : 0;
-      const endMs = endDate ? new Date(endDate).getTime() : 0;
-
-      return {
-        id: blueprint.id,
-        index: i,
-        title: blueprint.title,
-        content: cleanContent,
-        dateRange: {
-          start: startDate,
-          end: endDate,
-          totalDays: startMs && endMs ? Math.ceil((endMs - startMs) / 86400000) : 0,
+      const content = await writeChapterProse(
+        'chapter-prose',
+        {
+          intelligence,
+          blueprint,
+          totalChapters,
+          previousChapter: prevContext,
+          storyTitle: chapterPlan.storyTitle,
         },
-        repoIds: blueprint.repos || [],
-        anchorId: `chapter-${i + 1}`,
-        chapterType: blueprint.chapterType || 'growth',
-        moodProgression: blueprint.moodProgression || '',
-      } as EnrichedStoryChapter;
+        claudeToken,
+        signal
+      );
+      return toEnrichedChapter(blueprint, i, content);
     } catch (err) {
       console.error(`Pass 3 failed for chapter ${i + 1}:`, err);
       return {
-        id: blueprint.id,
-        index: i,
-        title: blueprint.title,
-        content: `*This chapter covers the period from ${blueprint.dateRange?.start || 'the beginning'} to ${blueprint.dateRange?.end || 'the present'}.* ${blueprint.narrativeFocus || ''}`,
+        ...toEnrichedChapter(
+          blueprint,
+          i,
+          `*This chapter covers the period from ${blueprint.dateRange?.start || 'the beginning'} to ${blueprint.dateRange?.end || 'the present'}.* ${blueprint.narrativeFocus || ''}`
+        ),
         dateRange: {
           start: blueprint.dateRange?.start || '',
           end: blueprint.dateRange?.end || '',
           totalDays: 0,
         },
-        repoIds: blueprint.repos || [],
-        anchorId: `chapter-${i + 1}`,
-        chapterType: blueprint.chapterType || 'growth',
-        moodProgression: blueprint.moodProgression || '',
-      } as EnrichedStoryChapter;
+      };
     }
   });
 
@@ -580,130 +419,89 @@ async function runPass3(
   return chapters.sort((a, b) => a.index - b.index);
 }
 
-/**
- * Build a data slice for a specific chapter from the intelligence result.
- */
-function buildChapterDataSlice(
-  blueprint: ChapterBlueprint,
-  intelligence: CommitIntelligenceResult
-): string {
-  const parts: string[] = [];
-  const startDate = blueprint.dateRange?.start;
-  const endDate = blueprint.dateRange?.end;
-
-  // Filter windows by date range
-  let relevantWindows = intelligence.windows;
-  if (startDate && endDate) {
-    const startMs = new Date(startDate).getTime();
-    const endMs = new Date(endDate).getTime();
-    relevantWindows = intelligence.windows.filter(
-      (wa) => wa.window.startMs <= endMs && wa.window.endMs >= startMs
-    );
-  }
-
-  // Further filter by repos if specified
-  const repoSet = new Set(blueprint.repos || []);
-  if (repoSet.size > 0) {
-    relevantWindows = relevantWindows.filter((wa) =>
-      wa.repoBreakdown.some((rb) => repoSet.has(rb.repoId))
-    );
-  }
-
-  // Time period details (capped for speed)
-  for (const wa of relevantWindows.slice(0, 5)) {
-    const relevantRepos = repoSet.size > 0
-      ? wa.repoBreakdown.filter((rb) => repoSet.has(rb.repoId))
-      : wa.repoBreakdown;
-
-    parts.push(
-      `### ${wa.window.startDate.slice(0, 10)} to ${wa.window.endDate.slice(0, 10)} ` +
-      `(${wa.metrics.totalCommits} commits, interest: ${wa.interestingnessScore}/10)`
-    );
-
-    for (const rb of relevantRepos) {
-      parts.push(
-        `- ${rb.repoName}: ${rb.commitCount} commits, +${rb.additions}/-${rb.deletions}, ` +
-        `modules: ${rb.topModules.join(', ')}`
-      );
-    }
+// =============================================================================
+// SINGLE-CHAPTER REWRITE
+// =============================================================================
 
-    if (wa.dominantTheme) {
-      parts.push(`Theme: ${wa.dominantTheme.label}`);
-      if (wa.dominantTheme.representativeMessages.length) {
-        parts.push(`> "${wa.dominantTheme.representativeMessages[0]}"`);
-      }
-    }
+const CHAPTER_TYPES = new Set<string>([
+  'origin', 'growth', 'crisis', 'migration',
+  'parallel', 'silence-return', 'collaboration', 'current-state',
+]);
 
-    for (const nc of wa.notableCommits.slice(0, 2)) {
-      parts.push(`Notable: "${nc.message}" by ${nc.author} — ${nc.reason}`);
-    }
+/** Reconstruct the Pass 2 blueprint of a written chapter from the story around it. */
+function blueprintFromChapter(
+  story: EnrichedGeneratedStory,
+  chapter: EnrichedStoryChapter
+): ChapterBlueprint {
+  const words = chapter.content.split(/\s+/).length;
 
-    parts.push('');
-  }
+  return {
+    id: chapter.id,
+    index: chapter.index,
+    title: chapter.title,
+    dateRange: { start: chapter.dateRange.start, end: chapter.dateRange.end },
+    repos: chapter.repoIds,
+    narrativeFocus: `${story.overarchingArc.title} — ${story.overarchingArc.theme}`,
+    keyMomentsToInclude: story.milestones
+      .filter((m) => m.chapterId === chapter.id)
+      .map((m) => `${m.date.slice(0, 10)}: ${m.title}`),
+    contributorSpotlights: story.contributorSpotlights
+      .filter((s) => s.chapterId === chapter.id)
+      .map((s) => s.contributorName),
+    moodProgression: chapter.moodProgression,
+    suggestedLength: words < 400 ? 'short' : words < 650 ? 'medium' : 'long',
+    chapterType: CHAPTER_TYPES.has(chapter.chapterType)
+      ? (chapter.chapterType as ChapterBlueprint['chapterType'])
+      : 'growth',
+  };
+}
 
-  // Events in this range
-  const relevantEvents = intelligence.narrativeEvents.filter((e) => {
-    if (startDate && endDate) {
-      const evMs = e.timestampMs;
-      return evMs >= new Date(startDate).getTime() && evMs <= new Date(endDate).getTime();
-    }
-    return true;
-  });
+/**
+ * Rewrite one chapter of a finished story, steered by the reader's feedback.
+ * Only the chapter's data slice and its Pass 3 call are re-run; the rest of
+ * the story is untouched. Throws on failure so the current draft is kept.
+ * Its citations are unchecked — run verifyCitations on the updated story with
+ * the returned `sourceData`, the chapter's slice and the draft the model saw.
+ */
+export async function rewriteChapter(
+  story: EnrichedGeneratedStory,
+  chapterIndex: number,
+  feedback: string,
+  commitsByRepo: Record<string, CommitData[]>,
+  repositories: Repository[],
+  claudeToken: string,
+  signal?: AbortSignal
+): Promise<{ chapter: EnrichedStoryChapter; sourceData: string }> {
+  const chapter = story.chapters[chapterIndex];
+  if (!chapter) throw new Error(`Chapter ${chapterIndex + 1} does not exist`);
 
-  if (relevantEvents.length > 0) {
-    parts.push('### Events');
-    for (const e of relevantEvents.slice(0, 5)) {
-      parts.push(
-        `- [${e.date}] ${e.category}: ${e.title} — ${e.description}` +
-        (e.evidenceCommits.length > 0 ? ` [${e.evidenceCommits[0].slice(0, 7)}]` : '')
-      );
-    }
-    parts.push('');
-  }
+  const intelligence = analyzeCommitIntelligence(commitsByRepo, repositories);
 
-  // Interesting commits in range
-  const relevantCommits = intelligence.interestingCommits.filter((sc) => {
-    if (startDate && endDate) {
-      const cMs = new Date(sc.timestamp).getTime();
-      return cMs >= new Date(startDate).getTime() && cMs <= new Date(endDate).getTime();
-    }
-    return true;
-  });
+  // The neighbouring prose exists now, so continue from its actual last lines
+  const previous = story.chapters[chapterIndex - 1];
+  const previousEnding = previous ? previous.content.slice(-300).trim() : null;
 
-  if (relevantCommits.length > 0) {
-    parts.push('### Interesting Commits');
-    for (const sc of relevantCommits.slice(0, 5)) {
-      parts.push(
-        `- [${sc.timestamp.slice(0, 10)}] ${sc.shortSha} "${sc.messageHeadline}" ` +
-        `by ${sc.authorName} in ${sc.repoName} ` +
-        `(+${sc.additions}/-${sc.deletions}) [${sc.scoreReasons.join(', ')}]`
-      );
-    }
-  }
+  const blueprint = blueprintFromChapter(story, chapter);
 
-  // Contributor spotlight data
-  if (blueprint.contributorSpotlights.length > 0) {
-    const spotlightNames = new Set(
-      blueprint.contributorSpotlights.map((s) => s.toLowerCase())
-    );
-    const spotlightContributors = intelligence.contributors.filter((c) =>
-      spotlightNames.has(c.name.toLowerCase()) ||
-      (c.login && spotlightNames.has(c.login.toLowerCase()))
-    );
-
-    if (spotlightContributors.length > 0) {
-      parts.push('\n### Contributor Details');
-      for (const c of spotlightContributors) {
-        parts.push(
-          `- ${c.name}: ${c.inferredRole}, ${c.commitsPerActiveDay} commits/active-day, ` +
-          `peak hours: ${c.peakHours.join('/')}, ${c.weekendPercentage}% weekend, ` +
-          `specializations: ${c.specializations.map((s) => `${s.module} (${s.percentage}%)`).join(', ')}`
-        );
-      }
-    }
-  }
+  const content = await writeChapterProse(
+    'chapter-revision',
+    {
+      intelligence,
+      blueprint,
+      totalChapters: story.chapters.length,
+      previousChapter: previousEnding,
+      storyTitle: story.title,
+      currentDraft: chapter.content,
+      feedback,
+    },
+    claudeToken,
+    signal
+  );
 
-  return parts.join('\n');
+  return {
+    chapter: { ...chapter, content },
+    sourceData: `${buildChapterDataSlice(blueprint, intelligence)}\n\n${chapter.content}`,
+  };
 }
 
 // =============================================================================
@@ -927,12 +725,12 @@ export async function generateNarrative(
       chaptersCompleted: chapters.length,
     });
 
-    const story = assembleStory(
-      chapters,
-      chapterPlan,
-      intelligence,
-      startTime,
-      totalApiCalls
+    // Each chapter may only cite commits from the slice its prose call was given
+    const slices = chapterPlan.chapters.map((bp) => buildChapterDataSlice(bp, intelligence));
+    const story = verifyCitations(
+      assembleStory(chapters, chapterPlan, intelligence, startTime, totalApiCalls),
+      commitsByRepo,
+      (_chapter, index) => slices[index] ?? ''
     );
 
     updateProgress({
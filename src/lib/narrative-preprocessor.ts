@@ -4,6 +4,10 @@
 // Designed for performance: handles up to 450k commits using Maps and single-pass iteration.
 
 import type { CommitData, Repository } from '@/lib/types';
+import { detectTimezoneChanges } from '@/lib/analytics-engine';
+import { formatUtcOffset } from '@/lib/commit-normalizer';
+import { getIdentityId } from '@/lib/identity-resolver';
+import { BUMP_RE } from '@/lib/bot-classifier';
 import type {
   AdaptiveTimeWindow,
   WorkTheme,
@@ -82,7 +86,7 @@ function generateId(prefix: string, index: number): string {
 }
 
 function getContributorId(commit: CommitData): string {
-  return commit.author.login || commit.author.email || commit.author.name;
+  return getIdentityId(commit.author);
 }
 
 function getActiveDays(commits: CommitData[]): number {
@@ -100,7 +104,6 @@ function getActiveDays(commits: CommitData[]): number {
 const LAUNCH_WORDS_RE = /\b(launch|deploy|release|ship|rewrite|migrate|v1|v2)\b/i;
 const IMPACT_WORDS_RE = /\b(finally|breaking|major)\b/i;
 const MERGE_RE = /^merge (branch|pull request|remote)/i;
-const BUMP_RE = /\b(bump version|update dependencies|chore\(deps\))\b/i;
 const CONVENTIONAL_RE = /^(feat|fix|chore|docs|style|refactor|test|ci|build|perf)\b/i;
 
 /**
@@ -614,6 +617,27 @@ function detectNarrativeEvents(
     }
   }
 
+  // === Relocations: lasting changes in a contributor's commit time zone ===
+  for (const shift of detectTimezoneChanges(Object.values(commitsByRepo).flat())) {
+    const from = formatUtcOffset(shift.fromOffset);
+    const to = formatUtcOffset(shift.toOffset);
+    events.push({
+      id: generateId('event', eventIdx++),
+      timestampMs: shift.timestampMs,
+      date: toDateStr(shift.timestampMs),
+      category: 'relocation',
+      title: `${shift.contributorName} moves to ${to}`,
+      description: `${shift.contributorName}'s commits shift from ${from} to ${to} and stay there — a move or a long stretch abroad`,
+      repoIds: [shift.repoId],
+      contributorIds: [shift.contributorId],
+      significance: 5,
+      evidenceCommits: [shift.sha],
+      evidenceFiles: [],
+      quantitativeEvidence: `${shift.commitsBefore} commits at ${from}, then ${shift.commitsAfter} at ${to}`,
+      windowId: findWindowForTimestamp(windows, shift.timestampMs),
+    });
+  }
+
   // === Velocity events from windows ===
   if (windows.length >= 3) {
     // Compute rolling average density
@@ -1253,6 +1277,9 @@ function summarizeAct(windows: WindowAnalysis[]): string {
 // TOKEN-BUDGETED SERIALIZATION
 // =============================================================================
 
+/** Budget for the serialized intelligence in the single-pass story prompt. */
+export const INTELLIGENCE_PROMPT_TOKENS = 50_000;
+
 /**
  * Serialize the intelligence result for a prompt, respecting a token budget.
  * Allocates more tokens to high-interestingness windows.
@@ -1357,7 +1384,7 @@ Arc type: ${result.narrativeArc.arcType}
       }
 
       for (const nc of wa.notableCommits.slice(0, 3)) {
-        detail += `Notable: "${nc.message}" by ${nc.author} — ${nc.reason}\n`;
+        detail += `Notable: ${nc.sha.slice(0, 7)} "${nc.message}" by ${nc.author} — ${nc.reason}\n`;
       }
 
       if (detail.length > windowBudget) {
@@ -1,6 +1,11 @@
 // src/lib/narrative-prompts-v2.ts
 // Unified prompt for single-call streaming narrative generation.
 
+import { CITATION_RULES } from '@/lib/story-citations';
+
+/** Saved with every story this prompt writes. Bump it on edits that change the output. */
+export const UNIFIED_NARRATIVE_PROMPT_VERSION = 'unified-narrative@2';
+
 // =============================================================================
 // SYSTEM PROMPT — combines architecture design + prose writing
 // =============================================================================
@@ -101,6 +106,8 @@ Chapters should be organized by NARRATIVE PURPOSE, not rigid time slices. A chap
 - Include specific dates, not vague timeframes
 - Make it feel personal — this is someone's actual coding journey
 
+${CITATION_RULES}
+
 ## RULES
 1. Metadata JSON block MUST be valid JSON
 2. Chapter delimiters MUST appear exactly as shown with all attributes
@@ -2,6 +2,13 @@
 // Prompt templates for each Claude pass in the narrative pipeline.
 // These produce UNIQUE, FUN, engaging developer journey stories.
 
+import { CITATION_RULES } from '@/lib/story-citations';
+import type {
+  ChapterBlueprint,
+  CommitIntelligenceResult,
+  RepoNarrativeAnalysis,
+} from '@/lib/narrative-types';
+
 // =============================================================================
 // PASS 1: ANALYSIS — per-repo narrative structure detection
 // =============================================================================
@@ -63,6 +70,94 @@ ${signals}
 Find the story arcs, turning points, and narrative hooks. Reference specific dates, commit SHAs, contributor names, and file paths. Look for what makes THIS repo's journey unique and human.`;
 }
 
+/**
+ * Build per-repo signals from the intelligence result for Pass 1.
+ */
+export function buildRepoSignals(
+  repoId: string,
+  intelligence: CommitIntelligenceResult
+): string {
+  const parts: string[] = [];
+
+  // Filter windows that include this repo
+  const repoWindows = intelligence.windows.filter((wa) =>
+    wa.repoBreakdown.some((rb) => rb.repoId === repoId)
+  );
+
+  // Filter events for this repo
+  const repoEvents = intelligence.narrativeEvents.filter((e) =>
+    e.repoIds.includes(repoId) || e.repoIds.length === 0
+  );
+
+  // Filter contributors for this repo
+  const repoContributors = intelligence.contributors.filter((c) =>
+    c.repoActivity.some((ra) => ra.repoId === repoId)
+  );
+
+  // Filter interesting commits for this repo
+  const repoCommits = intelligence.interestingCommits.filter(
+    (sc) => sc.repoId === repoId
+  );
+
+  parts.push(`## Repo: ${repoId}`);
+  parts.push(
+    `Total commits: ${intelligence.meta.totalCommits}, ` +
+    `Date range: ${intelligence.meta.dateRange.start.slice(0, 10)} to ${intelligence.meta.dateRange.end.slice(0, 10)}`
+  );
+
+  // Events
+  if (repoEvents.length > 0) {
+    parts.push('\n### Events');
+    for (const e of repoEvents.slice(0, 10)) {
+      parts.push(
+        `- [${e.date}] ${e.category}: ${e.title} (${e.significance}/10) — ${e.description}`
+      );
+    }
+  }
+
+  // Windows
+  if (repoWindows.length > 0) {
+    parts.push('\n### Time Periods');
+    for (const wa of repoWindows) {
+      const rb = wa.repoBreakdown.find((r) => r.repoId === repoId);
+      if (!rb) continue;
+      parts.push(
+        `- ${wa.window.startDate.slice(0, 10)} to ${wa.window.endDate.slice(0, 10)}: ` +
+        `${rb.commitCount} commits, +${rb.additions}/-${rb.deletions}` +
+        (wa.dominantTheme ? `, theme: ${wa.dominantTheme.label}` : '') +
+        ` (interest: ${wa.interestingnessScore}/10)`
+      );
+      if (wa.dominantTheme?.representativeMessages.length) {
+        parts.push(`  > "${wa.dominantTheme.representativeMessages[0]}"`);
+      }
+    }
+  }
+
+  // Contributors
+  if (repoContributors.length > 0) {
+    parts.push('\n### Contributors');
+    for (const c of repoContributors.slice(0, 3)) {
+      const ra = c.repoActivity.find((r) => r.repoId === repoId);
+      parts.push(
+        `- ${c.name}: ${ra?.commitCount || 0} commits, ${c.inferredRole}`
+      );
+    }
+  }
+
+  // Interesting commits
+  if (repoCommits.length > 0) {
+    parts.push('\n### Notable Commits');
+    for (const sc of repoCommits.slice(0, 10)) {
+      parts.push(
+        `- [${sc.timestamp.slice(0, 10)}] "${sc.messageHeadline}" ` +
+        `by ${sc.authorName} (+${sc.additions}/-${sc.deletions})`
+      );
+    }
+  }
+
+  return parts.join('\n');
+}
+
 // =============================================================================
 // PASS 2: CORRELATION — cross-repo chapter architecture
 // =============================================================================
@@ -136,18 +231,72 @@ Output a JSON object (no markdown code fences, just raw JSON):
   "storySubtitle": "A subtitle that hints at the journey"
 }`;
 
-export function buildPass2UserMessage(
-  repoAnalyses: Array<{ repoId: string; analysis: string }>,
-  crossRepoData: string,
-  contributorSummaries: string
-): string {
-  const repoSections = repoAnalyses
+/** The Pass 1 analyses, one section per repository. */
+export function formatRepoAnalyses(repoAnalyses: RepoNarrativeAnalysis[]): string {
+  return repoAnalyses
     .map(
-      (ra) => `### Repository: ${ra.repoId}\n${ra.analysis}`
+      (analysis) => `### Repository: ${analysis.repoId}\n${JSON.stringify(analysis, null, 1)}`
     )
     .join('\n\n---\n\n');
+}
+
+/**
+ * Cross-repo correlations, discontinuities, the suggested arc and contributor
+ * profiles from the intelligence result, for Pass 2.
+ */
+export function buildCorrelationData(intelligence: CommitIntelligenceResult): {
+  crossRepoData: string;
+  contributorSummaries: string;
+} {
+  const crossRepoLines: string[] = [];
+  if (intelligence.crossRepoCorrelations.length > 0) {
+    crossRepoLines.push('### Cross-Repo Correlations');
+    for (const c of intelligence.crossRepoCorrelations.slice(0, 10)) {
+      crossRepoLines.push(
+        `- ${c.repoA} <-> ${c.repoB}: ${c.type} (strength: ${c.strength}) — ${c.evidence}`
+      );
+    }
+  }
+  if (intelligence.discontinuities.length > 0) {
+    crossRepoLines.push('\n### Discontinuities');
+    for (const d of intelligence.discontinuities.slice(0, 5)) {
+      crossRepoLines.push(
+        `- ${d.type}: ${d.description} (${d.startDate}${d.endDate ? ` to ${d.endDate}` : ''})`
+      );
+    }
+  }
+  crossRepoLines.push('\n### Narrative Arc Suggestion');
+  crossRepoLines.push(`Arc type: ${intelligence.narrativeArc.arcType}`);
+  crossRepoLines.push(`Summary: ${intelligence.narrativeArc.arcSummary}`);
+  for (const act of intelligence.narrativeArc.acts) {
+    crossRepoLines.push(`- Act ${act.number}: ${act.suggestedTitle} — ${act.characterization}`);
+  }
+
+  const contributorLines: string[] = [];
+  for (const c of intelligence.contributors.slice(0, 10)) {
+    contributorLines.push(
+      `- ${c.name}${c.login ? ` (@${c.login})` : ''}: ${c.inferredRole}, ` +
+      `${c.repoActivity.length} repos, ` +
+      `first: ${c.firstSeenDate}, last: ${c.lastSeenDate}, ` +
+      `${c.commitsPerActiveDay} commits/active-day, ` +
+      `peak hours: ${c.peakHours.join('/')}, ` +
+      `${c.weekendPercentage}% weekend`
+    );
+  }
+
+  return {
+    crossRepoData: crossRepoLines.join('\n'),
+    contributorSummaries: contributorLines.join('\n'),
+  };
+}
 
-  return `Design the chapter structure for a unified developer journey story spanning ${repoAnalyses.length} repositories.
+export function buildPass2UserMessage(
+  repoCount: number,
+  repoSections: string,
+  crossRepoData: string,
+  contributorSummaries: string
+): string {
+  return `Design the chapter structure for a unified developer journey story spanning ${repoCount} repositories.
 
 ## Per-Repository Narrative Analyses
 
@@ -191,6 +340,8 @@ Rules:
 7. Length should match the suggestedLength: short (~300 words), medium (~500 words), long (~800 words)
 8. End each chapter (except the last) with a transition that creates anticipation for the next chapter
 
+${CITATION_RULES}
+
 Output ONLY the chapter content as markdown prose. No JSON wrapper. Just the story text for this one chapter.`;
 
 export function buildPass3UserMessage(
@@ -241,3 +392,151 @@ ${dataSlice}
 
 Write the chapter now. Use markdown formatting. Quote specific commit messages in blockquotes. Reference specific dates and file paths. Make it FUN to read.`;
 }
+
+/**
+ * Build a data slice for a specific chapter from the intelligence result.
+ */
+export function buildChapterDataSlice(
+  blueprint: ChapterBlueprint,
+  intelligence: CommitIntelligenceResult
+): string {
+  const parts: string[] = [];
+  const startDate = blueprint.dateRange?.start;
+  const endDate = blueprint.dateRange?.end;
+
+  // Filter windows by date range
+  let relevantWindows = intelligence.windows;
+  if (startDate && endDate) {
+    const startMs = new Date(startDate).getTime();
+    const endMs = new Date(endDate).getTime();
+    relevantWindows = intelligence.windows.filter(
+      (wa) => wa.window.startMs <= endMs && wa.window.endMs >= startMs
+    );
+  }
+
+  // Further filter by repos if specified
+  const repoSet = new Set(blueprint.repos || []);
+  if (repoSet.size > 0) {
+    relevantWindows = relevantWindows.filter((wa) =>
+      wa.repoBreakdown.some((rb) => repoSet.has(rb.repoId))
+    );
+  }
+
+  // Time period details (capped for speed)
+  for (const wa of relevantWindows.slice(0, 5)) {
+    const relevantRepos = repoSet.size > 0
+      ? wa.repoBreakdown.filter((rb) => repoSet.has(rb.repoId))
+      : wa.repoBreakdown;
+
+    parts.push(
+      `### ${wa.window.startDate.slice(0, 10)} to ${wa.window.endDate.slice(0, 10)} ` +
+      `(${wa.metrics.totalCommits} commits, interest: ${wa.interestingnessScore}/10)`
+    );
+
+    for (const rb of relevantRepos) {
+      parts.push(
+        `- ${rb.repoName}: ${rb.commitCount} commits, +${rb.additions}/-${rb.deletions}, ` +
+        `modules: ${rb.topModules.join(', ')}`
+      );
+    }
+
+    if (wa.dominantTheme) {
+      parts.push(`Theme: ${wa.dominantTheme.label}`);
+      if (wa.dominantTheme.representativeMessages.length) {
+        parts.push(`> "${wa.dominantTheme.representativeMessages[0]}"`);
+      }
+    }
+
+    for (const nc of wa.notableCommits.slice(0, 2)) {
+      parts.push(`Notable: ${nc.sha.slice(0, 7)} "${nc.message}" by ${nc.author} — ${nc.reason}`);
+    }
+
+    parts.push('');
+  }
+
+  // Events in this range
+  const relevantEvents = intelligence.narrativeEvents.filter((e) => {
+    if (startDate && endDate) {
+      const evMs = e.timestampMs;
+      return evMs >= new Date(startDate).getTime() && evMs <= new Date(endDate).getTime();
+    }
+    return true;
+  });
+
+  if (relevantEvents.length > 0) {
+    parts.push('### Events');
+    for (const e of relevantEvents.slice(0, 5)) {
+      parts.push(
+        `- [${e.date}] ${e.category}: ${e.title} — ${e.description}` +
+        (e.evidenceCommits.length > 0 ? ` [${e.evidenceCommits[0].slice(0, 7)}]` : '')
+      );
+    }
+    parts.push('');
+  }
+
+  // Interesting commits in range
+  const relevantCommits = intelligence.interestingCommits.filter((sc) => {
+    if (startDate && endDate) {
+      const cMs = new Date(sc.timestamp).getTime();
+      return cMs >= new Date(startDate).getTime() && cMs <= new Date(endDate).getTime();
+    }
+    return true;
+  });
+
+  if (relevantCommits.length > 0) {
+    parts.push('### Interesting Commits');
+    for (const sc of relevantCommits.slice(0, 5)) {
+      parts.push(
+        `- [${sc.timestamp.slice(0, 10)}] ${sc.shortSha} "${sc.messageHeadline}" ` +
+        `by ${sc.authorName} in ${sc.repoName} ` +
+        `(+${sc.additions}/-${sc.deletions}) [${sc.scoreReasons.join(', ')}]`
+      );
+    }
+  }
+
+  // Contributor spotlight data
+  if (blueprint.contributorSpotlights.length > 0) {
+    const spotlightNames = new Set(
+      blueprint.contributorSpotlights.map((s) => s.toLowerCase())
+    );
+    const spotlightContributors = intelligence.contributors.filter((c) =>
+      spotlightNames.has(c.name.toLowerCase()) ||
+      (c.login && spotlightNames.has(c.login.toLowerCase()))
+    );
+
+    if (spotlightContributors.length > 0) {
+      parts.push('\n### Contributor Details');
+      for (const c of spotlightContributors) {
+        parts.push(
+          `- ${c.name}: ${c.inferredRole}, ${c.commitsPerActiveDay} commits/active-day, ` +
+          `peak hours: ${c.peakHours.join('/')}, ${c.weekendPercentage}% weekend, ` +
+          `specializations: ${c.specializations.map((s) => `${s.module} (${s.percentage}%)`).join(', ')}`
+        );
+      }
+    }
+  }
+
+  return parts.join('\n');
+}
+
+/**
+ * Pass 3 message for rewriting a single chapter of a finished story: the usual
+ * chapter brief, plus the draft being replaced and what the reader wants changed.
+ */
+export function buildPass3RevisionUserMessage(
+  chapterMessage: string,
+  currentDraft: string,
+  feedback: string
+): string {
+  return `${chapterMessage}
+
+## Current draft of this chapter:
+
+${currentDraft}
+
+## Revision request:
+
+${feedback.trim() || 'Write a fresh take on this chapter.'}
+
+Rewrite the chapter from the data above so it answers the revision request. Keep what already works in the current draft unless the request says otherwise.`;
+}
@@ -0,0 +1,321 @@
+// src/lib/narrative-schemas.ts
+// Zod schemas for narrative data that clients send back to the story routes.
+// The preprocessor and the multi-pass pipeline run in the browser, so the
+// server receives their results as untrusted JSON. These schemas mirror
+// narrative-types.ts; every array has a ceiling and every string is clipped,
+// so a request can't smuggle a prompt's worth of text through one field.
+
+import { z } from 'zod';
+import type {
+  AdaptiveTimeWindow,
+  ChapterBlueprint,
+  CommitIntelligenceResult,
+  ContributorIntelligence,
+  CrossRepoCorrelation,
+  Discontinuity,
+  NarrativeEvent,
+  NarrativeEventCategory,
+  RepoNarrativeAnalysis,
+  ScoredCommit,
+  ThemeCategory,
+  WindowAnalysis,
+  WorkTheme,
+} from '@/lib/narrative-types';
+
+// =============================================================================
+// PRIMITIVES
+// =============================================================================
+
+/** Ids, names, dates, paths */
+const SHORT_TEXT = 500;
+/** Commit messages, descriptions, evidence */
+const LONG_TEXT = 4000;
+
+/** A string clipped to `max` characters; long commit messages are trimmed, not rejected. */
+function text(max: number = SHORT_TEXT) {
+  return z.string().transform((value) => value.slice(0, max));
+}
+
+function list<T extends z.ZodTypeAny>(item: T, max: number) {
+  return z.array(item).max(max);
+}
+
+const num = z.number().finite();
+
+const strings = (max: number) => list(text(), max);
+
+// =============================================================================
+// CATEGORIES
+// =============================================================================
+
+const THEME_CATEGORIES = [
+  'feature-build', 'bug-fix-campaign', 'refactor-migration', 'infrastructure',
+  'testing', 'documentation', 'dependency-management', 'initial-setup',
+  'cleanup', 'exploration', 'release-prep', 'mixed',
+] as const satisfies readonly ThemeCategory[];
+
+const EVENT_CATEGORIES = [
+  'project-birth', 'project-abandonment', 'project-revival', 'new-contributor',
+  'contributor-departure', 'collaboration-burst', 'solo-sprint', 'architecture-shift',
+  'technology-adoption', 'technology-removal', 'major-feature-arc', 'bug-fix-emergency',
+  'great-refactor', 'testing-adoption', 'ci-cd-setup', 'dependency-overhaul',
+  'velocity-acceleration', 'velocity-deceleration', 'sprint', 'drought',
+  'parallel-development', 'focus-shift', 'pattern-replication', 'relocation',
+] as const satisfies readonly NarrativeEventCategory[];
+
+// =============================================================================
+// INTELLIGENCE PARTS
+// =============================================================================
+
+const adaptiveTimeWindowSchema: z.ZodType<AdaptiveTimeWindow, z.ZodTypeDef, unknown> = z.object({
+  id: text(),
+  startMs: num,
+  endMs: num,
+  startDate: text(),
+  endDate: text(),
+  durationDays: num,
+  commitCount: num,
+  density: num,
+});
+
+const workThemeSchema: z.ZodType<WorkTheme, z.ZodTypeDef, unknown> = z.object({
+  id: text(),
+  label: text(),
+  category: z.enum(THEME_CATEGORIES),
+  modules: strings(50),
+  extensions: strings(50),
+  representativeMessages: list(text(LONG_TEXT), 10),
+  commitCount: num,
+  netDelta: num,
+  contributorIds: strings(200),
+});
+
+const narrativeEventSchema: z.ZodType<NarrativeEvent, z.ZodTypeDef, unknown> = z.object({
+  id: text(),
+  timestampMs: num,
+  date: text(),
+  category: z.enum(EVENT_CATEGORIES),
+  title: text(),
+  description: text(LONG_TEXT),
+  repoIds: strings(200),
+  contributorIds: strings(200),
+  significance: num,
+  evidenceCommits: strings(50),
+  evidenceFiles: strings(50),
+  quantitativeEvidence: text(LONG_TEXT),
+  windowId: text(),
+});
+
+const windowAnalysisSchema: z.ZodType<WindowAnalysis, z.ZodTypeDef, unknown> = z.object({
+  window: adaptiveTimeWindowSchema,
+  themes: list(workThemeSchema, 50),
+  dominantTheme: workThemeSchema.nullable(),
+  events: list(narrativeEventSchema, 200),
+  repoBreakdown: list(
+    z.object({
+      repoId: text(),
+      repoName: text(),
+      commitCount: num,
+      additions: num,
+      deletions: num,
+      topModules: strings(20),
+      topContributors: strings(20),
+    }),
+    200
+  ),
+  metrics: z.object({
+    totalCommits: num,
+    totalAdditions: num,
+    totalDeletions: num,
+    activeDays: num,
+    uniqueContributors: num,
+    uniqueRepos: num,
+    relativeVelocity: num,
+  }),
+  notableCommits: list(
+    z.object({
+      sha: text(),
+      message: text(LONG_TEXT),
+      author: text(),
+      repoId: text(),
+      reason: text(),
+    }),
+    20
+  ),
+  interestingnessScore: num,
+});
+
+const contributorSchema: z.ZodType<ContributorIntelligence, z.ZodTypeDef, unknown> = z.object({
+  id: text(),
+  name: text(),
+  login: text().nullable(),
+  avatarUrl: text().nullable(),
+  specializations: list(
+    z.object({ module: text(), commitCount: num, percentage: num }),
+    50
+  ),
+  inferredRole: z.enum(['fullstack', 'frontend', 'backend', 'devops', 'data', 'generalist']),
+  avgCommitSize: num,
+  commitsPerActiveDay: num,
+  peakHours: list(num, 24),
+  weekendPercentage: num,
+  conventionalCommitRate: num,
+  firstSeenDate: text(),
+  lastSeenDate: text(),
+  repoActivity: list(
+    z.object({
+      repoId: text(),
+      firstCommitDate: text(),
+      lastCommitDate: text(),
+      commitCount: num,
+    }),
+    200
+  ),
+  gaps: list(
+    z.object({ startDate: text(), endDate: text(), durationDays: num }),
+    50
+  ),
+  collaborators: list(
+    z.object({ contributorId: text(), sharedActiveDays: num, sharedRepos: strings(200) }),
+    50
+  ),
+});
+
+const correlationSchema: z.ZodType<CrossRepoCorrelation, z.ZodTypeDef, unknown> = z.object({
+  repoA: text(),
+  repoB: text(),
+  type: z.enum(['temporal', 'author-overlap', 'semantic', 'dependency', 'complementary']),
+  strength: num,
+  evidence: text(LONG_TEXT),
+  sharedContributors: strings(200),
+});
+
+const discontinuitySchema: z.ZodType<Discontinuity, z.ZodTypeDef, unknown> = z.object({
+  id: text(),
+  type: z.enum(['gap', 'direction-change', 'velocity-change']),
+  startDate: text(),
+  endDate: text().nullable(),
+  durationDays: num,
+  repoIds: strings(200),
+  description: text(LONG_TEXT),
+  severity: num,
+});
+
+const scoredCommitSchema: z.ZodType<ScoredCommit, z.ZodTypeDef, unknown> = z.object({
+  sha: text(),
+  shortSha: text(),
+  message: text(LONG_TEXT),
+  messageHeadline: text(),
+  authorName: text(),
+  authorLogin: text().nullable(),
+  timestamp: text(),
+  repoId: text(),
+  repoName: text(),
+  additions: num,
+  deletions: num,
+  filesChanged: num,
+  interestScore: num,
+  scoreReasons: strings(20),
+});
+
+// =============================================================================
+// COMMIT INTELLIGENCE
+// =============================================================================
+
+/** The preprocessor's full result, as analyzeCommitIntelligence returns it. */
+export const commitIntelligenceSchema: z.ZodType<CommitIntelligenceResult, z.ZodTypeDef, unknown> =
+  z.object({
+    meta: z.object({
+      totalCommits: num,
+      totalRepos: num,
+      dateRange: z.object({ start: text(), end: text(), totalDays: num }),
+      uniqueContributors: num,
+      analyzedAt: num,
+      windowCount: num,
+    }),
+    windows: list(windowAnalysisSchema, 2000),
+    narrativeEvents: list(narrativeEventSchema, 500),
+    contributors: list(contributorSchema, 2000),
+    crossRepoCorrelations: list(correlationSchema, 200),
+    discontinuities: list(discontinuitySchema, 200),
+    interestingCommits: list(scoredCommitSchema, 500),
+    narrativeArc: z.object({
+      acts: list(
+        z.object({
+          number: num,
+          suggestedTitle: text(),
+          windowIds: strings(2000),
+          keyEventIds: strings(500),
+          characterization: text(LONG_TEXT),
+        }),
+        20
+      ),
+      arcType: text(),
+      arcSummary: text(LONG_TEXT),
+    }),
+  });
+
+// =============================================================================
+// PIPELINE PASSES
+// =============================================================================
+//
+// These are model output parsed leniently on the client, so missing fields
+// fall back to empty values instead of failing the next pass.
+
+const lenientText = (max: number = SHORT_TEXT) => text(max).catch('');
+const lenientStrings = (max: number) => strings(max).catch([]);
+const lenientNum = num.catch(0);
+const lenientDateRange = z
+  .object({ start: lenientText(), end: lenientText() })
+  .catch({ start: '', end: '' });
+
+/** A Pass 1 analysis, echoed back for the Pass 2 plan. */
+export const repoNarrativeAnalysisSchema: z.ZodType<RepoNarrativeAnalysis, z.ZodTypeDef, unknown> =
+  z.object({
+    repoId: text(),
+    arcs: list(
+      z.object({
+        id: lenientText(),
+        title: lenientText(),
+        dateRange: lenientDateRange,
+        type: lenientText(),
+        intensity: lenientNum,
+        keyEvents: lenientStrings(20),
+        keyCommitShas: lenientStrings(20),
+        contributors: lenientStrings(20),
+      }),
+      20
+    ).catch([]),
+    turningPoints: list(
+      z.object({
+        date: lenientText(),
+        title: lenientText(),
+        significance: lenientNum,
+        description: lenientText(LONG_TEXT),
+        evidenceCommitShas: lenientStrings(20),
+      }),
+      20
+    ).catch([]),
+    repoPersonality: lenientText(LONG_TEXT),
+    narrativeHooks: list(lenientText(LONG_TEXT), 10).catch([]),
+  });
+
+const CHAPTER_TYPES = [
+  'origin', 'growth', 'crisis', 'migration',
+  'parallel', 'silence-return', 'collaboration', 'current-state',
+] as const satisfies readonly ChapterBlueprint['chapterType'][];
+
+/** A chapter from the Pass 2 plan, sent with each Pass 3 request. */
+export const chapterBlueprintSchema: z.ZodType<ChapterBlueprint, z.ZodTypeDef, unknown> = z.object({
+  id: lenientText(),
+  index: z.number().int().min(0).max(100),
+  title: lenientText(),
+  dateRange: lenientDateRange,
+  repos: lenientStrings(200),
+  narrativeFocus: lenientText(LONG_TEXT),
+  keyMomentsToInclude: list(lenientText(LONG_TEXT), 20).catch([]),
+  contributorSpotlights: lenientStrings(20),
+  moodProgression: lenientText(LONG_TEXT),
+  suggestedLength: z.enum(['short', 'medium', 'long']).catch('medium'),
+  chapterType: z.enum(CHAPTER_TYPES).catch('growth'),
+});
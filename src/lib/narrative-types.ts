@@ -1,6 +1,8 @@
 // src/lib/narrative-types.ts
 // All TypeScript interfaces for the multi-pass narrative story generation system.
 
+import type { StoryCitation } from '@/lib/types';
+
 // =============================================================================
 // ADAPTIVE TIME WINDOWS
 // =============================================================================
@@ -81,7 +83,8 @@ export type NarrativeEventCategory =
   | 'drought'
   | 'parallel-development'
   | 'focus-shift'
-  | 'pattern-replication';
+  | 'pattern-replication'
+  | 'relocation';
 
 /** A narrative event detected from patterns in the data */
 export interface NarrativeEvent {
@@ -388,6 +391,8 @@ export interface EnrichedStoryChapter {
   anchorId: string;
   chapterType: string;
   moodProgression: string;
+  /** Kept word for word when the whole story is regenerated */
+  locked?: boolean;
 }
 
 /** A contributor spotlight within a chapter */
@@ -439,6 +444,10 @@ export interface EnrichedGeneratedStory {
     totalApiCalls: number;
     totalGenerationTimeMs: number;
   };
+  /** Verified inline `[commit:<sha>]` citations, keyed by short SHA */
+  citations?: Record<string, StoryCitation>;
+  /** Cited SHAs that weren't in the input; stripped from the chapters */
+  unverifiedCitations?: string[];
 }
 
 // =============================================================================
@@ -465,3 +474,49 @@ export interface NarrativePipelineProgress {
   totalRepos: number;
   error: string | null;
 }
+
+// =============================================================================
+// STORY LIBRARY
+// =============================================================================
+
+/** What a story was generated from — two generations with equal inputs are retakes */
+export interface StoryInputs {
+  /** Sorted full names of the repos whose commits fed the story */
+  repoIds: string[];
+  dateRange: { start: string; end: string };
+  /** Template id and version, e.g. `unified-narrative@2` or `data-story@1` */
+  promptVersion: string;
+  model: string;
+}
+
+/** A generated story kept in the local library */
+export interface SavedStory {
+  /** The story's own id */
+  id: string;
+  story: EnrichedGeneratedStory;
+  inputs: StoryInputs;
+  /** Hash of `inputs`; generations sharing it are versions of each other */
+  inputHash: string;
+  /** Hash of `inputs.repoIds`; at most one story per repo selection is pinned */
+  repoKey: string;
+  savedAt: number;
+  /** The canonical story for its repo selection, restored instead of regenerating */
+  pinned: boolean;
+}
+
+/** One aligned row of a side-by-side diff; a side is null where a paragraph only exists on the other */
+export interface StoryDiffRow {
+  kind: 'same' | 'added' | 'removed' | 'changed';
+  left: string | null;
+  right: string | null;
+}
+
+/** Two generations compared chapter by chapter, matched by position */
+export interface StoryDiffChapter {
+  index: number;
+  leftTitle: string | null;
+  rightTitle: string | null;
+  rows: StoryDiffRow[];
+  /** Number of rows that are not `same` */
+  changes: number;
+}
@@ -221,6 +221,7 @@ export class ParticlePool {
 
   /**
    * Emit multiple particles in a burst pattern around a position.
+   * Pass a seeded `random` for reproducible bursts.
    */
   emitBurst(
     x: number, y: number,
@@ -229,12 +230,13 @@ export class ParticlePool {
     speedMin: number, speedMax: number,
     sizeMin: number, sizeMax: number,
     ttlMin: number, ttlMax: number,
+    random: () => number = Math.random,
   ): void {
     for (let i = 0; i < count; i++) {
-      const angle = Math.random() * Math.PI * 2;
-      const speed = speedMin + Math.random() * (speedMax - speedMin);
-      const size = sizeMin + Math.random() * (sizeMax - sizeMin);
-      const ttl = ttlMin + Math.floor(Math.random() * (ttlMax - ttlMin));
+      const angle = random() * Math.PI * 2;
+      const speed = speedMin + random() * (speedMax - speedMin);
+      const size = sizeMin + random() * (sizeMax - sizeMin);
+      const ttl = ttlMin + Math.floor(random() * (ttlMax - ttlMin));
 
       this.emit(
         x, y,
@@ -0,0 +1,235 @@
+// =============================================================================
+// PATH FILTER — glob rules deciding which files the Gource tree shows
+// =============================================================================
+//
+// Vendored folders, lockfiles and generated code can dwarf the rest of a
+// repository in the tree. GourcePathRules hide them (exclude globs and
+// presets), narrow the tree to what matters (include globs), and fold deep
+// hierarchies (maxDepth). The engine resolves every file path of a commit
+// through a compiled filter before it touches the scene.
+
+import type { GourcePathPreset, GourcePathRules } from '@/lib/types';
+
+export const PATH_PRESETS: Record<GourcePathPreset, { label: string; description: string; patterns: string[] }> = {
+  vendored: {
+    label: 'Vendored',
+    description: 'node_modules, vendor, third_party, Pods',
+    patterns: [
+      'node_modules/',
+      'bower_components/',
+      'jspm_packages/',
+      'vendor/',
+      'third_party/',
+      'third-party/',
+      'Pods/',
+      '.yarn/',
+    ],
+  },
+  generated: {
+    label: 'Generated',
+    description: 'dist, build, minified bundles, source maps, protobuf output',
+    patterns: [
+      'dist/',
+      'build/',
+      'out/',
+      '.next/',
+      'coverage/',
+      '__generated__/',
+      '*.min.js',
+      '*.min.css',
+      '*.map',
+      '*.generated.*',
+      '*.pb.go',
+      '*_pb2.py',
+      '*.snap',
+    ],
+  },
+  lockfiles: {
+    label: 'Lockfiles',
+    description: 'package-lock.json, yarn.lock, Cargo.lock, go.sum…',
+    patterns: [
+      'package-lock.json',
+      'npm-shrinkwrap.json',
+      'yarn.lock',
+      'pnpm-lock.yaml',
+      'bun.lockb',
+      'Cargo.lock',
+      'Gemfile.lock',
+      'poetry.lock',
+      'Pipfile.lock',
+      'composer.lock',
+      'Podfile.lock',
+      'go.sum',
+      'flake.lock',
+    ],
+  },
+  'binary-assets': {
+    label: 'Binary assets',
+    description: 'Images, fonts, media and archives',
+    patterns: [
+      '*.{png,jpg,jpeg,gif,webp,bmp,ico,tif,tiff,psd}',
+      '*.{woff,woff2,ttf,otf,eot}',
+      '*.{mp3,mp4,mov,wav,ogg,webm,avi}',
+      '*.{zip,gz,tgz,tar,7z,rar,jar,war}',
+      '*.{exe,dll,so,dylib,bin,pdf}',
+    ],
+  },
+};
+
+/** Joins the folded directories into a collapsed file's name (U+2215, not a path separator). */
+export const COLLAPSED_PATH_SEPARATOR = '∕';
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Indices of the braces that pair up; an unpaired `{` or `}` is matched literally. */
+function pairedBraces(pattern: string): Set<number> {
+  const paired = new Set<number>();
+  const open: number[] = [];
+  for (let i = 0; i < pattern.length; i++) {
+    if (pattern[i] === '{') {
+      open.push(i);
+    } else if (pattern[i] === '}' && open.length > 0) {
+      paired.add(open.pop()!);
+      paired.add(i);
+    }
+  }
+  return paired;
+}
+
+/**
+ * Compile a gitignore-style glob. The pattern matches a path when it matches
+ * the path itself or one of its ancestor directories; `*` and `?` stay within
+ * a segment, `**` crosses segments, and `{a,b}` and `[abc]` work as in a shell.
+ * Throws when the glob can't be compiled, e.g. for a range like `[z-a]`.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = glob.trim();
+  const directoryOnly = pattern.endsWith('/');
+  if (directoryOnly) pattern = pattern.replace(/\/+$/, '');
+  const anchored = pattern.startsWith('/') || pattern.includes('/');
+  pattern = pattern.replace(/^\/+/, '');
+
+  const braces = pairedBraces(pattern);
+  let source = '';
+  let braceDepth = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        const atSegmentStart = i === 0 || pattern[i - 1] === '/';
+        i++;
+        if (atSegmentStart && pattern[i + 1] === '/') {
+          source += '(?:.*/)?';
+          i++;
+        } else {
+          source += '.*';
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const close = pattern.indexOf(']', i + 2);
+      if (close === -1) {
+        source += '\\[';
+      } else {
+        let set = pattern.slice(i + 1, close).replace(/\\/g, '\\\\');
+        if (set.startsWith('!')) set = `^${set.slice(1)}`;
+        source += `[${set}]`;
+        i = close;
+      }
+    } else if (char === '{' && braces.has(i)) {
+      source += '(?:';
+      braceDepth++;
+    } else if (char === '}' && braces.has(i)) {
+      source += ')';
+      braceDepth--;
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  const prefix = anchored ? '^' : '^(?:.*/)?';
+  const suffix = directoryOnly ? '/.*$' : '(?:/.*)?$';
+  try {
+    return new RegExp(`${prefix}${source}${suffix}`);
+  } catch {
+    throw new Error(`"${glob.trim()}" is not a valid pattern`);
+  }
+}
+
+/** Why a glob can't be compiled, or null when it can. */
+export function globError(glob: string): string | null {
+  try {
+    globToRegExp(glob);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : 'Invalid pattern';
+  }
+}
+
+/** Compile the non-blank globs, skipping any that can't be compiled. */
+function compileGlobs(globs: string[]): RegExp[] {
+  return globs.flatMap((glob) => {
+    if (!glob.trim()) return [];
+    try {
+      return [globToRegExp(glob)];
+    } catch {
+      return [];
+    }
+  });
+}
+
+export function isEmptyPathRules(rules: GourcePathRules): boolean {
+  return (
+    rules.presets.length === 0 &&
+    rules.include.length === 0 &&
+    rules.exclude.length === 0 &&
+    rules.maxDepth === null
+  );
+}
+
+/** Rules compiled once and applied to every file path of a repository. */
+export class PathFilter {
+  private readonly excludes: RegExp[];
+  private readonly includes: RegExp[];
+  private readonly maxDepth: number | null;
+
+  constructor(rules: GourcePathRules) {
+    const excludeGlobs = [
+      ...rules.presets.flatMap((preset) => PATH_PRESETS[preset]?.patterns ?? []),
+      ...rules.exclude,
+    ];
+    this.excludes = compileGlobs(excludeGlobs);
+    this.includes = compileGlobs(rules.include);
+    this.maxDepth = rules.maxDepth;
+  }
+
+  /**
+   * Map a scene path (`<root>/<path in repository>`) to the path its node
+   * should have, or null when the file is filtered out.
+   */
+  resolve(path: string): string | null {
+    const slash = path.indexOf('/');
+    if (slash === -1) return path;
+    const root = path.slice(0, slash);
+    const relative = path.slice(slash + 1);
+
+    if (this.excludes.some((re) => re.test(relative))) return null;
+    if (this.includes.length > 0 && !this.includes.some((re) => re.test(relative))) return null;
+
+    if (this.maxDepth === null) return path;
+    const segments = relative.split('/');
+    if (segments.length - 1 <= this.maxDepth) return path;
+
+    const kept = segments.slice(0, this.maxDepth);
+    const folded = segments.slice(this.maxDepth).join(COLLAPSED_PATH_SEPARATOR);
+    return [root, ...kept, folded].join('/');
+  }
+}
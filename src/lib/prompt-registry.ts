@@ -0,0 +1,274 @@
+// =============================================================================
+// PROMPT REGISTRY — server-side prompt templates for the story routes
+// =============================================================================
+//
+// Clients never send prompt text. They name a template and pass its structured
+// inputs (the preprocessor's result, not a serialization of it); the server
+// validates them, serializes and renders the prompt itself and applies the
+// template's token ceiling. This keeps /api/story/generate-v2 and -v3 from
+// being usable as a general-purpose proxy to Claude on someone else's token,
+// or to a local model server.
+
+import { z } from 'zod';
+import { estimateTokens } from '@/lib/claude-api';
+import type {
+  ChapterBlueprint,
+  CommitIntelligenceResult,
+  RepoNarrativeAnalysis,
+} from '@/lib/narrative-types';
+import { INTELLIGENCE_PROMPT_TOKENS, serializeForPrompt } from '@/lib/narrative-preprocessor';
+import {
+  chapterBlueprintSchema,
+  commitIntelligenceSchema,
+  repoNarrativeAnalysisSchema,
+} from '@/lib/narrative-schemas';
+import {
+  UNIFIED_NARRATIVE_SYSTEM,
+  buildUnifiedUserMessage,
+} from '@/lib/narrative-prompts-v2';
+import {
+  PASS1_ANALYSIS_SYSTEM,
+  PASS2_CORRELATION_SYSTEM,
+  PASS3_NARRATIVE_SYSTEM,
+  buildChapterDataSlice,
+  buildCorrelationData,
+  buildPass1UserMessage,
+  buildPass2UserMessage,
+  buildPass3RevisionUserMessage,
+  buildPass3UserMessage,
+  buildRepoSignals,
+  formatRepoAnalyses,
+} from '@/lib/narrative-prompts';
+
+// =============================================================================
+// MODELS
+// =============================================================================
+
+/** Models the story routes will call. Anything else is rejected. */
+export const ALLOWED_MODELS = [
+  'claude-sonnet-4-5-20250929',
+  'claude-opus-4-6',
+  'claude-haiku-4-5-20251001',
+] as const;
+
+export type AllowedModel = (typeof ALLOWED_MODELS)[number];
+
+export const DEFAULT_MODEL: AllowedModel = 'claude-sonnet-4-5-20250929';
+
+// =============================================================================
+// TEMPLATES
+// =============================================================================
+
+interface PromptTemplate<TInput> {
+  inputSchema: z.ZodType<TInput, z.ZodTypeDef, unknown>;
+  /** Hard ceiling on output tokens; requests asking for more are clamped */
+  maxTokens: number;
+  /** The part of the prompt that grows with the history, serialized from the inputs */
+  data(input: TInput): string;
+  /** The prompt around `data`, which may have been condensed to fit a small context window */
+  render(input: TInput, data: string): { systemPrompt: string; userMessage: string };
+}
+
+const unifiedNarrative: PromptTemplate<{ intelligence: CommitIntelligenceResult }> = {
+  inputSchema: z.object({ intelligence: commitIntelligenceSchema }).strict(),
+  maxTokens: 16384,
+  data: (input) => serializeForPrompt(input.intelligence, INTELLIGENCE_PROMPT_TOKENS),
+  render: (input, data) => ({
+    systemPrompt: UNIFIED_NARRATIVE_SYSTEM,
+    userMessage: buildUnifiedUserMessage(
+      data,
+      input.intelligence.meta.totalRepos,
+      input.intelligence.meta.totalCommits,
+      input.intelligence.meta.uniqueContributors
+    ),
+  }),
+};
+
+// Multi-pass pipeline (narrative-pipeline.ts): one analysis per repo, one
+// chapter plan, then prose per chapter
+
+const repoAnalysis: PromptTemplate<{
+  intelligence: CommitIntelligenceResult;
+  repoId: string;
+  repoName: string;
+}> = {
+  inputSchema: z.object({
+    intelligence: commitIntelligenceSchema,
+    repoId: z.string().min(1).max(500),
+    repoName: z.string().min(1).max(500),
+  }).strict(),
+  maxTokens: 4096,
+  data: (input) => buildRepoSignals(input.repoId, input.intelligence),
+  render: (input, data) => ({
+    systemPrompt: PASS1_ANALYSIS_SYSTEM,
+    userMessage: buildPass1UserMessage(input.repoId, input.repoName, data),
+  }),
+};
+
+const chapterPlan: PromptTemplate<{
+  intelligence: CommitIntelligenceResult;
+  repoAnalyses: RepoNarrativeAnalysis[];
+}> = {
+  inputSchema: z.object({
+    intelligence: commitIntelligenceSchema,
+    repoAnalyses: z.array(repoNarrativeAnalysisSchema).min(1).max(200),
+  }).strict(),
+  maxTokens: 8192,
+  data: (input) => formatRepoAnalyses(input.repoAnalyses),
+  render: (input, data) => {
+    const { crossRepoData, contributorSummaries } = buildCorrelationData(input.intelligence);
+    return {
+      systemPrompt: PASS2_CORRELATION_SYSTEM,
+      userMessage: buildPass2UserMessage(
+        input.repoAnalyses.length,
+        data,
+        crossRepoData,
+        contributorSummaries
+      ),
+    };
+  },
+};
+
+const chapterInputShape = {
+  intelligence: commitIntelligenceSchema,
+  blueprint: chapterBlueprintSchema,
+  totalChapters: z.number().int().min(1).max(100),
+  /** How the previous chapter ended, or a one-line summary of it */
+  previousChapter: z.string().max(1000).nullable(),
+  storyTitle: z.string().max(500),
+};
+
+interface ChapterInput {
+  intelligence: CommitIntelligenceResult;
+  blueprint: ChapterBlueprint;
+  totalChapters: number;
+  previousChapter: string | null;
+  storyTitle: string;
+}
+
+function chapterMessage(input: ChapterInput, data: string): string {
+  return buildPass3UserMessage(
+    input.blueprint,
+    data,
+    input.totalChapters,
+    input.previousChapter,
+    input.storyTitle
+  );
+}
+
+const chapterProse: PromptTemplate<ChapterInput> = {
+  inputSchema: z.object(chapterInputShape).strict(),
+  maxTokens: 4096,
+  data: (input) => buildChapterDataSlice(input.blueprint, input.intelligence),
+  render: (input, data) => ({
+    systemPrompt: PASS3_NARRATIVE_SYSTEM,
+    userMessage: chapterMessage(input, data),
+  }),
+};
+
+/** Chapters are a few thousand words at most; the draft is the reader's own text. */
+const MAX_CHAPTER_DRAFT_CHARS = 40_000;
+
+const chapterRevision: PromptTemplate<ChapterInput & { currentDraft: string; feedback: string }> = {
+  inputSchema: z.object({
+    ...chapterInputShape,
+    currentDraft: z.string().max(MAX_CHAPTER_DRAFT_CHARS),
+    feedback: z.string().max(2000),
+  }).strict(),
+  maxTokens: 4096,
+  data: (input) => buildChapterDataSlice(input.blueprint, input.intelligence),
+  render: (input, data) => ({
+    systemPrompt: PASS3_NARRATIVE_SYSTEM,
+    userMessage: buildPass3RevisionUserMessage(
+      chapterMessage(input, data),
+      input.currentDraft,
+      input.feedback
+    ),
+  }),
+};
+
+const PROMPT_TEMPLATES = {
+  'unified-narrative': unifiedNarrative,
+  'repo-analysis': repoAnalysis,
+  'chapter-plan': chapterPlan,
+  'chapter-prose': chapterProse,
+  'chapter-revision': chapterRevision,
+} as const;
+
+export type PromptTemplateId = keyof typeof PROMPT_TEMPLATES;
+
+export const PROMPT_TEMPLATE_IDS = Object.keys(PROMPT_TEMPLATES) as [
+  PromptTemplateId,
+  ...PromptTemplateId[],
+];
+
+// =============================================================================
+// RENDERING
+// =============================================================================
+
+export interface RenderedPrompt {
+  systemPrompt: string;
+  userMessage: string;
+  maxTokens: number;
+}
+
+export type RenderPromptResult =
+  | { success: true; prompt: RenderedPrompt }
+  | { success: false; issues: z.ZodIssue[] };
+
+/**
+ * Validate `inputs` against the template's schema and render its prompt.
+ * `requestedMaxTokens` is clamped to the template's ceiling.
+ */
+export function renderPrompt(
+  templateId: PromptTemplateId,
+  inputs: unknown,
+  requestedMaxTokens?: number
+): RenderPromptResult {
+  // Widen to the shared shape; each entry's schema and renderer agree
+  const template = PROMPT_TEMPLATES[templateId] as PromptTemplate<unknown>;
+  const parsed = template.inputSchema.safeParse(inputs);
+  if (!parsed.success) return { success: false, issues: parsed.error.issues };
+
+  return {
+    success: true,
+    prompt: {
+      ...template.render(parsed.data, template.data(parsed.data)),
+      maxTokens: Math.min(requestedMaxTokens ?? template.maxTokens, template.maxTokens),
+    },
+  };
+}
+
+/**
+ * renderPrompt, then shrink the template's data with `condense` until system
+ * prompt and user message fit `inputTokens`. Prompts that already fit are
+ * returned as rendered.
+ */
+export async function renderPromptToFit(
+  templateId: PromptTemplateId,
+  inputs: unknown,
+  requestedMaxTokens: number | undefined,
+  inputTokens: number,
+  condense: (text: string, targetTokens: number) => Promise<string>
+): Promise<RenderPromptResult> {
+  const template = PROMPT_TEMPLATES[templateId] as PromptTemplate<unknown>;
+  const rendered = renderPrompt(templateId, inputs, requestedMaxTokens);
+  if (!rendered.success) return rendered;
+
+  const promptTokens = (prompt: { systemPrompt: string; userMessage: string }) =>
+    estimateTokens(prompt.systemPrompt + prompt.userMessage);
+  if (promptTokens(rendered.prompt) <= inputTokens) return rendered;
+
+  const parsed = template.inputSchema.parse(inputs);
+  // Everything in the prompt except the data
+  const overhead = promptTokens(template.render(parsed, ''));
+  const condensed = await condense(template.data(parsed), Math.max(1, inputTokens - overhead));
+
+  return {
+    success: true,
+    prompt: {
+      ...template.render(parsed, condensed),
+      maxTokens: rendered.prompt.maxTokens,
+    },
+  };
+}
@@ -0,0 +1,451 @@
+import { lookup } from 'dns';
+import http from 'http';
+import https from 'https';
+import { BlockList, isIP, type LookupFunction } from 'net';
+import type { GitHubPagination, GitHubRateLimit } from '@/lib/types';
+
+// =============================================================================
+// Shared REST plumbing for the GitLab and Gitea clients.
+//
+// github-api.ts keeps Octokit; the self-hosted providers talk to their REST
+// APIs with fetch and share retry, pagination and rate-limit handling here.
+// =============================================================================
+
+// =============================================================================
+// ERROR TYPES
+// =============================================================================
+
+export class ProviderApiError extends Error {
+  public readonly status: number;
+  public readonly retryAfter: number | null;
+  public readonly isRateLimit: boolean;
+  public readonly isNotFound: boolean;
+  public readonly isUnauthorized: boolean;
+
+  constructor(
+    message: string,
+    status: number,
+    retryAfter: number | null = null,
+    isRateLimit: boolean = status === 403 || status === 429
+  ) {
+    super(message);
+    this.name = 'ProviderApiError';
+    this.status = status;
+    this.retryAfter = retryAfter;
+    this.isRateLimit = isRateLimit;
+    this.isNotFound = status === 404;
+    this.isUnauthorized = status === 401;
+  }
+}
+
+// =============================================================================
+// RATE LIMIT TRACKING
+// =============================================================================
+
+/** Reported by providers that don't meter API usage (most self-hosted instances). */
+export const UNMETERED_RATE_LIMIT: GitHubRateLimit = {
+  remaining: 5000,
+  limit: 5000,
+  resetAt: 0,
+  isLimited: false,
+};
+
+/** Last seen rate limit per API base URL. */
+const rateLimits = new Map<string, GitHubRateLimit>();
+
+/**
+ * Record rate-limit headers (GitLab uses the IETF `RateLimit-*` names).
+ * Instances that send no headers stay unmetered.
+ */
+function recordRateLimit(baseUrl: string, headers: Headers): void {
+  const remaining = headers.get('ratelimit-remaining') ?? headers.get('x-ratelimit-remaining');
+  if (remaining === null) return;
+
+  const limit = headers.get('ratelimit-limit') ?? headers.get('x-ratelimit-limit');
+  const reset = headers.get('ratelimit-reset') ?? headers.get('x-ratelimit-reset');
+  const previous = rateLimits.get(baseUrl) ?? UNMETERED_RATE_LIMIT;
+
+  rateLimits.set(baseUrl, {
+    remaining: parseInt(remaining, 10),
+    limit: limit ? parseInt(limit, 10) : previous.limit,
+    resetAt: reset ? parseInt(reset, 10) * 1000 : previous.resetAt,
+    isLimited: parseInt(remaining, 10) <= 0,
+  });
+}
+
+export function getProviderRateLimit(baseUrl: string): GitHubRateLimit {
+  return { ...(rateLimits.get(baseUrl) ?? UNMETERED_RATE_LIMIT) };
+}
+
+// =============================================================================
+// BASE URL
+// =============================================================================
+
+/**
+ * Validate and normalize a user-supplied instance URL: http(s) only, no
+ * credentials, query or hash, and no trailing slash.
+ */
+export function normalizeProviderBaseUrl(raw: string): string {
+  let url: URL;
+  try {
+    url = new URL(raw.trim());
+  } catch {
+    throw new ProviderApiError(`Invalid instance URL: ${raw}`, 400);
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new ProviderApiError('Instance URL must use http or https.', 400);
+  }
+  if (url.username || url.password) {
+    throw new ProviderApiError('Instance URL must not contain credentials.', 400);
+  }
+
+  return `${url.origin}${url.pathname.replace(/\/+$/, '')}`;
+}
+
+// =============================================================================
+// INSTANCE ADDRESS CHECKS
+// =============================================================================
+//
+// Instance URLs come from users (and from a cookie the browser can rewrite),
+// and the server fetches them. Without a check, anyone could make the server
+// request loopback, the private network or a cloud metadata endpoint. The
+// check runs inside the socket's DNS lookup, so the address that passed is
+// the one connected to and a rebinding DNS server can't swap it afterwards.
+
+// Loopback, private, link-local (cloud metadata), CGNAT, multicast and
+// reserved ranges. One list per family: a BlockList matches IPv4 addresses
+// against IPv4-mapped IPv6 rules too.
+const nonPublicIpv4 = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  nonPublicIpv4.addSubnet(network, prefix, 'ipv4');
+}
+const nonPublicIpv6 = new BlockList();
+for (const [network, prefix] of [
+  // Unspecified, loopback and IPv4-compatible
+  ['::', 96],
+  // Ranges that embed an IPv4 address would otherwise bypass the IPv4 list:
+  // IPv4-mapped, NAT64, Teredo and 6to4
+  ['::ffff:0:0', 96],
+  ['64:ff9b::', 96],
+  ['2001::', 32],
+  ['2002::', 16],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  nonPublicIpv6.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Instances an operator has vouched for, from PROVIDER_ALLOWED_HOSTS
+ * (comma-separated hosts, with a port where it isn't the default). When set,
+ * only these can be reached, and they may be on the private network.
+ */
+function readAllowedHosts(): Set<string> | null {
+  const raw = process.env.PROVIDER_ALLOWED_HOSTS?.trim();
+  if (!raw) return null;
+  return new Set(
+    raw
+      .split(',')
+      .map((host) => host.trim().toLowerCase())
+      .filter(Boolean)
+  );
+}
+
+function isNonPublicAddress(address: string, family: number): boolean {
+  return family === 6 ? nonPublicIpv6.check(address, 'ipv6') : nonPublicIpv4.check(address, 'ipv4');
+}
+
+function privateNetworkError(hostname: string): ProviderApiError {
+  return new ProviderApiError(
+    `${hostname} is on a private or reserved network. An administrator can allow it with PROVIDER_ALLOWED_HOSTS.`,
+    400
+  );
+}
+
+/**
+ * Throw unless the server may fetch `baseUrl`: its host is on the allow-list
+ * or, with no allow-list configured, it isn't a non-public IP literal. Names
+ * are checked when the request resolves them (see publicOnlyLookup).
+ * Returns whether the host is allow-listed.
+ */
+function assertReachableInstance(baseUrl: string): boolean {
+  const { host, hostname } = new URL(baseUrl);
+
+  const allowedHosts = readAllowedHosts();
+  if (allowedHosts) {
+    if (allowedHosts.has(host) || allowedHosts.has(hostname)) return true;
+    throw new ProviderApiError(`${host} is not one of this server's allowed instances.`, 400);
+  }
+
+  // Sockets don't look up IP literals, so they are checked here
+  const name = hostname.replace(/^\[|\]$/g, '');
+  if (isIP(name) && isNonPublicAddress(name, isIP(name))) throw privateNetworkError(hostname);
+  return false;
+}
+
+/**
+ * DNS lookup for a request's socket that fails when any address the name
+ * resolves to is non-public, and otherwise hands back exactly the addresses
+ * it checked.
+ */
+const publicOnlyLookup = ((hostname, options, callback) => {
+  lookup(hostname, { all: true, verbatim: true }, (err, addresses) => {
+    if (err) return callback(err, '', 0);
+    if (addresses.some(({ address, family }) => isNonPublicAddress(address, family))) {
+      return callback(privateNetworkError(hostname), '', 0);
+    }
+    if (options.all) return (callback as (e: null, a: typeof addresses) => void)(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}) as LookupFunction;
+
+/** Host (with port) used to namespace repository ids from an instance. */
+export function getProviderHost(baseUrl: string): string {
+  return new URL(baseUrl).host;
+}
+
+// =============================================================================
+// REQUESTS
+// =============================================================================
+
+const MAX_RETRIES = 3;
+const BASE_RETRY_DELAY = 1000;
+const REQUEST_TIMEOUT_MS = 30000;
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+interface ProviderResponse {
+  status: number;
+  ok: boolean;
+  headers: Headers;
+  body: string;
+}
+
+/**
+ * One GET through node's http(s) client, which (unlike fetch) takes a lookup
+ * function per request and never follows redirects.
+ */
+function requestOnce(
+  url: URL,
+  headers: Record<string, string>,
+  lookupFn: LookupFunction | undefined
+): Promise<ProviderResponse> {
+  const client = url.protocol === 'http:' ? http : https;
+
+  return new Promise((resolve, reject) => {
+    const request = client.request(
+      url,
+      { method: 'GET', headers, lookup: lookupFn, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) },
+      (response) => {
+        const chunks: Buffer[] = [];
+        response.on('data', (chunk: Buffer) => chunks.push(chunk));
+        response.on('error', reject);
+        response.on('end', () => {
+          const responseHeaders = new Headers();
+          for (const [name, value] of Object.entries(response.headers)) {
+            if (value !== undefined) responseHeaders.set(name, Array.isArray(value) ? value.join(', ') : value);
+          }
+          const status = response.statusCode ?? 0;
+          resolve({
+            status,
+            ok: status >= 200 && status < 300,
+            headers: responseHeaders,
+            body: Buffer.concat(chunks).toString('utf8'),
+          });
+        });
+      }
+    );
+    request.on('error', reject);
+    request.end();
+  });
+}
+
+/**
+ * GET a JSON resource with retry and exponential backoff.
+ *
+ * Unless its host is allow-listed, the instance may only resolve to public
+ * addresses, checked when the socket connects; redirects are not followed,
+ * so one can't lead somewhere the check would have blocked.
+ * Auth and not-found errors are thrown immediately; rate limits wait for
+ * Retry-After (capped at 60s) before retrying.
+ */
+export async function providerGet<T>(
+  baseUrl: string,
+  path: string,
+  authHeaders: Record<string, string>,
+  params: Record<string, string | number | boolean | undefined> = {}
+): Promise<{ data: T; headers: Headers }> {
+  const url = new URL(`${baseUrl}${path}`);
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) url.searchParams.set(key, String(value));
+  }
+
+  const allowListed = assertReachableInstance(baseUrl);
+  const headers = { Accept: 'application/json', ...authHeaders };
+
+  let lastError: Error | null = null;
+
+  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+    try {
+      const response = await requestOnce(url, headers, allowListed ? undefined : publicOnlyLookup);
+
+      recordRateLimit(baseUrl, response.headers);
+
+      if (!response.ok) {
+        const retryAfter = response.headers.get('retry-after');
+        const body = parseJson(response.body) as Record<string, unknown> | null;
+        const detail = body?.['message'] ?? body?.['error'];
+        throw new ProviderApiError(
+          typeof detail === 'string' ? detail : `Request to ${path} failed (${response.status})`,
+          response.status,
+          retryAfter ? parseInt(retryAfter, 10) : null
+        );
+      }
+
+      return { data: JSON.parse(response.body) as T, headers: response.headers };
+    } catch (error: unknown) {
+      lastError = error instanceof Error ? error : new Error(String(error));
+
+      if (error instanceof ProviderApiError) {
+        if (error.isUnauthorized || error.isNotFound || error.status === 400) {
+          throw error;
+        }
+        if (error.isRateLimit && error.retryAfter && attempt < MAX_RETRIES) {
+          await sleep(Math.min(error.retryAfter * 1000, 60000));
+          continue;
+        }
+      }
+
+      if (attempt < MAX_RETRIES) {
+        const delay = BASE_RETRY_DELAY * Math.pow(2, attempt);
+        await sleep(delay + Math.random() * 500);
+      }
+    }
+  }
+
+  if (lastError instanceof ProviderApiError) throw lastError;
+  throw new ProviderApiError(lastError?.message ?? 'Retry exhausted with unknown error', 502);
+}
+
+// =============================================================================
+// PAGINATION
+// =============================================================================
+
+/** Pagination info from `X-Total` / `X-Total-Count` / `X-Next-Page` headers. */
+export function readPagination(headers: Headers, page: number, perPage: number): GitHubPagination {
+  const total = headers.get('x-total') ?? headers.get('x-total-count');
+  const totalPagesHeader = headers.get('x-total-pages');
+  const totalPages = totalPagesHeader
+    ? parseInt(totalPagesHeader, 10)
+    : total
+      ? Math.ceil(parseInt(total, 10) / perPage)
+      : null;
+
+  const nextPage = headers.get('x-next-page');
+  const hasMoreHeader = headers.get('x-hasmore');
+  const hasMore =
+    nextPage !== null
+      ? nextPage !== ''
+      : hasMoreHeader !== null
+        ? hasMoreHeader === 'true'
+        : totalPages !== null && page < totalPages;
+
+  return {
+    page,
+    perPage,
+    totalPages,
+    hasMore,
+    links: { next: null, prev: null, last: null, first: null },
+  };
+}
+
+/**
+ * Walk every page of a list endpoint.
+ *
+ * Mirrors fetchAllRepoCommits: large result sets (> 10 known pages) are
+ * fetched five pages at a time, smaller ones sequentially. Failed pages in a
+ * parallel batch are skipped so a partial history is still returned.
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (page: number) => Promise<{ items: T[]; pagination: GitHubPagination }>,
+  options: {
+    maxPages?: number;
+    onProgress?: (fetched: number, estimated: number | null) => void;
+  } = {}
+): Promise<T[]> {
+  const { maxPages = 300, onProgress } = options;
+  const first = await fetchPage(1);
+  const all = [...first.items];
+  const { totalPages, perPage } = first.pagination;
+  const estimated = totalPages ? totalPages * perPage : null;
+
+  onProgress?.(all.length, estimated);
+  if (!first.pagination.hasMore) return all;
+
+  if (totalPages && totalPages > 10) {
+    const BATCH_SIZE = 5;
+    const lastPage = Math.min(totalPages, maxPages);
+
+    for (let start = 2; start <= lastPage; start += BATCH_SIZE) {
+      const pages: number[] = [];
+      for (let p = start; p < start + BATCH_SIZE && p <= lastPage; p++) pages.push(p);
+
+      const results = await Promise.allSettled(pages.map(fetchPage));
+      for (const result of results) {
+        if (result.status === 'fulfilled') all.push(...result.value.items);
+      }
+
+      onProgress?.(all.length, estimated);
+      if (start + BATCH_SIZE <= lastPage) await sleep(200);
+    }
+  } else {
+    let page = 2;
+    let hasMore = true;
+
+    while (hasMore && page <= maxPages) {
+      const result = await fetchPage(page);
+      all.push(...result.items);
+      hasMore = result.pagination.hasMore && result.items.length > 0;
+      page++;
+
+      onProgress?.(all.length, estimated);
+      if (hasMore) await sleep(100);
+    }
+  }
+
+  return all;
+}
+
+// =============================================================================
+// CONTRIBUTOR HELPERS
+// =============================================================================
+
+/** Consistent HSL color from a contributor id (same hash as the GitHub client). */
+export function contributorColor(id: string): string {
+  const hash = id.split('').reduce((acc, char) => char.charCodeAt(0) + ((acc << 5) - acc), 0);
+  return `hsl(${Math.abs(hash) % 360}, 70%, 60%)`;
+}
@@ -0,0 +1,118 @@
+// =============================================================================
+// RATE LIMITER — in-memory sliding window + concurrency cap per session
+// =============================================================================
+//
+// State lives in the server process, so limits are per instance. That is
+// enough to stop one token from hammering the streaming route; it is not a
+// global quota.
+
+import { createHash } from 'crypto';
+import { PROVIDER_COOKIES } from '@/lib/git-provider';
+
+export interface RateLimitOptions {
+  /** Requests allowed per key within `windowMs` */
+  maxRequests: number;
+  windowMs: number;
+  /** Requests allowed to be in flight at once per key */
+  maxConcurrent: number;
+}
+
+export type RateLimitResult =
+  | { allowed: true; release: () => void }
+  | { allowed: false; reason: 'rate' | 'concurrency'; retryAfterSeconds: number };
+
+interface SessionState {
+  timestamps: number[];
+  active: number;
+}
+
+/** Stable, non-reversible key for a bearer token so tokens aren't held in memory. */
+export function sessionKeyForToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/** The parts of an incoming request used to tell callers apart. */
+interface RequestIdentity {
+  headers: Headers;
+  cookies: { get(name: string): { value: string } | undefined };
+}
+
+/**
+ * Rate-limit key for an LLM request. A personal Claude token identifies its
+ * user; a local model's access key is shared by everyone, so those callers are
+ * told apart by their git provider session cookie, else their client address.
+ */
+export function sessionKeyForRequest(request: RequestIdentity, token: string, tokenIsShared: boolean): string {
+  if (!tokenIsShared) return sessionKeyForToken(token);
+
+  for (const names of Object.values(PROVIDER_COOKIES)) {
+    const session = request.cookies.get(names.token)?.value;
+    if (session) return sessionKeyForToken(`session:${session}`);
+  }
+
+  const clientIp =
+    request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() ||
+    request.headers.get('x-real-ip')?.trim() ||
+    'unknown';
+  return sessionKeyForToken(`client:${clientIp}`);
+}
+
+export class RateLimiter {
+  private readonly options: RateLimitOptions;
+  private sessions = new Map<string, SessionState>();
+
+  constructor(options: RateLimitOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Claim a slot for `key`. On success, call `release()` once the request
+   * has finished so the concurrency slot frees up.
+   */
+  acquire(key: string, now: number = Date.now()): RateLimitResult {
+    const { maxRequests, windowMs, maxConcurrent } = this.options;
+    this.prune(now);
+
+    const state = this.sessions.get(key) ?? { timestamps: [], active: 0 };
+    this.sessions.set(key, state);
+
+    if (state.active >= maxConcurrent) {
+      return { allowed: false, reason: 'concurrency', retryAfterSeconds: 5 };
+    }
+
+    if (state.timestamps.length >= maxRequests) {
+      const oldest = state.timestamps[0];
+      return {
+        allowed: false,
+        reason: 'rate',
+        retryAfterSeconds: Math.max(1, Math.ceil((oldest + windowMs - now) / 1000)),
+      };
+    }
+
+    state.timestamps.push(now);
+    state.active++;
+
+    let released = false;
+    return {
+      allowed: true,
+      release: () => {
+        if (released) return;
+        released = true;
+        state.active = Math.max(0, state.active - 1);
+      },
+    };
+  }
+
+  /** Drop expired timestamps and forget idle sessions. */
+  private prune(now: number): void {
+    const cutoff = now - this.options.windowMs;
+    for (const [key, state] of this.sessions) {
+      while (state.timestamps.length > 0 && state.timestamps[0] <= cutoff) {
+        state.timestamps.shift();
+      }
+      if (state.timestamps.length === 0 && state.active === 0) {
+        this.sessions.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,135 @@
+// src/lib/story-citations.ts
+// Inline commit citations in story prose.
+// The narrative prompts ask the model to back claims with `[commit:<sha>]` markers
+// using SHAs from its data. verifyCitations checks every marker against the data the
+// chapter was written from: SHAs that were sent and resolve to an analyzed commit are
+// normalized to short SHAs and indexed for the hover cards, anything else is stripped
+// from the prose and recorded.
+
+import type { CommitData, StoryCitation } from '@/lib/types';
+import type { EnrichedGeneratedStory, EnrichedStoryChapter } from '@/lib/narrative-types';
+
+/** Matches one marker, including the space before it so a stripped marker leaves no gap. */
+const CITATION_MARKER = /(\s?)\[commit:\s*([0-9a-f]{7,40})\]/gi;
+
+/** A SHA as the data slices write it: a standalone run of 7 to 40 hex characters. */
+const DATA_SHA = /\b[0-9a-f]{7,40}\b/gi;
+
+/**
+ * The prompt data a chapter was written from, or null when it isn't known
+ * (a chapter kept from an earlier run), in which case any analyzed commit counts.
+ */
+export type ChapterSourceData = (chapter: EnrichedStoryChapter, index: number) => string | null;
+
+/** Prompt rules for citing commits; shared by every prompt that writes chapter prose. */
+export const CITATION_RULES = `## CITATIONS
+- Back factual claims with the commit they come from, written inline as [commit:<sha>] right after the claim: "The auth rewrite landed on March 14th [commit:3f9a2c1]."
+- Only cite SHAs that appear in the data you were given. Never invent or guess a SHA; leave a claim uncited rather than make one up.
+- Use the 7-character SHA as shown in the data. At most one citation per sentence.`;
+
+function shortShaOf(sha: string): string {
+  return sha.slice(0, 7).toLowerCase();
+}
+
+/** Commit lookup by any SHA prefix of 7+ characters; ambiguous prefixes resolve to nothing. */
+function indexCommits(commitsByRepo: Record<string, CommitData[]>) {
+  const byShortSha = new Map<string, CommitData[]>();
+  for (const commits of Object.values(commitsByRepo)) {
+    for (const commit of commits || []) {
+      const key = shortShaOf(commit.sha);
+      const bucket = byShortSha.get(key);
+      if (bucket) bucket.push(commit);
+      else byShortSha.set(key, [commit]);
+    }
+  }
+
+  return {
+    size: byShortSha.size,
+    find(sha: string): CommitData | null {
+      const prefix = sha.toLowerCase();
+      const matches = (byShortSha.get(shortShaOf(prefix)) || []).filter((c) =>
+        c.sha.toLowerCase().startsWith(prefix)
+      );
+      return matches.length === 1 ? matches[0] : null;
+    },
+  };
+}
+
+/** Short SHAs of every commit named in a prompt's data. */
+function shasSentIn(data: string): Set<string> {
+  return new Set(Array.from(data.matchAll(DATA_SHA), (match) => shortShaOf(match[0])));
+}
+
+function toCitation(commit: CommitData): StoryCitation {
+  return {
+    sha: commit.sha,
+    repoId: commit.repoId,
+    messageHeadline: commit.messageHeadline,
+    authorName: commit.author.name,
+    timestamp: commit.timestamp,
+    htmlUrl: commit.htmlUrl || null,
+  };
+}
+
+/**
+ * Check every cited SHA in the chapters against the data each chapter was written
+ * from, and every milestone SHA (which come from the plan, not a chapter) against
+ * the analyzed commits. Returns the story unchanged when there are no commits to
+ * check against, so a story restored before its commits have loaded keeps its citations.
+ */
+export function verifyCitations(
+  story: EnrichedGeneratedStory,
+  commitsByRepo: Record<string, CommitData[]>,
+  sourceData: ChapterSourceData
+): EnrichedGeneratedStory {
+  const commits = indexCommits(commitsByRepo);
+  if (commits.size === 0) return story;
+
+  const citations: Record<string, StoryCitation> = {};
+  const unverified = new Set(story.unverifiedCitations || []);
+  // Chapters of a single-pass story share one data text
+  const sentByData = new Map<string, Set<string>>();
+
+  const chapters = story.chapters.map((chapter, index) => {
+    const data = sourceData(chapter, index);
+    let sent: Set<string> | null = null;
+    if (data !== null) {
+      sent = sentByData.get(data) ?? shasSentIn(data);
+      sentByData.set(data, sent);
+    }
+
+    return {
+      ...chapter,
+      content: chapter.content.replace(CITATION_MARKER, (_marker, space: string, sha: string) => {
+        const commit = !sent || sent.has(shortShaOf(sha)) ? commits.find(sha) : null;
+        if (!commit) {
+          unverified.add(sha.toLowerCase());
+          return '';
+        }
+        const shortSha = shortShaOf(commit.sha);
+        citations[shortSha] = toCitation(commit);
+        return `${space}[commit:${shortSha}]`;
+      }),
+    };
+  });
+
+  const milestones = story.milestones.map((milestone) => ({
+    ...milestone,
+    relatedCommitShas: milestone.relatedCommitShas.flatMap((sha) => {
+      const commit = commits.find(sha);
+      if (!commit) {
+        unverified.add(sha.toLowerCase());
+        return [];
+      }
+      return [commit.sha];
+    }),
+  }));
+
+  return {
+    ...story,
+    chapters,
+    milestones,
+    citations,
+    unverifiedCitations: Array.from(unverified),
+  };
+}
@@ -0,0 +1,93 @@
+// src/lib/story-diff.ts
+// Paragraph-level comparison of two generated stories for the side-by-side view.
+// Chapters are matched by position; within a chapter, paragraphs are aligned on
+// their longest common subsequence and an edited paragraph shows as one changed row.
+
+import type {
+  EnrichedGeneratedStory,
+  StoryDiffChapter,
+  StoryDiffRow,
+} from '@/lib/narrative-types';
+
+function splitParagraphs(content: string): string[] {
+  return content
+    .split(/\n{2,}/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean);
+}
+
+/** Pair up a run of removals with the additions that replaced them. */
+function pairChanges(removed: string[], added: string[]): StoryDiffRow[] {
+  const rows: StoryDiffRow[] = [];
+  for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+    const left = removed[i] ?? null;
+    const right = added[i] ?? null;
+    rows.push({ kind: left !== null && right !== null ? 'changed' : left !== null ? 'removed' : 'added', left, right });
+  }
+  return rows;
+}
+
+export function diffParagraphs(left: string[], right: string[]): StoryDiffRow[] {
+  // common[i][j] = length of the LCS of left[i..] and right[j..]
+  const common = Array.from({ length: left.length + 1 }, () => new Array<number>(right.length + 1).fill(0));
+  for (let i = left.length - 1; i >= 0; i--) {
+    for (let j = right.length - 1; j >= 0; j--) {
+      common[i][j] =
+        left[i] === right[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const rows: StoryDiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < left.length && j < right.length) {
+    if (left[i] === right[j]) {
+      rows.push(...pairChanges(removed, added));
+      removed = [];
+      added = [];
+      rows.push({ kind: 'same', left: left[i], right: right[j] });
+      i++;
+      j++;
+    } else if (common[i + 1][j] >= common[i][j + 1]) {
+      removed.push(left[i++]);
+    } else {
+      added.push(right[j++]);
+    }
+  }
+  removed.push(...left.slice(i));
+  added.push(...right.slice(j));
+  rows.push(...pairChanges(removed, added));
+
+  return rows;
+}
+
+/** Compare two generations chapter by chapter. */
+export function diffStories(
+  left: EnrichedGeneratedStory,
+  right: EnrichedGeneratedStory
+): StoryDiffChapter[] {
+  const chapterCount = Math.max(left.chapters.length, right.chapters.length);
+  const chapters: StoryDiffChapter[] = [];
+
+  for (let index = 0; index < chapterCount; index++) {
+    const leftChapter = left.chapters[index];
+    const rightChapter = right.chapters[index];
+    const rows = diffParagraphs(
+      leftChapter ? splitParagraphs(leftChapter.content) : [],
+      rightChapter ? splitParagraphs(rightChapter.content) : []
+    );
+
+    chapters.push({
+      index,
+      leftTitle: leftChapter?.title ?? null,
+      rightTitle: rightChapter?.title ?? null,
+      rows,
+      changes: rows.filter((row) => row.kind !== 'same').length,
+    });
+  }
+
+  return chapters;
+}
@@ -0,0 +1,207 @@
+// src/lib/story-editing.ts
+// Hand edits to a finished story: rewrite, reorder, merge, split and lock chapters.
+// Every operation returns a new story with chapters re-indexed, so `index` and
+// `anchorId` always match the reading order. Nothing here calls a model.
+
+import type { EnrichedGeneratedStory, EnrichedStoryChapter } from '@/lib/narrative-types';
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function withChapters(
+  story: EnrichedGeneratedStory,
+  chapters: EnrichedStoryChapter[]
+): EnrichedGeneratedStory {
+  return {
+    ...story,
+    chapters: chapters.map((chapter, index) => ({
+      ...chapter,
+      index,
+      anchorId: `chapter-${index + 1}`,
+    })),
+  };
+}
+
+function chapterStartMs(chapter: EnrichedStoryChapter): number {
+  return new Date(chapter.dateRange.start).getTime() || 0;
+}
+
+function spanDays(start: string, end: string): number {
+  const startMs = new Date(start).getTime();
+  const endMs = new Date(end).getTime();
+  return startMs && endMs ? Math.ceil((endMs - startMs) / 86400000) : 0;
+}
+
+function uniqueChapterId(taken: Set<string>, base: string): string {
+  let id = base;
+  for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+  return id;
+}
+
+function splitParagraphs(content: string): string[] {
+  return content
+    .split(/\n{2,}/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean);
+}
+
+// =============================================================================
+// CHAPTER OPERATIONS
+// =============================================================================
+
+export function updateChapter(
+  story: EnrichedGeneratedStory,
+  index: number,
+  changes: Partial<Pick<EnrichedStoryChapter, 'title' | 'content' | 'locked'>>
+): EnrichedGeneratedStory {
+  return withChapters(
+    story,
+    story.chapters.map((chapter, i) => (i === index ? { ...chapter, ...changes } : chapter))
+  );
+}
+
+/** Swap a chapter with its neighbour; out-of-range moves are ignored. */
+export function moveChapter(
+  story: EnrichedGeneratedStory,
+  index: number,
+  offset: -1 | 1
+): EnrichedGeneratedStory {
+  const target = index + offset;
+  if (target < 0 || target >= story.chapters.length) return story;
+
+  const chapters = [...story.chapters];
+  [chapters[index], chapters[target]] = [chapters[target], chapters[index]];
+  return withChapters(story, chapters);
+}
+
+/**
+ * Fold the following chapter into this one. Its title becomes a subheading,
+ * and milestones and spotlights that pointed at it move to the merged chapter.
+ */
+export function mergeWithNextChapter(
+  story: EnrichedGeneratedStory,
+  index: number
+): EnrichedGeneratedStory {
+  const first = story.chapters[index];
+  const second = story.chapters[index + 1];
+  if (!first || !second) return story;
+
+  const start = [first.dateRange.start, second.dateRange.start].filter(Boolean).sort()[0] ?? '';
+  const end = [first.dateRange.end, second.dateRange.end].filter(Boolean).sort().pop() ?? '';
+  const merged: EnrichedStoryChapter = {
+    ...first,
+    content: `${first.content}\n\n### ${second.title}\n\n${second.content}`,
+    dateRange: { start, end, totalDays: spanDays(start, end) },
+    repoIds: Array.from(new Set([...first.repoIds, ...second.repoIds])),
+    locked: !!first.locked && !!second.locked,
+  };
+
+  const chapters = [...story.chapters];
+  chapters.splice(index, 2, merged);
+
+  return {
+    ...withChapters(story, chapters),
+    milestones: story.milestones.map((m) =>
+      m.chapterId === second.id ? { ...m, chapterId: first.id } : m
+    ),
+    contributorSpotlights: story.contributorSpotlights.map((s) =>
+      s.chapterId === second.id ? { ...s, chapterId: first.id } : s
+    ),
+  };
+}
+
+/**
+ * Cut a chapter in two near its middle, at a `###` heading when it has one;
+ * that heading becomes the second chapter's title. Both halves keep the
+ * original date range. Chapters with one paragraph are left alone.
+ */
+export function splitChapter(
+  story: EnrichedGeneratedStory,
+  index: number
+): EnrichedGeneratedStory {
+  const chapter = story.chapters[index];
+  if (!chapter) return story;
+
+  const paragraphs = splitParagraphs(chapter.content);
+  if (paragraphs.length < 2) return story;
+
+  // Cut before the `###` heading nearest the middle, or else at the paragraph nearest it
+  const half = paragraphs.reduce((sum, p) => sum + p.length, 0) / 2;
+  const isHeading = (paragraph: string) => /^###\s+.+$/.test(paragraph);
+  const hasHeadings = paragraphs.slice(1).some(isHeading);
+  let cut = 1;
+  let bestDistance = Infinity;
+  for (let i = 1, before = paragraphs[0].length; i < paragraphs.length; before += paragraphs[i++].length) {
+    if (hasHeadings && !isHeading(paragraphs[i])) continue;
+    if (Math.abs(before - half) < bestDistance) {
+      bestDistance = Math.abs(before - half);
+      cut = i;
+    }
+  }
+
+  const secondHalf = paragraphs.slice(cut);
+  const heading = secondHalf.length > 1 ? secondHalf[0].match(/^###\s+(.+)$/) : null;
+  if (heading) secondHalf.shift();
+
+  const taken = new Set(story.chapters.map((c) => c.id));
+  const chapters = [...story.chapters];
+  chapters.splice(
+    index,
+    1,
+    { ...chapter, content: paragraphs.slice(0, cut).join('\n\n') },
+    {
+      ...chapter,
+      id: uniqueChapterId(taken, `${chapter.id}-part-2`),
+      title: heading ? heading[1].trim() : `${chapter.title} (continued)`,
+      content: secondHalf.join('\n\n'),
+    }
+  );
+  return withChapters(story, chapters);
+}
+
+// =============================================================================
+// REGENERATION
+// =============================================================================
+
+/**
+ * Carry the locked chapters of `previous` into a freshly generated story.
+ * New chapters whose midpoint falls inside a locked chapter's date range are
+ * dropped as duplicates, and the locked ones are slotted back in by start date.
+ */
+export function keepLockedChapters(
+  previous: EnrichedGeneratedStory,
+  next: EnrichedGeneratedStory
+): EnrichedGeneratedStory {
+  const locked = previous.chapters.filter((chapter) => chapter.locked);
+  if (locked.length === 0) return next;
+
+  const lockedRanges = locked.map((chapter) => ({
+    start: chapterStartMs(chapter),
+    end: new Date(chapter.dateRange.end).getTime() || 0,
+  }));
+  const isCovered = (chapter: EnrichedStoryChapter) => {
+    const start = chapterStartMs(chapter);
+    const end = new Date(chapter.dateRange.end).getTime() || 0;
+    if (!start || !end) return false;
+    const midpoint = (start + end) / 2;
+    return lockedRanges.some((range) => midpoint >= range.start && midpoint <= range.end);
+  };
+
+  const kept = next.chapters.filter((chapter) => !isCovered(chapter));
+  const taken = new Set(kept.map((chapter) => chapter.id));
+  const carried = locked.map((chapter) => {
+    const id = uniqueChapterId(taken, chapter.id);
+    taken.add(id);
+    return { ...chapter, id };
+  });
+
+  return {
+    ...withChapters(
+      next,
+      [...kept, ...carried].sort((a, b) => chapterStartMs(a) - chapterStartMs(b))
+    ),
+    // The carried prose still cites the commits it was verified against
+    citations: { ...previous.citations, ...next.citations },
+  };
+}
@@ -0,0 +1,199 @@
+import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import { hashSelectedRepos } from '@/lib/cache-manager';
+import { DATA_STORY_MODEL, DATA_STORY_PROMPT_VERSION } from '@/lib/narrative-data-story';
+import { UNIFIED_NARRATIVE_PROMPT_VERSION } from '@/lib/narrative-prompts-v2';
+import type { EnrichedGeneratedStory, SavedStory, StoryInputs } from '@/lib/narrative-types';
+
+// =============================================================================
+// STORY LIBRARY — every generated story, kept until the user deletes it
+// =============================================================================
+//
+// Generation costs real money, so stories don't live in the TTL cache (which
+// expires them and is cleared on refresh). Each one is stored in its own
+// IndexedDB database with the inputs it was written from, and one story per
+// repo selection can be pinned as canonical.
+
+const LIBRARY_DB_NAME = 'gitted-stories';
+const LIBRARY_DB_VERSION = 1;
+
+interface StoryLibraryDB extends DBSchema {
+  stories: {
+    key: string;
+    value: SavedStory;
+    indexes: {
+      'by-repo-key': string;
+      'by-saved-at': number;
+    };
+  };
+}
+
+// =============================================================================
+// Singleton DB Instance
+// =============================================================================
+
+let dbInstance: IDBPDatabase<StoryLibraryDB> | null = null;
+let dbInitPromise: Promise<IDBPDatabase<StoryLibraryDB>> | null = null;
+
+async function getDB(): Promise<IDBPDatabase<StoryLibraryDB>> {
+  if (dbInstance) {
+    return dbInstance;
+  }
+
+  if (dbInitPromise) {
+    return dbInitPromise;
+  }
+
+  dbInitPromise = openDB<StoryLibraryDB>(LIBRARY_DB_NAME, LIBRARY_DB_VERSION, {
+    upgrade(db) {
+      if (!db.objectStoreNames.contains('stories')) {
+        const store = db.createObjectStore('stories', { keyPath: 'id' });
+        store.createIndex('by-repo-key', 'repoKey');
+        store.createIndex('by-saved-at', 'savedAt');
+      }
+    },
+    blocked() {
+      console.warn('[StoryLibrary] Database upgrade blocked by another tab');
+    },
+    blocking() {
+      console.warn('[StoryLibrary] This tab is blocking a database upgrade');
+      dbInstance?.close();
+      dbInstance = null;
+    },
+    terminated() {
+      console.warn('[StoryLibrary] Database connection terminated unexpectedly');
+      dbInstance = null;
+      dbInitPromise = null;
+    },
+  });
+
+  dbInstance = await dbInitPromise;
+  dbInitPromise = null;
+
+  return dbInstance;
+}
+
+// =============================================================================
+// Inputs
+// =============================================================================
+
+/** The inputs a story was generated from, as recorded in the library. */
+export function describeStoryInputs(story: EnrichedGeneratedStory, repoIds: string[]): StoryInputs {
+  return {
+    repoIds: [...repoIds].sort(),
+    dateRange: { start: story.dateRange.start, end: story.dateRange.end },
+    promptVersion:
+      story.model === DATA_STORY_MODEL ? DATA_STORY_PROMPT_VERSION : UNIFIED_NARRATIVE_PROMPT_VERSION,
+    model: story.model,
+  };
+}
+
+/** Deterministic djb2 hash of the inputs; field order is fixed by describeStoryInputs. */
+export function hashStoryInputs(inputs: StoryInputs): string {
+  const text = JSON.stringify(inputs);
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) & 0xffffffff;
+  }
+  return Math.abs(hash).toString(36);
+}
+
+// =============================================================================
+// Library Functions
+// =============================================================================
+
+/**
+ * Save a freshly generated story. Saving the same story again keeps its pin.
+ * Returns null if IndexedDB is unavailable.
+ */
+export async function saveStory(
+  story: EnrichedGeneratedStory,
+  repoIds: string[]
+): Promise<SavedStory | null> {
+  try {
+    const db = await getDB();
+    const inputs = describeStoryInputs(story, repoIds);
+    const existing = await db.get('stories', story.id);
+
+    const saved: SavedStory = {
+      id: story.id,
+      story,
+      inputs,
+      inputHash: hashStoryInputs(inputs),
+      repoKey: hashSelectedRepos(repoIds),
+      savedAt: existing?.savedAt ?? Date.now(),
+      pinned: existing?.pinned ?? false,
+    };
+    await db.put('stories', saved);
+    return saved;
+  } catch (error) {
+    console.error(`[StoryLibrary] Error saving story "${story.id}":`, error);
+    return null;
+  }
+}
+
+/** Every saved story, newest first. */
+export async function listSavedStories(): Promise<SavedStory[]> {
+  try {
+    const db = await getDB();
+    const stories = await db.getAllFromIndex('stories', 'by-saved-at');
+    return stories.reverse();
+  } catch (error) {
+    console.error('[StoryLibrary] Error listing stories:', error);
+    return [];
+  }
+}
+
+/**
+ * The story to show for a repo selection without generating: the pinned one,
+ * otherwise the most recent.
+ */
+export async function findStoryToRestore(repoIds: string[]): Promise<SavedStory | null> {
+  try {
+    const db = await getDB();
+    const stories = await db.getAllFromIndex('stories', 'by-repo-key', hashSelectedRepos(repoIds));
+    if (stories.length === 0) return null;
+
+    return (
+      stories.find((saved) => saved.pinned) ??
+      stories.reduce((latest, saved) => (saved.savedAt > latest.savedAt ? saved : latest))
+    );
+  } catch (error) {
+    console.error('[StoryLibrary] Error finding a story to restore:', error);
+    return null;
+  }
+}
+
+/** Pin a story as canonical for its repo selection, unpinning any other; or unpin it. */
+export async function setStoryPinned(id: string, pinned: boolean): Promise<void> {
+  try {
+    const db = await getDB();
+    const tx = db.transaction('stories', 'readwrite');
+    const target = await tx.store.get(id);
+    if (!target) {
+      await tx.done;
+      return;
+    }
+
+    if (pinned) {
+      const siblings = await tx.store.index('by-repo-key').getAll(target.repoKey);
+      for (const sibling of siblings) {
+        if (sibling.pinned && sibling.id !== id) {
+          await tx.store.put({ ...sibling, pinned: false });
+        }
+      }
+    }
+    await tx.store.put({ ...target, pinned });
+    await tx.done;
+  } catch (error) {
+    console.error(`[StoryLibrary] Error pinning story "${id}":`, error);
+  }
+}
+
+export async function deleteSavedStory(id: string): Promise<void> {
+  try {
+    const db = await getDB();
+    await db.delete('stories', id);
+  } catch (error) {
+    console.error(`[StoryLibrary] Error deleting story "${id}":`, error);
+  }
+}
@@ -26,6 +26,24 @@ export enum TimeGranularity {
   YEARLY = 'yearly',
 }
 
+/** Which clock time-of-day analytics are read in. */
+export enum TimeZoneMode {
+  /** The author's own UTC offset at commit time (viewer zone when unknown) */
+  AUTHOR = 'author',
+  /** The browser's time zone */
+  VIEWER = 'viewer',
+  /** A fixed IANA zone, e.g. "Europe/Berlin" */
+  FIXED = 'fixed',
+}
+
+/** Whether automated (bot) commits count toward analytics. */
+export enum BotFilterMode {
+  /** Count everything; automated commits are still reported separately */
+  INCLUDE = 'include',
+  /** Drop automated commits from every section and report them separately */
+  EXCLUDE = 'exclude',
+}
+
 /** Gource visualization playback state. */
 export enum PlaybackState {
   STOPPED = 'stopped',
@@ -82,6 +100,17 @@ export enum RepoSortOption {
   COMMITS_DESC = 'commits-desc',
 }
 
+/** Where a repository's commit history comes from. */
+export enum RepositorySource {
+  GITHUB = 'github',
+  /** GitLab.com or a self-managed instance (REST v4) */
+  GITLAB = 'gitlab',
+  /** Self-hosted Gitea / Forgejo (REST v1) */
+  GITEA = 'gitea',
+  /** Parsed from an uploaded `git log --numstat` dump — no remote API */
+  LOCAL = 'local',
+}
+
 /** File extension categories for gource coloring. */
 export enum FileCategory {
   CODE = 'code',
@@ -182,6 +211,8 @@ export interface Repository {
   size: number;
   topics: string[];
   license: LicenseInfo | null;
+  /** Absent on repos normalized before sources existed — treat as GitHub */
+  source?: RepositorySource;
 }
 
 /** Repository owner information. */
@@ -240,6 +271,12 @@ export interface CommitData {
   parents: string[];
   files: CommitFile[];
   htmlUrl: string;
+  /**
+   * Author's UTC offset in minutes at commit time (e.g. 120 for UTC+2).
+   * Null when the source normalizes dates to UTC without keeping the offset.
+   */
+  timezoneOffset: number | null;
+  /** Calendar fields below are in the author's zone, or UTC when timezoneOffset is null */
   hourOfDay: number;
   dayOfWeek: DayOfWeek;
   year: number;
@@ -287,6 +324,58 @@ export interface Contributor {
   color: string;
 }
 
+/** One `.mailmap` line; null proper fields keep the commit's own value. */
+export interface MailmapEntry {
+  properName: string | null;
+  properEmail: string | null;
+  /** When set, only commits with this author name (case-insensitive) match */
+  commitName: string | null;
+  /** Lowercased */
+  commitEmail: string;
+}
+
+/** User-controlled identity resolution rules (persisted in the app store). */
+export interface IdentityRules {
+  /** Entries from the uploaded .mailmap */
+  mailmap: MailmapEntry[];
+  /** Manual merges: alias key → alias key of the identity it joins */
+  merges: Record<string, string>;
+  /** Alias keys kept out of automatic and .mailmap merges */
+  splits: string[];
+}
+
+/** Why a raw author was folded into an identity. */
+export type IdentityAliasReason = 'primary' | 'mailmap' | 'noreply' | 'shared-email' | 'manual';
+
+/** A raw commit author (as recorded on commits) belonging to a resolved identity. */
+export interface IdentityAlias {
+  /** Lowercased login || email || name */
+  key: string;
+  name: string;
+  email: string;
+  login: string | null;
+  commitCount: number;
+  reason: IdentityAliasReason;
+}
+
+/** One person after identity resolution. */
+export interface ResolvedIdentity {
+  /** Contributor id of the canonical author (login || email || name) */
+  id: string;
+  author: CommitAuthor;
+  /** Primary alias first, then by commit count */
+  aliases: IdentityAlias[];
+  commitCount: number;
+}
+
+/** A repository parsed from a local `git log` dump, ready to load into GitDataProvider. */
+export interface LocalRepositoryImport {
+  repository: Repository;
+  commits: CommitData[];
+  /** Non-fatal parse problems (skipped records, unparseable dates) */
+  warnings: string[];
+}
+
 /** Raw commit batch for processing pipelines. */
 export interface CommitBatch {
   repoId: string;
@@ -314,9 +403,70 @@ export interface AnalyticsResult {
   topContributors: Contributor[];
   dateRange: DateRange;
   totals: TotalStats;
+  /** Zone the time-of-day sections were computed in */
+  timeZone: TimeZoneSetting;
+  /** Bot filter the sections were computed with */
+  botFilter: BotFilterSetting;
+  /** Automated commits among the analyzed history, whether or not excluded */
+  automation: AutomationBreakdown;
   computedAt: number;
 }
 
+/** User preference for time-of-day analytics. */
+export interface TimeZoneSetting {
+  mode: TimeZoneMode;
+  /** IANA zone name — only used in FIXED mode */
+  zone: string | null;
+}
+
+/** Rules for recognizing automated commits. Patterns are case-insensitive regex sources. */
+export interface BotClassifierConfig {
+  /** Treat `name[bot]` logins, names and emails as automated */
+  matchBotLogins: boolean;
+  /** Matched against the author's login, name and email */
+  authorPatterns: string[];
+  /** Matched against the commit headline */
+  messagePatterns: string[];
+}
+
+/** User preference for automated commits (persisted in the app store). */
+export interface BotFilterSetting {
+  mode: BotFilterMode;
+  classifier: BotClassifierConfig;
+}
+
+/** Which classifier rule flagged a commit as automated. */
+export type AutomationReason = 'bot-login' | 'author-pattern' | 'message-pattern';
+
+/** How much of a history is automated. */
+export interface AutomationBreakdown {
+  totalCommits: number;
+  automatedCommits: number;
+  /** 0-100, one decimal */
+  automatedPercentage: number;
+  byReason: Record<AutomationReason, number>;
+  /** Most active automated authors, by commit count */
+  topAuthors: Array<{ name: string; commits: number }>;
+  /** Automated commit count per repo id */
+  byRepo: Record<string, number>;
+}
+
+/** A lasting change in one contributor's commit time zone (e.g. a relocation). */
+export interface TimezoneShift {
+  contributorId: string;
+  contributorName: string;
+  /** Offsets in minutes east of UTC */
+  fromOffset: number;
+  toOffset: number;
+  /** First commit in the new zone */
+  sha: string;
+  repoId: string;
+  timestampMs: number;
+  /** Commits in the old and new zone around the change */
+  commitsBefore: number;
+  commitsAfter: number;
+}
+
 /** Total aggregate statistics across all repos. */
 export interface TotalStats {
   totalCommits: number;
@@ -547,6 +697,21 @@ export interface GeneratedStory {
   generatedAt: number;
   dateRange: DateRange;
   model: string;
+  /** Verified inline `[commit:<sha>]` citations, keyed by short SHA */
+  citations?: Record<string, StoryCitation>;
+  /** SHAs the model cited that aren't in the analyzed history; removed from the prose */
+  unverifiedCitations?: string[];
+}
+
+/** A commit cited in story prose, as found in the analyzed history. */
+export interface StoryCitation {
+  sha: string;
+  repoId: string;
+  messageHeadline: string;
+  authorName: string;
+  timestamp: string;
+  /** Null when the source has no web page for the commit (local git log imports) */
+  htmlUrl: string | null;
 }
 
 /** Chapter within a generated story. */
@@ -557,6 +722,8 @@ export interface StoryChapter {
   dateRange: DateRange;
   repoIds: string[];
   anchorId: string;
+  /** Survives regeneration of the rest of the story */
+  locked?: boolean;
 }
 
 /** Milestone in the developer journey. */
@@ -624,6 +791,8 @@ export interface WrappedData {
   superlatives: SuperlativesData;
   dateRange: DateRange;
   wrappedYear: number;
+  /** Present when automated commits were left out of the slides */
+  excludedAutomation?: AutomationBreakdown;
 }
 
 /** Repo stat for wrapped top repos slide. */
@@ -694,6 +863,59 @@ export interface GourceCamera {
   isUserControlled: boolean;
 }
 
+/**
+ * How the camera director frames the scene while the user isn't steering:
+ * recent activity (the original behaviour), the busiest contributor, the
+ * busiest directory, the whole tree, or a keyframed script.
+ */
+export type GourceCameraMode = 'auto' | 'follow-contributor' | 'active-directory' | 'overview' | 'script';
+
+/**
+ * A point on a scripted camera path. The camera looks at `targetPath` when
+ * that node exists, otherwise at (`x`, `y`) in world space.
+ */
+export interface GourceCameraKeyframe {
+  /** Simulation time (ms since epoch) */
+  time: number;
+  x?: number;
+  y?: number;
+  targetPath?: string;
+  zoom: number;
+}
+
+/** A keyframed camera path, saved and loaded as JSON alongside the view. */
+export interface GourceCameraScript {
+  version: 1;
+  /** Sorted by time; the camera eases between consecutive keyframes */
+  keyframes: GourceCameraKeyframe[];
+}
+
+/**
+ * What a Gource file node's color shows: its extension (the original
+ * behaviour), recent churn as heat, how long ago it was created, who touched
+ * it last, the repository it belongs to, or whether it is test code.
+ */
+export type GourceColorMode = 'extension' | 'churn' | 'age' | 'author' | 'repo' | 'test';
+
+/** Built-in groups of paths that can be hidden from the Gource tree. */
+export type GourcePathPreset = 'vendored' | 'generated' | 'lockfiles' | 'binary-assets';
+
+/**
+ * Which files of a repository the Gource tree shows. Globs are matched
+ * against the path inside the repository, gitignore-style: a pattern without
+ * a slash matches a name at any depth, and a trailing slash matches a
+ * directory and everything under it.
+ */
+export interface GourcePathRules {
+  /** Presets whose paths are hidden */
+  presets: GourcePathPreset[];
+  /** When non-empty, only files matching one of these are shown */
+  include: string[];
+  exclude: string[];
+  /** Directories nested deeper than this are folded into their ancestor at this depth. Null = no limit */
+  maxDepth: number | null;
+}
+
 /** Gource visualization settings. */
 export interface GourceSettings {
   nodeSize: number;
@@ -712,6 +934,31 @@ export interface GourceSettings {
   springStiffness: number;
   repulsionForce: number;
   skipDeadTime: boolean;
+  /** Drawing backend; 'auto' picks WebGL2 when the browser supports it */
+  renderer: GourceRenderBackend | 'auto';
+  cameraMode: GourceCameraMode;
+  /** Path followed in 'script' mode; null falls back to 'auto' */
+  cameraScript: GourceCameraScript | null;
+  colorMode: GourceColorMode;
+  /** File rules for every repository */
+  pathRules: GourcePathRules;
+  /** Rules for individual repositories (keyed by full name), used instead of `pathRules` */
+  repoPathRules: Record<string, GourcePathRules>;
+}
+
+/** Where a Gource caption came from. */
+export type GourceAnnotationSource = 'tag' | 'milestone' | 'note';
+
+/** A timed caption drawn over the visualization and marked on the timeline. */
+export interface GourceAnnotation {
+  id: string;
+  /** Simulation time (ms since epoch) at which the caption appears */
+  time: number;
+  title: string;
+  detail: string | null;
+  source: GourceAnnotationSource;
+  /** Repository it belongs to; hidden while another repository is focused. Null = always shown */
+  repoId: string | null;
 }
 
 /** A node in the gource file tree (file or directory). */
@@ -736,6 +983,12 @@ export interface GourceNode {
   scale: number;
   lastModified: number;
   modificationCount: number;
+  /** Simulation time the file was (last) added */
+  createdAt: number;
+  /** Lines changed, decayed to `churnTime` (see gource-color-modes.ts) */
+  churn: number;
+  churnTime: number;
+  lastAuthorId: string | null;
   isVisible: boolean;
   depth: number;
   angle: number;
@@ -752,6 +1005,10 @@ export interface GourceCommitEvent {
   repoId: string;
   affectedFiles: GourceFileChange[];
   processed: boolean;
+  /** Link to the commit on its provider, when known */
+  htmlUrl?: string;
+  /** The file list is a stand-in until the real one is hydrated */
+  synthetic?: boolean;
 }
 
 /** File change within a gource commit event. */
@@ -760,6 +1017,20 @@ export interface GourceFileChange {
   type: 'add' | 'modify' | 'delete' | 'rename';
   additions: number;
   deletions: number;
+  /** Explicit node color (`#rrggbb`) from an imported gource log */
+  color?: string;
+  /** Path before a rename, rooted like `path` */
+  previousPath?: string;
+}
+
+/** A history read from a gource custom log (`timestamp|username|A/M/D|path|colour`). */
+export interface GourceLogImport {
+  repository: Repository;
+  events: GourceCommitEvent[];
+  /** Non-fatal parse problems (skipped lines) */
+  warnings: string[];
+  /** Lines that could not be read and were left out */
+  skippedLines: number;
 }
 
 /** Active contributor avatar in the gource visualization. */
@@ -778,6 +1049,77 @@ export interface GourceContributor {
   isVisible: boolean;
 }
 
+/** One pane of the Gource split-screen comparison; all panes play on the first pane's clock. */
+export interface GourceSplitPane {
+  id: string;
+  /** Repository shown in the pane, null = all of them */
+  repoId: string | null;
+  /** Only this contributor's commits, null = everyone's */
+  contributorId: string | null;
+  /** Glob narrowing the pane to part of the tree (e.g. `frontend/`), null = the whole tree */
+  pathInclude: string | null;
+}
+
+/** The part of a Gource view that a shared link restores: everything but the data. */
+export interface GourceViewState {
+  /** Simulation time (ms since epoch) */
+  time: number;
+  isPlaying: boolean;
+  speed: PlaybackSpeed;
+  activeRepoId: string | null;
+  highlightedContributorId: string | null;
+  /** Where the user left the camera; null = the director frames the shot */
+  camera: { x: number; y: number; zoom: number } | null;
+  /** Only the settings that differ from DEFAULT_GOURCE_SETTINGS */
+  settings: Partial<GourceSettings>;
+  splitPanes: GourceSplitPane[];
+  selection: GourceSelection | null;
+}
+
+/** What the Gource inspector is showing; kept by key so it survives seeks. */
+export type GourceSelection =
+  | { kind: 'node'; path: string }
+  | { kind: 'contributor'; id: string };
+
+/** A commit as listed by the Gource inspector. */
+export interface GourceInspectedCommit {
+  sha: string;
+  timestamp: number;
+  contributorId: string;
+  contributorName: string;
+  htmlUrl: string | null;
+  /** Files of the inspected node (or all files, for a contributor) the commit changed */
+  fileCount: number;
+  additions: number;
+  deletions: number;
+  /** Change type for a single file; null when several files are involved */
+  changeType: GourceFileChange['type'] | null;
+}
+
+/** Inspector details, computed from commits played up to the current time. */
+export type GourceInspection =
+  | {
+      kind: 'node';
+      path: string;
+      /** Null while the node isn't in the scene at the current time */
+      node: GourceNode | null;
+      commits: GourceInspectedCommit[];
+      totalCommits: number;
+      contributors: { id: string; name: string; color: string; commitCount: number }[];
+    }
+  | {
+      kind: 'contributor';
+      id: string;
+      contributor: GourceContributor | null;
+      commits: GourceInspectedCommit[];
+      totalCommits: number;
+      filesTouched: number;
+      additions: number;
+      deletions: number;
+      topDirectories: { path: string; commitCount: number }[];
+      isPinned: boolean;
+    };
+
 /** Commit beam animation (line from contributor to file). */
 export interface GourceBeam {
   fromX: number;
@@ -803,6 +1145,26 @@ export interface GourceParticle {
   maxTtl: number;
 }
 
+/** Options for rendering the Gource animation offline to a video file. */
+export interface GourceVideoExportOptions {
+  width: number;
+  height: number;
+  fps: number;
+  /** Length of the animation itself, excluding the title card */
+  durationSeconds: number;
+  /** Title card shown before the animation; null to start straight away */
+  titleCard: { title: string; subtitle: string } | null;
+}
+
+/** Progress of a running video export. */
+export interface GourceVideoExportProgress {
+  phase: 'preparing' | 'rendering' | 'finalizing';
+  frame: number;
+  totalFrames: number;
+  /** Which encoder produced the file */
+  encoder: 'webcodecs' | 'mediarecorder';
+}
+
 // =============================================================================
 // GAME ENGINE / RENDER LOOP
 // =============================================================================
@@ -819,6 +1181,18 @@ export interface GameLoopState {
   fixedTimestep: number;
 }
 
+/** Backend that draws the Gource scene. */
+export type GourceRenderBackend = 'webgl2' | 'canvas2d';
+
+/** Render statistics the engine reports about twice a second. */
+export interface GourceRenderStats {
+  fps: number;
+  nodeCount: number;
+  edgeCount: number;
+  beamCount: number;
+  renderer: GourceRenderBackend;
+}
+
 /** Render context passed to render functions. */
 export interface RenderContext {
   ctx: CanvasRenderingContext2D;
@@ -903,6 +1277,8 @@ export interface GitDataState {
   lastRefreshed: number | null;
   totalReposToFetch: number;
   reposCompletedCount: number;
+  /** People behind the loaded commits; commits and contributors use their canonical authors */
+  identities: ResolvedIdentity[];
 }
 
 /** Fetch status for a single repository's data. */
@@ -929,6 +1305,16 @@ export interface GitDataActions {
   setGourceEvents: (events: GourceCommitEvent[]) => void;
   updateFetchStatus: (repoId: string, status: Partial<RepoFetchStatus>) => void;
   fetchSelectedRepoData: () => Promise<void>;
+  /** Add (or replace) locally imported repositories and their commits, and select them */
+  importLocalRepositories: (imports: LocalRepositoryImport[]) => void;
+  /** Add (or replace by fullName) repositories listed from a self-hosted provider */
+  mergeRepositories: (repos: Repository[]) => void;
+  /** Replace the .mailmap rules (null clears them) */
+  setMailmap: (text: string | null) => void;
+  /** Fold the identity owning aliasKey into the identity owning targetKey */
+  mergeIdentities: (aliasKey: string, targetKey: string) => void;
+  /** Pull one alias back out into its own identity */
+  splitIdentityAlias: (aliasKey: string) => void;
   clearData: () => void;
   refreshData: () => Promise<void>;
 }
@@ -959,6 +1345,140 @@ export interface GitHubRateLimit {
   isLimited: boolean;
 }
 
+/** Remote sources that serve repositories over an HTTP API. */
+export type RemoteRepositorySource =
+  | RepositorySource.GITHUB
+  | RepositorySource.GITLAB
+  | RepositorySource.GITEA;
+
+/** Account behind a provider token, returned when a connection is validated. */
+export interface ProviderUser {
+  login: string;
+  name: string | null;
+  avatarUrl: string | null;
+}
+
+/** A self-hosted provider connection as reported to the client (never includes the token). */
+export interface ProviderConnection {
+  source: RemoteRepositorySource;
+  baseUrl: string;
+  user: ProviderUser | null;
+}
+
+/** Server-side provider credentials, read from cookies by API routes. */
+export interface ProviderCredentials {
+  source: RemoteRepositorySource;
+  token: string;
+  /** Instance root for self-hosted providers; null for GitHub */
+  baseUrl: string | null;
+}
+
+/** Repository listing options shared by every provider. */
+export interface ProviderRepoListOptions {
+  page: number;
+  perPage: number;
+  sort: 'created' | 'updated' | 'pushed' | 'full_name';
+  direction: 'asc' | 'desc';
+  /** GitHub-only ownership filters; other providers list repos the user is a member of */
+  type?: 'all' | 'owner' | 'public' | 'private' | 'member';
+  affiliation?: string;
+}
+
+/** Repository statistics (GitHub's /stats endpoints). */
+export interface ProviderRepoStats {
+  weeklyCommitCounts: number[];
+  participation: {
+    all: number[];
+    owner: number[];
+  };
+  codeFrequency: Array<[number, number, number]>;
+  totalCommitCount: number;
+  contributorStats: Array<{
+    login: string;
+    avatarUrl: string;
+    totalCommits: number;
+    totalAdditions: number;
+    totalDeletions: number;
+  }>;
+}
+
+/**
+ * A remote git hosting API normalized into Repository / CommitData / Contributor.
+ *
+ * Repos are addressed by `owner` + `repo` path segments; GitLab owners may
+ * contain slashes (nested groups). Pagination and rate limits use the
+ * GitHub-shaped types above — providers without rate limiting report an
+ * unlimited budget.
+ */
+/** A git tag as listed by a hosting provider. */
+export interface ProviderTag {
+  name: string;
+  /** SHA of the tagged commit */
+  sha: string;
+  /** ISO date of the tagged commit, when the API includes it */
+  date: string | null;
+  /** Annotated tag message, if any */
+  message: string | null;
+}
+
+export interface GitProvider {
+  readonly source: RemoteRepositorySource;
+  /** Human-readable provider name for error messages */
+  readonly label: string;
+  /** Repository.id / fullName for a repo on this provider */
+  getRepoId: (owner: string, repo: string) => string;
+  validateConnection: () => Promise<ProviderUser>;
+  listRepositories: (options: ProviderRepoListOptions) => Promise<{
+    repos: Repository[];
+    pagination: GitHubPagination;
+    rateLimit: GitHubRateLimit;
+  }>;
+  searchRepositories: (query: string, page: number, perPage: number) => Promise<{
+    repos: Repository[];
+    totalCount: number;
+    rateLimit: GitHubRateLimit;
+  }>;
+  fetchAllCommits: (
+    owner: string,
+    repo: string,
+    options?: {
+      since?: string;
+      until?: string;
+      onProgress?: (fetched: number, estimated: number | null) => void;
+    }
+  ) => Promise<{ commits: CommitData[]; rateLimit: GitHubRateLimit }>;
+  fetchLanguages: (owner: string, repo: string) => Promise<Record<string, number>>;
+  /** Omitted when the API has no contributor endpoint — callers derive them from commits */
+  fetchContributors?: (owner: string, repo: string) => Promise<Contributor[]>;
+  /** Omitted when the provider has no statistics endpoints */
+  fetchStats?: (owner: string, repo: string) => Promise<ProviderRepoStats>;
+  /** Tags, newest first as the API lists them */
+  fetchTags: (owner: string, repo: string) => Promise<ProviderTag[]>;
+  /** SHA at the tip of a branch */
+  fetchBranchHead: (owner: string, repo: string, branch: string) => Promise<string>;
+  /** Whether ancestorSha is reachable from headSha — false once history was rewritten */
+  isAncestor: (owner: string, repo: string, ancestorSha: string, headSha: string) => Promise<boolean>;
+  getRateLimit: () => GitHubRateLimit;
+}
+
+/**
+ * Outcome of an incremental sync:
+ * - unchanged: the default branch still points at the cached head
+ * - fast-forward: new commits on top of the cached history
+ * - rewritten: the cached head is no longer reachable (force-push / rebase)
+ */
+export type RepoSyncStatus = 'unchanged' | 'fast-forward' | 'rewritten';
+
+/** Per-repo result from POST /api/github/commits/sync. */
+export interface RepoSyncResult {
+  repoId: string;
+  status: RepoSyncStatus;
+  headSha: string | null;
+  /** Commits since the high-water mark — empty unless fast-forward */
+  commits: CommitData[];
+  error: string | null;
+}
+
 /** Claude API request payload. */
 export interface ClaudeApiRequest {
   model: string;
@@ -987,6 +1507,17 @@ export interface ClaudeStreamChunk {
   isFinal: boolean;
 }
 
+/** Backend the story routes send prompts to, chosen by the LLM_PROVIDER env var. */
+export type LlmProviderId = 'anthropic' | 'openai-compatible';
+
+/** What GET /api/story/provider tells clients about the configured backend. */
+export interface LlmProviderInfo {
+  id: LlmProviderId;
+  /** The model actually called, or null when each route picks its own Claude model */
+  model: string | null;
+  contextTokens: number;
+}
+
 /** Generic API route response wrapper. */
 export interface ApiResponse<T = unknown> {
   success: boolean;
@@ -1014,6 +1545,21 @@ export interface CacheEntry<T = unknown> {
   version: number;
 }
 
+/**
+ * Per-repo high-water marks stored with the commit cache. Refreshes request
+ * only commits since `newestTimestamp` once `headSha` (or `newestSha` for
+ * entries cached before their first sync) is confirmed to still be an
+ * ancestor of the default branch.
+ */
+export interface RepoSyncState {
+  newestSha: string | null;
+  newestTimestamp: string | null;
+  defaultBranch: string;
+  /** Default-branch tip at the last sync; null until the first sync */
+  headSha: string | null;
+  syncedAt: number;
+}
+
 /** Cache configuration for IndexedDB. */
 export interface CacheConfig {
   defaultTtl: number;
@@ -1161,6 +1707,21 @@ export interface GitHubOAuthConnectProps {
   isConnecting: boolean;
 }
 
+/** Props for the local git log import card on the connect page. */
+export interface LocalGitImportProps {
+  importedRepos: Repository[];
+  onImport: (imports: LocalRepositoryImport[]) => void;
+}
+
+/** Props for the GitLab / Gitea connection card. */
+export interface SelfHostedProviderConnectProps {
+  /** Repositories already listed from self-hosted providers */
+  repositories: Repository[];
+  selectedIds: ReadonlySet<string>;
+  onRepositoriesLoaded: (repos: Repository[]) => void;
+  onToggleRepo: (repoId: string) => void;
+}
+
 /** Props for selected repos summary bar. */
 export interface SelectedReposSummaryProps {
   selectedCount: number;
@@ -1252,6 +1813,21 @@ export interface UseGourcePlaybackReturn {
   state: PlaybackState;
 }
 
+/** Return type of useCommitFileHydration hook. */
+export interface UseCommitFileHydrationReturn {
+  /** Commits that have real file data (from the API, cache, or hydration) */
+  realFileCount: number;
+  totalCount: number;
+  /** realFileCount / totalCount, 0–1 */
+  coverage: number;
+  isHydrating: boolean;
+  /** True while waiting for the GitHub rate limit window to reset */
+  isPaused: boolean;
+  error: string | null;
+  /** All file lists hydrated so far, keyed by SHA */
+  getHydratedFiles: () => Map<string, CommitFile[]>;
+}
+
 /** Return type of useWrappedSlideshow hook. */
 export interface UseWrappedSlideshowReturn {
   currentSlide: number;
@@ -1547,6 +2123,12 @@ export const DEFAULT_GOURCE_SETTINGS: GourceSettings = {
   springStiffness: 0.015,
   repulsionForce: 120,
   skipDeadTime: true,
+  renderer: 'auto',
+  cameraMode: 'auto',
+  cameraScript: null,
+  colorMode: 'extension',
+  pathRules: { presets: [], include: [], exclude: [], maxDepth: null },
+  repoPathRules: {},
 } as const;
 
 /** Default camera state. */
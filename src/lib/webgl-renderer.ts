@@ -2,7 +2,8 @@
 // WEBGL2 INSTANCED RENDERER
 // =============================================================================
 // Replaces per-node Canvas 2D draw calls with ~10 instanced WebGL2 draw calls.
-// Falls back to Canvas 2D if WebGL2 is unavailable.
+// GourceEngine composites the result into its 2D canvas, which draws text,
+// avatars and overlays on top — and everything when WebGL2 is unavailable.
 
 import {
   FULLSCREEN_QUAD_VS,
@@ -40,8 +41,6 @@ export interface RenderSceneData {
   settings: GourceSettings;
   simulationTime: number;
   viewport: Bounds;
-  fps: number;
-  currentDate: string;
 }
 
 /** Common interface for rendering backends (WebGL2 or Canvas 2D fallback). */
@@ -74,8 +73,8 @@ interface BloomFBO {
  *
  * Replaces per-node Canvas 2D draw calls with a small number of instanced
  * WebGL2 draw calls. Renders nodes, edges, beams, particles, and contributors
- * with per-instance attributes uploaded each frame. Includes a Canvas 2D HUD
- * overlay for text elements.
+ * with per-instance attributes uploaded each frame. Text is left to the
+ * caller's Canvas 2D pass.
  */
 export class WebGLRenderer implements IGourceRenderer {
   readonly isWebGL = true;
@@ -122,11 +121,6 @@ export class WebGLRenderer implements IGourceRenderer {
   private particleInstanceData: Float32Array = new Float32Array(0);
   private contributorInstanceData: Float32Array = new Float32Array(0);
 
-  // HUD overlay (Canvas 2D for text only)
-  private hudCanvas: HTMLCanvasElement | null = null;
-  private hudCtx: CanvasRenderingContext2D | null = null;
-  private hudTexture: WebGLTexture | null = null;
-
   initialize(canvas: HTMLCanvasElement): boolean {
     const gl = canvas.getContext('webgl2', {
       alpha: false,
@@ -166,10 +160,6 @@ export class WebGLRenderer implements IGourceRenderer {
     this.createGeometry(gl);
     this.createInstanceBuffers(gl);
 
-    // Create HUD canvas
-    this.hudCanvas = document.createElement('canvas');
-    this.hudCtx = this.hudCanvas.getContext('2d');
-
     this.resize(canvas.clientWidth, canvas.clientHeight);
 
     return true;
@@ -193,12 +183,6 @@ export class WebGLRenderer implements IGourceRenderer {
 
     // Recreate FBOs at new size
     this.createBloomFBOs(this.gl, pw, ph);
-
-    // Resize HUD canvas
-    if (this.hudCanvas) {
-      this.hudCanvas.width = pw;
-      this.hudCanvas.height = ph;
-    }
   }
 
   render(scene: RenderSceneData): void {
@@ -238,9 +222,6 @@ export class WebGLRenderer implements IGourceRenderer {
     if (settings.showAvatars) {
       this.renderContributors(gl, contributors, viewport, viewMatrix, camera);
     }
-
-    // 8. HUD overlay (text via Canvas 2D)
-    this.renderHUD(scene);
   }
 
   dispose(): void {
@@ -274,7 +255,8 @@ export class WebGLRenderer implements IGourceRenderer {
     this.deleteFBO(gl, this.bloomFBO1);
     this.deleteFBO(gl, this.bloomFBO2);
 
-    if (this.hudTexture) gl.deleteTexture(this.hudTexture);
+    // Browsers cap live contexts; release ours now rather than at GC
+    gl.getExtension('WEBGL_lose_context')?.loseContext();
 
     this.gl = null;
     this.canvas = null;
@@ -816,54 +798,6 @@ export class WebGLRenderer implements IGourceRenderer {
     }
     gl.bindVertexArray(null);
   }
-
-  private renderHUD(scene: RenderSceneData): void {
-    if (!this.hudCtx || !this.hudCanvas) return;
-
-    const ctx = this.hudCtx;
-    const w = this.width;
-    const h = this.height;
-    const pr = this.pixelRatio;
-
-    ctx.clearRect(0, 0, this.hudCanvas.width, this.hudCanvas.height);
-    ctx.save();
-    ctx.scale(pr, pr);
-
-    // Date overlay
-    const dateStr = scene.currentDate;
-    const fontSize = Math.min(28, w * 0.035);
-    ctx.font = `bold ${fontSize}px "SF Mono", "Fira Code", monospace`;
-    ctx.textAlign = 'right';
-    ctx.textBaseline = 'top';
-
-    const dateWidth = ctx.measureText(dateStr).width;
-    const px = 16, py = 8;
-    const boxX = w - 20 - dateWidth - px;
-    const boxY = 16;
-
-    ctx.fillStyle = 'rgba(0,0,0,0.35)';
-    ctx.beginPath();
-    ctx.roundRect(boxX, boxY, dateWidth + px * 2, fontSize + py * 2, 8);
-    ctx.fill();
-
-    ctx.fillStyle = 'rgba(255,255,255,0.6)';
-    ctx.fillText(dateStr, w - 20 - px + 4, boxY + py);
-
-    // Stats
-    const nodeCount = scene.buffers.count;
-    ctx.fillStyle = 'rgba(255,255,255,0.25)';
-    ctx.font = '11px -apple-system, system-ui, sans-serif';
-    ctx.fillText(
-      `${nodeCount} nodes · ${scene.fps} fps`,
-      w - 20 - px + 4,
-      boxY + fontSize + py + 8,
-    );
-
-    ctx.restore();
-
-    // Composite HUD onto WebGL canvas using CSS layering
-    // The HUD canvas is positioned on top of the WebGL canvas in the DOM
-  }
 }
 
 // =============================================================================
@@ -913,21 +847,27 @@ function parseContributorColor(color: string): { r: number; g: number; b: number
 // WEBGL2 FEATURE DETECTION
 // =============================================================================
 
-/** Detect whether WebGL2 with required extensions is available. */
+let _webgl2Available: boolean | null = null;
+
+/**
+ * Detect whether WebGL2 with required extensions is available. The probe
+ * costs a context, so the answer is cached for the page's lifetime.
+ */
 export function isWebGL2Available(): boolean {
   if (typeof document === 'undefined') return false;
+  if (_webgl2Available !== null) return _webgl2Available;
+  _webgl2Available = false;
   try {
     const canvas = document.createElement('canvas');
     const gl = canvas.getContext('webgl2');
     if (gl) {
       // Check for required extensions
-      const hasFloat = gl.getExtension('EXT_color_buffer_float');
-      canvas.remove();
-      return !!hasFloat;
+      _webgl2Available = !!gl.getExtension('EXT_color_buffer_float');
+      gl.getExtension('WEBGL_lose_context')?.loseContext();
     }
     canvas.remove();
   } catch {
     // ignore
   }
-  return false;
+  return _webgl2Available;
 }
@@ -0,0 +1,190 @@
+// =============================================================================
+// WEBM MUXER — wrap WebCodecs VP8/VP9 chunks in a playable .webm file
+// =============================================================================
+//
+// WebCodecs hands back bare encoded frames; browsers play them only inside a
+// container. This writes the smallest Matroska subset players accept: an EBML
+// header, one Segment with Info (incl. duration), a single video track and
+// Clusters of SimpleBlocks. A new Cluster starts at every keyframe, which also
+// keeps block timecodes inside their signed 16-bit range.
+
+export type WebmVideoCodec = 'V_VP8' | 'V_VP9';
+
+export interface WebmMuxerOptions {
+  codec: WebmVideoCodec;
+  width: number;
+  height: number;
+}
+
+// Element IDs (already carrying their length marker bits)
+const EBML = 0x1a45dfa3;
+const EBML_VERSION = 0x4286;
+const EBML_READ_VERSION = 0x42f7;
+const EBML_MAX_ID_LENGTH = 0x42f2;
+const EBML_MAX_SIZE_LENGTH = 0x42f3;
+const DOC_TYPE = 0x4282;
+const DOC_TYPE_VERSION = 0x4287;
+const DOC_TYPE_READ_VERSION = 0x4285;
+const SEGMENT = 0x18538067;
+const INFO = 0x1549a966;
+const TIMECODE_SCALE = 0x2ad7b1;
+const MUXING_APP = 0x4d80;
+const WRITING_APP = 0x5741;
+const DURATION = 0x4489;
+const TRACKS = 0x1654ae6b;
+const TRACK_ENTRY = 0xae;
+const TRACK_NUMBER = 0xd7;
+const TRACK_UID = 0x73c5;
+const TRACK_TYPE = 0x83;
+const CODEC_ID = 0x86;
+const VIDEO = 0xe0;
+const PIXEL_WIDTH = 0xb0;
+const PIXEL_HEIGHT = 0xba;
+const CLUSTER = 0x1f43b675;
+const TIMECODE = 0xe7;
+const SIMPLE_BLOCK = 0xa3;
+
+// =============================================================================
+// EBML ENCODING
+// =============================================================================
+
+function idBytes(id: number): number[] {
+  const bytes: number[] = [];
+  for (let v = id; v > 0; v = Math.floor(v / 256)) bytes.unshift(v % 256);
+  return bytes;
+}
+
+/** Variable-length size field with the shortest width that fits. */
+function sizeBytes(size: number): number[] {
+  let width = 1;
+  while (width < 8 && size >= 2 ** (7 * width) - 1) width++;
+  const bytes = new Array<number>(width);
+  for (let i = width - 1, v = size; i >= 0; i--, v = Math.floor(v / 256)) bytes[i] = v % 256;
+  bytes[0] |= 0x80 >> (width - 1);
+  return bytes;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function element(id: number, payload: Uint8Array): Uint8Array {
+  return concat([new Uint8Array([...idBytes(id), ...sizeBytes(payload.length)]), payload]);
+}
+
+function master(id: number, children: Uint8Array[]): Uint8Array {
+  return element(id, concat(children));
+}
+
+function uint(id: number, value: number): Uint8Array {
+  const bytes: number[] = [];
+  for (let v = value; v > 0 || bytes.length === 0; v = Math.floor(v / 256)) bytes.unshift(v % 256);
+  return element(id, new Uint8Array(bytes));
+}
+
+function float(id: number, value: number): Uint8Array {
+  const payload = new Uint8Array(8);
+  new DataView(payload.buffer).setFloat64(0, value);
+  return element(id, payload);
+}
+
+function text(id: number, value: string): Uint8Array {
+  return element(id, new TextEncoder().encode(value));
+}
+
+// =============================================================================
+// MUXER
+// =============================================================================
+
+interface PendingCluster {
+  timecodeMs: number;
+  blocks: Uint8Array[];
+}
+
+/** Collects encoded chunks in memory and assembles the file on finalize(). */
+export class WebmMuxer {
+  private readonly options: WebmMuxerOptions;
+  private clusters: Uint8Array[] = [];
+  private current: PendingCluster | null = null;
+  private endMs = 0;
+
+  constructor(options: WebmMuxerOptions) {
+    this.options = options;
+  }
+
+  /** Append one encoded frame. Chunks must arrive in presentation order. */
+  addChunk(chunk: EncodedVideoChunk): void {
+    const data = new Uint8Array(chunk.byteLength);
+    chunk.copyTo(data);
+
+    const timeMs = Math.round(chunk.timestamp / 1000);
+    const isKey = chunk.type === 'key';
+    this.endMs = Math.max(this.endMs, timeMs + Math.round((chunk.duration ?? 0) / 1000));
+
+    if (!this.current || isKey || timeMs - this.current.timecodeMs > 32767) {
+      this.flushCluster();
+      this.current = { timecodeMs: timeMs, blocks: [] };
+    }
+
+    const relative = timeMs - this.current.timecodeMs;
+    const header = new Uint8Array(4);
+    header[0] = 0x81; // track number 1 as a 1-byte vint
+    new DataView(header.buffer).setInt16(1, relative);
+    header[3] = isKey ? 0x80 : 0x00;
+    this.current.blocks.push(element(SIMPLE_BLOCK, concat([header, data])));
+  }
+
+  /** Assemble the complete .webm file. */
+  finalize(): Blob {
+    this.flushCluster();
+
+    const header = master(EBML, [
+      uint(EBML_VERSION, 1),
+      uint(EBML_READ_VERSION, 1),
+      uint(EBML_MAX_ID_LENGTH, 4),
+      uint(EBML_MAX_SIZE_LENGTH, 8),
+      text(DOC_TYPE, 'webm'),
+      uint(DOC_TYPE_VERSION, 2),
+      uint(DOC_TYPE_READ_VERSION, 2),
+    ]);
+
+    const info = master(INFO, [
+      uint(TIMECODE_SCALE, 1000000),
+      text(MUXING_APP, 'gitted'),
+      text(WRITING_APP, 'gitted'),
+      float(DURATION, this.endMs),
+    ]);
+
+    const tracks = master(TRACKS, [
+      master(TRACK_ENTRY, [
+        uint(TRACK_NUMBER, 1),
+        uint(TRACK_UID, 1),
+        uint(TRACK_TYPE, 1),
+        text(CODEC_ID, this.options.codec),
+        master(VIDEO, [
+          uint(PIXEL_WIDTH, this.options.width),
+          uint(PIXEL_HEIGHT, this.options.height),
+        ]),
+      ]),
+    ]);
+
+    // The segment is written piecewise so clusters are never copied again
+    const body = [info, tracks, ...this.clusters];
+    const bodySize = body.reduce((sum, part) => sum + part.length, 0);
+    const segmentHeader = new Uint8Array([...idBytes(SEGMENT), ...sizeBytes(bodySize)]);
+
+    return new Blob([header, segmentHeader, ...body] as BlobPart[], { type: 'video/webm' });
+  }
+
+  private flushCluster(): void {
+    if (!this.current) return;
+    this.clusters.push(master(CLUSTER, [uint(TIMECODE, this.current.timecodeMs), ...this.current.blocks]));
+    this.current = null;
+  }
+}
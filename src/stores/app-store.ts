@@ -1,7 +1,11 @@
 "use client";
 
 import { create } from "zustand";
-import { ProcessingStatus } from "@/lib/types";
+import { persist } from "zustand/middleware";
+import type { BotFilterSetting, IdentityRules, TimeZoneSetting } from "@/lib/types";
+import { EMPTY_IDENTITY_RULES } from "@/lib/identity-resolver";
+import { DEFAULT_BOT_FILTER } from "@/lib/bot-classifier";
+import { ProcessingStatus, TimeZoneMode } from "@/lib/types";
 
 // App-level state store
 
@@ -26,6 +30,12 @@ export interface AppState {
   processingStatus: ProcessingStatus;
   /** Current wrapped slideshow index */
   wrappedSlideIndex: number;
+  /** Zone that hour/weekday analytics are bucketed in (persisted) */
+  timeZone: TimeZoneSetting;
+  /** .mailmap entries and manual identity merges/splits (persisted) */
+  identityRules: IdentityRules;
+  /** Whether and how automated commits are left out of analytics (persisted) */
+  botFilter: BotFilterSetting;
 }
 
 export interface AppActions {
@@ -39,6 +49,9 @@ export interface AppActions {
   setSelectedRepos: (repos: string[]) => void;
   setProcessingStatus: (status: ProcessingStatus) => void;
   setWrappedSlideIndex: (index: number) => void;
+  setTimeZone: (timeZone: TimeZoneSetting) => void;
+  setIdentityRules: (rules: IdentityRules) => void;
+  setBotFilter: (botFilter: BotFilterSetting) => void;
   reset: () => void;
 }
 
@@ -53,34 +66,56 @@ const initialState: AppState = {
   selectedRepos: [],
   processingStatus: ProcessingStatus.IDLE,
   wrappedSlideIndex: 0,
+  timeZone: { mode: TimeZoneMode.AUTHOR, zone: null },
+  identityRules: EMPTY_IDENTITY_RULES,
+  botFilter: DEFAULT_BOT_FILTER,
 };
 
-export const useAppStore = create<AppState & AppActions>((set) => ({
-  ...initialState,
+export const useAppStore = create<AppState & AppActions>()(
+  persist(
+    (set) => ({
+      ...initialState,
 
-  setInitialized: (value: boolean) => set({ isInitialized: value }),
+      setInitialized: (value: boolean) => set({ isInitialized: value }),
 
-  setCurrentStep: (step: AppState["currentStep"]) =>
-    set({ currentStep: step }),
+      setCurrentStep: (step: AppState["currentStep"]) =>
+        set({ currentStep: step }),
 
-  setDarkMode: (value: boolean) => set({ isDarkMode: value }),
+      setDarkMode: (value: boolean) => set({ isDarkMode: value }),
 
-  setMuted: (value: boolean) => set({ isMuted: value }),
+      setMuted: (value: boolean) => set({ isMuted: value }),
 
-  setVolume: (value: number) => set({ volume: Math.max(0, Math.min(1, value)) }),
+      setVolume: (value: number) => set({ volume: Math.max(0, Math.min(1, value)) }),
 
-  setFullscreen: (value: boolean) => set({ isFullscreen: value }),
+      setFullscreen: (value: boolean) => set({ isFullscreen: value }),
 
-  setError: (error: string | null) => set({ error }),
+      setError: (error: string | null) => set({ error }),
 
-  setSelectedRepos: (repos: string[]) => set({ selectedRepos: repos }),
+      setSelectedRepos: (repos: string[]) => set({ selectedRepos: repos }),
 
-  setProcessingStatus: (status: ProcessingStatus) => set({ processingStatus: status }),
+      setProcessingStatus: (status: ProcessingStatus) => set({ processingStatus: status }),
 
-  setWrappedSlideIndex: (index: number) => set({ wrappedSlideIndex: index }),
+      setWrappedSlideIndex: (index: number) => set({ wrappedSlideIndex: index }),
 
-  reset: () => set(initialState),
-}));
+      setTimeZone: (timeZone: TimeZoneSetting) => set({ timeZone }),
+
+      setIdentityRules: (rules: IdentityRules) => set({ identityRules: rules }),
+
+      setBotFilter: (botFilter: BotFilterSetting) => set({ botFilter }),
+
+      reset: () => set(initialState),
+    }),
+    {
+      name: "gitted-app-preferences",
+      // Only user preferences survive a reload; flow state starts fresh
+      partialize: (state) => ({
+        timeZone: state.timeZone,
+        identityRules: state.identityRules,
+        botFilter: state.botFilter,
+      }),
+    }
+  )
+);
 
 // Selectors
 export const selectSelectedRepos = (state: AppState & AppActions) => state.selectedRepos;